@@ -54,6 +54,7 @@ contract PatientAccess is ReentrancyGuard {
         uint256 price;
         Status status;
         bytes32 manifestHash;        // proof of fulfillment
+        bytes32 scopeHash;           // hash of the off-chain study scope (0 = all studies)
     }
 
     struct AccessBatch {
@@ -96,6 +97,7 @@ contract PatientAccess is ReentrancyGuard {
         address token,
         uint256 price
     );
+    event AccessScoped(uint256 indexed id, bytes32 scopeHash);
     event PatientApproved(uint256 indexed id);
     event AccessFulfilled(uint256 indexed id, bytes32 manifestHash);
     event AccessCanceled(uint256 indexed id);
@@ -132,6 +134,8 @@ contract PatientAccess is ReentrancyGuard {
     /* ------------ Clinic registry ------------ */
     function registerClinic(string calldata clinicId, address payout, address operator) external {
         bytes32 key = _ckey(clinicId);
+        // a registered clinic changes its payout / operator through updateClinic, which checks the caller
+        require(!clinics[key].registered, "CLINIC_ALREADY_REGISTERED");
         clinics[key].registered = true;
         clinics[key].clinicId  = clinicId;
         clinics[key].payout    = (payout == address(0)) ? msg.sender : payout;
@@ -174,6 +178,26 @@ contract PatientAccess is ReentrancyGuard {
         string calldata requesterClinicId,
         Mode mode
     ) external nonReentrant returns (uint256 id) {
+        return _requestPatientAccess(patient, providerClinicId, requesterClinicId, mode, bytes32(0));
+    }
+
+    function requestPatientAccessWithScope(
+        address patient,
+        string calldata providerClinicId,
+        string calldata requesterClinicId,
+        Mode mode,
+        bytes32 scopeHash
+    ) external nonReentrant returns (uint256 id) {
+        return _requestPatientAccess(patient, providerClinicId, requesterClinicId, mode, scopeHash);
+    }
+
+    function _requestPatientAccess(
+        address patient,
+        string calldata providerClinicId,
+        string calldata requesterClinicId,
+        Mode mode,
+        bytes32 scopeHash
+    ) internal returns (uint256 id) {
         bytes32 prov = _ckey(providerClinicId);
         bytes32 reqr = _ckey(requesterClinicId);
         _onlyRequester(reqr);
@@ -188,6 +212,18 @@ contract PatientAccess is ReentrancyGuard {
         // requester deposits to escrow
         require(IERC20(token).transferFrom(msg.sender, address(this), price), "ESCROW_TRANSFER_FAIL");
 
+        id = _storeRequest(patient, prov, reqr, mode, token, price, scopeHash);
+    }
+
+    function _storeRequest(
+        address patient,
+        bytes32 prov,
+        bytes32 reqr,
+        Mode mode,
+        address token,
+        uint256 price,
+        bytes32 scopeHash
+    ) internal returns (uint256 id) {
         id = ++nextReqId;
         reqs[id] = AccessRequest({
             id: id,
@@ -198,10 +234,12 @@ contract PatientAccess is ReentrancyGuard {
             token: token,
             price: price,
             status: Status.REQUESTED,
-            manifestHash: bytes32(0)
+            manifestHash: bytes32(0),
+            scopeHash: scopeHash
         });
 
         emit AccessRequested(id, patient, prov, reqr, mode, token, price);
+        if (scopeHash != bytes32(0)) emit AccessScoped(id, scopeHash);
     }
 
     /* ------------ Patient approval ------------ */
@@ -259,6 +297,27 @@ contract PatientAccess is ReentrancyGuard {
         string[] calldata providerClinicIds,
         Mode mode
     ) external nonReentrant returns (uint256 batchId, uint256[] memory childIds, uint256 totalPrice, address token) {
+        return _createAccessBatch(patient, requesterClinicId, providerClinicIds, mode, bytes32(0));
+    }
+
+    /// @dev The same scope applies to every child request of the batch.
+    function createAccessBatchWithScope(
+        address patient,
+        string calldata requesterClinicId,
+        string[] calldata providerClinicIds,
+        Mode mode,
+        bytes32 scopeHash
+    ) external nonReentrant returns (uint256 batchId, uint256[] memory childIds, uint256 totalPrice, address token) {
+        return _createAccessBatch(patient, requesterClinicId, providerClinicIds, mode, scopeHash);
+    }
+
+    function _createAccessBatch(
+        address patient,
+        string calldata requesterClinicId,
+        string[] calldata providerClinicIds,
+        Mode mode,
+        bytes32 scopeHash
+    ) internal returns (uint256 batchId, uint256[] memory childIds, uint256 totalPrice, address token) {
         bytes32 reqr = _ckey(requesterClinicId);
         _onlyRequester(reqr);
         require(providerClinicIds.length > 0, "EMPTY_PROVIDERS");
@@ -277,20 +336,7 @@ contract PatientAccess is ReentrancyGuard {
             require(p > 0, "PRICE_ZERO");
             if (i == 0) token0 = t; else require(t == token0, "TOKEN_MISMATCH");
 
-            uint256 id = ++nextReqId;
-            reqs[id] = AccessRequest({
-                id: id,
-                patient: patient,
-                providerClinicKey: prov,
-                requesterClinicKey: reqr,
-                mode: mode,
-                token: t,
-                price: p,
-                status: Status.REQUESTED,
-                manifestHash: bytes32(0)
-            });
-            emit AccessRequested(id, patient, prov, reqr, mode, t, p);
-            childIds[i] = id;
+            childIds[i] = _storeRequest(patient, prov, reqr, mode, t, p, scopeHash);
             totalPrice += p;
         }
 
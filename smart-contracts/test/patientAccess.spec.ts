@@ -1,13 +1,139 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import type { Contract, Signer } from "ethers";
 
+const READ = 0;
+const COPY = 1;
+const FULFILLED = 2;
 
-// NOTE: 実際にはERC20モックを用意してtransferFrom/transferを検証
-
+// worker/test/scope.test.ts と同じスコープ文書のハッシュ
+const SCOPE_HASH = "0x793926b650e25d8120bddf3791ea192479d514c62c12f3a3187bd111f0214df9";
 
 describe("PatientAccess", () => {
-it("registers clinics, sets prices, creates request and fulfills", async () => {
-// 実装は省略（ERC20モック必須）
-expect(true).to.eq(true);
+  let access: Contract;
+  let token: Contract;
+  let otherToken: Contract;
+  let requester: Signer;
+  let provider: Signer;
+  let provider2: Signer;
+  let patient: Signer;
+  let patientAddress: string;
+
+  beforeEach(async () => {
+    const [admin, ...rest] = await ethers.getSigners();
+    [requester, provider, provider2, patient] = rest;
+    patientAddress = await patient.getAddress();
+
+    token = await ethers.deployContract("MockERC20", [1_000_000]);
+    otherToken = await ethers.deployContract("MockERC20", [1_000_000]);
+    access = await ethers.deployContract("PatientAccess");
+    const accessAddress = await access.getAddress();
+
+    // PROV-001 / PROV-002 は同じトークン、PROV-003 だけ別トークンで価格を設定する
+    for (const [clinicId, signer] of [
+      ["REQ-001", requester],
+      ["PROV-001", provider],
+      ["PROV-002", provider2],
+      ["PROV-003", provider2],
+    ] as const) {
+      const address = await signer.getAddress();
+      await access.connect(admin).getFunction("registerClinic")(clinicId, address, address);
+    }
+    await access.connect(provider).getFunction("setPrice")("PROV-001", await token.getAddress(), 10, 20);
+    await access.connect(provider2).getFunction("setPrice")("PROV-002", await token.getAddress(), 30, 40);
+    await access.connect(provider2).getFunction("setPrice")("PROV-003", await otherToken.getAddress(), 50, 60);
+
+    await token.connect(admin).getFunction("transfer")(await requester.getAddress(), 1_000);
+    await otherToken.connect(admin).getFunction("transfer")(await requester.getAddress(), 1_000);
+    await token.connect(requester).getFunction("approve")(accessAddress, 1_000);
+    await otherToken.connect(requester).getFunction("approve")(accessAddress, 1_000);
+  });
+
+  const asRequester = (method: string) => access.connect(requester).getFunction(method);
+  const request = async (id: number) => access.getFunction("reqs")(id);
+
+  it("registers clinics, sets prices, creates request and fulfills", async () => {
+    await expect(asRequester("requestPatientAccess")(patientAddress, "PROV-001", "REQ-001", COPY)).to.changeTokenBalances(
+      token,
+      [requester, access],
+      [-20, 20]
+    );
+    await access.connect(patient).getFunction("approveByPatient")(1);
+
+    const manifestHash = ethers.id("manifest");
+    const tx = access.connect(provider).getFunction("markFulfilled")(1, manifestHash);
+    await expect(tx).to.emit(access, "AccessFulfilled").withArgs(1, manifestHash);
+    await expect(tx).to.changeTokenBalances(token, [access, provider], [-20, 20]);
+    const fulfilled = await request(1);
+    expect(fulfilled.status).to.eq(FULFILLED);
+    expect(fulfilled.manifestHash).to.eq(manifestHash);
+  });
+
+  it("stores the scope of a scoped request and announces it", async () => {
+    const tx = asRequester("requestPatientAccessWithScope")(patientAddress, "PROV-001", "REQ-001", READ, SCOPE_HASH);
+    await expect(tx).to.emit(access, "AccessScoped").withArgs(1, SCOPE_HASH);
+    await expect(tx).to.changeTokenBalances(token, [requester, access], [-10, 10]);
+    expect((await request(1)).scopeHash).to.eq(SCOPE_HASH);
+  });
+
+  it("stores bytes32(0) for requests and batches without a scope", async () => {
+    await expect(asRequester("requestPatientAccess")(patientAddress, "PROV-001", "REQ-001", READ)).not.to.emit(
+      access,
+      "AccessScoped"
+    );
+    await expect(
+      asRequester("requestPatientAccessWithScope")(patientAddress, "PROV-001", "REQ-001", READ, ethers.ZeroHash)
+    ).not.to.emit(access, "AccessScoped");
+    await expect(asRequester("createAccessBatch")(patientAddress, "REQ-001", ["PROV-001", "PROV-002"], READ)).not.to.emit(
+      access,
+      "AccessScoped"
+    );
+
+    for (const id of [1, 2, 3, 4]) {
+      expect((await request(id)).scopeHash).to.eq(ethers.ZeroHash);
+    }
+  });
+
+  it("applies the scope to every child of a scoped batch and escrows the total once", async () => {
+    const tx = asRequester("createAccessBatchWithScope")(patientAddress, "REQ-001", ["PROV-001", "PROV-002"], COPY, SCOPE_HASH);
+    await expect(tx).to.changeTokenBalances(token, [requester, access], [-60, 60]);
+    await expect(tx)
+      .to.emit(access, "AccessScoped")
+      .withArgs(1, SCOPE_HASH)
+      .and.to.emit(access, "AccessScoped")
+      .withArgs(2, SCOPE_HASH)
+      .and.to.emit(access, "AccessBatchCreated")
+      .withArgs(1, [1, 2], 60, await token.getAddress());
+
+    for (const [id, price] of [
+      [1, 20],
+      [2, 40],
+    ]) {
+      const child = await request(id);
+      expect(child.scopeHash).to.eq(SCOPE_HASH);
+      expect(child.price).to.eq(price);
+    }
+  });
+
+  it("rejects a scoped batch over providers priced in different tokens without storing or charging anything", async () => {
+    await expect(
+      asRequester("createAccessBatchWithScope")(patientAddress, "REQ-001", ["PROV-001", "PROV-003"], COPY, SCOPE_HASH)
+    ).to.be.revertedWith("TOKEN_MISMATCH");
+
+    expect(await access.getFunction("nextReqId")()).to.eq(0);
+    expect(await access.getFunction("nextBatchId")()).to.eq(0);
+    expect(await token.getFunction("balanceOf")(await access.getAddress())).to.eq(0);
+    expect(await otherToken.getFunction("balanceOf")(await access.getAddress())).to.eq(0);
+  });
+
+  it("refuses to register a clinic id twice so that its payout and operator cannot be taken over", async () => {
+    const intruder = await patient.getAddress();
+    await expect(access.connect(patient).getFunction("registerClinic")("PROV-001", intruder, intruder)).to.be.revertedWith(
+      "CLINIC_ALREADY_REGISTERED"
+    );
+
+    const clinic = await access.getFunction("clinics")(ethers.id("PROV-001"));
+    expect(clinic.payout).to.eq(await provider.getAddress());
+    expect(clinic.operator).to.eq(await provider.getAddress());
+  });
 });
-});
\ No newline at end of file
@@ -2,18 +2,47 @@ import React, { useState } from "react";
 import ProviderSettings from "./components/ProviderSettings";
 import RequesterDashboard from "./components/RequesterDashboard";
 import PatientApprovals from "./components/PatientApprovals";
+import PatientReceipts from "./components/PatientReceipts";
 import OrthancBrowser from "./components/OrthancBrowser";
 import AliasManager from "./components/AliasManager";
 import ClinicManager from "./components/ClinicManager";
 import AuditLogViewer from "./components/AuditLogViewer";
+import ManifestVerifier from "./components/ManifestVerifier";
+import ProviderDashboard from "./components/ProviderDashboard";
+import WalletStatus from "./components/WalletStatus";
 import { OnChainClinicList } from './components/OnChainClinicList';
+import { useAuth } from "./hooks/useAuth";
+
+type Tab = "patient" | "requester" | "provider" | "settings";
+
+// Roles that can use each tab; tabs without an entry are open to everyone (patients sign with their wallet)
+const TAB_ROLES: Partial<Record<Tab, readonly string[]>> = {
+  requester: ["requester.viewer", "worker.read", "worker.admin", "worker.superadmin"],
+  provider: ["worker.superadmin", "worker.admin", "clinic.operator"],
+  settings: ["worker.superadmin", "worker.admin", "clinic.operator"],
+};
+
+// Clinic configs, aliases and audit logs are admin routes on the worker; clinic.operator only gets Provider Settings
+const ADMIN_ROLES = ["worker.superadmin", "worker.admin"];
+
+const TAB_LABELS: Record<Tab, string> = {
+  patient: "Patient",
+  requester: "Requester",
+  provider: "Provider",
+  settings: "Settings & Admin",
+};
 
 export default function App() {
   const contractAddress = import.meta.env.VITE_CONTRACT as string;
   const ohifUrl = import.meta.env.VITE_OHIF_URL as string | undefined;
 
-  // Tabs: 'patient', 'requester', 'settings'
-  const [activeTab, setActiveTab] = useState<"patient" | "requester" | "settings">("patient");
+  const auth = useAuth();
+  const visibleTabs = (Object.keys(TAB_LABELS) as Tab[]).filter((tab) => !TAB_ROLES[tab] || auth.hasAnyRole(TAB_ROLES[tab]!));
+  const [selectedTab, setActiveTab] = useState<Tab>("patient");
+  // The fulfilled request the patient picked in the portal; a new object re-runs the verification
+  const [manifestTarget, setManifestTarget] = useState<{ requestId: number } | null>(null);
+  // Fall back to the first tab the user can see when the roles change (e.g. after logout)
+  const activeTab = visibleTabs.includes(selectedTab) ? selectedTab : visibleTabs[0];
 
   // Simple routing hack for the popup window
   if (window.location.pathname === "/on-chain-clinics") {
@@ -44,29 +73,49 @@ export default function App() {
               Contract: <span className="font-mono text-xs bg-gray-100 p-1 rounded">{contractAddress}</span>
             </div>
           </div>
-          {ohifUrl && (
-            <a
-              className="text-blue-600 hover:underline text-sm"
-              href={ohifUrl}
-              target="_blank"
-              rel="noreferrer"
-            >
-              Open OHIF Viewer &rarr;
-            </a>
-          )}
+          <div className="flex items-center gap-4 text-sm">
+            <WalletStatus contractAddress={contractAddress} />
+            {ohifUrl && (
+              <a
+                className="text-blue-600 hover:underline"
+                href={ohifUrl}
+                target="_blank"
+                rel="noreferrer"
+              >
+                Open OHIF Viewer &rarr;
+              </a>
+            )}
+            {auth.enabled &&
+              (auth.session ? (
+                <>
+                  <span title={auth.session.roles.join(", ")}>
+                    {auth.session.username}
+                    {auth.session.clinics.length > 0 && (
+                      <span className="opacity-60"> ({auth.session.clinics.join(", ")})</span>
+                    )}
+                  </span>
+                  <button className="border px-3 py-1 rounded hover:bg-gray-100" onClick={() => void auth.logout()}>
+                    Log out
+                  </button>
+                </>
+              ) : (
+                <button
+                  className="bg-blue-600 text-white px-3 py-1 rounded"
+                  onClick={() => auth.login().catch((err) => console.error("OIDC login failed", err))}
+                >
+                  Log in
+                </button>
+              ))}
+          </div>
         </div>
 
         {/* Tab Navigation */}
         <div className="flex space-x-4 mt-4 border-b border-gray-200">
-          <button style={tabStyle("patient")} onClick={() => setActiveTab("patient")}>
-            Patient
-          </button>
-          <button style={tabStyle("requester")} onClick={() => setActiveTab("requester")}>
-            Requester
-          </button>
-          <button style={tabStyle("settings")} onClick={() => setActiveTab("settings")}>
-            Settings & Admin
-          </button>
+          {visibleTabs.map((tab) => (
+            <button key={tab} style={tabStyle(tab)} onClick={() => setActiveTab(tab)}>
+              {TAB_LABELS[tab]}
+            </button>
+          ))}
         </div>
       </header>
 
@@ -76,7 +125,20 @@ export default function App() {
           <section className="space-y-8 animate-fade-in">
             <div>
               <h2 className="text-xl font-semibold mb-4">Patient Approvals</h2>
-              <PatientApprovals contractAddress={contractAddress} />
+              <PatientApprovals
+                contractAddress={contractAddress}
+                onVerifyManifest={(requestId) => setManifestTarget({ requestId })}
+              />
+            </div>
+            <hr className="border-gray-200" />
+            <div>
+              <h2 className="text-xl font-semibold mb-4">Consent History</h2>
+              <PatientReceipts contractAddress={contractAddress} />
+            </div>
+            <hr className="border-gray-200" />
+            <div>
+              <h2 className="text-xl font-semibold mb-4">Verify Copy Manifest</h2>
+              <ManifestVerifier contractAddress={contractAddress} asPatient target={manifestTarget} />
             </div>
           </section>
         )}
@@ -92,6 +154,17 @@ export default function App() {
               <h2 className="text-xl font-semibold mb-4">My Images (Orthanc)</h2>
               <OrthancBrowser contractAddress={contractAddress} />
             </div>
+            <hr className="border-gray-200" />
+            <div>
+              <h2 className="text-xl font-semibold mb-4">Verify Copy Manifest</h2>
+              <ManifestVerifier contractAddress={contractAddress} />
+            </div>
+          </section>
+        )}
+
+        {activeTab === "provider" && (
+          <section className="space-y-8 animate-fade-in">
+            <ProviderDashboard contractAddress={contractAddress} />
           </section>
         )}
 
@@ -114,20 +187,24 @@ export default function App() {
               <ProviderSettings contractAddress={contractAddress} />
             </div>
 
-            <div>
-              <h2 className="text-xl font-semibold mb-4 text-gray-700 border-b pb-2">Clinic Configuration (Admin)</h2>
-              <ClinicManager />
-            </div>
+            {auth.hasAnyRole(ADMIN_ROLES) && (
+              <>
+                <div>
+                  <h2 className="text-xl font-semibold mb-4 text-gray-700 border-b pb-2">Clinic Configuration (Admin)</h2>
+                  <ClinicManager />
+                </div>
 
-            <div>
-              <h2 className="text-xl font-semibold mb-4 text-gray-700 border-b pb-2">Patient Alias Linking (Admin)</h2>
-              <AliasManager />
-            </div>
+                <div>
+                  <h2 className="text-xl font-semibold mb-4 text-gray-700 border-b pb-2">Patient Alias Linking (Admin)</h2>
+                  <AliasManager />
+                </div>
 
-            <div>
-              <h2 className="text-xl font-semibold mb-4 text-gray-700 border-b pb-2">Audit Logs</h2>
-              <AuditLogViewer />
-            </div>
+                <div>
+                  <h2 className="text-xl font-semibold mb-4 text-gray-700 border-b pb-2">Audit Logs</h2>
+                  <AuditLogViewer />
+                </div>
+              </>
+            )}
           </section>
         )}
       </main>
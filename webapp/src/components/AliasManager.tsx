@@ -1,6 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
-
-const WORKER_API = import.meta.env.VITE_WORKER_API as string | undefined;
+import { workerApiRoot, workerJson } from "../lib/workerClient";
 
 type AliasEntry = {
   address: string;
@@ -24,18 +23,14 @@ export default function AliasManager() {
   const [status, setStatus] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
-  const endpoint = useMemo(() => (WORKER_API ? WORKER_API.replace(/\/+$/, "") : null), []);
+  const endpoint = useMemo(() => workerApiRoot(), []);
 
   const load = async () => {
     if (!endpoint) return;
     setLoading(true);
     setStatus(null);
     try {
-      const res = await fetch(`${endpoint}/aliases`);
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`);
-      }
-      const data: ApiResponse = await res.json();
+      const data = await workerJson<ApiResponse>("/aliases");
       const entries = Object.entries(data.aliases || {}).map(([address, pid]) => ({
         address,
         patientId: String(pid ?? ""),
@@ -77,15 +72,7 @@ export default function AliasManager() {
 
     try {
       setStatus("送信中...");
-      const res = await fetch(`${endpoint}/aliases`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ address: addr, patientId: patientId.trim() }),
-      });
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(text || `HTTP ${res.status}`);
-      }
+      await workerJson("/aliases", { method: "PUT", json: { address: addr, patientId: patientId.trim() } });
       setWalletAddr("");
       setPatientId("");
       await load();
@@ -98,13 +85,7 @@ export default function AliasManager() {
   const remove = async (addr: string) => {
     try {
       setStatus("削除中...");
-      const res = await fetch(`${endpoint}/aliases/${encodeURIComponent(addr)}`, {
-        method: "DELETE",
-      });
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(text || `HTTP ${res.status}`);
-      }
+      await workerJson(`/aliases/${encodeURIComponent(addr)}`, { method: "DELETE" });
       await load();
       setStatus("削除しました");
     } catch (err: any) {
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
+import { workerApiRoot, workerJson } from "../lib/workerClient";
 
 type AuditLogEntry = {
     timestamp: string;
@@ -12,38 +13,22 @@ type AuditLogEntry = {
 };
 
 export default function AuditLogViewer() {
-    const [token, setToken] = useState("");
     const [logs, setLogs] = useState<AuditLogEntry[]>([]);
     const [error, setError] = useState<string | null>(null);
     const [loading, setLoading] = useState(false);
 
-    const workerEndpoint = import.meta.env.VITE_WORKER_API as string | undefined;
-
     const fetchLogs = async () => {
-        if (!workerEndpoint) {
+        if (!workerApiRoot()) {
             setError("VITE_WORKER_API is not set");
             return;
         }
-        if (!token) {
-            setError("Admin Token is required");
-            return;
-        }
 
         setLoading(true);
         setError(null);
 
         try {
-            const res = await fetch(`${workerEndpoint.replace(/\/+$/, "")}/audit-logs?limit=100`, {
-                headers: {
-                    Authorization: `Bearer ${token}`,
-                },
-            });
-
-            if (!res.ok) {
-                throw new Error(`HTTP ${res.status}: ${await res.text()}`);
-            }
-
-            const data = await res.json();
+            // The worker limits the entries to the clinics of the signed-in user
+            const data = await workerJson<{ logs?: AuditLogEntry[] }>("/audit-logs?limit=100");
             setLogs(data.logs || []);
         } catch (err: any) {
             setError(err.message || String(err));
@@ -57,17 +42,10 @@ export default function AuditLogViewer() {
             <h2 className="text-xl font-bold mb-4">Audit Logs (Admin)</h2>
 
             <div className="flex gap-2 mb-4">
-                <input
-                    type="password"
-                    className="border p-2 rounded flex-1"
-                    placeholder="Admin Bearer Token"
-                    value={token}
-                    onChange={(e) => setToken(e.target.value)}
-                />
                 <button
                     className="bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50"
                     onClick={fetchLogs}
-                    disabled={loading || !token}
+                    disabled={loading}
                 >
                     {loading ? "Loading..." : "Fetch Logs"}
                 </button>
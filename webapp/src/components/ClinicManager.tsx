@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from "react";
-import axios from "axios";
+import { workerJson } from "../lib/workerClient";
 
 type DicomNodeConfig = {
     clinicId: string;
@@ -27,18 +27,16 @@ export default function ClinicManager() {
     const [username, setUsername] = useState("");
     const [password, setPassword] = useState("");
 
-    const WORKER_API = import.meta.env.VITE_WORKER_API || "http://localhost:8787";
-
     const fetchConfigs = async () => {
         setLoading(true);
         try {
-            const res = await axios.get(`${WORKER_API}/clinics/config`);
-            const list = Object.values(res.data.configs || {}) as DicomNodeConfig[];
+            const data = await workerJson<{ configs?: DicomNodeConfig[] }>("/clinics/config");
+            const list = Object.values(data.configs || {});
             setConfigs(list);
             setError(null);
         } catch (err: any) {
             console.error(err);
-            setError("Failed to load configs");
+            setError(`Failed to load configs: ${err?.message || err}`);
         } finally {
             setLoading(false);
         }
@@ -71,7 +69,7 @@ export default function ClinicManager() {
         };
 
         try {
-            await axios.put(`${WORKER_API}/clinics/config`, payload);
+            await workerJson("/clinics/config", { method: "PUT", json: payload });
             setClinicId("");
             setAeTitle("");
             setHost("");
@@ -83,18 +81,18 @@ export default function ClinicManager() {
             fetchConfigs();
         } catch (err: any) {
             console.error(err);
-            setError("Failed to save config");
+            setError(`Failed to save config: ${err?.message || err}`);
         }
     };
 
     const handleDelete = async (id: string) => {
         if (!confirm(`Delete config for ${id}?`)) return;
         try {
-            await axios.delete(`${WORKER_API}/clinics/config/${encodeURIComponent(id)}`);
+            await workerJson(`/clinics/config/${encodeURIComponent(id)}`, { method: "DELETE" });
             fetchConfigs();
         } catch (err: any) {
             console.error(err);
-            setError("Failed to delete config");
+            setError(`Failed to delete config: ${err?.message || err}`);
         }
     };
 
@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ethers } from "ethers";
+import { useContract } from "../hooks/usePatientAccess";
+import { clinicKey } from "../lib/clinic";
+import { calcManifestHash, manifestStudies, verifyManifestProof } from "../lib/manifest";
+import type { ManifestDocument, ManifestProof } from "../lib/manifest";
+import { activePatientSession, loginPatient } from "../lib/patientReceipts";
+import type { PatientSession } from "../lib/patientReceipts";
+import { WorkerApiError, workerApiRoot, workerJson } from "../lib/workerClient";
+
+type Props = {
+  contractAddress: string;
+  /** 患者タブ用: ウォレットの SIWE セッションで、自分の申請のマニフェストだけを読む */
+  asPatient?: boolean;
+  /** 一覧の「検証」から渡される申請。渡されるたびに (同じ ID でも) 検証し直す */
+  target?: { requestId: number } | null;
+};
+
+type Verification = {
+  manifest: ManifestDocument;
+  recomputed: string;
+  onChain: string;
+  fulfilled: boolean;
+  providerMatches: boolean;
+};
+
+type ProofState = "checking" | "valid" | "invalid" | "error";
+
+export default function ManifestVerifier({ contractAddress, asPatient = false, target = null }: Props) {
+  const { contract, signer, address } = useContract(contractAddress);
+  const [session, setSession] = useState<PatientSession | null>(null);
+  const [requestId, setRequestId] = useState("");
+  const [result, setResult] = useState<Verification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [proofs, setProofs] = useState<Record<string, ProofState>>({});
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const workerEndpoint = workerApiRoot();
+
+  // 患者は OIDC のトークンを持たないので、Worker へは SIWE セッションで問い合わせる
+  const patientToken = async (): Promise<string | undefined> => {
+    if (!asPatient) return undefined;
+    const current = activePatientSession(session, address);
+    if (current) return current.token;
+    if (!signer) throw new Error("ウォレットが接続されていません");
+    const created = await loginPatient(signer);
+    setSession(created);
+    return created.token;
+  };
+
+  const verify = async (input = requestId) => {
+    if (!workerEndpoint) {
+      setError("VITE_WORKER_API が設定されていません");
+      return;
+    }
+    if (!contract) {
+      setError("ウォレットが接続されていません");
+      return;
+    }
+    const id = input.trim();
+    if (!/^\d+$/.test(id)) {
+      setError("リクエストIDは数値で入力してください");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setProofs({});
+    try {
+      const token = await patientToken();
+      const { manifest } = await workerJson<{ manifest: ManifestDocument }>(`/manifests/${id}`, { token }).catch((err) => {
+        if (err instanceof WorkerApiError && err.status === 404) {
+          throw new Error(`リクエスト #${id} のマニフェストは Worker にありません`);
+        }
+        throw err;
+      });
+
+      const req = await contract.reqs(id);
+      const onChain = String(req.manifestHash ?? ethers.ZeroHash).toLowerCase();
+      setResult({
+        manifest,
+        recomputed: calcManifestHash(manifest).toLowerCase(),
+        onChain,
+        fulfilled: Number(req.status ?? 0) === 2,
+        providerMatches: clinicKey(manifest.providerId) === String(req.providerClinicKey ?? "").toLowerCase(),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!target) return;
+    const id = String(target.requestId);
+    setRequestId(id);
+    rootRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+    void verify(id);
+    // 選ばれた申請ごとに一度だけ走らせる (verify は描画ごとに作り直される)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [target]);
+
+  // 1件の画像が、オンチェーンの root に含まれることを Worker の包含証明で確認する
+  const checkProof = async (sop: string) => {
+    if (!result || !workerEndpoint) return;
+    setProofs((prev) => ({ ...prev, [sop]: "checking" }));
+    try {
+      const proof = await workerJson<ManifestProof>(
+        `/manifests/${result.manifest.requestId}/proof/${encodeURIComponent(sop)}`,
+        { token: await patientToken() }
+      );
+      const valid = proof.sop === sop && verifyManifestProof(proof, result.manifest.providerId, result.onChain);
+      setProofs((prev) => ({ ...prev, [sop]: valid ? "valid" : "invalid" }));
+    } catch (err) {
+      console.error("manifest proof failed", err);
+      setProofs((prev) => ({ ...prev, [sop]: "error" }));
+    }
+  };
+
+  const proofLabel = (sop: string) => {
+    switch (proofs[sop]) {
+      case "checking":
+        return "確認中...";
+      case "valid":
+        return "✓ 含まれる";
+      case "invalid":
+        return "✗ 不一致";
+      case "error":
+        return "取得失敗";
+      default:
+        return "証明を確認";
+    }
+  };
+
+  const matches = !!result && result.fulfilled && result.recomputed === result.onChain;
+  const supportsProofs = !!result && result.fulfilled;
+  const studies = result ? manifestStudies(result.manifest) : [];
+
+  return (
+    <div ref={rootRef} className="p-4 border rounded shadow-sm bg-white space-y-4">
+      <p className="text-sm text-gray-600">
+        Worker が保存したコピーのマニフェストを取得し、ブラウザでハッシュを再計算してオンチェーンの manifestHash と照合します。
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <input
+          className="border p-2 rounded w-40"
+          placeholder="Request ID"
+          value={requestId}
+          onChange={(e) => setRequestId(e.target.value)}
+        />
+        <button
+          className="bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50"
+          onClick={() => verify()}
+          disabled={loading || !requestId.trim()}
+        >
+          {loading ? "検証中..." : "検証"}
+        </button>
+      </div>
+
+      {error && <div className="text-red-600 text-sm">{error}</div>}
+
+      {result && (
+        <div className="space-y-3 text-sm">
+          <div
+            className={`p-3 rounded border ${matches ? "bg-green-50 border-green-300 text-green-800" : "bg-red-50 border-red-300 text-red-800"}`}
+          >
+            {matches
+              ? "一致: 転送内容はオンチェーンに記録されたマニフェストと一致しています"
+              : !result.fulfilled
+                ? "未確定: オンチェーンに manifestHash がまだ記録されていません"
+                : "不一致: Worker のマニフェストはオンチェーンの記録と一致しません"}
+            {!result.providerMatches && (
+              <div className="mt-1">提供元クリニック ({result.manifest.providerId}) がリクエストと一致しません</div>
+            )}
+          </div>
+
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+            <dt className="text-gray-500">再計算したハッシュ</dt>
+            <dd className="font-mono text-xs break-all">{result.recomputed}</dd>
+            <dt className="text-gray-500">オンチェーン</dt>
+            <dd className="font-mono text-xs break-all">{result.onChain}</dd>
+            <dt className="text-gray-500">提供元</dt>
+            <dd>{result.manifest.providerId}</dd>
+            <dt className="text-gray-500">インスタンス</dt>
+            <dd>
+              {result.manifest.instances.length} 件転送 / {result.manifest.failed.length} 件失敗
+            </dd>
+            <dt className="text-gray-500">完了日時</dt>
+            <dd>{new Date(result.manifest.completedAt).toLocaleString()}</dd>
+          </dl>
+
+          {studies.length > 0 && (
+            <div>
+              <div className="font-semibold mb-1">Study ({studies.length})</div>
+              <ul className="font-mono text-xs space-y-0.5">
+                {studies.map((study) => (
+                  <li key={study}>{study}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <details>
+            <summary className="cursor-pointer text-blue-600">SOPInstanceUID 一覧</summary>
+            <table className="w-full text-xs border-collapse border mt-2">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="border p-1 text-left">SOPInstanceUID</th>
+                  <th className="border p-1 text-left">sha256</th>
+                  <th className="border p-1 text-left">結果</th>
+                  {supportsProofs && <th className="border p-1 text-left">包含証明</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {result.manifest.instances.map((instance) => (
+                  <tr key={instance.sop}>
+                    <td className="border p-1 font-mono">{instance.sop}</td>
+                    <td className="border p-1 font-mono break-all">{instance.sha256 ?? "-"}</td>
+                    <td className="border p-1">OK</td>
+                    {supportsProofs && (
+                      <td className="border p-1">
+                        <button
+                          className="text-blue-600 hover:underline disabled:opacity-50"
+                          onClick={() => checkProof(instance.sop)}
+                          disabled={proofs[instance.sop] === "checking"}
+                        >
+                          {proofLabel(instance.sop)}
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+                {result.manifest.failed.map((failure) => (
+                  <tr key={`failed-${failure.sop}`} className="text-red-700">
+                    <td className="border p-1 font-mono">{failure.sop}</td>
+                    <td className="border p-1">-</td>
+                    <td className="border p-1">失敗</td>
+                    {supportsProofs && <td className="border p-1">-</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { ethers, Contract } from 'ethers';
-
-interface Window {
-    ethereum?: any;
-}
-
-
-// Minimal ABI for events and querying clinics
-const ABI = [
-    "event ClinicRegistered(bytes32 indexed clinicKey, string clinicId, address payout, address operator)",
-    "function clinics(bytes32 key) view returns (bool registered, string clinicId, address payout, address operator)"
-];
+import { fetchIndexedClinics } from '../lib/chainIndex';
 
 interface ClinicData {
     clinicId: string;
@@ -19,8 +8,6 @@ interface ClinicData {
     operator: string;
 }
 
-const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT;
-
 export const OnChainClinicList: React.FC = () => {
     const [clinics, setClinics] = useState<ClinicData[]>([]);
     const [loading, setLoading] = useState(false);
@@ -31,40 +18,12 @@ export const OnChainClinicList: React.FC = () => {
     }, []);
 
     const loadClinics = async () => {
-        const ethereum = (window as any).ethereum;
-        if (!ethereum) {
-            setError("No crypto wallet found. Please install MetaMask.");
-            return;
-        }
         setLoading(true);
         try {
-            const provider = new ethers.BrowserProvider(ethereum);
-            const contract = new Contract(CONTRACT_ADDRESS, ABI, provider);
-
-            // Fetch all ClinicRegistered events
-            // In a real large-scale app, we might need pagination or indexing.
-            // For this project scale, querying from block 0 (or deployment block) is fine.
-            const filter = contract.filters.ClinicRegistered();
-            const events = await contract.queryFilter(filter);
-
-            const uniqueClinics = new Map<string, ClinicData>();
-
-            for (const event of events) {
-                if ('args' in event) {
-                    const { clinicKey, clinicId, payout, operator } = event.args as any;
-                    // We rely on the event for the ID. 
-                    // To be 100% sure of current state (updates), we could call contract.clinics(clinicKey),
-                    // but the event gives us the ID which is the main request.
-                    // Let's rely on event data for now for speed, assuming IDs don't change keys.
-                    // If overwrite happens with same key, we just take the latest event? 
-                    // Actually, let's just show unique IDs found.
-                    uniqueClinics.set(clinicKey, { clinicKey, clinicId, payout, operator });
-                }
-            }
-
-            // Optional: Update with latest state from 'clinics' mapping if needed. 
-            // For now, list unique clinics found.
-            setClinics(Array.from(uniqueClinics.values()));
+            // The worker indexes ClinicRegistered/ClinicUpdated, so payout and operator reflect the latest update
+            // without scanning logs from genesis in the browser.
+            const page = await fetchIndexedClinics();
+            setClinics(page.clinics.map(({ clinicKey, clinicId, payout, operator }) => ({ clinicKey, clinicId, payout, operator })));
         } catch (err: any) {
             console.error(err);
             setError(err.message || "Failed to load clinics");
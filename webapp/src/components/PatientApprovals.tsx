@@ -1,53 +1,194 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
 import { useContract } from "../hooks/usePatientAccess";
+import { canonical } from "../lib/clinic";
+import { describeTxError } from "../lib/txErrors";
+import {
+  MODE_LABELS,
+  REQUEST_STATUS,
+  REQUEST_STATUS_LABELS,
+  formatPrice,
+  loadPatientRequests,
+  loadTokenMeta,
+} from "../lib/patientRequests";
+import type { PatientRequest, TokenMeta } from "../lib/patientRequests";
 
-export default function PatientApprovals({ contractAddress }: { contractAddress: string }) {
-  const { contract } = useContract(contractAddress);
-  const [reqId, setReqId] = useState("");
-  const [status, setStatus] = useState<string>("");
+const STATUS_CLASSES = [
+  "bg-amber-100 text-amber-800",
+  "bg-blue-100 text-blue-800",
+  "bg-green-100 text-green-800",
+  "bg-gray-100 text-gray-600",
+  "bg-gray-100 text-gray-600",
+];
+
+function shortHash(value: string): string {
+  return `${value.slice(0, 10)}…${value.slice(-6)}`;
+}
+
+function clinicLabel(clinicId: string | null, key: string): string {
+  return clinicId ?? `未登録 (${shortHash(key)})`;
+}
 
-  const setTxStatus = (msg: string) => setStatus(msg);
+function formatTime(epochSeconds: number | null): string {
+  return epochSeconds ? new Date(epochSeconds * 1000).toLocaleString() : "";
+}
+
+type Props = {
+  contractAddress: string;
+  /** 提供済みの申請のマニフェストを検証画面で開く */
+  onVerifyManifest?: (requestId: number) => void;
+};
+
+export default function PatientApprovals({ contractAddress, onVerifyManifest }: Props) {
+  const { contract, signer, address } = useContract(contractAddress);
+  const [requests, setRequests] = useState<PatientRequest[]>([]);
+  const [tokenMeta, setTokenMeta] = useState<Record<string, TokenMeta>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openOnly, setOpenOnly] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [status, setStatus] = useState<string>("");
 
-  const withTx = async (fn: () => Promise<any>, success: string) => {
-    if (!contract) return;
-    if (!reqId.trim()) {
-      setTxStatus("申請IDを入力してください");
-      return;
+  const refresh = useCallback(async () => {
+    if (!contract || !signer || !address) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const rows = await loadPatientRequests(contract, address);
+      setRequests(rows);
+      setTokenMeta(await loadTokenMeta(signer, rows.map((row) => row.token)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
     }
-    setTxStatus("送信中...");
+  }, [contract, signer, address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const visible = useMemo(
+    () =>
+      openOnly
+        ? requests.filter((r) => r.status === REQUEST_STATUS.REQUESTED || r.status === REQUEST_STATUS.PATIENT_APPROVED)
+        : requests,
+    [requests, openOnly]
+  );
+
+  const waitingCount = requests.filter((r) => r.status === REQUEST_STATUS.REQUESTED).length;
+
+  const withTx = async (id: number, fn: () => Promise<ethers.ContractTransactionResponse>, success: string) => {
+    if (!contract || !signer) return;
+    setBusyId(id);
+    setStatus(`#${id}: 送信中...`);
     try {
       const tx = await fn();
-      setTxStatus("承認待ち (MetaMask) ...");
+      setStatus(`#${id}: 承認待ち (MetaMask) ...`);
       await tx.wait();
-      setTxStatus(success);
-    } catch (e: any) {
-      const reason = e?.error?.reason || e?.info?.error?.message || e?.reason || e?.message || String(e);
-      setTxStatus(`エラー: ${reason}`);
+      setStatus(`#${id}: ${success}`);
+      await refresh();
+    } catch (e) {
+      setStatus(`#${id}: エラー: ${describeTxError(e, contract.interface)}`);
+    } finally {
+      setBusyId(null);
     }
   };
 
-  const approve = async () => withTx(() => contract!.approveByPatient(Number(reqId)), "承認しました");
-  const cancel = async () => withTx(() => contract!.cancel(Number(reqId)), "キャンセルしました");
+  const approve = (id: number) => withTx(id, () => contract!.approveByPatient(id), "承認しました");
+  const cancel = (id: number) => {
+    if (!window.confirm(`申請 #${id} をキャンセルします。支払い済みの料金は申請元の病院に返金されます。`)) return;
+    return withTx(id, () => contract!.cancel(id), "キャンセルしました");
+  };
 
   return (
     <div className="p-4 space-y-4">
-      <h2 className="text-xl font-bold">患者ポータル（承認/拒否）</h2>
-      <div className="grid gap-2">
-        <input
-          className="border p-2"
-          placeholder="申請ID (reqId)"
-          value={reqId}
-          onChange={(e) => setReqId(e.target.value)}
-        />
-        <div className="flex gap-2">
-          <button className="border px-3 py-2 rounded" onClick={approve}>
-            承認
-          </button>
-          <button className="border px-3 py-2 rounded" onClick={cancel}>
-            拒否
+      <h2 className="text-xl font-bold">患者ポータル（あなたへの開示申請）</h2>
+      {!address && <div className="text-sm opacity-70">ウォレットを接続すると、あなた宛ての申請が表示されます。</div>}
+      {address && (
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <div>
+            ウォレット: <span className="font-mono">{address}</span>
+          </div>
+          <div>承認待ち: {waitingCount} 件</div>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={openOnly} onChange={(e) => setOpenOnly(e.target.checked)} />
+            未完了の申請のみ表示
+          </label>
+          <button className="border px-3 py-1 rounded" onClick={refresh} disabled={loading}>
+            {loading ? "読み込み中..." : "再読み込み"}
           </button>
         </div>
-      </div>
+      )}
+      {error && <div className="text-sm text-red-600">申請の取得に失敗しました: {error}</div>}
+      {address && !loading && !error && visible.length === 0 && (
+        <div className="text-sm opacity-70">{openOnly ? "未完了の申請はありません。" : "申請はありません。"}</div>
+      )}
+
+      {visible.length > 0 && (
+        <table className="w-full text-sm border">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-2 py-1 text-left">ID</th>
+              <th className="px-2 py-1 text-left">申請日時</th>
+              <th className="px-2 py-1 text-left">提供元 (Provider)</th>
+              <th className="px-2 py-1 text-left">申請元 (Requester)</th>
+              <th className="px-2 py-1 text-left">種別</th>
+              <th className="px-2 py-1 text-left">料金</th>
+              <th className="px-2 py-1 text-left">状態</th>
+              <th className="px-2 py-1 text-left">提供マニフェスト</th>
+              <th className="px-2 py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((r) => {
+              const busy = busyId === r.id;
+              const open = r.status === REQUEST_STATUS.REQUESTED || r.status === REQUEST_STATUS.PATIENT_APPROVED;
+              return (
+                <tr key={r.id} className="border-t align-top">
+                  <td className="px-2 py-1 font-mono">#{r.id}</td>
+                  <td className="px-2 py-1">{formatTime(r.requestedAt)}</td>
+                  <td className="px-2 py-1">{clinicLabel(r.providerClinicId, r.providerClinicKey)}</td>
+                  <td className="px-2 py-1">{clinicLabel(r.requesterClinicId, r.requesterClinicKey)}</td>
+                  <td className="px-2 py-1">
+                    {MODE_LABELS[r.mode] ?? r.mode}
+                    {r.scopeHash && <div className="text-xs opacity-70">対象検査を限定</div>}
+                  </td>
+                  <td className="px-2 py-1">{formatPrice(r.price, tokenMeta[canonical(r.token)])}</td>
+                  <td className="px-2 py-1">
+                    <span className={`px-2 py-0.5 rounded text-xs ${STATUS_CLASSES[r.status] ?? ""}`}>
+                      {REQUEST_STATUS_LABELS[r.status] ?? r.status}
+                    </span>
+                  </td>
+                  <td className="px-2 py-1 font-mono text-xs" title={r.manifestHash ?? undefined}>
+                    {r.manifestHash ? shortHash(r.manifestHash) : "-"}
+                    {r.manifestHash && r.status === REQUEST_STATUS.FULFILLED && onVerifyManifest && (
+                      <button
+                        className="block font-sans text-blue-600 hover:underline"
+                        onClick={() => onVerifyManifest(r.id)}
+                      >
+                        マニフェストを検証
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 whitespace-nowrap space-x-2">
+                    {r.status === REQUEST_STATUS.REQUESTED && (
+                      <button className="border px-2 py-1 rounded" disabled={busy} onClick={() => approve(r.id)}>
+                        承認
+                      </button>
+                    )}
+                    {open && (
+                      <button className="border px-2 py-1 rounded" disabled={busy} onClick={() => cancel(r.id)}>
+                        {r.status === REQUEST_STATUS.REQUESTED ? "拒否" : "キャンセル"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
       {status && <div className="text-sm opacity-80">{status}</div>}
     </div>
   );
@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { useContract } from "../hooks/usePatientAccess";
+import { activePatientSession, fetchPatientReceipts, loginPatient } from "../lib/patientReceipts";
+import type { PatientRequestReceipt, PatientSession } from "../lib/patientReceipts";
+import { MODE_LABELS } from "../lib/patientRequests";
+
+const COPY_STATUS_LABELS: Record<string, string> = {
+  pending: "待機中",
+  copying: "コピー中",
+  completed: "完了",
+  partial: "一部失敗",
+  error: "エラー",
+};
+
+const DECISION_LABELS: Record<string, string> = {
+  allow: "閲覧",
+  filter: "検索",
+  deny: "拒否",
+  error: "エラー",
+};
+
+const CONSENT_EVENT_LABELS: Record<string, string> = {
+  AccessRequested: "申請",
+  AccessScoped: "対象検査の指定",
+  PatientApproved: "承認",
+  AccessFulfilled: "提供完了",
+  AccessCanceled: "キャンセル",
+  AccessExpired: "期限切れ",
+};
+
+function formatIso(value?: string): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+export default function PatientReceipts({ contractAddress }: { contractAddress: string }) {
+  const { signer, address } = useContract(contractAddress);
+  const [session, setSession] = useState<PatientSession | null>(null);
+  const [receipts, setReceipts] = useState<PatientRequestReceipt[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeSession = activePatientSession(session, address);
+
+  const load = async () => {
+    if (!signer) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const current = activeSession ?? (await loginPatient(signer));
+      setSession(current);
+      setReceipts(await fetchPatientReceipts(current));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <h2 className="text-xl font-bold">同意の履歴とアクセス記録</h2>
+      <div className="text-sm opacity-70">
+        承認した申請ごとに、画像のコピー結果と、申請元の病院で誰がいつ画像を開いたかを表示します。
+        ウォレットでメッセージに署名してログインします（ガス代はかかりません）。
+      </div>
+      <button className="border px-3 py-2 rounded" onClick={load} disabled={!signer || loading}>
+        {loading ? "読み込み中..." : activeSession ? "再読み込み" : "署名してログイン"}
+      </button>
+      {error && <div className="text-sm text-red-600">取得に失敗しました: {error}</div>}
+      {activeSession && !loading && receipts.length === 0 && (
+        <div className="text-sm opacity-70">記録はまだありません。</div>
+      )}
+
+      {receipts.map((receipt) => (
+        <div key={receipt.requestId} className="border rounded p-3 space-y-2 text-sm">
+          <div className="flex flex-wrap gap-4">
+            <div className="font-semibold">申請 #{receipt.requestId}</div>
+            {receipt.consent && (
+              <>
+                <div>
+                  {receipt.consent.providerClinicId ?? receipt.providerId ?? "?"} → {receipt.consent.requesterClinicId ?? "?"}
+                </div>
+                <div>{MODE_LABELS[receipt.consent.mode] ?? receipt.consent.mode}</div>
+                <div>状態: {receipt.consent.statusLabel}</div>
+              </>
+            )}
+          </div>
+
+          {receipt.consent && (
+            <div className="text-xs opacity-80">
+              {receipt.consent.history.map((h) => (
+                <span key={`${h.event}-${h.blockNumber}`} className="mr-3">
+                  {CONSENT_EVENT_LABELS[h.event] ?? h.event}: {new Date(h.timestamp * 1000).toLocaleString()}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {receipt.copy && (
+            <div>
+              コピー: {COPY_STATUS_LABELS[receipt.copy.status] ?? receipt.copy.status} ({receipt.copy.success}/
+              {receipt.copy.total} 件{receipt.copy.failed > 0 ? `、失敗 ${receipt.copy.failed} 件` : ""}) —{" "}
+              {formatIso(receipt.copy.updatedAt)}
+            </div>
+          )}
+
+          <div>
+            アクセス: {receipt.accessCount} 件{receipt.lastAccessAt ? ` (最終: ${formatIso(receipt.lastAccessAt)})` : ""}
+          </div>
+          {receipt.accesses.length > 0 && (
+            <table className="w-full text-xs border">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-1 text-left">日時</th>
+                  <th className="px-2 py-1 text-left">閲覧者</th>
+                  <th className="px-2 py-1 text-left">検査 (Study)</th>
+                  <th className="px-2 py-1 text-left">結果</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receipt.accesses.map((access, idx) => (
+                  <tr key={`${access.timestamp}-${idx}`} className="border-t">
+                    <td className="px-2 py-1">{formatIso(access.timestamp)}</td>
+                    <td className="px-2 py-1">{access.subject ?? "-"}</td>
+                    <td className="px-2 py-1 font-mono break-all">{access.study ?? "-"}</td>
+                    <td className="px-2 py-1">
+                      {DECISION_LABELS[access.decision] ?? access.decision}
+                      {access.status >= 400 ? ` (${access.status})` : ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { useAuth } from "../hooks/useAuth";
+import { useContract } from "../hooks/usePatientAccess";
+import { canonical, checksum, clinicKey } from "../lib/clinic";
+import { fetchIndexedRequests } from "../lib/chainIndex";
+import type { IndexedRequest } from "../lib/chainIndex";
+import { applyCopyEventFrame, subscribeCopyEvents } from "../lib/copyEvents";
+import type { CopyEventStreamState, CopyEventSummary } from "../lib/copyEvents";
+import { formatPrice, MODE_LABELS, REQUEST_STATUS, REQUEST_STATUS_LABELS } from "../lib/patientRequests";
+import type { TokenMeta } from "../lib/patientRequests";
+import { WorkerApiError, workerApiRoot, workerJson } from "../lib/workerClient";
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+];
+
+// 対応が必要なものから並べる
+const STATUS_ORDER = [
+  REQUEST_STATUS.PATIENT_APPROVED,
+  REQUEST_STATUS.REQUESTED,
+  REQUEST_STATUS.FULFILLED,
+  REQUEST_STATUS.EXPIRED,
+  REQUEST_STATUS.CANCELED,
+];
+
+const COPY_STATUS_LABELS: Record<CopyEventSummary["status"], string> = {
+  pending: "待機中",
+  copying: "コピー中",
+  completed: "完了",
+  partial: "一部失敗",
+  error: "エラー",
+};
+
+// Index の 1 ページの上限 (Worker の MAX_PAGE_SIZE)
+const PAGE_SIZE = 500;
+const MAX_PAGES = 10;
+
+type Period = "month" | "week" | "day";
+
+type PushTrigger = {
+  requestId: number;
+  requestedAt: string;
+  requestedBy: string;
+  claimedAt?: string;
+};
+
+type PendingPush = {
+  requestId: number;
+  providerId: string;
+  trigger?: PushTrigger;
+};
+
+type RevenueRow = {
+  period: string;
+  token: string;
+  count: number;
+  amount: bigint;
+};
+
+function periodOf(timestamp: number, period: Period): string {
+  const date = new Date(timestamp * 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  if (period === "month") return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  if (period === "day") return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  // 週は月曜始まりで、その月曜日の日付で表す
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return `${monday.getFullYear()}-${pad(monday.getMonth() + 1)}-${pad(monday.getDate())} 週`;
+}
+
+function fulfilledAt(req: IndexedRequest): number {
+  return req.history.find((entry) => entry.event === "AccessFulfilled")?.timestamp ?? req.updatedAt.timestamp;
+}
+
+function formatTime(timestamp: number | string | undefined): string {
+  if (timestamp === undefined) return "";
+  const date = typeof timestamp === "number" ? new Date(timestamp * 1000) : new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? String(timestamp) : date.toLocaleString();
+}
+
+type Props = {
+  contractAddress: string;
+};
+
+export default function ProviderDashboard({ contractAddress }: Props) {
+  const { contract } = useContract(contractAddress);
+  const auth = useAuth();
+
+  const [providerId, setProviderId] = useState(() => auth.session?.clinics[0] ?? "PROV-001");
+  const [requests, setRequests] = useState<IndexedRequest[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [tokenMeta, setTokenMeta] = useState<Record<string, TokenMeta>>({});
+  const [copyEvents, setCopyEvents] = useState<CopyEventSummary[]>([]);
+  const [copyStream, setCopyStream] = useState<CopyEventStreamState | null>(null);
+  const [pendingPushes, setPendingPushes] = useState<Record<number, PendingPush>>({});
+  const [pushError, setPushError] = useState<string | null>(null);
+  const [triggerStatus, setTriggerStatus] = useState<string | null>(null);
+  const [period, setPeriod] = useState<Period>("month");
+
+  const workerEndpoint = useMemo(() => workerApiRoot(), []);
+  const providerKey = useMemo(() => clinicKey(providerId), [providerId]);
+
+  const refreshRequests = useCallback(async () => {
+    if (!workerEndpoint || !providerKey) {
+      setRequests([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      // 売上の集計には過去の全件が要るので、ページをたどって集める
+      const collected: IndexedRequest[] = [];
+      let total = 0;
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const result = await fetchIndexedRequests({ provider: providerKey, limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+        collected.push(...result.requests);
+        total = result.total;
+        if (collected.length >= total || result.requests.length === 0) break;
+      }
+      setRequests(collected);
+      setTruncated(collected.length < total);
+      setError(null);
+
+      const runner = contract?.runner;
+      const metaUpdates: Record<string, TokenMeta> = {};
+      for (const token of new Set(collected.map((req) => canonical(req.token)))) {
+        if (tokenMeta[token] || !runner) continue;
+        const erc20 = new ethers.Contract(token, ERC20_ABI, runner);
+        let symbol = token.slice(0, 6) + "…";
+        let decimals = 18;
+        try {
+          symbol = await erc20.symbol();
+        } catch { /* ignore */ }
+        try {
+          decimals = Number(await erc20.decimals());
+        } catch { /* ignore */ }
+        metaUpdates[token] = { symbol, decimals };
+      }
+      if (Object.keys(metaUpdates).length) {
+        setTokenMeta((prev) => ({ ...prev, ...metaUpdates }));
+      }
+    } catch (err) {
+      console.error("provider request refresh failed", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [contract, providerKey, tokenMeta, workerEndpoint]);
+
+  const refreshPushes = useCallback(async () => {
+    if (!workerEndpoint) return;
+    try {
+      const { pending } = await workerJson<{ pending: PendingPush[] }>("/push-triggers");
+      setPendingPushes(Object.fromEntries(pending.map((entry) => [entry.requestId, entry])));
+      setPushError(null);
+    } catch (err) {
+      setPendingPushes({});
+      // copy.mode が providerPush でない Worker は Worker 自身が提供院からコピーする
+      setPushError(
+        err instanceof WorkerApiError && err.status === 501
+          ? "この Worker は provider push モードではありません（Worker が直接コピーします）"
+          : err instanceof Error
+            ? err.message
+            : String(err)
+      );
+    }
+  }, [workerEndpoint]);
+
+  useEffect(() => {
+    refreshRequests();
+    refreshPushes();
+    const timer = setInterval(() => {
+      refreshRequests();
+      refreshPushes();
+    }, 15000);
+    return () => clearInterval(timer);
+  }, [refreshRequests, refreshPushes]);
+
+  useEffect(() => {
+    if (!workerEndpoint || !providerId.trim()) return;
+    return subscribeCopyEvents(
+      {
+        onFrame: (frame) => setCopyEvents((prev) => applyCopyEventFrame(prev, frame)),
+        onState: setCopyStream,
+      },
+      { query: { providerId: providerId.trim() } }
+    );
+  }, [workerEndpoint, providerId]);
+
+  const copyByRequest = useMemo(
+    () => new Map(copyEvents.map((event) => [event.requestId, event])),
+    [copyEvents]
+  );
+
+  const groups = useMemo(
+    () =>
+      STATUS_ORDER.map((status) => ({
+        status,
+        requests: requests.filter((req) => req.status === status),
+      })),
+    [requests]
+  );
+
+  // 提供完了 (AccessFulfilled) の時点でエスクローが提供院の payout に支払われる
+  const revenue = useMemo(() => {
+    const rows = new Map<string, RevenueRow>();
+    const totals = new Map<string, RevenueRow>();
+    for (const req of requests) {
+      if (req.status !== REQUEST_STATUS.FULFILLED) continue;
+      const token = canonical(req.token);
+      const amount = BigInt(req.price || "0");
+      const key = `${periodOf(fulfilledAt(req), period)}|${token}`;
+      const row = rows.get(key) ?? { period: periodOf(fulfilledAt(req), period), token, count: 0, amount: 0n };
+      row.count += 1;
+      row.amount += amount;
+      rows.set(key, row);
+      const total = totals.get(token) ?? { period: "合計", token, count: 0, amount: 0n };
+      total.count += 1;
+      total.amount += amount;
+      totals.set(token, total);
+    }
+    return {
+      rows: Array.from(rows.values()).sort((a, b) => b.period.localeCompare(a.period) || a.token.localeCompare(b.token)),
+      totals: Array.from(totals.values()),
+    };
+  }, [requests, period]);
+
+  const triggerPush = async (requestId: number) => {
+    setTriggerStatus(`#${requestId} の push を依頼中...`);
+    try {
+      await workerJson(`/push-triggers/${requestId}`, { method: "POST" });
+      setTriggerStatus(`#${requestId} の push を依頼しました。提供院のエージェント (--watch) が次の問い合わせで送信を始めます`);
+      refreshPushes();
+    } catch (err) {
+      setTriggerStatus(`#${requestId} の push 依頼に失敗しました: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const pushCell = (req: IndexedRequest) => {
+    const copy = copyByRequest.get(req.id);
+    const pending = pendingPushes[req.id];
+    return (
+      <div className="space-y-1">
+        {copy ? (
+          <div className={copy.status === "error" || copy.status === "partial" ? "text-red-600" : ""}>
+            {COPY_STATUS_LABELS[copy.status]}
+            {copy.total > 0 && ` ${copy.success}/${copy.total}`}
+            {copy.failed > 0 && `（失敗 ${copy.failed}）`}
+          </div>
+        ) : (
+          req.status === REQUEST_STATUS.PATIENT_APPROVED && <div className="opacity-60">Worker の記録なし</div>
+        )}
+        {pending && (
+          <div className="flex flex-wrap items-center gap-2">
+            {pending.trigger?.claimedAt && (
+              <span className="opacity-70">エージェント受付 {formatTime(pending.trigger.claimedAt)}</span>
+            )}
+            {pending.trigger && !pending.trigger.claimedAt && (
+              <span className="opacity-70">依頼済み {formatTime(pending.trigger.requestedAt)}</span>
+            )}
+            <button className="border px-2 py-0.5 rounded" onClick={() => triggerPush(req.id)}>
+              {pending.trigger ? "再依頼" : "Push を依頼"}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-xl font-bold">提供院ダッシュボード</h2>
+        <input
+          className="border p-2"
+          placeholder="自院ClinicID（例 PROV-001）"
+          value={providerId}
+          onChange={(e) => setProviderId(e.target.value)}
+        />
+        <button className="border px-3 py-2 rounded" onClick={() => { refreshRequests(); refreshPushes(); }} disabled={loading}>
+          {loading ? "読み込み中…" : "更新"}
+        </button>
+      </div>
+
+      {!workerEndpoint && <div className="text-sm text-red-600">VITE_WORKER_API を設定してください。</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {pushError && <div className="text-sm opacity-70">{pushError}</div>}
+      {copyStream?.state === "reconnecting" && (
+        <div className="text-sm text-red-600">
+          コピーイベントの取得エラー: {copyStream.error}（{Math.round(copyStream.retryInMs / 1000)} 秒後に再接続します）
+        </div>
+      )}
+      {triggerStatus && <div className="text-sm opacity-80">{triggerStatus}</div>}
+      {truncated && (
+        <div className="text-sm text-amber-700">申請が多いため、新しい {PAGE_SIZE * MAX_PAGES} 件だけを表示・集計しています。</div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold">受信した申請</h3>
+        {groups.map(({ status, requests: group }) => (
+          <details
+            key={status}
+            className="border rounded"
+            open={status === REQUEST_STATUS.PATIENT_APPROVED || status === REQUEST_STATUS.REQUESTED}
+          >
+            <summary className="cursor-pointer px-3 py-2 bg-gray-50">
+              {REQUEST_STATUS_LABELS[status]}（{group.length}）
+            </summary>
+            {group.length === 0 ? (
+              <div className="px-3 py-2 text-sm opacity-70">該当する申請はありません。</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-2 py-1 text-left">ReqID</th>
+                    <th className="px-2 py-1 text-left">申請元</th>
+                    <th className="px-2 py-1 text-left">Mode</th>
+                    <th className="px-2 py-1 text-left">価格</th>
+                    <th className="px-2 py-1 text-left">申請日時</th>
+                    <th className="px-2 py-1 text-left">{status === REQUEST_STATUS.FULFILLED ? "Manifest" : "コピー / Push"}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.map((req) => (
+                    <tr key={req.id}>
+                      <td className="border-t px-2 py-1 font-mono">{req.id}</td>
+                      <td className="border-t px-2 py-1">{req.requesterClinicId ?? req.requesterClinicKey}</td>
+                      <td className="border-t px-2 py-1">{MODE_LABELS[req.mode] ?? req.mode}</td>
+                      <td className="border-t px-2 py-1">
+                        {formatPrice(BigInt(req.price || "0"), tokenMeta[canonical(req.token)])}
+                      </td>
+                      <td className="border-t px-2 py-1">{formatTime(req.requestedAt.timestamp)}</td>
+                      <td className="border-t px-2 py-1">
+                        {status === REQUEST_STATUS.FULFILLED ? (
+                          <span className="font-mono break-all" title={formatTime(fulfilledAt(req))}>
+                            {req.manifestHash}
+                          </span>
+                        ) : (
+                          pushCell(req)
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </details>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <h3 className="text-lg font-semibold">売上（提供完了時に支払い）</h3>
+          <select className="border p-1 text-sm" value={period} onChange={(e) => setPeriod(e.target.value as Period)}>
+            <option value="month">月別</option>
+            <option value="week">週別</option>
+            <option value="day">日別</option>
+          </select>
+        </div>
+        {revenue.rows.length === 0 ? (
+          <div className="text-sm opacity-70">提供完了した申請はまだありません。</div>
+        ) : (
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-2 py-1 text-left">期間</th>
+                <th className="px-2 py-1 text-left">トークン</th>
+                <th className="px-2 py-1 text-left">件数</th>
+                <th className="px-2 py-1 text-left">金額</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...revenue.rows, ...revenue.totals].map((row) => (
+                <tr key={`${row.period}|${row.token}`} className={row.period === "合計" ? "font-semibold" : ""}>
+                  <td className="border-t px-2 py-1">{row.period}</td>
+                  <td className="border-t px-2 py-1 font-mono">{tokenMeta[row.token]?.symbol ?? checksum(row.token)}</td>
+                  <td className="border-t px-2 py-1">{row.count}</td>
+                  <td className="border-t px-2 py-1">{formatPrice(row.amount, tokenMeta[row.token])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,14 +2,14 @@ import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { ethers } from "ethers";
 import { useContract } from "../hooks/usePatientAccess";
 import { clinicKey, checksum, canonical } from "../lib/clinic";
-
-const STATUS_LABELS = [
-  "REQUESTED",
-  "PATIENT_APPROVED",
-  "FULFILLED",
-  "EXPIRED",
-  "CANCELED",
-];
+import { fetchIndexedBatches, fetchIndexedRequests } from "../lib/chainIndex";
+import type { IndexedRequest } from "../lib/chainIndex";
+import { applyCopyEventFrame, subscribeCopyEvents } from "../lib/copyEvents";
+import type { CopyEventSummary, CopyEventStreamState } from "../lib/copyEvents";
+import { workerApiRoot, workerJson } from "../lib/workerClient";
+import { computeScopeHash, describeScope, isEmptyScope, scopeFromForm } from "../lib/scope";
+import type { ScopeForm } from "../lib/scope";
+import { describeTxError, revertReason } from "../lib/txErrors";
 
 const MODE_LABELS = ["READ", "COPY"];
 
@@ -18,8 +18,15 @@ const ERC20_ABI = [
   "function decimals() view returns (uint8)",
   "function allowance(address owner, address spender) view returns (uint256)",
   "function balanceOf(address account) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
 ];
 
+// コントラクトに期限は無いので、未完了のままこの日数を過ぎた申請を「期限切れ」にできるようにする
+const EXPIRE_AFTER_DAYS = Number(import.meta.env.VITE_REQUEST_EXPIRE_DAYS) || 7;
+
+// 「上限まで承認」で使う Allowance (トークン単位、"max" なら無制限)。未設定ならボタンを出さない
+const APPROVE_CAP = (import.meta.env.VITE_ERC20_APPROVE_CAP as string | undefined)?.trim() || "";
+
 type ProviderPricing = {
   token: string;
   readPrice: bigint;
@@ -37,6 +44,22 @@ type TokenBalance = {
   balance: bigint;
 };
 
+type EscrowCost = {
+  token: string;
+  total: bigint;
+  providers: string[];
+};
+
+type RequestAction = {
+  id: number;
+  kind: "cancel" | "expire";
+};
+
+const REQUEST_ACTION_LABELS: Record<RequestAction["kind"], string> = {
+  cancel: "取消",
+  expire: "期限切れ",
+};
+
 type ChildRow = {
   id: string;
   providerKey: string;
@@ -45,6 +68,7 @@ type ChildRow = {
   price: bigint;
   token: string;
   manifestHash: string;
+  scopeHash: string;
 };
 
 type BatchRow = {
@@ -55,27 +79,6 @@ type BatchRow = {
   child: ChildRow[];
 };
 
-type CopyEventFailure = {
-  sop: string;
-  message: string;
-};
-
-type CopyEventSummary = {
-  requestId: number;
-  providerId?: string;
-  patientAddress: string;
-  patientId: string;
-  total: number;
-  success: number;
-  failed: number;
-  status: "pending" | "copying" | "completed" | "partial" | "error";
-  errors: string[];
-  failures: CopyEventFailure[];
-  manifestHash?: string;
-  startedAt: string;
-  updatedAt: string;
-};
-
 const COPY_EVENT_STATUS_LABELS: Record<CopyEventSummary["status"], string> = {
   pending: "待機中",
   copying: "コピー中",
@@ -109,6 +112,38 @@ function formatAmount(amount: bigint, token: string, meta: Record<string, TokenM
   }
 }
 
+async function fetchTokenMeta(token: string, runner: ethers.ContractRunner): Promise<TokenMeta> {
+  const erc20 = new ethers.Contract(token, ERC20_ABI, runner);
+  let symbol = token.slice(0, 6) + "…";
+  let decimals = 18;
+  try {
+    symbol = await erc20.symbol();
+  } catch { /* ignore */ }
+  try {
+    decimals = Number(await erc20.decimals());
+  } catch { /* ignore */ }
+  return { symbol, decimals };
+}
+
+function approveCapAmount(meta: TokenMeta | undefined): bigint | null {
+  if (!APPROVE_CAP) return null;
+  if (APPROVE_CAP.toLowerCase() === "max") return ethers.MaxUint256;
+  try {
+    return ethers.parseUnits(APPROVE_CAP, meta?.decimals ?? 18);
+  } catch {
+    console.warn("VITE_ERC20_APPROVE_CAP is not a token amount", APPROVE_CAP);
+    return null;
+  }
+}
+
+function formatAge(seconds: number): string {
+  const minutes = Math.max(0, Math.floor(seconds / 60));
+  if (minutes < 60) return `${minutes}分`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}時間${minutes % 60}分`;
+  return `${Math.floor(hours / 24)}日${hours % 24}時間`;
+}
+
 function formatTimestamp(value: string | undefined): string {
   if (!value) return "";
   try {
@@ -129,6 +164,12 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
   const [requesterClinicId, setRequesterClinicId] = useState("REQ-001");
   const [providers, setProviders] = useState<string[]>([]);
   const [mode, setMode] = useState<number>(0);
+  const [scopeForm, setScopeForm] = useState<ScopeForm>({
+    studyInstanceUids: "",
+    studyDateFrom: "",
+    studyDateTo: "",
+    modalities: "",
+  });
   const [pendingTx, setPendingTx] = useState<string | null>(null);
   const [lastReqId, setLastReqId] = useState<string>("");
 
@@ -140,7 +181,16 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
   const [loadingBatches, setLoadingBatches] = useState(false);
   const [batchError, setBatchError] = useState<string | null>(null);
   const [copyEvents, setCopyEvents] = useState<CopyEventSummary[]>([]);
-  const [copyEventError, setCopyEventError] = useState<string | null>(null);
+  const [copyStream, setCopyStream] = useState<CopyEventStreamState | null>(null);
+  const [openRequests, setOpenRequests] = useState<IndexedRequest[]>([]);
+  const [closedRequests, setClosedRequests] = useState<IndexedRequest[]>([]);
+  const [requestsError, setRequestsError] = useState<string | null>(null);
+  const [requesterPayout, setRequesterPayout] = useState<string | null>(null);
+  const [clock, setClock] = useState(() => Math.floor(Date.now() / 1000));
+  const [confirmAction, setConfirmAction] = useState<RequestAction | null>(null);
+  const [settleStatus, setSettleStatus] = useState<string | null>(null);
+  // 返金トランザクションは確定したが、Worker のインデックスにまだイベントが届いていない申請
+  const [refundTxs, setRefundTxs] = useState<Record<number, string>>({});
 
   const addProvider = (id: string) =>
     setProviders((prev) => {
@@ -158,6 +208,9 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
     for (const info of Object.values(pricing)) {
       if (info.token) set.add(checksum(info.token));
     }
+    for (const req of [...openRequests, ...closedRequests]) {
+      if (req.token) set.add(checksum(req.token));
+    }
     for (const batch of batches) {
       if (batch.token) set.add(checksum(batch.token));
       for (const child of batch.child) {
@@ -165,7 +218,7 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
       }
     }
     return Array.from(set.values());
-  }, [pricing, batches]);
+  }, [pricing, batches, openRequests, closedRequests]);
 
   const alertEvents = useMemo(
     () => copyEvents.filter((event) => event.status === "partial" || event.status === "error"),
@@ -174,10 +227,7 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
 
   const recentCopyEvents = useMemo(() => copyEvents.slice(0, 8), [copyEvents]);
 
-  const workerEndpoint = useMemo(() => {
-    const raw = import.meta.env.VITE_WORKER_API as string | undefined;
-    return raw ? raw.replace(/\/+$/, "") : null;
-  }, []);
+  const workerEndpoint = useMemo(() => workerApiRoot(), []);
 
   useEffect(() => {
     if (!workerEndpoint) return;
@@ -185,9 +235,7 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
 
     const fetchAliases = async () => {
       try {
-        const res = await fetch(`${workerEndpoint}/aliases`);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data: { aliases?: Record<string, string> } = await res.json();
+        const data = await workerJson<{ aliases?: Record<string, string> }>("/aliases");
         if (!cancelled) {
           setAliasMap(data.aliases ?? {});
           setAliasStatus(null);
@@ -209,30 +257,10 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
 
   useEffect(() => {
     if (!workerEndpoint) return;
-    let cancelled = false;
-
-    const fetchCopyEvents = async () => {
-      try {
-        const res = await fetch(`${workerEndpoint}/copy-events`);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data: { events?: CopyEventSummary[] } = await res.json();
-        if (!cancelled) {
-          setCopyEvents(Array.isArray(data.events) ? data.events : []);
-          setCopyEventError(null);
-        }
-      } catch (err: any) {
-        if (!cancelled) {
-          setCopyEventError(err?.message || String(err));
-        }
-      }
-    };
-
-    fetchCopyEvents();
-    const timer = setInterval(fetchCopyEvents, 7000);
-    return () => {
-      cancelled = true;
-      clearInterval(timer);
-    };
+    return subscribeCopyEvents({
+      onFrame: (frame) => setCopyEvents((prev) => applyCopyEventFrame(prev, frame)),
+      onState: setCopyStream,
+    });
   }, [workerEndpoint]);
 
   const patientResolution = useMemo(() => {
@@ -257,17 +285,61 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
     return { address: "", status: "unresolved" as const };
   }, [patient, aliasMap]);
 
+  const scopeState = useMemo(() => {
+    try {
+      const scope = scopeFromForm(scopeForm);
+      return { scope, hash: computeScopeHash(scope), error: null as string | null };
+    } catch (err: any) {
+      return { scope: null, hash: null, error: err?.message || String(err) };
+    }
+  }, [scopeForm]);
+
+  const scoped = !!scopeState.scope && !isEmptyScope(scopeState.scope);
+
+  // 申請時に transferFrom される額の見積もり (トークンごとの価格合計)
+  const escrow = useMemo(() => {
+    const costs = new Map<string, EscrowCost>();
+    const unpriced: string[] = [];
+    for (const id of providers) {
+      const price = pricing[id];
+      if (!price) continue;
+      const amount = mode === 1 ? price.copyPrice : price.readPrice;
+      if (!price.set || amount === 0n) {
+        unpriced.push(id);
+        continue;
+      }
+      const key = canonical(price.token);
+      const cost = costs.get(key) ?? { token: price.token, total: 0n, providers: [] };
+      cost.total += amount;
+      cost.providers.push(id);
+      costs.set(key, cost);
+    }
+    const list = Array.from(costs.values());
+    // Allowance / 残高を取得済みのトークンだけで判定する (未取得なら送信前チェックに任せる)
+    const shortfalls = list.filter((cost) => {
+      const balances = tokenBalances[canonical(cost.token)];
+      return !!balances && (balances.allowance < cost.total || balances.balance < cost.total);
+    });
+    return { costs: list, unpriced, shortfalls };
+  }, [providers, pricing, mode, tokenBalances]);
+
   const canSubmit = useMemo(() => {
     return (
-      !!contract &&
+      !!signer &&
+      escrow.shortfalls.length === 0 &&
       !!patientResolution.address &&
       requesterClinicId.trim().length > 0 &&
-      providers.length > 0
+      providers.length > 0 &&
+      !scopeState.error &&
+      // スコープ本体は Worker に登録するため Worker API が必要
+      (!scoped || !!workerEndpoint)
     );
-  }, [contract, patientResolution.address, requesterClinicId, providers.length]);
+  }, [signer, escrow.shortfalls.length, patientResolution.address, requesterClinicId, providers.length, scopeState.error, scoped, workerEndpoint]);
 
   const refreshPricing = useCallback(async () => {
-    if (!contract || !signer || providers.length === 0) return;
+    // 価格とトークン情報は読むだけなので、読み取り専用の contract でも取れる
+    const runner = contract?.runner;
+    if (!contract || !runner || providers.length === 0) return;
 
     const priceUpdates: Record<string, ProviderPricing> = {};
     const metaUpdates: Record<string, TokenMeta> = {};
@@ -299,20 +371,7 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
 
         const tokenKey = canonical(tokenAddress);
         if (!tokenMeta[tokenKey]) {
-          const erc20 = new ethers.Contract(tokenAddress, ERC20_ABI, signer);
-          let symbol = tokenAddress.slice(0, 6) + "…";
-          let decimals = 18;
-          try {
-            symbol = await erc20.symbol();
-          } catch {
-            // ignore
-          }
-          try {
-            decimals = Number(await erc20.decimals());
-          } catch {
-            // ignore
-          }
-          metaUpdates[tokenKey] = { symbol, decimals };
+          metaUpdates[tokenKey] = await fetchTokenMeta(tokenAddress, runner);
         }
 
         if (!providerNames[key]) {
@@ -335,93 +394,66 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
     if (Object.keys(nameUpdates).length) {
       setProviderNames((prev) => ({ ...prev, ...nameUpdates }));
     }
-  }, [contract, signer, providers, tokenMeta, providerNames]);
+  }, [contract, providers, tokenMeta, providerNames]);
 
   useEffect(() => {
     refreshPricing();
   }, [refreshPricing]);
 
   const refreshBatches = useCallback(async () => {
-    if (!contract) return;
     const key = clinicKey(requesterClinicId);
     if (!key) {
       setBatches([]);
       return;
     }
+    if (!workerEndpoint) {
+      setBatchError("バッチ一覧の表示には VITE_WORKER_API (Worker のイベントインデックス) が必要です");
+      return;
+    }
 
     setLoadingBatches(true);
     setBatchError(null);
 
     try {
-      const nextBatchId = await contract.nextBatchId();
-      const latest = Number(nextBatchId ?? 0n);
-      const rows: BatchRow[] = [];
+      // Worker がインデックスしたイベントから取得する (バッチ・子リクエストごとの RPC 呼び出しはしない)
+      const page = await fetchIndexedBatches({ requester: key, limit: 10 });
       const nameUpdates: Record<string, string> = {};
       const metaUpdates: Record<string, TokenMeta> = {};
 
-      for (let id = latest; id >= 1 && rows.length < 10; id--) {
-        const batch = await contract.batches(id);
-        if (!batch?.exists) continue;
-        if ((batch.requesterClinicKey ?? "").toLowerCase() !== key) continue;
-
-        const childIds: bigint[] = Array.isArray(batch.childIds) ? batch.childIds : [];
-        const child: ChildRow[] = [];
-
-        for (const childId of childIds) {
-          const req = await contract.reqs(childId);
-          const providerKey: string = (req.providerClinicKey ?? "").toLowerCase();
-          const label = providerNames[providerKey] ?? providerKey;
-          const statusIdx = Number(req.status ?? 0);
-          const tokenAddr = checksum(req.token ?? ethers.ZeroAddress);
-          const price = toBigIntSafe(req.price);
-
-          child.push({
-            id: childId.toString(),
-            providerKey,
-            providerLabel: label,
-            status: STATUS_LABELS[statusIdx] ?? `#${statusIdx}`,
-            price,
-            token: tokenAddr,
-            manifestHash: req.manifestHash ?? "",
-          });
-
-          if (!providerNames[providerKey]) {
-            try {
-              const clinic = await contract.clinics(providerKey);
-              if (clinic?.registered) {
-                nameUpdates[providerKey] = clinic.clinicId || providerKey;
-              }
-            } catch (err) {
-              console.warn("clinic lookup failed", providerKey, err);
-            }
-          }
-
-          const tKey = canonical(tokenAddr);
-          if (!tokenMeta[tKey]) {
-            try {
-              const erc20 = new ethers.Contract(tokenAddr, ERC20_ABI, signer ?? contract.runner ?? undefined);
-              let symbol = tokenAddr.slice(0, 6) + "…";
-              let decimals = 18;
-              try {
-                symbol = await erc20.symbol();
-              } catch { /* ignore */ }
-              try {
-                decimals = Number(await erc20.decimals());
-              } catch { /* ignore */ }
-              metaUpdates[tKey] = { symbol, decimals };
-            } catch (err) {
-              console.warn("token meta fetch failed", tokenAddr, err);
-            }
+      const rows: BatchRow[] = page.batches.map((batch) => ({
+        batchId: String(batch.batchId),
+        mode: MODE_LABELS[batch.mode] ?? String(batch.mode),
+        totalPrice: toBigIntSafe(batch.totalPrice),
+        token: checksum(batch.token),
+        child: batch.children.map((req) => {
+          const providerKey = req.providerClinicKey.toLowerCase();
+          if (req.providerClinicId && !providerNames[providerKey]) {
+            nameUpdates[providerKey] = req.providerClinicId;
           }
+          return {
+            id: String(req.id),
+            providerKey,
+            providerLabel: req.providerClinicId ?? providerKey,
+            status: req.statusLabel,
+            price: toBigIntSafe(req.price),
+            token: checksum(req.token),
+            manifestHash: req.manifestHash,
+            scopeHash: req.scopeHash,
+          };
+        }),
+      }));
+
+      // トークン情報はトークンごとに1回だけ取得する
+      const runner = signer ?? contract?.runner;
+      const tokens = new Set(rows.flatMap((row) => [row.token, ...row.child.map((c) => c.token)]));
+      for (const tokenAddr of tokens) {
+        const tKey = canonical(tokenAddr);
+        if (tokenMeta[tKey] || !runner) continue;
+        try {
+          metaUpdates[tKey] = await fetchTokenMeta(tokenAddr, runner);
+        } catch (err) {
+          console.warn("token meta fetch failed", tokenAddr, err);
         }
-
-        rows.push({
-          batchId: id.toString(),
-          mode: MODE_LABELS[Number(batch.mode ?? 0)] ?? String(batch.mode ?? 0),
-          totalPrice: toBigIntSafe(batch.totalPrice),
-          token: checksum(batch.token ?? ethers.ZeroAddress),
-          child,
-        });
       }
 
       setBatches(rows);
@@ -437,19 +469,70 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
     } finally {
       setLoadingBatches(false);
     }
-  }, [contract, requesterClinicId, providerNames, signer, tokenMeta]);
+  }, [contract, requesterClinicId, providerNames, signer, tokenMeta, workerEndpoint]);
+
+  const refreshRequests = useCallback(async () => {
+    const key = clinicKey(requesterClinicId);
+    if (!key || !workerEndpoint) {
+      setOpenRequests([]);
+      setClosedRequests([]);
+      return;
+    }
+
+    try {
+      const [open, closed] = await Promise.all([
+        fetchIndexedRequests({ requester: key, status: "REQUESTED,PATIENT_APPROVED", limit: 50 }),
+        fetchIndexedRequests({ requester: key, status: "EXPIRED,CANCELED", limit: 10 }),
+      ]);
+      setOpenRequests(open.requests);
+      setClosedRequests(closed.requests);
+      setClock(Math.floor(Date.now() / 1000));
+      setRequestsError(null);
+      // インデックスに返金イベントが載ったものは確定待ちの表示をやめる
+      setRefundTxs((prev) => {
+        const pending = Object.entries(prev).filter(([id]) => open.requests.some((req) => req.id === Number(id)));
+        return pending.length === Object.keys(prev).length ? prev : Object.fromEntries(pending);
+      });
+
+      if (contract) {
+        // 返金先は申請時点ではなく、expire / cancel 実行時の自院 payout
+        const clinic = await contract.clinics(key);
+        setRequesterPayout(clinic?.registered ? checksum(clinic.payout) : null);
+      }
+
+      const runner = signer ?? contract?.runner;
+      const metaUpdates: Record<string, TokenMeta> = {};
+      for (const req of [...open.requests, ...closed.requests]) {
+        const tKey = canonical(req.token);
+        if (tokenMeta[tKey] || metaUpdates[tKey] || !runner) continue;
+        try {
+          metaUpdates[tKey] = await fetchTokenMeta(checksum(req.token), runner);
+        } catch (err) {
+          console.warn("token meta fetch failed", req.token, err);
+        }
+      }
+      if (Object.keys(metaUpdates).length) {
+        setTokenMeta((prev) => ({ ...prev, ...metaUpdates }));
+      }
+    } catch (err) {
+      console.error("request refresh failed", err);
+      setRequestsError(err instanceof Error ? err.message : String(err));
+    }
+  }, [contract, requesterClinicId, signer, tokenMeta, workerEndpoint]);
 
   useEffect(() => {
     // トランザクション実行中はポーリングを停止して負荷を下げる
     if (pendingTx) return;
 
     refreshBatches();
-    if (!contract) return;
+    refreshRequests();
+    if (!workerEndpoint) return;
     const interval = setInterval(() => {
       refreshBatches();
+      refreshRequests();
     }, 10000); // 5s -> 10s
     return () => clearInterval(interval);
-  }, [contract, refreshBatches, pendingTx]);
+  }, [workerEndpoint, refreshBatches, refreshRequests, pendingTx]);
 
   useEffect(() => {
     if (!signer || !address || trackedTokens.length === 0) return;
@@ -488,22 +571,90 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
     };
   }, [signer, address, trackedTokens, contractAddress, pendingTx]);
 
-  const createBatch = async () => {
-    if (!contract) return;
+  const approveEscrow = async (token: string, amount: bigint) => {
+    if (!signer || !address) return;
+    setPendingTx("Allowance を承認中...");
+    try {
+      const erc20 = new ethers.Contract(token, ERC20_ABI, signer);
+      const tx = await erc20.approve(contractAddress, amount);
+      await tx.wait();
+      const [allowanceBn, balanceBn] = await Promise.all([
+        erc20.allowance(address, contractAddress),
+        erc20.balanceOf(address),
+      ]);
+      setTokenBalances((prev) => ({
+        ...prev,
+        [canonical(token)]: { allowance: BigInt(allowanceBn ?? 0n), balance: BigInt(balanceBn ?? 0n) },
+      }));
+      setPendingTx("Allowance を承認しました");
+    } catch (e) {
+      setPendingTx(`承認に失敗しました: ${describeTxError(e)}`);
+    }
+  };
+
+  const settleRequest = async ({ id, kind }: RequestAction) => {
+    if (!contract || !signer) return;
+    const label = REQUEST_ACTION_LABELS[kind];
+    setConfirmAction(null);
+    setSettleStatus(`#${id} を${label}にしています...`);
+    try {
+      const method = contract.getFunction(kind);
+      await method.staticCall(id);
+      const tx = await method.send(id);
+      await tx.wait();
+      setRefundTxs((prev) => ({ ...prev, [id]: tx.hash }));
+      setSettleStatus(`#${id} を${label}にしました。エスクローは自院の payout に返金されます`);
+      refreshRequests();
+    } catch (e) {
+      setSettleStatus(`#${id} の${label}に失敗しました: ${describeTxError(e, contract.interface)}`);
+    }
+  };
+
+  // single=true なら選択中の 1 提供院に requestPatientAccess で申請する (バッチを作らない)
+  const submitRequest = async (single: boolean) => {
+    if (!contract || !signer) return;
     if (!patientResolution.address) {
       setPendingTx("患者アドレスを解決できませんでした");
       return;
     }
-    setPendingTx("申請送信中...");
+    if (!scopeState.scope || !scopeState.hash) {
+      setPendingTx(scopeState.error ?? "スコープが不正です");
+      return;
+    }
     setLastReqId("");
 
+    const args: unknown[] = single
+      ? [patientResolution.address, providers[0], requesterClinicId.trim(), mode]
+      : [patientResolution.address, requesterClinicId.trim(), providers, mode];
+    if (scoped) args.push(scopeState.hash);
+    const name = single ? "requestPatientAccess" : "createAccessBatch";
+    const method = contract.getFunction(scoped ? `${name}WithScope` : name);
+
+    // 送信前に eth_call で実行して、エスクロー不足などの revert を署名前に見せる
+    setPendingTx("送信前の確認中...");
+    try {
+      await method.staticCall(...args);
+    } catch (e) {
+      setPendingTx(`送信前の確認で失敗しました: ${describeTxError(e, contract.interface)}`);
+      return;
+    }
+
     try {
-      const tx = await contract.createAccessBatch(
-        patientResolution.address,
-        requesterClinicId.trim(),
-        providers,
-        mode
-      );
+      if (scoped) {
+        // スコープ本体を Worker に登録してから、そのハッシュをオンチェーンに記録する
+        setPendingTx("スコープを Worker に登録中...");
+        const stored = await workerJson<{ scopeHash?: string }>("/scopes", {
+          method: "POST",
+          json: { scope: scopeState.scope },
+        }).catch((err) => {
+          throw new Error(`スコープ登録に失敗しました: ${err?.message || err}`);
+        });
+        if ((stored.scopeHash ?? "").toLowerCase() !== scopeState.hash.toLowerCase()) {
+          throw new Error("Worker が返したスコープハッシュが一致しません");
+        }
+      }
+      setPendingTx("申請送信中...");
+      const tx = await method.send(...args);
       const receipt = await tx.wait();
       if (!receipt) {
         setPendingTx("トランザクションの確定を取得できませんでした");
@@ -550,7 +701,16 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
       setPendingTx("申請を送信しました");
       refreshBatches();
     } catch (e: any) {
-      setPendingTx(e?.reason || e?.message || String(e));
+      let failure: unknown = e;
+      // マイニング後の revert は理由が付かないことが多いので、直前のブロックで再実行して取り出す
+      if (e?.receipt && !revertReason(e, contract.interface)) {
+        try {
+          await method.staticCall(...args, { blockTag: e.receipt.blockNumber - 1 });
+        } catch (replayed) {
+          failure = replayed;
+        }
+      }
+      setPendingTx(describeTxError(failure, contract.interface));
     }
   };
 
@@ -640,14 +800,127 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
             </label>
           </div>
 
+          <div className="border rounded p-3 space-y-2">
+            <div className="text-sm font-semibold">対象範囲（任意・未入力なら全検査）</div>
+            <textarea
+              className="border p-2 w-full font-mono text-xs"
+              rows={2}
+              placeholder="StudyInstanceUID（改行/カンマ区切り）"
+              value={scopeForm.studyInstanceUids}
+              onChange={(e) => setScopeForm((prev) => ({ ...prev, studyInstanceUids: e.target.value }))}
+            />
+            <div className="flex flex-wrap gap-2 items-center text-sm">
+              <label className="flex items-center gap-1">
+                検査日
+                <input
+                  type="date"
+                  className="border p-1"
+                  value={scopeForm.studyDateFrom}
+                  onChange={(e) => setScopeForm((prev) => ({ ...prev, studyDateFrom: e.target.value }))}
+                />
+              </label>
+              〜
+              <input
+                type="date"
+                className="border p-1"
+                value={scopeForm.studyDateTo}
+                onChange={(e) => setScopeForm((prev) => ({ ...prev, studyDateTo: e.target.value }))}
+              />
+              <input
+                className="border p-1 flex-1"
+                placeholder="モダリティ（例 CT, MR）"
+                value={scopeForm.modalities}
+                onChange={(e) => setScopeForm((prev) => ({ ...prev, modalities: e.target.value }))}
+              />
+            </div>
+            <div className="text-xs opacity-70">
+              {scopeState.error && <span className="text-red-600">{scopeState.error}</span>}
+              {!scopeState.error && scopeState.scope && (
+                <>
+                  {describeScope(scopeState.scope)}
+                  {scoped && <span className="ml-2 font-mono break-all">scopeHash: {scopeState.hash}</span>}
+                  {scoped && !workerEndpoint && <span className="ml-2 text-red-600">VITE_WORKER_API が必要です</span>}
+                </>
+              )}
+            </div>
+          </div>
+
+          {escrow.costs.length > 0 && (
+            <div className="border rounded p-3 space-y-2 text-sm">
+              <div className="font-semibold">エスクロー見積もり（{MODE_LABELS[mode]}）</div>
+              {escrow.costs.length > 1 && (
+                <div className="text-red-600">
+                  提供院の価格トークンが異なるため一括申請できません（TOKEN_MISMATCH）。トークンごとに分けて申請してください。
+                </div>
+              )}
+              {escrow.costs.map((cost) => {
+                const key = canonical(cost.token);
+                const balances = tokenBalances[key];
+                const cap = approveCapAmount(tokenMeta[key]);
+                const needsApproval = !!balances && balances.allowance < cost.total;
+                return (
+                  <div key={key} className="space-y-1">
+                    <div>
+                      合計 <span className="font-semibold">{formatAmount(cost.total, cost.token, tokenMeta)}</span>
+                      <span className="opacity-70">（{cost.providers.join(", ")}）</span>
+                    </div>
+                    {!balances && <div className="opacity-70">Allowance / 残高を取得中...</div>}
+                    {balances && (
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span className={needsApproval ? "text-red-600" : "text-green-700"}>
+                          Allowance: {formatAmount(balances.allowance, cost.token, tokenMeta)}
+                        </span>
+                        <span className={balances.balance < cost.total ? "text-red-600" : ""}>
+                          残高: {formatAmount(balances.balance, cost.token, tokenMeta)}
+                        </span>
+                        {balances.balance < cost.total && <span className="text-red-600">残高が不足しています</span>}
+                        {needsApproval && (
+                          <>
+                            <button
+                              className="border px-2 py-1 rounded"
+                              onClick={() => approveEscrow(cost.token, cost.total)}
+                              title="今回の申請額だけ承認します"
+                            >
+                              {formatAmount(cost.total, cost.token, tokenMeta)} を承認
+                            </button>
+                            {cap !== null && cap > cost.total && (
+                              <button
+                                className="border px-2 py-1 rounded"
+                                onClick={() => approveEscrow(cost.token, cap)}
+                                title="VITE_ERC20_APPROVE_CAP まで承認し、次回以降の申請で承認を省きます"
+                              >
+                                {cap === ethers.MaxUint256 ? "無制限に承認" : `${formatAmount(cap, cost.token, tokenMeta)} まで承認`}
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {escrow.unpriced.length > 0 && (
+                <div className="text-red-600">価格が未設定（または 0）の提供院: {escrow.unpriced.join(", ")}</div>
+              )}
+            </div>
+          )}
+
           <button
             className="border px-3 py-2 rounded disabled:opacity-50"
-            onClick={createBatch}
+            onClick={() => submitRequest(false)}
             disabled={!canSubmit}
-            title={!canSubmit ? "患者/自院ID/提供院IDを入力してください" : ""}
+            title={!canSubmit ? "患者/自院ID/提供院ID/対象範囲/Allowance を確認してください" : ""}
           >
             一括申請（エスクロー）
           </button>
+          <button
+            className="border px-3 py-2 rounded disabled:opacity-50"
+            onClick={() => submitRequest(true)}
+            disabled={!canSubmit || providers.length !== 1}
+            title={providers.length !== 1 ? "単独申請は提供院を 1 つだけ指定してください" : "バッチを作らずに 1 件だけ申請します"}
+          >
+            単独申請（requestPatientAccess）
+          </button>
 
           {lastReqId && (
             <div className="mt-2 text-sm">
@@ -712,8 +985,13 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
 
       <div className="space-y-3">
         <h3 className="text-lg font-semibold">Worker 進捗 / 通知</h3>
-        {copyEventError && <div className="text-sm text-red-600">Worker API エラー: {copyEventError}</div>}
-        {!copyEventError && recentCopyEvents.length === 0 && (
+        {copyStream?.state === "reconnecting" && (
+          <div className="text-sm text-red-600">
+            Worker API エラー: {copyStream.error} ({Math.round(copyStream.retryInMs / 1000)} 秒後に再接続します)
+          </div>
+        )}
+        {copyStream?.state === "connecting" && <div className="text-sm opacity-70">Worker に接続しています…</div>}
+        {copyStream?.state === "open" && recentCopyEvents.length === 0 && (
           <div className="text-sm opacity-70">最近のコピーイベントはありません。</div>
         )}
         {recentCopyEvents.map((event) => {
@@ -790,6 +1068,124 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
         })}
       </div>
 
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold">未完了の申請 / 返金</h3>
+        {!workerEndpoint && <div className="text-sm opacity-70">申請一覧の表示には VITE_WORKER_API が必要です。</div>}
+        {requestsError && <div className="text-sm text-red-600">{requestsError}</div>}
+        {settleStatus && <div className="text-sm opacity-80">{settleStatus}</div>}
+        {workerEndpoint && openRequests.length === 0 && !requestsError && (
+          <div className="text-sm opacity-70">承認待ち・承認済みの申請はありません。</div>
+        )}
+        {openRequests.length > 0 && (
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-2 py-1 text-left">ReqID</th>
+                <th className="px-2 py-1 text-left">Provider</th>
+                <th className="px-2 py-1 text-left">Mode</th>
+                <th className="px-2 py-1 text-left">状態</th>
+                <th className="px-2 py-1 text-left">経過</th>
+                <th className="px-2 py-1 text-left">エスクロー</th>
+                <th className="px-2 py-1 text-left"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {openRequests.map((req) => {
+                const age = clock - req.requestedAt.timestamp;
+                const expirable = age >= EXPIRE_AFTER_DAYS * 86400;
+                const confirming = confirmAction?.id === req.id ? confirmAction : null;
+                const refundTx = refundTxs[req.id];
+                return (
+                  <React.Fragment key={req.id}>
+                    <tr>
+                      <td className="border-t px-2 py-1 font-mono">
+                        {req.id}
+                        {req.batchId !== undefined && <span className="opacity-60"> (batch {req.batchId})</span>}
+                      </td>
+                      <td className="border-t px-2 py-1">{req.providerClinicId ?? req.providerClinicKey}</td>
+                      <td className="border-t px-2 py-1">{MODE_LABELS[req.mode] ?? req.mode}</td>
+                      <td className="border-t px-2 py-1">{req.statusLabel}</td>
+                      <td className="border-t px-2 py-1" title={new Date(req.requestedAt.timestamp * 1000).toLocaleString()}>
+                        <span className={expirable ? "text-amber-700" : ""}>{formatAge(age)}</span>
+                      </td>
+                      <td className="border-t px-2 py-1">{formatAmount(toBigIntSafe(req.price), req.token, tokenMeta)}</td>
+                      <td className="border-t px-2 py-1 space-x-2 whitespace-nowrap">
+                        {refundTx ? (
+                          <span className="opacity-70" title={refundTx}>返金確定・インデックス反映待ち</span>
+                        ) : (
+                          <>
+                            <button
+                              className="border px-2 py-0.5 rounded disabled:opacity-50"
+                              onClick={() => setConfirmAction({ id: req.id, kind: "cancel" })}
+                              disabled={!signer}
+                            >
+                              取消
+                            </button>
+                            <button
+                              className="border px-2 py-0.5 rounded disabled:opacity-50"
+                              onClick={() => setConfirmAction({ id: req.id, kind: "expire" })}
+                              disabled={!signer || !expirable}
+                              title={expirable ? "" : `申請から ${EXPIRE_AFTER_DAYS} 日経つと期限切れにできます`}
+                            >
+                              期限切れ
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                    {confirming && (
+                      <tr className="bg-amber-50">
+                        <td className="px-2 py-2" colSpan={7}>
+                          <div className="flex flex-wrap items-center gap-3">
+                            <span>
+                              #{req.id} を{REQUEST_ACTION_LABELS[confirming.kind]}にすると、
+                              <span className="font-semibold">{formatAmount(toBigIntSafe(req.price), req.token, tokenMeta)}</span>
+                              が自院の payout
+                              <span className="font-mono ml-1">{requesterPayout ?? "(取得中)"}</span>
+                              に返金されます。
+                              {req.status === 1 && " 患者は承認済みですが、提供前なので取り消せます。"}
+                            </span>
+                            <button className="bg-amber-600 text-white px-3 py-1 rounded" onClick={() => settleRequest(confirming)}>
+                              実行
+                            </button>
+                            <button className="border px-3 py-1 rounded" onClick={() => setConfirmAction(null)}>
+                              やめる
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {closedRequests.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <div className="font-semibold">返金済み（直近10件）</div>
+            {closedRequests.map((req) => {
+              // 返金の transfer はイベントと同じトランザクションで行われるので、イベントがあれば返金済み
+              const refund = req.history.find((h) => h.event === "AccessExpired" || h.event === "AccessCanceled");
+              return (
+                <div key={req.id} className="flex flex-wrap gap-3">
+                  <span className="font-mono">#{req.id}</span>
+                  <span>{req.providerClinicId ?? req.providerClinicKey}</span>
+                  <span>{req.statusLabel}</span>
+                  <span>{formatAmount(toBigIntSafe(req.price), req.token, tokenMeta)}</span>
+                  {refund && (
+                    <span className="opacity-70">
+                      {new Date(refund.timestamp * 1000).toLocaleString()}（block {refund.blockNumber},
+                      <span className="font-mono ml-1" title={refund.txHash}>{refund.txHash.slice(0, 10)}…</span>）
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       <div className="space-y-3">
         <h3 className="text-lg font-semibold">進捗モニター（直近10件）</h3>
         {loadingBatches && <div className="text-sm">読み込み中…</div>}
@@ -812,6 +1208,7 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
                   <th className="px-2 py-1 text-left">Provider</th>
                   <th className="px-2 py-1 text-left">状態</th>
                   <th className="px-2 py-1 text-left">価格</th>
+                  <th className="px-2 py-1 text-left">Scope</th>
                   <th className="px-2 py-1 text-left">Manifest Hash</th>
                 </tr>
               </thead>
@@ -822,6 +1219,9 @@ export default function RequesterDashboard({ contractAddress }: { contractAddres
                     <td className="border-t px-2 py-1">{providerNames[child.providerKey] ?? child.providerLabel}</td>
                     <td className="border-t px-2 py-1">{child.status}</td>
                     <td className="border-t px-2 py-1">{formatAmount(child.price, child.token, tokenMeta)}</td>
+                    <td className="border-t px-2 py-1 font-mono" title={child.scopeHash}>
+                      {child.scopeHash === ethers.ZeroHash ? "全検査" : `${child.scopeHash.slice(0, 10)}…`}
+                    </td>
                     <td className="border-t px-2 py-1 font-mono break-all">{child.manifestHash || "—"}</td>
                   </tr>
                 ))}
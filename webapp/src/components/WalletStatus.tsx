@@ -0,0 +1,37 @@
+import React from "react";
+import { useContract } from "../hooks/usePatientAccess";
+import { walletProvider } from "../lib/chain";
+
+type Props = {
+  contractAddress: string;
+};
+
+// ヘッダーに出すウォレットの接続状態。別チェーンなら切り替えボタン、未接続なら接続ボタンを出す
+export default function WalletStatus({ contractAddress }: Props) {
+  const { address, chainId, readOnly, wrongChain, error, connect, switchChain } = useContract(contractAddress);
+  const hasWallet = !!walletProvider();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {address ? (
+        <span className="font-mono text-xs" title={`chainId ${chainId ?? "-"}`}>
+          {address.slice(0, 6)}…{address.slice(-4)}
+        </span>
+      ) : (
+        <span className="opacity-70">{hasWallet ? "ウォレット未接続" : "ウォレットなし"}</span>
+      )}
+      {readOnly && !wrongChain && <span className="text-xs bg-gray-100 px-2 py-0.5 rounded">読み取り専用</span>}
+      {wrongChain && (
+        <button className="bg-orange-500 text-white px-3 py-1 rounded" onClick={() => void switchChain()} title={error ?? ""}>
+          ネットワークを切り替え
+        </button>
+      )}
+      {hasWallet && !address && (
+        <button className="border px-3 py-1 rounded hover:bg-gray-100" onClick={connect}>
+          ウォレットを接続
+        </button>
+      )}
+      {error && <span className="text-red-600 text-xs">{error}</span>}
+    </div>
+  );
+}
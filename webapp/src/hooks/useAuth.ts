@@ -0,0 +1,25 @@
+// webapp/src/hooks/useAuth.ts
+import { useSyncExternalStore } from "react";
+import { getSession, hasAnyRole, login, logout, oidcEnabled, subscribeSession } from "../lib/oidc";
+import type { OidcSession } from "../lib/oidc";
+
+export type AuthContext = {
+  /** OIDC が無効なら常に false で、画面は認証なしの Worker を前提に全部表示する */
+  enabled: boolean;
+  session: OidcSession | null;
+  hasAnyRole: (roles: readonly string[]) => boolean;
+  login: () => Promise<void>;
+  logout: () => Promise<void>;
+};
+
+export function useAuth(): AuthContext {
+  const session = useSyncExternalStore(subscribeSession, getSession);
+  const enabled = oidcEnabled();
+  return {
+    enabled,
+    session,
+    hasAnyRole: (roles) => !enabled || hasAnyRole(session, roles),
+    login,
+    logout,
+  };
+}
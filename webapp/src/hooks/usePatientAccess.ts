@@ -1,69 +1,153 @@
 // webapp/src/hooks/usePatientAccess.ts
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
 import abi from "../abi/PatientAccess.json";
+import { EXPECTED_CHAIN, readOnlyProvider, switchToExpectedChain, walletProvider } from "../lib/chain";
+import { describeTxError } from "../lib/txErrors";
 
-export type ContractContext = {
+type ConnectionState = {
   contract: ethers.Contract | null;
   signer: ethers.Signer | null;
   address: string | null;
-  provider: ethers.BrowserProvider | null;
+  provider: ethers.JsonRpcApiProvider | null;
   chainId: number | null;
+  /** 署名できない状態 (ウォレットなし・未接続・別チェーン)。contract は読み取りだけに使える */
+  readOnly: boolean;
+  /** ウォレットが EXPECTED_CHAIN と違うチェーンにつながっている */
+  wrongChain: boolean;
+  error: string | null;
 };
 
-const emptyContext: ContractContext = {
+export type ContractContext = ConnectionState & {
+  expectedChainId: number | null;
+  /** ウォレットに接続を求める (読み取り専用モードから署名できる状態にする) */
+  connect: () => void;
+  /** ウォレットを EXPECTED_CHAIN に切り替える (未登録なら追加する) */
+  switchChain: () => Promise<void>;
+};
+
+const emptyState: ConnectionState = {
   contract: null,
   signer: null,
   address: null,
   provider: null,
   chainId: null,
+  readOnly: true,
+  wrongChain: false,
+  error: null,
 };
 
+function contractAbi(): ethers.InterfaceAbi {
+  return (abi as { abi: ethers.InterfaceAbi }).abi;
+}
+
+// ウォレットなしでも一覧などを表示できるよう、VITE_RPC_URL があればそこから読む
+function readOnlyState(addr: string, overrides: Partial<ConnectionState> = {}): ConnectionState {
+  const provider = readOnlyProvider();
+  return {
+    ...emptyState,
+    contract: provider ? new ethers.Contract(addr, contractAbi(), provider) : null,
+    provider,
+    chainId: EXPECTED_CHAIN?.chainId ?? null,
+    ...overrides,
+  };
+}
+
+async function connectWallet(addr: string, prompt: boolean): Promise<ConnectionState> {
+  const wallet = walletProvider();
+  if (!wallet) return readOnlyState(addr);
+
+  try {
+    const provider = new ethers.BrowserProvider(wallet);
+    // 起動時と connect() ではアカウントの許可を求め、ウォレットのイベントで繋ぎ直すときは黙って確認するだけにする
+    const accounts: string[] = await provider.send(prompt ? "eth_requestAccounts" : "eth_accounts", []);
+    const chainId = Number((await provider.getNetwork()).chainId);
+    if (!accounts.length) return readOnlyState(addr);
+
+    const signer = await provider.getSigner(accounts[0]);
+    const address = await signer.getAddress();
+    if (EXPECTED_CHAIN && chainId !== EXPECTED_CHAIN.chainId) {
+      // 別チェーンの同じアドレスに送ると原因の分かりにくい失敗になるので、切り替えるまで署名させない
+      return readOnlyState(addr, {
+        address,
+        chainId,
+        wrongChain: true,
+        error: `ウォレットが ${EXPECTED_CHAIN.name} (chainId ${EXPECTED_CHAIN.chainId}) ではなく chainId ${chainId} に接続されています`,
+      });
+    }
+    return {
+      contract: new ethers.Contract(addr, contractAbi(), signer),
+      signer,
+      address,
+      provider,
+      chainId,
+      readOnly: false,
+      wrongChain: false,
+      error: null,
+    };
+  } catch (err) {
+    console.error("useContract: failed to initialise", err);
+    return readOnlyState(addr, { error: describeTxError(err) });
+  }
+}
+
 export function useContract(addr: string): ContractContext {
-  const [ctx, setCtx] = useState<ContractContext>(emptyContext);
+  const [state, setState] = useState<ConnectionState>(emptyState);
+  // アカウント・チェーンが変わるたびに増やして接続し直す
+  const [generation, setGeneration] = useState(0);
+  const promptRef = useRef(true);
 
   useEffect(() => {
-    let cancelled = false;
-
-    const connect = async () => {
-      const anyWin = window as any;
-      if (!anyWin.ethereum || !addr) {
-        setCtx(emptyContext);
-        return;
-      }
-
-      try {
-        const provider = new ethers.BrowserProvider(anyWin.ethereum);
-        await provider.send("eth_requestAccounts", []);
-        const signer = await provider.getSigner();
-        const [address, network] = await Promise.all([
-          signer.getAddress(),
-          provider.getNetwork(),
-        ]);
-        const contract = new ethers.Contract(addr, (abi as any).abi, signer);
-
-        if (!cancelled) {
-          setCtx({
-            contract,
-            signer,
-            address,
-            provider,
-            chainId: Number(network.chainId),
-          });
-        }
-      } catch (err) {
-        console.error("useContract: failed to initialise", err);
-        if (!cancelled) setCtx(emptyContext);
-      }
+    const wallet = walletProvider();
+    if (!wallet?.on) return;
+    const reconnect = () => {
+      promptRef.current = false;
+      setGeneration((n) => n + 1);
+    };
+    wallet.on("accountsChanged", reconnect);
+    wallet.on("chainChanged", reconnect);
+    return () => {
+      wallet.removeListener?.("accountsChanged", reconnect);
+      wallet.removeListener?.("chainChanged", reconnect);
     };
+  }, []);
 
-    setCtx(emptyContext);
-    connect();
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!addr) {
+      setState(emptyState);
+      return;
+    }
+    // BrowserProvider はチェーンが変わると使えなくなるので、前の接続は捨てて作り直す
+    setState(emptyState);
+    connectWallet(addr, promptRef.current).then((next) => {
+      if (!cancelled) setState(next);
+    });
 
     return () => {
       cancelled = true;
     };
-  }, [addr]);
+  }, [addr, generation]);
+
+  const connect = useCallback(() => {
+    promptRef.current = true;
+    setGeneration((n) => n + 1);
+  }, []);
+
+  const switchChain = useCallback(async () => {
+    const wallet = walletProvider();
+    if (!wallet) return;
+    try {
+      // 切り替わると chainChanged が届き、そこで接続し直す
+      await switchToExpectedChain(wallet);
+    } catch (err) {
+      setState((prev) => ({ ...prev, error: describeTxError(err) }));
+    }
+  }, []);
 
-  return ctx;
+  return useMemo(
+    () => ({ ...state, expectedChainId: EXPECTED_CHAIN?.chainId ?? null, connect, switchChain }),
+    [state, connect, switchChain]
+  );
 }
@@ -0,0 +1,88 @@
+// 接続先チェーンの設定と、ウォレット (EIP-1193) へのネットワーク切り替え要求
+//
+// VITE_CHAIN_ID があればウォレットのチェーンをそれと突き合わせ、違えば wallet_switchEthereumChain で切り替えてもらう。
+// ウォレットがそのチェーンを知らない (4902) ときは VITE_RPC_URL を使って wallet_addEthereumChain で追加する。
+// VITE_RPC_URL はウォレットなしで画面を表示する読み取り専用モードにも使う。
+
+import { ethers } from "ethers";
+
+export type ChainConfig = {
+  chainId: number;
+  name: string;
+  rpcUrl?: string;
+  currencySymbol: string;
+  explorerUrl?: string;
+};
+
+export type WalletProvider = ethers.Eip1193Provider & {
+  on?: (event: string, listener: (...args: unknown[]) => void) => void;
+  removeListener?: (event: string, listener: (...args: unknown[]) => void) => void;
+};
+
+function env(name: string): string | undefined {
+  return (import.meta.env[name] as string | undefined)?.trim() || undefined;
+}
+
+function loadChain(): ChainConfig | null {
+  const chainId = Number(env("VITE_CHAIN_ID"));
+  if (!Number.isInteger(chainId) || chainId <= 0) return null;
+  return {
+    chainId,
+    name: env("VITE_CHAIN_NAME") ?? `Chain ${chainId}`,
+    rpcUrl: env("VITE_RPC_URL"),
+    currencySymbol: env("VITE_CHAIN_CURRENCY") ?? "ETH",
+    explorerUrl: env("VITE_BLOCK_EXPLORER_URL"),
+  };
+}
+
+/** 期待するチェーン。VITE_CHAIN_ID が未設定ならチェーンの確認はしない */
+export const EXPECTED_CHAIN = loadChain();
+
+export function walletProvider(): WalletProvider | null {
+  return (window as Window & { ethereum?: WalletProvider }).ethereum ?? null;
+}
+
+let readOnly: ethers.JsonRpcProvider | null | undefined;
+
+/** ウォレットなしで読むための JsonRpcProvider (VITE_RPC_URL が無ければ null)。画面全体で 1 つを使い回す */
+export function readOnlyProvider(): ethers.JsonRpcProvider | null {
+  if (readOnly === undefined) {
+    const rpcUrl = env("VITE_RPC_URL");
+    // chainId を渡しておけば起動時のネットワーク検出を省ける
+    readOnly = rpcUrl
+      ? new ethers.JsonRpcProvider(rpcUrl, EXPECTED_CHAIN?.chainId, EXPECTED_CHAIN ? { staticNetwork: true } : undefined)
+      : null;
+  }
+  return readOnly;
+}
+
+function errorCode(err: unknown): unknown {
+  const e = err as { code?: unknown; data?: { originalError?: { code?: unknown } }; error?: { code?: unknown } } | null;
+  return e?.data?.originalError?.code ?? e?.error?.code ?? e?.code;
+}
+
+/** ウォレットを期待するチェーンに切り替える。未登録のチェーンなら追加を求める */
+export async function switchToExpectedChain(wallet: WalletProvider): Promise<void> {
+  if (!EXPECTED_CHAIN) return;
+  const chainId = ethers.toQuantity(EXPECTED_CHAIN.chainId);
+  try {
+    await wallet.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (err) {
+    if (errorCode(err) !== 4902) throw err;
+    if (!EXPECTED_CHAIN.rpcUrl) {
+      throw new Error(`ウォレットに ${EXPECTED_CHAIN.name} が登録されていません (VITE_RPC_URL が無いため追加できません)`);
+    }
+    await wallet.request({
+      method: "wallet_addEthereumChain",
+      params: [
+        {
+          chainId,
+          chainName: EXPECTED_CHAIN.name,
+          rpcUrls: [EXPECTED_CHAIN.rpcUrl],
+          nativeCurrency: { name: EXPECTED_CHAIN.currencySymbol, symbol: EXPECTED_CHAIN.currencySymbol, decimals: 18 },
+          ...(EXPECTED_CHAIN.explorerUrl ? { blockExplorerUrls: [EXPECTED_CHAIN.explorerUrl] } : {}),
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,107 @@
+// Worker の /index/* (PatientAccess イベントのローカルインデックス) を読むためのクライアント
+
+import { WorkerApiError, workerJson } from "./workerClient";
+
+export type ChainPoint = {
+  blockNumber: number;
+  txHash: string;
+  /** epoch seconds */
+  timestamp: number;
+};
+
+export type IndexedRequest = {
+  id: number;
+  patient: string;
+  providerClinicKey: string;
+  providerClinicId?: string;
+  requesterClinicKey: string;
+  requesterClinicId?: string;
+  mode: number;
+  token: string;
+  /** wei (10進文字列) */
+  price: string;
+  status: number;
+  statusLabel: string;
+  manifestHash: string;
+  scopeHash: string;
+  batchId?: number;
+  requestedAt: ChainPoint;
+  updatedAt: ChainPoint;
+  history: (ChainPoint & { event: string })[];
+};
+
+export type IndexedBatch = {
+  batchId: number;
+  patient: string;
+  requesterClinicKey: string;
+  requesterClinicId?: string;
+  mode: number;
+  token: string;
+  totalPrice: string;
+  childIds: number[];
+  createdAt: ChainPoint;
+  children: IndexedRequest[];
+};
+
+export type IndexedClinic = {
+  clinicKey: string;
+  clinicId: string;
+  payout: string;
+  operator: string;
+  price: { token: string; readPrice: string; copyPrice: string; setAt: ChainPoint } | null;
+  registeredAt: ChainPoint;
+  updatedAt: ChainPoint;
+};
+
+type Page = { total: number; block: number | null };
+
+export type RequestPage = Page & { requests: IndexedRequest[]; limit: number; offset: number };
+export type BatchPage = Page & { batches: IndexedBatch[]; limit: number; offset: number };
+export type ClinicPage = Page & { clinics: IndexedClinic[] };
+
+type Params = Record<string, string | number | boolean | undefined>;
+
+/** `token` を省くとログイン中の OIDC セッションのトークンを使う */
+async function fetchIndex<T>(path: string, params: Params = {}, token?: string): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  }
+  const query = search.toString();
+  try {
+    return await workerJson<T>(`/index/${path}${query ? `?${query}` : ""}`, { token });
+  } catch (err) {
+    if (err instanceof WorkerApiError) throw new Error(`インデックスの取得に失敗しました (HTTP ${err.status}): ${err.message}`);
+    throw err;
+  }
+}
+
+export function fetchIndexedRequests(
+  params: {
+    id?: number;
+    patient?: string;
+    provider?: string;
+    requester?: string;
+    status?: string;
+    batchId?: number;
+    limit?: number;
+    offset?: number;
+  },
+  token?: string
+): Promise<RequestPage> {
+  return fetchIndex<RequestPage>("requests", params, token);
+}
+
+export function fetchIndexedBatches(
+  params: { patient?: string; requester?: string; limit?: number; offset?: number },
+  token?: string
+): Promise<BatchPage> {
+  return fetchIndex<BatchPage>("batches", params, token);
+}
+
+export function fetchIndexedClinics(
+  params: { clinic?: string; operator?: string; payout?: string; priced?: boolean } = {},
+  token?: string
+): Promise<ClinicPage> {
+  return fetchIndex<ClinicPage>("clinics", params, token);
+}
@@ -0,0 +1,163 @@
+// Worker の /copy-events/stream (Server-Sent Events) を購読するクライアント
+//
+// EventSource は Authorization ヘッダーを付けられないため、fetch の ReadableStream で SSE を読む。
+// 切断時は指数バックオフで再接続し、再接続ごとに届く snapshot で一覧を置き換える。
+
+import { workerApiRoot, workerFetch } from "./workerClient";
+
+export type CopyEventStatus = "pending" | "copying" | "completed" | "partial" | "error";
+
+export type CopyEventFailure = {
+  sop: string;
+  message: string;
+};
+
+export type CopyEventSummary = {
+  requestId: number;
+  attempt?: number;
+  providerId?: string;
+  patientAddress: string;
+  patientId: string;
+  total: number;
+  success: number;
+  failed: number;
+  status: CopyEventStatus;
+  errors: string[];
+  failures: CopyEventFailure[];
+  manifestHash?: string;
+  startedAt: string;
+  updatedAt: string;
+};
+
+export type CopyEventFrame =
+  | { type: "snapshot"; events: CopyEventSummary[] }
+  | { type: "progress"; requestId: number; event: CopyEventSummary }
+  | { type: "status"; requestId: number; from: CopyEventStatus | null; event: CopyEventSummary }
+  | { type: "failure"; requestId: number; attempt: number; failure: CopyEventFailure };
+
+export type CopyEventStreamState =
+  | { state: "connecting" }
+  | { state: "open" }
+  | { state: "reconnecting"; error: string; retryInMs: number };
+
+export type CopyEventQuery = {
+  requestId?: number;
+  providerId?: string;
+  patient?: string;
+  limit?: number;
+};
+
+const MAX_RETRY_MS = 30000;
+// Worker 側の要約と同じ件数だけ保持する
+const KEPT_FAILURES = 20;
+
+/** 受信したフレームを一覧に反映する。一覧は updatedAt の新しい順。 */
+export function applyCopyEventFrame(events: CopyEventSummary[], frame: CopyEventFrame): CopyEventSummary[] {
+  if (frame.type === "snapshot") return frame.events;
+  if (frame.type === "failure") {
+    return events.map((event) =>
+      event.requestId === frame.requestId && (event.attempt ?? 1) === frame.attempt
+        ? { ...event, failures: [...event.failures, frame.failure].slice(-KEPT_FAILURES) }
+        : event
+    );
+  }
+  return [frame.event, ...events.filter((event) => event.requestId !== frame.requestId)];
+}
+
+function parseBlock(block: string): { event?: string; data?: string; retry?: number } {
+  let event: string | undefined;
+  let retry: number | undefined;
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+    const sep = line.indexOf(":");
+    const field = sep < 0 ? line : line.slice(0, sep);
+    const value = sep < 0 ? "" : line.slice(sep + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+    else if (field === "retry" && /^\d+$/.test(value)) retry = Number(value);
+  }
+  return { event, data: data.length ? data.join("\n") : undefined, retry };
+}
+
+/**
+ * /copy-events/stream を購読する。戻り値の関数を呼ぶまで再接続を続ける。
+ * `token` は接続のたびに呼ばれるので、更新されたアクセストークンもそのまま使える。省くと OIDC セッションのトークンを使う。
+ */
+export function subscribeCopyEvents(
+  handlers: {
+    onFrame: (frame: CopyEventFrame) => void;
+    onState?: (state: CopyEventStreamState) => void;
+  },
+  options: { query?: CopyEventQuery; token?: () => string | undefined } = {}
+): () => void {
+  if (!workerApiRoot()) throw new Error("VITE_WORKER_API が設定されていません");
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  }
+  const query = search.toString();
+  const path = `/copy-events/stream${query ? `?${query}` : ""}`;
+
+  let stopped = false;
+  let controller: AbortController | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let baseDelay = 3000;
+  let attempts = 0;
+
+  const dispatch = (name: string, data: string) => {
+    const parsed = JSON.parse(data);
+    if (name === "snapshot") handlers.onFrame({ type: "snapshot", events: parsed.events ?? [] });
+    else if (name === "progress" || name === "status" || name === "failure") handlers.onFrame({ type: name, ...parsed });
+  };
+
+  const connect = async () => {
+    controller = new AbortController();
+    handlers.onState?.({ state: "connecting" });
+    try {
+      const res = await workerFetch(path, {
+        headers: { Accept: "text/event-stream" },
+        token: options.token?.(),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) >= 0) {
+          const block = parseBlock(buffer.slice(0, end));
+          buffer = buffer.slice(end + 2);
+          if (block.retry !== undefined) baseDelay = block.retry;
+          if (!block.event || block.data === undefined) continue;
+          if (block.event === "snapshot") {
+            attempts = 0;
+            handlers.onState?.({ state: "open" });
+          }
+          dispatch(block.event, block.data);
+        }
+      }
+      throw new Error("接続が閉じられました");
+    } catch (err) {
+      if (stopped) return;
+      const retryInMs = Math.min(baseDelay * 2 ** attempts, MAX_RETRY_MS);
+      attempts++;
+      handlers.onState?.({ state: "reconnecting", error: err instanceof Error ? err.message : String(err), retryInMs });
+      timer = setTimeout(connect, retryInMs);
+    }
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    controller?.abort();
+  };
+}
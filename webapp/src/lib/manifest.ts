@@ -0,0 +1,100 @@
+import { ethers } from "ethers";
+
+// worker/manifest.ts と同じ正規化・ハッシュ規則（変更する場合は両方を揃えること。worker/test/manifest.test.ts が両方を同じベクタで検証する）
+export type ManifestInstance = {
+  sop: string;
+  series?: string;
+  study?: string;
+  sha256?: string;
+};
+
+export type ManifestFailure = {
+  sop: string;
+  series?: string;
+  study?: string;
+};
+
+export type ManifestDocument = {
+  version: 2;
+  requestId: number;
+  providerId: string;
+  instances: ManifestInstance[];
+  failed: ManifestFailure[];
+  manifestHash: string;
+  startedAt?: string;
+  completedAt: string;
+};
+
+export type ManifestProof = {
+  requestId: number;
+  sop: string;
+  copied: boolean;
+  entry: ManifestInstance | ManifestFailure;
+  leaf: string;
+  proof: string[];
+  root: string;
+  manifestHash: string;
+};
+
+const LEAF_TYPES = ["uint256", "string", "string", "string", "string", "bytes32", "bool"];
+
+export function manifestLeaf(
+  requestId: number,
+  providerId: string,
+  entry: ManifestInstance | ManifestFailure,
+  copied: boolean
+): string {
+  const sha256 = copied ? (entry as ManifestInstance).sha256 ?? ethers.ZeroHash : ethers.ZeroHash;
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(LEAF_TYPES, [
+    requestId,
+    providerId,
+    entry.sop,
+    entry.study ?? "",
+    entry.series ?? "",
+    sha256,
+    copied,
+  ]);
+  return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase()
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+function manifestRoot(doc: Pick<ManifestDocument, "requestId" | "providerId" | "instances" | "failed">): string {
+  let level = [
+    ...doc.instances.map((i) => manifestLeaf(doc.requestId, doc.providerId, i, true)),
+    ...doc.failed.map((f) => manifestLeaf(doc.requestId, doc.providerId, f, false)),
+  ].sort();
+  if (!level.length) return ethers.ZeroHash;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/** ドキュメントの内容から Merkle root を再計算する（記載の manifestHash は使わない）。 */
+export function calcManifestHash(doc: Pick<ManifestDocument, "requestId" | "providerId" | "instances" | "failed">): string {
+  return manifestRoot(doc);
+}
+
+/** 包含証明を葉から再計算し、root と一致するか確認する。葉もエントリの内容から計算し直す。 */
+export function verifyManifestProof(proof: ManifestProof, providerId: string, root: string): boolean {
+  const leaf = manifestLeaf(proof.requestId, providerId, proof.entry, proof.copied);
+  const computed = proof.proof.reduce((acc, sibling) => hashPair(acc, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
+
+export function manifestStudies(doc: ManifestDocument): string[] {
+  const studies = new Set<string>();
+  for (const instance of doc.instances) {
+    if (instance.study) studies.add(instance.study);
+  }
+  return Array.from(studies).sort();
+}
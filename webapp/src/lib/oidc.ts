@@ -0,0 +1,275 @@
+// Keycloak などの OIDC プロバイダーに Authorization Code + PKCE でログインし、Worker API 用のアクセストークンを保持する
+//
+// クライアントシークレットを持たない public client なので、code_verifier で認可コードを守る。
+// アクセストークンは期限の少し前に refresh_token で取り直す (iframe の prompt=none はサードパーティ Cookie 制限で使えないため)。
+// セッションは sessionStorage に置き、タブを閉じれば消える。
+
+export type OidcSession = {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  /** epoch seconds */
+  expiresAt: number;
+  subject: string;
+  username: string;
+  roles: string[];
+  /** clinic_id / clinics クレーム (Worker はこれで閲覧できる病院を絞る) */
+  clinics: string[];
+};
+
+type Discovery = {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+};
+
+type TokenResponse = {
+  access_token: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+};
+
+/** 認可サーバーがトークン要求を拒否した (ネットワーク断とは区別する) */
+class TokenRequestError extends Error {}
+
+type PendingLogin = { state: string; verifier: string; nonce: string };
+
+const SESSION_KEY = "oidc.session";
+const PENDING_KEY = "oidc.pending";
+// 期限の何秒前に取り直すか
+const REFRESH_LEEWAY_SECONDS = 30;
+
+const issuer = (import.meta.env.VITE_OIDC_ISSUER as string | undefined)?.trim().replace(/\/+$/, "");
+const clientId = (import.meta.env.VITE_OIDC_CLIENT_ID as string | undefined)?.trim() || "webapp";
+const roleClaim = (import.meta.env.VITE_OIDC_ROLE_CLAIM as string | undefined)?.trim() || "realm_access.roles";
+
+let session: OidcSession | null = loadSession();
+let refreshing: Promise<boolean> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let discovery: Promise<Discovery> | null = null;
+const listeners = new Set<() => void>();
+
+/** VITE_OIDC_ISSUER が無ければログインは無効で、Worker も認証なしで動いている前提になる */
+export function oidcEnabled(): boolean {
+  return !!issuer;
+}
+
+export function getSession(): OidcSession | null {
+  return session;
+}
+
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function hasAnyRole(current: OidcSession | null, roles: readonly string[]): boolean {
+  return !!current && roles.some((role) => current.roles.includes(role));
+}
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function randomString(bytes = 32): string {
+  return base64url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64url(new Uint8Array(digest));
+}
+
+type Claims = Record<string, unknown>;
+
+function decodeJwt(token: string): Claims {
+  const payload = token.split(".")[1] ?? "";
+  const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+  return JSON.parse(decodeURIComponent(Array.from(json, (c) => `%${c.charCodeAt(0).toString(16).padStart(2, "0")}`).join("")));
+}
+
+function claimAt(claims: Claims, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => (value == null ? undefined : (value as Claims)[key]), claims);
+}
+
+function loadSession(): OidcSession | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as OidcSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setSession(next: OidcSession | null) {
+  session = next;
+  if (next) sessionStorage.setItem(SESSION_KEY, JSON.stringify(next));
+  else sessionStorage.removeItem(SESSION_KEY);
+  scheduleRefresh();
+  listeners.forEach((listener) => listener());
+}
+
+function sessionFrom(tokens: TokenResponse, previous?: OidcSession | null): OidcSession {
+  const claims = decodeJwt(tokens.access_token);
+  const roles = claimAt(claims, roleClaim);
+  const clinics = new Set<string>();
+  if (claims.clinic_id) clinics.add(String(claims.clinic_id));
+  if (Array.isArray(claims.clinics)) claims.clinics.forEach((clinic: unknown) => clinics.add(String(clinic)));
+  return {
+    accessToken: tokens.access_token,
+    // Keycloak は refresh のたびに新しい refresh_token を返すが、返さないプロバイダーでは前のものを使い続ける
+    refreshToken: tokens.refresh_token ?? previous?.refreshToken,
+    idToken: tokens.id_token ?? previous?.idToken,
+    expiresAt: Number(claims.exp) || Math.floor(Date.now() / 1000) + (tokens.expires_in ?? 300),
+    subject: String(claims.sub ?? ""),
+    username: String(claims.preferred_username ?? claims.email ?? claims.sub ?? ""),
+    roles: Array.isArray(roles) ? roles.map(String) : [],
+    clinics: Array.from(clinics),
+  };
+}
+
+function loadDiscovery(): Promise<Discovery> {
+  if (!issuer) return Promise.reject(new Error("VITE_OIDC_ISSUER が設定されていません"));
+  if (!discovery) {
+    discovery = fetch(`${issuer}/.well-known/openid-configuration`).then(async (res) => {
+      if (!res.ok) throw new Error(`OIDC 設定の取得に失敗しました (HTTP ${res.status})`);
+      return (await res.json()) as Discovery;
+    });
+    discovery.catch(() => {
+      discovery = null;
+    });
+  }
+  return discovery;
+}
+
+async function requestTokens(params: Record<string, string>): Promise<TokenResponse> {
+  const { token_endpoint } = await loadDiscovery();
+  const res = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: clientId, ...params }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data.access_token) {
+    throw new TokenRequestError(data.error_description || data.error || `トークンの取得に失敗しました (HTTP ${res.status})`);
+  }
+  return data as TokenResponse;
+}
+
+function redirectUri(): string {
+  return `${window.location.origin}${window.location.pathname}`;
+}
+
+/** 認可エンドポイントへ遷移する。戻ってきたら completeLogin がトークンに交換する */
+export async function login(): Promise<void> {
+  const { authorization_endpoint } = await loadDiscovery();
+  const pending: PendingLogin = {
+    state: randomString(16),
+    verifier: randomString(32),
+    nonce: randomString(16),
+  };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId,
+    redirect_uri: redirectUri(),
+    scope: "openid profile",
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await codeChallenge(pending.verifier),
+    code_challenge_method: "S256",
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+/**
+ * 起動時に一度呼ぶ。認可サーバーから戻ってきた URL (code と state) ならトークンに交換し、URL から取り除く。
+ * それ以外では保存済みセッションの更新タイマーを張り直すだけ。
+ */
+export async function completeLogin(): Promise<void> {
+  if (!issuer) return;
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state");
+  const failure = url.searchParams.get("error_description") ?? url.searchParams.get("error");
+  if (!state || (!code && !failure)) {
+    scheduleRefresh();
+    return;
+  }
+
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+  const pending = raw ? (JSON.parse(raw) as PendingLogin) : null;
+  for (const key of ["code", "state", "session_state", "iss", "error", "error_description"]) url.searchParams.delete(key);
+  window.history.replaceState(null, "", url.toString());
+
+  if (failure) throw new Error(`ログインに失敗しました: ${failure}`);
+  if (!pending || pending.state !== state) throw new Error("ログインの state が一致しません");
+
+  const tokens = await requestTokens({
+    grant_type: "authorization_code",
+    code: code!,
+    redirect_uri: redirectUri(),
+    code_verifier: pending.verifier,
+  });
+  if (tokens.id_token && decodeJwt(tokens.id_token).nonce !== pending.nonce) {
+    throw new Error("ID トークンの nonce が一致しません");
+  }
+  setSession(sessionFrom(tokens));
+}
+
+/** refresh_token でアクセストークンを取り直す。同時に呼ばれても要求は 1 回にまとめる */
+export function refreshSession(): Promise<boolean> {
+  const current = session;
+  if (!current?.refreshToken) return Promise.resolve(false);
+  if (!refreshing) {
+    refreshing = requestTokens({ grant_type: "refresh_token", refresh_token: current.refreshToken })
+      .then((tokens) => {
+        setSession(sessionFrom(tokens, current));
+        return true;
+      })
+      .catch((err) => {
+        console.warn("OIDC: token refresh failed", err);
+        // refresh_token の期限切れ・失効ならもう一度ログインしてもらう。通信エラーなら次の呼び出しで再試行する
+        if (err instanceof TokenRequestError) setSession(null);
+        return false;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+/** Worker に付けるアクセストークン。期限間近なら先に更新する */
+export async function accessToken(): Promise<string | undefined> {
+  if (!session) return undefined;
+  if (session.expiresAt - REFRESH_LEEWAY_SECONDS <= Date.now() / 1000) await refreshSession();
+  return session?.accessToken;
+}
+
+function scheduleRefresh() {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  if (!session?.refreshToken) return;
+  const delayMs = Math.max((session.expiresAt - REFRESH_LEEWAY_SECONDS) * 1000 - Date.now(), 5_000);
+  refreshTimer = setTimeout(() => void refreshSession(), delayMs);
+}
+
+export async function logout(): Promise<void> {
+  const idToken = session?.idToken;
+  setSession(null);
+  const { end_session_endpoint } = await loadDiscovery().catch(() => ({ end_session_endpoint: undefined }));
+  if (!end_session_endpoint) return;
+  const url = new URL(end_session_endpoint);
+  url.search = new URLSearchParams({
+    client_id: clientId,
+    post_logout_redirect_uri: redirectUri(),
+    ...(idToken ? { id_token_hint: idToken } : {}),
+  }).toString();
+  window.location.assign(url.toString());
+}
@@ -1,4 +1,5 @@
 import axios from "axios";
+import { accessToken } from "./oidc";
 
 const rawBase = (import.meta.env.VITE_ORTHANC_BASE_RQ as string | undefined)?.trim() ?? '';
 if (!rawBase) throw new Error("VITE_ORTHANC_BASE_RQ is not set");
@@ -33,6 +34,18 @@ const rq = axios.create({
   },
 });
 
+// Worker のゲートウェイ (/secure) 経由なら、ログイン中は Basic 認証の代わりに OIDC のアクセストークンで通る
+if (workerApiRoot && base.startsWith(`${workerApiRoot}/`)) {
+  rq.interceptors.request.use(async (config) => {
+    const token = await accessToken();
+    if (token) {
+      config.auth = undefined;
+      config.headers.set("Authorization", `Bearer ${token}`);
+    }
+    return config;
+  });
+}
+
 export type OrthancId = string;
 
 // /patients -> [orthancPatientId, ...]
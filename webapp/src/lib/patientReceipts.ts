@@ -0,0 +1,101 @@
+// 患者向け: Sign-In with Ethereum (EIP-4361) でログインし、Worker の /patient/receipts (コピー結果とゲートウェイのアクセス記録) を読む
+import type { ethers } from "ethers";
+import type { ChainPoint } from "./chainIndex";
+import { workerJson } from "./workerClient";
+
+export type PatientAccessReceipt = {
+  timestamp: string;
+  subject?: string;
+  study?: string;
+  decision: "allow" | "filter" | "deny" | "error";
+  status: number;
+};
+
+export type PatientRequestReceipt = {
+  requestId: number;
+  providerId?: string;
+  consent?: {
+    status: number;
+    statusLabel: string;
+    providerClinicId?: string;
+    requesterClinicId?: string;
+    mode: number;
+    history: (ChainPoint & { event: string })[];
+  };
+  copy?: {
+    status: "pending" | "copying" | "completed" | "partial" | "error";
+    attempt: number;
+    total: number;
+    success: number;
+    failed: number;
+    manifestHash?: string;
+    startedAt: string;
+    updatedAt: string;
+  };
+  accessCount: number;
+  accesses: PatientAccessReceipt[];
+  lastAccessAt?: string;
+};
+
+export type PatientSession = {
+  token: string;
+  address: string;
+  roles: string[];
+  /** ウォレットが operator を務める病院 (clinic.operator ロール) */
+  clinics: string[];
+  /** epoch seconds */
+  expiresAt: number;
+};
+
+/** 接続中のウォレットの、期限内のセッションだけを使う (アカウントを切り替えたら署名し直す) */
+export function activePatientSession(session: PatientSession | null, address: string | null | undefined): PatientSession | null {
+  if (!session || !address) return null;
+  if (session.address.toLowerCase() !== address.toLowerCase()) return null;
+  return session.expiresAt * 1000 > Date.now() ? session : null;
+}
+
+/** EIP-4361 の書式どおりにメッセージを組み立てる (Worker 側は行の並びまで厳密に検証する) */
+export function buildSiweMessage(fields: {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+}): string {
+  return [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    "",
+    fields.statement,
+    "",
+    `URI: ${fields.uri}`,
+    "Version: 1",
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  ].join("\n");
+}
+
+/** Worker のノンスに署名してセッションを得る (トランザクションは発生しない) */
+export async function loginPatient(signer: ethers.Signer): Promise<PatientSession> {
+  const address = await signer.getAddress();
+  const { nonce, chainId } = await workerJson<{ nonce: string; chainId: number }>("/auth/nonce");
+  const message = buildSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: "患者ポータルにログインします。",
+    uri: window.location.origin,
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  const signature = await signer.signMessage(message);
+  return workerJson<PatientSession>("/auth/siwe", { method: "POST", json: { message, signature } });
+}
+
+export async function fetchPatientReceipts(session: PatientSession): Promise<PatientRequestReceipt[]> {
+  const data = await workerJson<{ requests?: PatientRequestReceipt[] }>("/patient/receipts", { token: session.token });
+  return data.requests ?? [];
+}
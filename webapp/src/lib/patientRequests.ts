@@ -0,0 +1,167 @@
+// 患者ポータル用: 接続中のウォレット宛ての申請を AccessRequested イベント (patient は indexed) から集める
+import { ethers } from "ethers";
+import { canonical } from "./clinic";
+
+export const REQUEST_STATUS = {
+  REQUESTED: 0,
+  PATIENT_APPROVED: 1,
+  FULFILLED: 2,
+  EXPIRED: 3,
+  CANCELED: 4,
+} as const;
+
+export const REQUEST_STATUS_LABELS = ["承認待ち", "承認済み", "提供完了", "期限切れ", "キャンセル"];
+
+export const MODE_LABELS = ["READ", "COPY"];
+
+const ERC20_META_ABI = ["function symbol() view returns (string)", "function decimals() view returns (uint8)"];
+
+const ZERO_HASH = ethers.ZeroHash;
+
+export type TokenMeta = { symbol: string; decimals: number };
+
+/** clinics(bytes32) の戻り値 (ethers の Result は名前でも引ける) */
+type ClinicRecord = { registered: boolean; clinicId: string; payout: string; operator: string };
+
+export type PatientRequest = {
+  id: number;
+  providerClinicKey: string;
+  providerClinicId: string | null;
+  requesterClinicKey: string;
+  requesterClinicId: string | null;
+  mode: number;
+  token: string;
+  price: bigint;
+  status: number;
+  /** 提供完了時に Provider が記録したマニフェストハッシュ (未完了なら null) */
+  manifestHash: string | null;
+  scopeHash: string | null;
+  requestedBlock: number;
+  requestedTx: string;
+  /** epoch seconds */
+  requestedAt: number | null;
+};
+
+/** eth_getLogs 1 回あたりのブロック範囲 (公開 RPC の上限に合わせる) */
+const LOG_BLOCK_RANGE = 50_000;
+
+export function contractStartBlock(): number {
+  const raw = (import.meta.env.VITE_CONTRACT_START_BLOCK as string | undefined)?.trim();
+  const value = raw ? Number(raw) : 0;
+  return Number.isInteger(value) && value >= 0 ? value : 0;
+}
+
+export function formatPrice(amount: bigint, meta?: TokenMeta): string {
+  if (!meta) return `${amount.toString()} wei`;
+  try {
+    return `${ethers.formatUnits(amount, meta.decimals)} ${meta.symbol}`;
+  } catch {
+    return `${amount.toString()} (raw)`;
+  }
+}
+
+async function findRequestLogs(contract: ethers.Contract, patient: string, fromBlock: number) {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("コントラクトにプロバイダーが設定されていません");
+  const head = await provider.getBlockNumber();
+  const filter = contract.filters.AccessRequested(null, patient);
+  const logs: ethers.EventLog[] = [];
+  for (let from = fromBlock; from <= head; from += LOG_BLOCK_RANGE) {
+    const chunk = await contract.queryFilter(filter, from, Math.min(from + LOG_BLOCK_RANGE - 1, head));
+    for (const log of chunk) {
+      if (log instanceof ethers.EventLog) logs.push(log);
+    }
+  }
+  return { provider, logs };
+}
+
+/**
+ * patient 宛ての申請を新しい順に返す。イベントは申請の存在を見つけるためだけに使い、
+ * 状態・マニフェストは `reqs(id)` の現在値を読む (承認やキャンセルの後でも正しい)。
+ */
+export async function loadPatientRequests(
+  contract: ethers.Contract,
+  patient: string,
+  fromBlock = contractStartBlock()
+): Promise<PatientRequest[]> {
+  const { provider, logs } = await findRequestLogs(contract, patient, fromBlock);
+
+  const clinicIds = new Map<string, Promise<string | null>>();
+  const clinicName = (key: string) => {
+    const normalized = key.toLowerCase();
+    if (!clinicIds.has(normalized)) {
+      clinicIds.set(
+        normalized,
+        contract
+          .clinics(normalized)
+          .then((clinic: ClinicRecord) => (clinic.registered ? String(clinic.clinicId) : null))
+          .catch(() => null)
+      );
+    }
+    return clinicIds.get(normalized)!;
+  };
+
+  const timestamps = new Map<number, Promise<number | null>>();
+  const blockTime = (blockNumber: number) => {
+    if (!timestamps.has(blockNumber)) {
+      timestamps.set(
+        blockNumber,
+        provider
+          .getBlock(blockNumber)
+          .then((block) => block?.timestamp ?? null)
+          .catch(() => null)
+      );
+    }
+    return timestamps.get(blockNumber)!;
+  };
+
+  const requests = await Promise.all(
+    logs.map(async (log): Promise<PatientRequest> => {
+      const id = Number(log.args.id);
+      const req = await contract.reqs(id);
+      const providerClinicKey = String(req.providerClinicKey).toLowerCase();
+      const requesterClinicKey = String(req.requesterClinicKey).toLowerCase();
+      const manifestHash = String(req.manifestHash);
+      const scopeHash = String(req.scopeHash);
+      const [providerClinicId, requesterClinicId, requestedAt] = await Promise.all([
+        clinicName(providerClinicKey),
+        clinicName(requesterClinicKey),
+        blockTime(log.blockNumber),
+      ]);
+      return {
+        id,
+        providerClinicKey,
+        providerClinicId,
+        requesterClinicKey,
+        requesterClinicId,
+        mode: Number(req.mode),
+        token: String(req.token),
+        price: BigInt(req.price),
+        status: Number(req.status),
+        manifestHash: manifestHash === ZERO_HASH ? null : manifestHash,
+        scopeHash: scopeHash === ZERO_HASH ? null : scopeHash,
+        requestedBlock: log.blockNumber,
+        requestedTx: log.transactionHash,
+        requestedAt,
+      };
+    })
+  );
+
+  return requests.sort((a, b) => b.id - a.id);
+}
+
+/** 価格表示用に、申請で使われているトークンの symbol / decimals をまとめて読む */
+export async function loadTokenMeta(runner: ethers.ContractRunner, tokens: string[]): Promise<Record<string, TokenMeta>> {
+  const unique = Array.from(new Set(tokens.map(canonical)));
+  const entries = await Promise.all(
+    unique.map(async (token): Promise<[string, TokenMeta]> => {
+      const erc20 = new ethers.Contract(token, ERC20_META_ABI, runner);
+      const [symbol, decimals] = await Promise.all([
+        erc20.symbol().catch(() => `${token.slice(0, 6)}…`),
+        erc20.decimals().catch(() => 18),
+      ]);
+      return [token, { symbol: String(symbol), decimals: Number(decimals) }];
+    })
+  );
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,84 @@
+import { ethers } from "ethers";
+
+// worker/scope.ts と同じ正規化・ハッシュ規則（変更する場合は両方を揃えること。worker/test/scope.test.ts が両方を同じベクタで検証する）
+export type AccessScope = {
+  studyInstanceUids?: string[];
+  studyDateFrom?: string;
+  studyDateTo?: string;
+  modalities?: string[];
+};
+
+export type ScopeForm = {
+  studyInstanceUids: string;
+  studyDateFrom: string;
+  studyDateTo: string;
+  modalities: string;
+};
+
+const UID_RE = /^[0-9]+(\.[0-9]+)*$/;
+const MODALITY_RE = /^[A-Z0-9_]{1,16}$/;
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function normalizeDate(value: string, label: string): string | undefined {
+  const digits = value.trim().replace(/-/g, "");
+  if (!digits) return undefined;
+  if (!/^\d{8}$/.test(digits)) throw new Error(`${label} は YYYY-MM-DD 形式で入力してください`);
+  return digits;
+}
+
+/** 入力フォームから正規化済みのスコープを作る。不正な値は例外。 */
+export function scopeFromForm(form: ScopeForm): AccessScope {
+  const scope: AccessScope = {};
+
+  const uids = Array.from(new Set(splitList(form.studyInstanceUids)));
+  for (const uid of uids) {
+    if (!UID_RE.test(uid) || uid.length > 64) throw new Error(`StudyInstanceUID が不正です: ${uid}`);
+  }
+  if (uids.length) scope.studyInstanceUids = uids.sort();
+
+  const from = normalizeDate(form.studyDateFrom, "検査日(開始)");
+  const to = normalizeDate(form.studyDateTo, "検査日(終了)");
+  if (from && to && from > to) throw new Error("検査日の開始が終了より後になっています");
+  if (from) scope.studyDateFrom = from;
+  if (to) scope.studyDateTo = to;
+
+  const modalities = Array.from(new Set(splitList(form.modalities).map((m) => m.toUpperCase())));
+  for (const modality of modalities) {
+    if (!MODALITY_RE.test(modality)) throw new Error(`モダリティが不正です: ${modality}`);
+  }
+  if (modalities.length) scope.modalities = modalities.sort();
+
+  return scope;
+}
+
+export function isEmptyScope(scope: AccessScope): boolean {
+  return !scope.studyInstanceUids && !scope.studyDateFrom && !scope.studyDateTo && !scope.modalities;
+}
+
+export function computeScopeHash(scope: AccessScope): string {
+  if (isEmptyScope(scope)) return ethers.ZeroHash;
+  const canonical = {
+    studyInstanceUids: scope.studyInstanceUids ?? [],
+    studyDateFrom: scope.studyDateFrom ?? "",
+    studyDateTo: scope.studyDateTo ?? "",
+    modalities: scope.modalities ?? [],
+  };
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(canonical)));
+}
+
+export function describeScope(scope: AccessScope): string {
+  if (isEmptyScope(scope)) return "全検査";
+  const parts: string[] = [];
+  if (scope.studyInstanceUids) parts.push(`Study ${scope.studyInstanceUids.length}件`);
+  if (scope.studyDateFrom || scope.studyDateTo) {
+    parts.push(`検査日 ${scope.studyDateFrom ?? "…"}〜${scope.studyDateTo ?? "…"}`);
+  }
+  if (scope.modalities) parts.push(`モダリティ ${scope.modalities.join("/")}`);
+  return parts.join(" / ");
+}
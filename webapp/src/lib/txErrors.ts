@@ -0,0 +1,114 @@
+// コントラクト呼び出しの失敗を画面に出せる日本語メッセージにする
+//
+// ethers v6 のエラーはウォレット (MetaMask など) や RPC によって revert データの置き場所が違うため、
+// 入れ子の error / info / data をたどって revert 理由を取り出し、既知の理由には対処法を添える。
+
+import { ethers } from "ethers";
+
+// PatientAccess.sol の require と、エスクローで使う ERC20 の revert 理由
+const REVERT_HINTS: Record<string, string> = {
+  BATCH_ESCROW_FAIL: "エスクローの transferFrom に失敗しました。トークンの Allowance と残高を確認してください",
+  ESCROW_TRANSFER_FAIL: "エスクローの transferFrom に失敗しました。トークンの Allowance と残高を確認してください",
+  EMPTY_PROVIDERS: "提供院が指定されていません",
+  PROVIDER_UNKNOWN: "オンチェーンに登録されていない提供院が含まれています",
+  PRICE_NOT_SET: "価格が未設定の提供院が含まれています",
+  PRICE_ZERO: "選択したモードの価格が 0 の提供院が含まれています",
+  TOKEN_MISMATCH: "一括申請では全提供院の価格トークンが同じである必要があります",
+  CLINIC_NOT_REGISTERED: "自院がオンチェーンに登録されていません",
+  CLINIC_ALREADY_REGISTERED: "このクリニックIDは登録済みです。payout / operator の変更は updateClinic で行ってください",
+  CLINIC_PAYOUT_ZERO: "自院の支払い先アドレスが未設定です",
+  NOT_REQUESTER_OPERATOR: "接続中のウォレットは自院の payout / operator ではありません",
+  NOT_PROVIDER_OPERATOR: "接続中のウォレットは提供院の payout / operator ではありません",
+  NOT_AUTH_CANCEL: "このリクエストを取り消す権限がありません",
+  BAD_STATUS: "リクエストの状態がこの操作を許可していません",
+  REQ_UNKNOWN: "存在しないリクエストです",
+  REFUND_FAIL: "返金の送金に失敗しました",
+  // MockERC20 / OpenZeppelin ERC20
+  allow: "トークンの Allowance が不足しています",
+  bal: "トークンの残高が不足しています",
+  "ERC20: insufficient allowance": "トークンの Allowance が不足しています",
+  "ERC20: transfer amount exceeds balance": "トークンの残高が不足しています",
+  ERC20InsufficientAllowance: "トークンの Allowance が不足しています",
+  ERC20InsufficientBalance: "トークンの残高が不足しています",
+};
+
+const STANDARD_ERRORS = new ethers.Interface([
+  "error Error(string)",
+  "error Panic(uint256)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+]);
+
+type ErrorLike = {
+  code?: unknown;
+  reason?: unknown;
+  revert?: { name?: string; args?: unknown[] };
+  data?: unknown;
+  message?: unknown;
+  shortMessage?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+  cause?: unknown;
+};
+
+function nestedErrors(err: unknown): ErrorLike[] {
+  const out: ErrorLike[] = [];
+  const queue: unknown[] = [err];
+  while (queue.length && out.length < 10) {
+    const current = queue.shift();
+    if (!current || typeof current !== "object" || out.includes(current)) continue;
+    const e = current as ErrorLike;
+    out.push(e);
+    queue.push(e.error, e.info?.error, (e.data as { originalError?: unknown } | undefined)?.originalError, e.cause);
+  }
+  return out;
+}
+
+function revertFromData(data: string, iface?: ethers.Interface): string | null {
+  for (const candidate of [iface, STANDARD_ERRORS]) {
+    if (!candidate) continue;
+    try {
+      const parsed = candidate.parseError(data);
+      if (!parsed) continue;
+      if (parsed.name === "Error") return String(parsed.args[0]);
+      if (parsed.name === "Panic") return `Panic(0x${BigInt(parsed.args[0]).toString(16)})`;
+      return parsed.name;
+    } catch {
+      // この Interface の error ではない
+    }
+  }
+  return null;
+}
+
+/** revert 理由 (require の文字列や custom error 名) だけを取り出す。見つからなければ null */
+export function revertReason(err: unknown, iface?: ethers.Interface): string | null {
+  for (const e of nestedErrors(err)) {
+    if (typeof e.reason === "string" && e.reason) return e.reason;
+    if (e.revert?.name) return e.revert.name === "Error" ? String(e.revert.args?.[0]) : e.revert.name;
+    const data = typeof e.data === "string" ? e.data : (e.data as { data?: unknown } | undefined)?.data;
+    if (typeof data === "string" && ethers.isHexString(data) && data.length >= 10) {
+      const reason = revertFromData(data, iface);
+      if (reason) return reason;
+    }
+    const message = typeof e.message === "string" ? e.message : "";
+    const match = /reverted(?: with reason string)?:?\s*['"]([^'"]+)['"]/.exec(message);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+export function isUserRejection(err: unknown): boolean {
+  return nestedErrors(err).some((e) => e.code === "ACTION_REJECTED" || e.code === 4001);
+}
+
+/** トランザクション失敗を表示用の文にする。既知の revert 理由には対処法を付ける */
+export function describeTxError(err: unknown, iface?: ethers.Interface): string {
+  if (isUserRejection(err)) return "ウォレットで署名が拒否されました";
+  const reason = revertReason(err, iface);
+  if (reason) {
+    const hint = REVERT_HINTS[reason];
+    return hint ? `${hint} (${reason})` : `トランザクションが revert しました: ${reason}`;
+  }
+  const e = (err ?? {}) as ErrorLike;
+  return String(e.shortMessage || e.message || err);
+}
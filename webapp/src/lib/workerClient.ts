@@ -0,0 +1,56 @@
+// Worker API を呼ぶ共通クライアント
+//
+// ログイン中ならアクセストークンを Bearer で付け、401 が返ったら一度だけトークンを更新して再送する。
+// エラーは Worker の `{ error, code }` を WorkerApiError にして投げる。
+
+import { accessToken, oidcEnabled, refreshSession } from "./oidc";
+
+export class WorkerApiError extends Error {
+  constructor(readonly status: number, message: string, readonly code?: string) {
+    super(message);
+    this.name = "WorkerApiError";
+  }
+}
+
+export type WorkerRequestInit = Omit<RequestInit, "body"> & {
+  /** JSON にして送る本文 (Content-Type も付ける) */
+  json?: unknown;
+  body?: BodyInit;
+  /** OIDC セッションの代わりに使うトークン (患者の SIWE セッションなど) */
+  token?: string;
+};
+
+export function workerApiRoot(): string | null {
+  const raw = (import.meta.env.VITE_WORKER_API as string | undefined)?.trim();
+  return raw ? raw.replace(/\/+$/, "") : null;
+}
+
+export async function workerFetch(path: string, init: WorkerRequestInit = {}): Promise<Response> {
+  const root = workerApiRoot();
+  if (!root) throw new Error("VITE_WORKER_API が設定されていません");
+  const { json, token, headers, ...rest } = init;
+
+  const send = async () => {
+    const bearer = token ?? (await accessToken());
+    const merged = new Headers(headers);
+    if (bearer) merged.set("Authorization", `Bearer ${bearer}`);
+    if (json !== undefined) merged.set("Content-Type", "application/json");
+    return fetch(`${root}${path}`, {
+      ...rest,
+      headers: merged,
+      body: json !== undefined ? JSON.stringify(json) : rest.body,
+    });
+  };
+
+  const res = await send();
+  // 失効したトークン (Keycloak 側のログアウトなど) は更新できれば一度だけ送り直す
+  if (res.status === 401 && token === undefined && oidcEnabled() && (await refreshSession())) return send();
+  return res;
+}
+
+export async function workerJson<T>(path: string, init: WorkerRequestInit = {}): Promise<T> {
+  const res = await workerFetch(path, init);
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new WorkerApiError(res.status, data?.error || `HTTP ${res.status}`, data?.code);
+  return data as T;
+}
@@ -1,5 +1,9 @@
 import React from "react";
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { completeLogin } from "./lib/oidc";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// 認可サーバーから戻ってきた場合は、描画前にコードをトークンへ交換しておく
+completeLogin()
+  .catch((err) => console.error("OIDC login failed", err))
+  .finally(() => createRoot(document.getElementById("root")!).render(<App />));
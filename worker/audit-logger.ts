@@ -2,6 +2,8 @@ import { readFile, appendFile, mkdir, stat, rename, unlink } from "node:fs/promi
 import { dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { ALL_TENANTS, inTenant } from "./tenancy.js";
+import type { TenantScope } from "./tenancy.js";
 
 export type AuditLogEntry = {
     timestamp: string;
@@ -19,6 +21,15 @@ export type AuditLogEntry = {
     roles?: string[];
     clientIp?: string;
     authError?: string;
+    /** Study-boundary decision of the /secure gateway. */
+    boundary?: {
+        decision: "allow" | "filter" | "deny";
+        study?: string;
+        reason?: string;
+        filtered?: number;
+    };
+    /** Provider and requester clinic of the request; entries without it are visible to super-admins only. */
+    clinics?: string[];
 };
 
 export type AuditCfg = {
@@ -95,35 +106,44 @@ export class AuditLogger {
         }
     }
 
-    async read(limit: number = 100): Promise<AuditLogEntry[]> {
+    /** Newest entries first. With `filter` or a tenant `scope`, the limit counts matching entries only. */
+    async read(
+        limit: number = 100,
+        filter?: (entry: AuditLogEntry) => boolean,
+        scope: TenantScope = ALL_TENANTS
+    ): Promise<AuditLogEntry[]> {
+        let content: string;
         try {
-            const content = await readFile(this.fileUrl, "utf-8");
-            const lines = content.split("\n").filter((line) => line.trim());
-            // Reverse to get newest first
-            return lines
-                .reverse()
-                .slice(0, limit)
-                .map((line) => {
-                    try {
-                        const parsed = JSON.parse(line);
-                        if (parsed.v === 1 && parsed.iv && parsed.tag && parsed.data && this.encryptionKey) {
-                            const iv = Buffer.from(parsed.iv, "hex");
-                            const authTag = Buffer.from(parsed.tag, "hex");
-                            const decipher = createDecipheriv("aes-256-gcm", this.encryptionKey, iv);
-                            decipher.setAuthTag(authTag);
-                            let decrypted = decipher.update(parsed.data, "hex", "utf8");
-                            decrypted += decipher.final("utf8");
-                            return JSON.parse(decrypted);
-                        }
-                        return parsed;
-                    } catch {
-                        return null;
-                    }
-                })
-                .filter((entry): entry is AuditLogEntry => entry !== null);
+            content = await readFile(this.fileUrl, "utf-8");
         } catch (e: any) {
             if (e.code === "ENOENT") return [];
             throw e;
         }
+        const lines = content.split("\n").filter((line) => line.trim());
+        const entries: AuditLogEntry[] = [];
+        // Reverse to get newest first
+        for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+            const entry = this.parseLine(lines[i]);
+            if (entry && inTenant(scope, ...(entry.clinics ?? [])) && (!filter || filter(entry))) entries.push(entry);
+        }
+        return entries;
+    }
+
+    private parseLine(line: string): AuditLogEntry | null {
+        try {
+            const parsed = JSON.parse(line);
+            if (parsed.v === 1 && parsed.iv && parsed.tag && parsed.data && this.encryptionKey) {
+                const iv = Buffer.from(parsed.iv, "hex");
+                const authTag = Buffer.from(parsed.tag, "hex");
+                const decipher = createDecipheriv("aes-256-gcm", this.encryptionKey, iv);
+                decipher.setAuthTag(authTag);
+                let decrypted = decipher.update(parsed.data, "hex", "utf8");
+                decrypted += decipher.final("utf8");
+                return JSON.parse(decrypted);
+            }
+            return parsed;
+        } catch {
+            return null;
+        }
     }
 }
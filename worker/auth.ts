@@ -1,24 +1,24 @@
 import { IncomingMessage } from "node:http";
-import { createPublicKey, createVerify } from "node:crypto";
+import { createPublicKey, verify } from "node:crypto";
+import type { KeyObject, webcrypto } from "node:crypto";
 import { Buffer } from "node:buffer";
 
-export type Jwk = {
+/** A public key of `auth.jwks`; `kid` picks it for a token's header. */
+export type Jwk = webcrypto.JsonWebKey & {
   kid?: string;
   kty: string;
-  n?: string;
-  e?: string;
-  crv?: string;
-  x?: string;
-  y?: string;
-  alg?: string;
-  use?: string;
 };
 
+/** One route rule of the policy in `route-policy.ts`. */
 export type AuthRouteRule = {
+  /** `/exact`, `:name` for one segment, and a trailing `/*` for the path and everything below it */
   path: string;
   methods?: string[];
   requiredRoles?: string[];
   allowUnauthenticated?: boolean;
+  /** All must hold, e.g. `clinic_id == body.clinicId` or `params.clinicId in clinics`. */
+  conditions?: string[];
+  effect?: "allow" | "deny";
 };
 
 export type AuthConfig = {
@@ -28,8 +28,18 @@ export type AuthConfig = {
   clockSkewSeconds?: number;
   roleClaim?: string;
   additionalRoleClaims?: string[];
-  jwks: { keys: Jwk[] };
+  /** Keys pinned in config; checked before the ones fetched from `jwksUri`. */
+  jwks?: { keys: Jwk[] };
+  /** IdP key set endpoint, e.g. Keycloak's `/realms/<realm>/protocol/openid-connect/certs`. */
+  jwksUri?: string;
+  /** How long a fetched key set is used before it is fetched again (default 600). */
+  jwksCacheSeconds?: number;
+  /** Minimum gap between fetches, including those triggered by an unknown `kid` (default 30). */
+  jwksMinRefreshSeconds?: number;
+  jwksTimeoutMs?: number;
   routes?: AuthRouteRule[];
+  /** `dryRun` logs what `routes` would decide while the built-in rules stay in force (default `enforce`). */
+  policyMode?: "enforce" | "dryRun";
 };
 
 export type Principal = {
@@ -43,10 +53,30 @@ export type Principal = {
 type KeyHolder = {
   kid?: string;
   alg?: string;
-  key: ReturnType<typeof createPublicKey>;
+  key: KeyObject;
+};
+
+type JwsAlgorithm = {
+  /** digest passed to `crypto.verify`; EdDSA hashes internally */
+  hash: string | null;
+  keyTypes: string[];
+  namedCurve?: string;
+};
+
+// `none` and the HMAC algorithms are deliberately absent: IdP tokens must be signed with a key the IdP publishes.
+const JWS_ALGORITHMS: Record<string, JwsAlgorithm> = {
+  RS256: { hash: "sha256", keyTypes: ["rsa"] },
+  RS384: { hash: "sha384", keyTypes: ["rsa"] },
+  RS512: { hash: "sha512", keyTypes: ["rsa"] },
+  ES256: { hash: "sha256", keyTypes: ["ec"], namedCurve: "prime256v1" },
+  ES384: { hash: "sha384", keyTypes: ["ec"], namedCurve: "secp384r1" },
+  EdDSA: { hash: null, keyTypes: ["ed25519", "ed448"] },
 };
 
 const DEFAULT_ROLE_CLAIM = "realm_access.roles";
+const DEFAULT_JWKS_CACHE_SECONDS = 600;
+const DEFAULT_JWKS_MIN_REFRESH_SECONDS = 30;
+const DEFAULT_JWKS_TIMEOUT_MS = 5000;
 
 function base64UrlDecode(input: string): Buffer {
   const normalized = input.replace(/-/g, "+").replace(/_/g, "/");
@@ -55,7 +85,7 @@ function base64UrlDecode(input: string): Buffer {
   return Buffer.from(padded, "base64");
 }
 
-function getClaim(payload: Record<string, any>, path: string): unknown {
+export function getClaim(payload: Record<string, any>, path: string): unknown {
   if (!path) return undefined;
   const parts = path.split(".").filter(Boolean);
   let current: any = payload;
@@ -76,13 +106,26 @@ function ensureArray(value: unknown): string[] {
   return [];
 }
 
+function importJwk(jwk: Jwk): KeyHolder {
+  return { kid: jwk.kid, alg: jwk.alg, key: createPublicKey({ key: jwk, format: "jwk" }) };
+}
+
+function keyFits(key: KeyObject, algorithm: JwsAlgorithm): boolean {
+  if (!key.asymmetricKeyType || !algorithm.keyTypes.includes(key.asymmetricKeyType)) return false;
+  return !algorithm.namedCurve || key.asymmetricKeyDetails?.namedCurve === algorithm.namedCurve;
+}
+
 export class JwtAuth {
   private readonly keys: KeyHolder[] = [];
   private readonly config: AuthConfig;
+  private remote: { keys: KeyHolder[]; fetchedAt: number } | null = null;
+  private remoteError?: string;
+  private lastFetchAt = 0;
+  private inflight: Promise<void> | null = null;
 
   constructor(config: AuthConfig) {
-    if (!config?.jwks?.keys?.length) {
-      throw new Error("auth.jwks.keys が設定されていません");
+    if (!config?.jwks?.keys?.length && !config?.jwksUri) {
+      throw new Error("auth.jwks.keys または auth.jwksUri が設定されていません");
     }
     this.config = {
       clockSkewSeconds: 60,
@@ -90,43 +133,24 @@ export class JwtAuth {
       ...config,
     };
 
-    for (const jwk of config.jwks.keys) {
+    for (const jwk of config.jwks?.keys ?? []) {
       try {
-        const keyObject = createPublicKey({ key: jwk as any, format: "jwk" });
-        this.keys.push({ kid: jwk.kid, alg: jwk.alg, key: keyObject });
+        this.keys.push(importJwk(jwk));
       } catch (e) {
         throw new Error(`JWK の読み込みに失敗しました (kid=${jwk.kid ?? "n/a"}): ${e}`);
       }
     }
 
-    if (!this.keys.length) {
+    if (!this.keys.length && !config.jwksUri) {
       throw new Error("有効な JWK がありません");
     }
   }
 
-  matchRoute(pathname: string, method: string): AuthRouteRule | undefined {
-    if (!this.config.routes?.length) return undefined;
-    const normalisedMethod = method.toUpperCase();
-    return this.config.routes.find((rule) => {
-      const methodOk = !rule.methods?.length || rule.methods.includes(normalisedMethod);
-      const pathOk = pathname === rule.path || pathname.startsWith(rule.path.endsWith("/") ? rule.path : `${rule.path}`);
-      return methodOk && pathOk;
-    });
+  verifyHeader(req: IncomingMessage): HeaderCheck {
+    return verifyBearerHeader(req);
   }
 
-  verifyHeader(req: IncomingMessage): { ok: false; status: number; message: string } | { ok: true; token: string } {
-    const authHeader = req.headers["authorization"];
-    if (typeof authHeader !== "string") {
-      return { ok: false, status: 401, message: "missing Authorization header" };
-    }
-    const [scheme, token] = authHeader.split(" ");
-    if (!token || scheme.toLowerCase() !== "bearer") {
-      return { ok: false, status: 401, message: "invalid Authorization header" };
-    }
-    return { ok: true, token };
-  }
-
-  verifyToken(token: string): { ok: true; principal: Principal } | { ok: false; status: number; message: string } {
+  async verifyToken(token: string): Promise<TokenVerification> {
     const parts = token.split(".");
     if (parts.length !== 3) {
       return { ok: false, status: 401, message: "invalid JWT format" };
@@ -147,9 +171,19 @@ export class JwtAuth {
     if (!alg) {
       return { ok: false, status: 401, message: "JWT alg is missing" };
     }
+    if (typeof alg === "string" && alg.toLowerCase() === "none") {
+      return { ok: false, status: 401, message: "unsigned JWT is not accepted" };
+    }
+    const algorithm = typeof alg === "string" && Object.prototype.hasOwnProperty.call(JWS_ALGORITHMS, alg) ? JWS_ALGORITHMS[alg] : undefined;
+    if (!algorithm) {
+      return { ok: false, status: 401, message: `unsupported JWT alg: ${alg}` };
+    }
 
-    const candidateKeys = this.keys.filter((k) => (!kid || k.kid === kid) && (!k.alg || k.alg === alg));
+    const candidateKeys = await this.candidateKeys(kid, alg, algorithm);
     if (!candidateKeys.length) {
+      if (this.config.jwksUri && !this.remote && !this.keys.length) {
+        return { ok: false, status: 503, message: `JWKS is unavailable: ${this.remoteError ?? "not fetched"}` };
+      }
       return { ok: false, status: 401, message: "no matching key for JWT" };
     }
 
@@ -157,10 +191,13 @@ export class JwtAuth {
     const signedPart = Buffer.from(`${headerB64}.${payloadB64}`, "utf-8");
 
     const verified = candidateKeys.some((entry) => {
-      const verifier = createVerify(this.mapAlgToNode(alg));
-      verifier.update(signedPart);
-      verifier.end();
-      return verifier.verify(entry.key, signature);
+      // JWS carries ECDSA signatures as raw r||s rather than DER
+      const key = entry.key.asymmetricKeyType === "ec" ? { key: entry.key, dsaEncoding: "ieee-p1363" as const } : entry.key;
+      try {
+        return verify(algorithm.hash, signedPart, key, signature);
+      } catch {
+        return false;
+      }
     });
 
     if (!verified) {
@@ -204,18 +241,114 @@ export class JwtAuth {
     return { ok: true, principal };
   }
 
-  private mapAlgToNode(alg: string): string {
-    switch (alg) {
-      case "RS256":
-        return "RSA-SHA256";
-      case "RS384":
-        return "RSA-SHA384";
-      case "RS512":
-        return "RSA-SHA512";
-      default:
-        throw new Error(`unsupported JWT alg: ${alg}`);
+  /**
+   * Pinned keys plus the fetched key set. An unknown `kid` refetches the set once per
+   * `jwksMinRefreshSeconds`, so keys the IdP rotates in are picked up without a restart
+   * while garbage `kid`s cannot make every request hit the IdP.
+   */
+  private async candidateKeys(kid: unknown, alg: string, algorithm: JwsAlgorithm): Promise<KeyHolder[]> {
+    const matching = () =>
+      [...this.keys, ...(this.remote?.keys ?? [])].filter(
+        (k) => (!kid || k.kid === kid) && (!k.alg || k.alg === alg) && keyFits(k.key, algorithm)
+      );
+    if (!this.config.jwksUri) return matching();
+
+    const cacheMs = (this.config.jwksCacheSeconds ?? DEFAULT_JWKS_CACHE_SECONDS) * 1000;
+    if (!this.remote || Date.now() - this.remote.fetchedAt >= cacheMs) {
+      await this.refreshJwks();
+    }
+    let found = matching();
+    if (!found.length && kid) {
+      await this.refreshJwks();
+      found = matching();
     }
+    return found;
+  }
+
+  /** Fetches `jwksUri` unless a fetch is running or the last one was too recent. Failures keep the previous set. */
+  private refreshJwks(): Promise<void> {
+    if (this.inflight) return this.inflight;
+    const minGapMs = (this.config.jwksMinRefreshSeconds ?? DEFAULT_JWKS_MIN_REFRESH_SECONDS) * 1000;
+    if (this.lastFetchAt && Date.now() - this.lastFetchAt < minGapMs) return Promise.resolve();
+    this.lastFetchAt = Date.now();
+    this.inflight = this.fetchJwks().finally(() => {
+      this.inflight = null;
+    });
+    return this.inflight;
+  }
+
+  private async fetchJwks(): Promise<void> {
+    try {
+      const res = await fetch(this.config.jwksUri!, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(this.config.jwksTimeoutMs ?? DEFAULT_JWKS_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { keys?: Jwk[] };
+      if (!Array.isArray(body?.keys)) throw new Error("response has no keys");
+      const keys: KeyHolder[] = [];
+      for (const jwk of body.keys) {
+        // IdPs publish encryption keys and key types this worker cannot verify with in the same set
+        if (jwk.use && jwk.use !== "sig") continue;
+        try {
+          keys.push(importJwk(jwk));
+        } catch {
+          continue;
+        }
+      }
+      this.remote = { keys, fetchedAt: Date.now() };
+      this.remoteError = undefined;
+    } catch (e) {
+      this.remoteError = e instanceof Error ? e.message : String(e);
+    }
+  }
+}
+
+type HeaderCheck = { ok: false; status: number; message: string } | { ok: true; token: string };
+
+export type TokenVerification = { ok: true; principal: Principal } | { ok: false; status: number; message: string };
+
+/** What `requireAuth` needs from an authenticator; `JwtAuth` and `AuthChain` both provide it. */
+export type Authenticator = {
+  verifyHeader(req: IncomingMessage): HeaderCheck;
+  verifyToken(token: string): Promise<TokenVerification>;
+};
+
+/** A verifier for tokens the worker issues itself (e.g. SIWE sessions), recognised before JWKS lookup. */
+export type SessionVerifier = {
+  handles(token: string): boolean;
+  verifyToken(token: string): TokenVerification;
+};
+
+/**
+ * Accepts IdP tokens through `JwtAuth` and worker-issued session tokens through their own verifiers, so
+ * every route guarded by `requireAuth` takes either kind. Either side may be absent.
+ */
+export class AuthChain implements Authenticator {
+  constructor(private readonly jwt: JwtAuth | null, private readonly sessions: SessionVerifier[] = []) { }
+
+  verifyHeader(req: IncomingMessage): HeaderCheck {
+    return verifyBearerHeader(req);
+  }
+
+  async verifyToken(token: string): Promise<TokenVerification> {
+    const session = this.sessions.find((verifier) => verifier.handles(token));
+    if (session) return session.verifyToken(token);
+    if (!this.jwt) return { ok: false, status: 401, message: "unsupported token" };
+    return this.jwt.verifyToken(token);
+  }
+}
+
+function verifyBearerHeader(req: IncomingMessage): HeaderCheck {
+  const authHeader = req.headers["authorization"];
+  if (typeof authHeader !== "string") {
+    return { ok: false, status: 401, message: "missing Authorization header" };
+  }
+  const [scheme, token] = authHeader.split(" ");
+  if (!token || scheme.toLowerCase() !== "bearer") {
+    return { ok: false, status: 401, message: "invalid Authorization header" };
   }
+  return { ok: true, token };
 }
 
 export type AuthResult = {
@@ -228,7 +361,7 @@ export type AuthResult = {
 export async function requireAuth(
   req: IncomingMessage,
   res: { statusCode: number; end: (msg?: any) => void } & { setHeader(name: string, value: string): void },
-  auth: JwtAuth | null | undefined,
+  auth: Authenticator | null | undefined,
   requiredRoles?: string[]
 ): Promise<AuthResult> {
   if (!auth) {
@@ -243,15 +376,15 @@ export async function requireAuth(
     return { ok: false, status: headerCheck.status, message: headerCheck.message };
   }
 
-  const verify = auth.verifyToken(headerCheck.token);
-  if (!verify.ok) {
-    res.statusCode = verify.status;
+  const verification = await auth.verifyToken(headerCheck.token);
+  if (!verification.ok) {
+    res.statusCode = verification.status;
     res.setHeader("WWW-Authenticate", "Bearer error=invalid_token");
-    res.end(verify.message);
-    return { ok: false, status: verify.status, message: verify.message };
+    res.end(verification.message);
+    return { ok: false, status: verification.status, message: verification.message };
   }
 
-  const principal = verify.principal;
+  const principal = verification.principal;
   if (!principal.subject) {
     res.statusCode = 401;
     res.end("JWT subject missing");
@@ -0,0 +1,656 @@
+import { EventLog, ZeroHash, id as keccakUtf8 } from "ethers";
+import type { Contract, Provider } from "ethers";
+import { JsonFile } from "./json-file.js";
+
+export const INDEXED_EVENTS = [
+  "ClinicRegistered",
+  "ClinicUpdated",
+  "PriceSet",
+  "PatientAliasLinked",
+  "AccessRequested",
+  "AccessScoped",
+  "PatientApproved",
+  "AccessFulfilled",
+  "AccessCanceled",
+  "AccessExpired",
+  "AccessBatchCreated",
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+export const REQUEST_STATUS_LABELS = ["REQUESTED", "PATIENT_APPROVED", "FULFILLED", "EXPIRED", "CANCELED"];
+
+export type ChainPoint = {
+  blockNumber: number;
+  txHash: string;
+  /** Block timestamp (epoch seconds). */
+  timestamp: number;
+};
+
+/** A decoded event argument: integers are decimal strings, bytes32 values lower case, arrays kept as arrays. */
+export type EventArg = string | boolean | EventArg[];
+
+export type IndexedEvent = ChainPoint & {
+  name: IndexedEventName;
+  blockHash: string;
+  logIndex: number;
+  args: Record<string, EventArg>;
+};
+
+/** Decoded log as returned by a `ChainIndexSource`, before the block timestamp is known. */
+export type RawChainEvent = Omit<IndexedEvent, "timestamp">;
+
+export type ChainBlock = { number: number; hash: string; timestamp: number };
+
+/** What the indexer needs from the chain; `contractEventSource` adapts an ethers Contract. */
+export type ChainIndexSource = {
+  getBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<ChainBlock | null>;
+  queryEvents(fromBlock: number, toBlock: number): Promise<RawChainEvent[]>;
+};
+
+export type IndexedRequest = {
+  id: number;
+  patient: string;
+  providerClinicKey: string;
+  providerClinicId?: string;
+  requesterClinicKey: string;
+  requesterClinicId?: string;
+  mode: number;
+  token: string;
+  price: string;
+  status: number;
+  statusLabel: string;
+  manifestHash: string;
+  scopeHash: string;
+  batchId?: number;
+  requestedAt: ChainPoint;
+  updatedAt: ChainPoint;
+  history: (ChainPoint & { event: IndexedEventName })[];
+};
+
+export type IndexedBatch = {
+  batchId: number;
+  patient: string;
+  requesterClinicKey: string;
+  requesterClinicId?: string;
+  mode: number;
+  token: string;
+  totalPrice: string;
+  childIds: number[];
+  createdAt: ChainPoint;
+  children: IndexedRequest[];
+};
+
+export type IndexedClinic = {
+  clinicKey: string;
+  clinicId: string;
+  payout: string;
+  operator: string;
+  price: { token: string; readPrice: string; copyPrice: string; setAt: ChainPoint } | null;
+  registeredAt: ChainPoint;
+  updatedAt: ChainPoint;
+};
+
+export type IndexedAlias = {
+  patient: string;
+  clinicKey: string;
+  aliasHash: string;
+  linkedAt: ChainPoint;
+};
+
+export type RequestIndexQuery = {
+  id?: number;
+  /** Wallet address, case-insensitive. */
+  patient?: string;
+  /** clinicId or clinicKey. */
+  provider?: string;
+  requester?: string;
+  status?: number[];
+  mode?: number;
+  batchId?: number;
+  limit?: number;
+  offset?: number;
+};
+
+export type BatchIndexQuery = {
+  patient?: string;
+  requester?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type ClinicIndexQuery = {
+  /** clinicId or clinicKey. */
+  clinic?: string;
+  operator?: string;
+  payout?: string;
+  priced?: boolean;
+};
+
+export type ChainIndexStatus = {
+  contract: string;
+  startBlock: number;
+  /** Last block whose events are fully indexed. */
+  block: number | null;
+  blockHash: string | null;
+  events: number;
+};
+
+export type ChainIndexSyncResult = {
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  /** Set when the indexed tip was no longer canonical and events were rolled back. */
+  reorg?: { ancestor: number; dropped: number };
+};
+
+export type ChainIndexCfg = {
+  enabled?: boolean;
+  file?: string;
+  /** Deployment block of the contract; nothing before it is scanned. */
+  startBlock?: number;
+  pollMs?: number;
+  /** Upper bound for a single eth_getLogs range. */
+  maxBlockRange?: number;
+  /** How many recent block hashes are kept to find the fork point after a reorg. */
+  reorgWindow?: number;
+};
+
+type IndexFile = {
+  version: 1;
+  chainId: number;
+  contract: string;
+  startBlock: number;
+  cursor: { number: number; hash: string } | null;
+  /** Hashes of recently indexed blocks, ascending. */
+  blocks: { number: number; hash: string }[];
+  events: IndexedEvent[];
+};
+
+const DEFAULT_POLL_MS = 5000;
+const DEFAULT_MAX_BLOCK_RANGE = 2000;
+const DEFAULT_REORG_WINDOW = 64;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const CLINIC_KEY_RE = /^0x[0-9a-fA-F]{64}$/;
+
+class ReorgDuringSync extends Error {}
+
+function toClinicKey(value: string): string {
+  const trimmed = value.trim();
+  return CLINIC_KEY_RE.test(trimmed) ? trimmed.toLowerCase() : keccakUtf8(trimmed).toLowerCase();
+}
+
+function normaliseArg(value: unknown): EventArg {
+  if (Array.isArray(value)) return Array.from(value, normaliseArg);
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value)) return value.toLowerCase();
+  return String(value);
+}
+
+/** A scalar argument as a string; "" when the event does not carry it. */
+function text(value: EventArg | undefined): string {
+  return value === undefined || Array.isArray(value) ? "" : String(value);
+}
+
+/** Reads every PatientAccess event through `queryFilter("*")`; logs the ABI cannot decode are skipped. */
+export function contractEventSource(contract: Contract, provider: Provider): ChainIndexSource {
+  const known = new Set<string>(INDEXED_EVENTS);
+  return {
+    getBlockNumber: () => provider.getBlockNumber(),
+    async getBlock(blockNumber) {
+      const block = await provider.getBlock(blockNumber);
+      if (!block?.hash) return null;
+      return { number: block.number, hash: block.hash.toLowerCase(), timestamp: block.timestamp };
+    },
+    async queryEvents(fromBlock, toBlock) {
+      const logs = await contract.queryFilter("*", fromBlock, toBlock);
+      const events: RawChainEvent[] = [];
+      for (const log of logs) {
+        if (!(log instanceof EventLog) || !known.has(log.eventName)) continue;
+        const args: Record<string, EventArg> = {};
+        log.fragment.inputs.forEach((input, i) => {
+          args[input.name] = normaliseArg(log.args[i]);
+        });
+        events.push({
+          name: log.eventName as IndexedEventName,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash.toLowerCase(),
+          txHash: log.transactionHash,
+          logIndex: log.index,
+          args,
+        });
+      }
+      return events;
+    },
+  };
+}
+
+/**
+ * Local copy of every PatientAccess event, so request, batch and clinic listings do not need one RPC call
+ * per entry. The event log is the persisted state; requests, batches and clinics are folded from it and
+ * rebuilt whenever a reorg rolls events back.
+ */
+export class ChainIndex {
+  private cursor: { number: number; hash: string } | null;
+  private blocks: { number: number; hash: string }[];
+  private events: IndexedEvent[];
+  private requests = new Map<number, IndexedRequest>();
+  private batches = new Map<number, Omit<IndexedBatch, "children" | "requesterClinicId">>();
+  private clinics = new Map<string, Omit<IndexedClinic, "price">>();
+  private prices = new Map<string, NonNullable<IndexedClinic["price"]>>();
+  private aliases = new Map<string, IndexedAlias>();
+  private intervalId?: NodeJS.Timeout;
+  private syncing = false;
+
+  private constructor(
+    private readonly file: JsonFile<IndexFile>,
+    private readonly chainId: number,
+    private readonly contract: string,
+    private readonly startBlock: number,
+    private readonly maxBlockRange: number,
+    private readonly reorgWindow: number,
+    initial: IndexFile | null
+  ) {
+    this.cursor = initial?.cursor ?? null;
+    this.blocks = initial?.blocks ?? [];
+    this.events = initial?.events ?? [];
+    this.rebuild();
+  }
+
+  static async init(cfg: ChainIndexCfg | undefined, chain: { chainId: number; contract: string }): Promise<ChainIndex> {
+    const fileUrl = cfg?.file ? new URL(cfg.file, import.meta.url) : new URL("./data/chain-index.json", import.meta.url);
+    const file = new JsonFile<IndexFile>(fileUrl, { label: "chain index", indent: 0 });
+    const startBlock = Math.max(0, Math.floor(cfg?.startBlock ?? 0));
+    let persisted = (await file.load()) ?? null;
+    // An index of another deployment (or a changed start block) is useless; start over
+    if (
+      persisted &&
+      (persisted.chainId !== chain.chainId ||
+        persisted.contract?.toLowerCase() !== chain.contract.toLowerCase() ||
+        persisted.startBlock !== startBlock)
+    ) {
+      persisted = null;
+    }
+    return new ChainIndex(
+      file,
+      chain.chainId,
+      chain.contract,
+      startBlock,
+      Math.max(1, cfg?.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE),
+      Math.max(1, cfg?.reorgWindow ?? DEFAULT_REORG_WINDOW),
+      persisted
+    );
+  }
+
+  status(): ChainIndexStatus {
+    return {
+      contract: this.contract,
+      startBlock: this.startBlock,
+      block: this.cursor?.number ?? null,
+      blockHash: this.cursor?.hash ?? null,
+      events: this.events.length,
+    };
+  }
+
+  start(
+    source: ChainIndexSource,
+    opts: { pollMs?: number; log?: (...args: unknown[]) => void; warn?: (...args: unknown[]) => void } = {}
+  ) {
+    if (this.intervalId) return;
+    const tick = async () => {
+      // A catch-up from the start block can outlast pollMs; never run two syncs side by side
+      if (this.syncing) return;
+      this.syncing = true;
+      try {
+        const result = await this.sync(source);
+        if (result.reorg) {
+          opts.warn?.(`chain index: reorg below block ${result.reorg.ancestor + 1}, dropped ${result.reorg.dropped} event(s)`);
+        }
+        if (result.added) {
+          opts.log?.(`chain index: ${result.added} event(s) in blocks ${result.fromBlock}-${result.toBlock}`);
+        }
+      } catch (e) {
+        opts.warn?.("chain index sync failed:", e instanceof Error ? e.message : e);
+      } finally {
+        this.syncing = false;
+      }
+    };
+    tick();
+    this.intervalId = setInterval(tick, opts.pollMs ?? DEFAULT_POLL_MS);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+
+  /**
+   * Indexes up to the current head. If the indexed tip is no longer on the canonical chain, events after
+   * the last block whose hash still matches are dropped first and fetched again. The file is written once per
+   * sync, not per `maxBlockRange` chunk, so that a catch-up does not rewrite the growing log over and over.
+   */
+  async sync(source: ChainIndexSource): Promise<ChainIndexSyncResult> {
+    let reorg: ChainIndexSyncResult["reorg"];
+    if (this.cursor) {
+      const ancestor = await this.findCommonAncestor(source);
+      if (ancestor < this.cursor.number) {
+        reorg = { ancestor, dropped: await this.rewind(source, ancestor) };
+      }
+    }
+
+    const head = await source.getBlockNumber();
+    const fromBlock = this.cursor ? this.cursor.number + 1 : this.startBlock;
+    let added = 0;
+    let toBlock = fromBlock - 1;
+
+    try {
+      for (let from = fromBlock; from <= head; from += this.maxBlockRange) {
+        const to = Math.min(head, from + this.maxBlockRange - 1);
+        added += await this.indexRange(source, from, to);
+        toBlock = to;
+      }
+    } catch (e) {
+      // The chain moved under us; what was indexed so far is kept and the next sync starts with the fork check
+      if (!(e instanceof ReorgDuringSync)) throw e;
+    } finally {
+      // chunks indexed before an RPC failure are kept too
+      if (reorg || toBlock >= fromBlock) await this.persist();
+    }
+    return { fromBlock, toBlock, added, reorg };
+  }
+
+  getRequest(id: number): IndexedRequest | undefined {
+    const request = this.requests.get(id);
+    return request ? this.presentRequest(request) : undefined;
+  }
+
+  listRequests(query: RequestIndexQuery = {}) {
+    const patient = query.patient?.trim().toLowerCase();
+    const provider = query.provider ? toClinicKey(query.provider) : undefined;
+    const requester = query.requester ? toClinicKey(query.requester) : undefined;
+    const matches = Array.from(this.requests.values())
+      .filter((request) => {
+        if (query.id !== undefined && request.id !== query.id) return false;
+        if (patient && request.patient.toLowerCase() !== patient) return false;
+        if (provider && request.providerClinicKey !== provider) return false;
+        if (requester && request.requesterClinicKey !== requester) return false;
+        if (query.status?.length && !query.status.includes(request.status)) return false;
+        if (query.mode !== undefined && request.mode !== query.mode) return false;
+        if (query.batchId !== undefined && request.batchId !== query.batchId) return false;
+        return true;
+      })
+      .sort((a, b) => b.id - a.id);
+    const { limit, offset } = this.page(query);
+    return {
+      requests: matches.slice(offset, offset + limit).map((request) => this.presentRequest(request)),
+      total: matches.length,
+      limit,
+      offset,
+      block: this.cursor?.number ?? null,
+    };
+  }
+
+  listBatches(query: BatchIndexQuery = {}) {
+    const patient = query.patient?.trim().toLowerCase();
+    const requester = query.requester ? toClinicKey(query.requester) : undefined;
+    const matches = Array.from(this.batches.values())
+      .filter((batch) => {
+        if (patient && batch.patient.toLowerCase() !== patient) return false;
+        if (requester && batch.requesterClinicKey !== requester) return false;
+        return true;
+      })
+      .sort((a, b) => b.batchId - a.batchId);
+    const { limit, offset } = this.page(query);
+    return {
+      batches: matches.slice(offset, offset + limit).map((batch): IndexedBatch => ({
+        ...batch,
+        childIds: [...batch.childIds],
+        requesterClinicId: this.clinics.get(batch.requesterClinicKey)?.clinicId,
+        children: batch.childIds
+          .map((childId) => this.requests.get(childId))
+          .filter((child): child is IndexedRequest => !!child)
+          .map((child) => this.presentRequest(child)),
+      })),
+      total: matches.length,
+      limit,
+      offset,
+      block: this.cursor?.number ?? null,
+    };
+  }
+
+  listClinics(query: ClinicIndexQuery = {}) {
+    const clinic = query.clinic?.trim();
+    const clinicKey = clinic ? toClinicKey(clinic) : undefined;
+    const operator = query.operator?.trim().toLowerCase();
+    const payout = query.payout?.trim().toLowerCase();
+    const clinics = Array.from(this.clinics.values())
+      .map((entry): IndexedClinic => ({ ...entry, price: this.prices.get(entry.clinicKey) ?? null }))
+      .filter((entry) => {
+        if (clinicKey && entry.clinicKey !== clinicKey) return false;
+        if (operator && entry.operator.toLowerCase() !== operator) return false;
+        if (payout && entry.payout.toLowerCase() !== payout) return false;
+        if (query.priced !== undefined && !!entry.price !== query.priced) return false;
+        return true;
+      })
+      .sort((a, b) => a.clinicId.localeCompare(b.clinicId));
+    return { clinics, total: clinics.length, block: this.cursor?.number ?? null };
+  }
+
+  listAliases(patient: string): IndexedAlias[] {
+    const key = patient.trim().toLowerCase();
+    return Array.from(this.aliases.values())
+      .filter((entry) => entry.patient.toLowerCase() === key)
+      .map((entry) => ({ ...entry }));
+  }
+
+  private async indexRange(source: ChainIndexSource, from: number, to: number): Promise<number> {
+    const raw = await source.queryEvents(from, to);
+    const tip = await source.getBlock(to);
+    if (!tip) throw new ReorgDuringSync(`block ${to} disappeared`);
+
+    const blocks = new Map<number, ChainBlock>([[to, tip]]);
+    for (const event of raw) {
+      if (!blocks.has(event.blockNumber)) {
+        const block = await source.getBlock(event.blockNumber);
+        if (!block) throw new ReorgDuringSync(`block ${event.blockNumber} disappeared`);
+        blocks.set(event.blockNumber, block);
+      }
+      if (blocks.get(event.blockNumber)!.hash !== event.blockHash.toLowerCase()) {
+        throw new ReorgDuringSync(`log of block ${event.blockNumber} is from a replaced block`);
+      }
+    }
+
+    const events = raw
+      .map((event): IndexedEvent => ({
+        ...event,
+        blockHash: event.blockHash.toLowerCase(),
+        timestamp: blocks.get(event.blockNumber)!.timestamp,
+      }))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    for (const event of events) {
+      this.events.push(event);
+      this.apply(event);
+    }
+
+    for (const block of Array.from(blocks.values()).sort((a, b) => a.number - b.number)) {
+      this.blocks.push({ number: block.number, hash: block.hash });
+    }
+    this.cursor = { number: tip.number, hash: tip.hash };
+    const floor = tip.number - this.reorgWindow;
+    this.blocks = this.blocks.filter((block) => block.number > floor || block.number === tip.number);
+    return events.length;
+  }
+
+  /** Highest indexed block that is still canonical; `startBlock - 1` when nothing in the window matches. */
+  private async findCommonAncestor(source: ChainIndexSource): Promise<number> {
+    const known = [...this.blocks].sort((a, b) => b.number - a.number);
+    if (this.cursor && !known.some((block) => block.number === this.cursor!.number)) known.unshift(this.cursor);
+    for (const block of known) {
+      const current = await source.getBlock(block.number);
+      if (current?.hash === block.hash) return block.number;
+    }
+    return this.startBlock - 1;
+  }
+
+  private async rewind(source: ChainIndexSource, ancestor: number): Promise<number> {
+    const before = this.events.length;
+    this.events = this.events.filter((event) => event.blockNumber <= ancestor);
+    this.blocks = this.blocks.filter((block) => block.number <= ancestor);
+    const anchor = ancestor >= this.startBlock ? await source.getBlock(ancestor) : null;
+    this.cursor = anchor ? { number: anchor.number, hash: anchor.hash } : null;
+    this.rebuild();
+    return before - this.events.length;
+  }
+
+  private rebuild() {
+    this.requests = new Map();
+    this.batches = new Map();
+    this.clinics = new Map();
+    this.prices = new Map();
+    this.aliases = new Map();
+    for (const event of this.events) this.apply(event);
+  }
+
+  private apply(event: IndexedEvent) {
+    const point: ChainPoint = { blockNumber: event.blockNumber, txHash: event.txHash, timestamp: event.timestamp };
+    const args = event.args;
+    switch (event.name) {
+      case "ClinicRegistered":
+        this.clinics.set(text(args.clinicKey), {
+          clinicKey: text(args.clinicKey),
+          clinicId: text(args.clinicId),
+          payout: text(args.payout),
+          operator: text(args.operator),
+          registeredAt: point,
+          updatedAt: point,
+        });
+        return;
+      case "ClinicUpdated": {
+        const clinic = this.clinics.get(text(args.clinicKey));
+        if (!clinic) return;
+        clinic.payout = text(args.payout);
+        clinic.operator = text(args.operator);
+        clinic.updatedAt = point;
+        return;
+      }
+      case "PriceSet":
+        this.prices.set(text(args.providerClinicKey), {
+          token: text(args.token),
+          readPrice: text(args.readPrice),
+          copyPrice: text(args.copyPrice),
+          setAt: point,
+        });
+        return;
+      case "PatientAliasLinked":
+        this.aliases.set(`${text(args.patient).toLowerCase()}|${text(args.clinicKey)}`, {
+          patient: text(args.patient),
+          clinicKey: text(args.clinicKey),
+          aliasHash: text(args.aliasHash),
+          linkedAt: point,
+        });
+        return;
+      case "AccessRequested": {
+        const id = Number(text(args.id));
+        this.requests.set(id, {
+          id,
+          patient: text(args.patient),
+          providerClinicKey: text(args.providerClinicKey),
+          requesterClinicKey: text(args.requesterClinicKey),
+          mode: Number(text(args.mode)),
+          token: text(args.token),
+          price: text(args.price),
+          status: 0,
+          statusLabel: REQUEST_STATUS_LABELS[0],
+          manifestHash: ZeroHash,
+          scopeHash: ZeroHash,
+          requestedAt: point,
+          updatedAt: point,
+          history: [{ event: event.name, ...point }],
+        });
+        return;
+      }
+      case "AccessBatchCreated": {
+        const batchId = Number(text(args.batchId));
+        const childIds = (Array.isArray(args.childIds) ? args.childIds : []).map((childId) => Number(text(childId)));
+        const first = this.requests.get(childIds[0]);
+        for (const childId of childIds) {
+          const child = this.requests.get(childId);
+          if (child) child.batchId = batchId;
+        }
+        this.batches.set(batchId, {
+          batchId,
+          patient: first?.patient ?? "",
+          requesterClinicKey: first?.requesterClinicKey ?? "",
+          mode: first?.mode ?? 0,
+          token: text(args.token),
+          totalPrice: text(args.totalPrice),
+          childIds,
+          createdAt: point,
+        });
+        return;
+      }
+      default:
+        this.applyRequestChange(event, point);
+    }
+  }
+
+  private applyRequestChange(event: IndexedEvent, point: ChainPoint) {
+    const request = this.requests.get(Number(text(event.args.id)));
+    if (!request) return;
+    switch (event.name) {
+      case "AccessScoped":
+        request.scopeHash = text(event.args.scopeHash);
+        break;
+      case "PatientApproved":
+        request.status = 1;
+        break;
+      case "AccessFulfilled":
+        request.status = 2;
+        request.manifestHash = text(event.args.manifestHash);
+        break;
+      case "AccessExpired":
+        request.status = 3;
+        break;
+      case "AccessCanceled":
+        request.status = 4;
+        break;
+      default:
+        return;
+    }
+    request.statusLabel = REQUEST_STATUS_LABELS[request.status];
+    request.updatedAt = point;
+    request.history.push({ event: event.name, ...point });
+  }
+
+  private presentRequest(request: IndexedRequest): IndexedRequest {
+    return {
+      ...request,
+      providerClinicId: this.clinics.get(request.providerClinicKey)?.clinicId,
+      requesterClinicId: this.clinics.get(request.requesterClinicKey)?.clinicId,
+      history: request.history.map((entry) => ({ ...entry })),
+    };
+  }
+
+  private page(query: { limit?: number; offset?: number }) {
+    return {
+      limit: Math.min(Math.max(1, Math.floor(query.limit ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE),
+      offset: Math.max(0, Math.floor(query.offset ?? 0)),
+    };
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write({
+      version: 1,
+      chainId: this.chainId,
+      contract: this.contract,
+      startBlock: this.startBlock,
+      cursor: this.cursor,
+      blocks: this.blocks,
+      events: this.events,
+    });
+  }
+}
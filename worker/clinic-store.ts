@@ -1,5 +1,7 @@
 import { readFile, writeFile } from "node:fs/promises";
 import { keccak256, toUtf8Bytes } from "ethers";
+import { ALL_TENANTS, assertInTenant, inTenant } from "./tenancy.js";
+import type { TenantScope } from "./tenancy.js";
 
 export type DicomNodeConfig = {
     clinicId: string;
@@ -40,8 +42,13 @@ export class ClinicStore {
         return store;
     }
 
-    list(): Record<string, DicomNodeConfig> {
-        return { ...this.map };
+    /** Configs of the clinics in `scope`; internal callers use the default and see every clinic. */
+    list(scope: TenantScope = ALL_TENANTS): Record<string, DicomNodeConfig> {
+        const out: Record<string, DicomNodeConfig> = {};
+        for (const [clinicId, config] of Object.entries(this.map)) {
+            if (inTenant(scope, clinicId)) out[clinicId] = config;
+        }
+        return out;
     }
 
     get(clinicId: string): DicomNodeConfig | undefined {
@@ -58,13 +65,15 @@ export class ClinicStore {
         );
     }
 
-    async set(config: DicomNodeConfig) {
+    async set(config: DicomNodeConfig, scope: TenantScope = ALL_TENANTS) {
         if (!config.clinicId) throw new Error("clinicId is required");
+        assertInTenant(scope, config.clinicId, `clinic ${config.clinicId}`);
         this.map[config.clinicId] = config;
         await this.persist();
     }
 
-    async remove(clinicId: string) {
+    async remove(clinicId: string, scope: TenantScope = ALL_TENANTS) {
+        assertInTenant(scope, clinicId, `clinic ${clinicId}`);
         if (this.map[clinicId]) {
             delete this.map[clinicId];
             await this.persist();
@@ -0,0 +1,414 @@
+import { readFile, writeFile, appendFile, mkdir, rename } from "node:fs/promises";
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AlertService } from "./alert-service.js";
+import { ALL_TENANTS, inTenant } from "./tenancy.js";
+import type { TenantScope } from "./tenancy.js";
+import type { TransferThroughput } from "./transfer.js";
+
+export type CopyEventStatus = "pending" | "copying" | "completed" | "partial" | "error";
+
+export type CopyEventFailure = {
+  sop: string;
+  message: string;
+};
+
+export type CopyAttemptSummary = {
+  attempt: number;
+  status: CopyEventStatus;
+  total: number;
+  success: number;
+  failed: number;
+  manifestHash?: string;
+  throughput?: TransferThroughput;
+  startedAt: string;
+  endedAt: string;
+};
+
+export type CopyEvent = {
+  requestId: number;
+  /** 1 for the initial copy, incremented by every retry. */
+  attempt: number;
+  previousAttempts: CopyAttemptSummary[];
+  providerId?: string;
+  /** Requesting clinic; with `providerId` it decides which tenants see the event. */
+  requesterClinicId?: string;
+  patientAddress: string;
+  patientId: string;
+  total: number;
+  success: number;
+  failed: number;
+  status: CopyEventStatus;
+  errors: string[];
+  failures: CopyEventFailure[];
+  manifestHash?: string;
+  /** Transfer rate of the current attempt (orthanc copy mode only). */
+  throughput?: TransferThroughput;
+  startedAt: string;
+  updatedAt: string;
+};
+
+export type CopyEventUpdate = {
+  total?: number;
+  success?: number;
+  failed?: number;
+  status?: CopyEventStatus;
+  manifestHash?: string;
+  throughput?: TransferThroughput;
+  error?: string;
+};
+
+export type CopyEventQuery = {
+  requestId?: number;
+  providerId?: string;
+  /** Wallet address (case-insensitive) or resolved PatientID. */
+  patient?: string;
+  status?: CopyEventStatus[];
+  /** ISO timestamps; an event matches when its [startedAt, updatedAt] span overlaps the range. */
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type CopyEventPage = {
+  events: CopyEvent[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+/**
+ * One live change, as seen by subscribers. Progress and status changes carry the updated summary;
+ * per-SOP failures only carry the failure itself.
+ */
+export type CopyEventChange =
+  | { type: "progress"; requestId: number; event: CopyEvent }
+  | { type: "status"; requestId: number; from?: CopyEventStatus; event: CopyEvent }
+  | { type: "failure"; requestId: number; attempt: number; failure: CopyEventFailure; event: CopyEvent };
+
+export type CopyEventListener = (change: CopyEventChange) => void;
+
+export type CopyEventStoreCfg = {
+  file?: string;
+};
+
+type LogRecord =
+  | { op: "start"; event: CopyEvent }
+  | { op: "update"; id: number; at: string; patch: CopyEventUpdate }
+  | { op: "failure"; id: number; at: string; failure: CopyEventFailure }
+  | { op: "fail"; id: number; at: string; message: string }
+  | { op: "attempt"; id: number; at: string; success: number; failed: number }
+  | { op: "snapshot"; event: CopyEvent };
+
+type UpdateRecord = Extract<LogRecord, { op: "update" }>;
+
+// Summaries (list) keep the payload small; the detail view returns everything
+const SUMMARY_ERRORS = 5;
+const SUMMARY_FAILURES = 20;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+// Progress that leaves the status alone reaches the log once per this many updates of a request
+const PROGRESS_LOG_INTERVAL = 25;
+
+export function matchesCopyEventQuery(event: CopyEvent, query: CopyEventQuery): boolean {
+  const patient = query.patient?.trim().toLowerCase();
+  if (query.requestId !== undefined && event.requestId !== query.requestId) return false;
+  if (query.providerId && event.providerId !== query.providerId) return false;
+  if (patient && event.patientAddress.toLowerCase() !== patient && event.patientId.toLowerCase() !== patient) {
+    return false;
+  }
+  if (query.status?.length && !query.status.includes(event.status)) return false;
+  if (query.from && event.updatedAt < query.from) return false;
+  if (query.to && event.startedAt > query.to) return false;
+  return true;
+}
+
+/** An update that only moves the counters or the throughput of the current status. */
+function isProgressOnly(patch: CopyEventUpdate, status?: CopyEventStatus): boolean {
+  return (!patch.status || patch.status === status) && !patch.error && patch.manifestHash === undefined;
+}
+
+/** Both clinics of a request see its copy events. */
+export function copyEventInTenant(event: CopyEvent, scope: TenantScope): boolean {
+  return inTenant(scope, event.providerId, event.requesterClinicId);
+}
+
+function summarize(event: CopyEvent): CopyEvent {
+  return {
+    ...event,
+    previousAttempts: event.previousAttempts.map((a) => ({ ...a })),
+    errors: event.errors.slice(-SUMMARY_ERRORS),
+    failures: event.failures.slice(-SUMMARY_FAILURES).map((f) => ({ ...f })),
+  };
+}
+
+/**
+ * Copy progress per requestId, persisted as an append-only JSONL operation log.
+ * The log is replayed into an in-memory index on start and compacted to one snapshot per request
+ * when it has grown well beyond the number of requests. Plain progress updates are held back and logged
+ * merged, with the next status change or every PROGRESS_LOG_INTERVAL updates, so that a large copy does not
+ * add a line per instance; subscribers still see each of them.
+ */
+export class CopyEventStore {
+  private readonly events = new Map<number, CopyEvent>();
+  private readonly listeners = new Set<CopyEventListener>();
+  /** Progress applied in memory but not logged yet, merged per request. */
+  private readonly heldProgress = new Map<number, { rec: UpdateRecord; count: number }>();
+  private pending: string[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly fileUrl: URL, private readonly alertService?: AlertService) { }
+
+  static async init(cfg?: CopyEventStoreCfg, alertService?: AlertService): Promise<CopyEventStore> {
+    const fileUrl = cfg?.file ? new URL(cfg.file, import.meta.url) : new URL("./data/copy-events.jsonl", import.meta.url);
+    await mkdir(dirname(fileURLToPath(fileUrl)), { recursive: true });
+    const store = new CopyEventStore(fileUrl, alertService);
+
+    let raw = "";
+    try {
+      raw = await readFile(fileUrl, "utf-8");
+    } catch (e) {
+      if ((e as { code?: unknown } | null)?.code !== "ENOENT") throw e;
+    }
+
+    let records = 0;
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        store.apply(JSON.parse(line) as LogRecord);
+        records++;
+      } catch {
+        console.warn("copy-events: skipped unreadable log line");
+      }
+    }
+
+    if (records > store.events.size * 4 + 1000) {
+      await store.compact();
+    }
+    return store;
+  }
+
+  start(payload: {
+    requestId: number;
+    providerId?: string;
+    requesterClinicId?: string;
+    patientAddress: string;
+    patientId: string;
+  }): CopyEvent {
+    const now = new Date().toISOString();
+    const entry: CopyEvent = {
+      requestId: payload.requestId,
+      attempt: 1,
+      previousAttempts: [],
+      providerId: payload.providerId,
+      requesterClinicId: payload.requesterClinicId,
+      patientAddress: payload.patientAddress,
+      patientId: payload.patientId,
+      total: 0,
+      success: 0,
+      failed: 0,
+      status: "pending",
+      errors: [],
+      failures: [],
+      startedAt: now,
+      updatedAt: now,
+    };
+    this.record({ op: "start", event: entry });
+    return entry;
+  }
+
+  update(id: number, patch: CopyEventUpdate): CopyEvent | undefined {
+    if (!this.events.has(id)) return undefined;
+    return this.record({ op: "update", id, at: new Date().toISOString(), patch });
+  }
+
+  recordFailure(id: number, failure: CopyEventFailure) {
+    if (!this.events.has(id)) return;
+    this.record({ op: "failure", id, at: new Date().toISOString(), failure });
+  }
+
+  fail(id: number, message: string) {
+    if (!this.events.has(id)) return;
+    const entry = this.record({ op: "fail", id, at: new Date().toISOString(), message });
+
+    if (this.alertService && entry) {
+      this.alertService.send(`Copy failed for Request #${id}: ${message}`, {
+        requestId: id,
+        patientId: entry.patientId,
+        errors: entry.errors.slice(-SUMMARY_ERRORS),
+      });
+    }
+  }
+
+  /** Opens a new attempt (retry) for a request while keeping the outcome of the previous one. */
+  beginAttempt(id: number, counts: { success: number; failed: number }): CopyEvent | undefined {
+    if (!this.events.has(id)) return undefined;
+    return this.record({ op: "attempt", id, at: new Date().toISOString(), ...counts });
+  }
+
+  /** Latest events first, with error and failure lists trimmed for dashboards. */
+  list(query: CopyEventQuery = {}, scope: TenantScope = ALL_TENANTS): CopyEventPage {
+    const limit = Math.min(Math.max(1, Math.floor(query.limit ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+    const offset = Math.max(0, Math.floor(query.offset ?? 0));
+
+    const matches = Array.from(this.events.values())
+      .filter((event) => copyEventInTenant(event, scope) && matchesCopyEventQuery(event, query))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    return {
+      events: matches.slice(offset, offset + limit).map(summarize),
+      total: matches.length,
+      limit,
+      offset,
+    };
+  }
+
+  /** Full record for one request, including every per-SOP failure. */
+  get(id: number): CopyEvent | undefined {
+    const event = this.events.get(id);
+    if (!event) return undefined;
+    return {
+      ...event,
+      previousAttempts: event.previousAttempts.map((a) => ({ ...a })),
+      errors: [...event.errors],
+      failures: event.failures.map((f) => ({ ...f })),
+    };
+  }
+
+  /** Calls `listener` for every change recorded from now on. Returns the unsubscribe function. */
+  subscribe(listener: CopyEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private record(rec: LogRecord): CopyEvent | undefined {
+    const previousStatus = rec.op === "start" || rec.op === "snapshot" ? undefined : this.events.get(rec.id)?.status;
+    const entry = this.apply(rec);
+    if (rec.op === "update" && isProgressOnly(rec.patch, previousStatus)) this.holdProgress(rec);
+    else this.log(rec);
+    if (entry && this.listeners.size) this.notify(rec, entry, previousStatus);
+    return entry;
+  }
+
+  /** Merges a progress update into the held one of its request, and logs the merge every few updates. */
+  private holdProgress(rec: UpdateRecord) {
+    const held = this.heldProgress.get(rec.id);
+    const merged: UpdateRecord = { ...rec, patch: { ...held?.rec.patch, ...rec.patch } };
+    const count = (held?.count ?? 0) + 1;
+    if (count < PROGRESS_LOG_INTERVAL) {
+      this.heldProgress.set(rec.id, { rec: merged, count });
+      return;
+    }
+    this.heldProgress.delete(rec.id);
+    this.log(merged);
+  }
+
+  private log(rec: LogRecord) {
+    const id = rec.op === "start" || rec.op === "snapshot" ? rec.event.requestId : rec.id;
+    const held = this.heldProgress.get(id);
+    if (held) {
+      // the held counters go first so that a replay ends with what this record sets
+      this.heldProgress.delete(id);
+      this.pending.push(JSON.stringify(held.rec));
+    }
+    this.pending.push(JSON.stringify(rec));
+    this.flush();
+  }
+
+  private notify(rec: LogRecord, entry: CopyEvent, previousStatus?: CopyEventStatus) {
+    const event = summarize(entry);
+    let change: CopyEventChange;
+    if (rec.op === "failure") {
+      change = { type: "failure", requestId: entry.requestId, attempt: entry.attempt, failure: { ...rec.failure }, event };
+    } else if (rec.op === "update" && entry.status === previousStatus) {
+      change = { type: "progress", requestId: entry.requestId, event };
+    } else {
+      // start, fail and a new attempt always count as transitions, even when the status label repeats
+      change = { type: "status", requestId: entry.requestId, from: previousStatus, event };
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (e) {
+        console.warn("copy-events: listener failed", e);
+      }
+    }
+  }
+
+  private apply(rec: LogRecord): CopyEvent | undefined {
+    if (rec.op === "start" || rec.op === "snapshot") {
+      const entry: CopyEvent = {
+        ...rec.event,
+        attempt: rec.event.attempt ?? 1,
+        previousAttempts: [...(rec.event.previousAttempts ?? [])],
+        errors: [...rec.event.errors],
+        failures: [...rec.event.failures],
+      };
+      this.events.set(entry.requestId, entry);
+      return entry;
+    }
+
+    const entry = this.events.get(rec.id);
+    if (!entry) return undefined;
+    if (rec.op === "update") {
+      const patch = rec.patch;
+      if (typeof patch.total === "number") entry.total = patch.total;
+      if (typeof patch.success === "number") entry.success = patch.success;
+      if (typeof patch.failed === "number") entry.failed = patch.failed;
+      if (patch.status) entry.status = patch.status;
+      if (patch.manifestHash !== undefined) entry.manifestHash = patch.manifestHash;
+      if (patch.throughput) entry.throughput = patch.throughput;
+      if (patch.error) entry.errors.push(patch.error);
+    } else if (rec.op === "failure") {
+      entry.failures.push(rec.failure);
+    } else if (rec.op === "fail") {
+      entry.status = "error";
+      entry.errors.push(rec.message);
+    } else if (rec.op === "attempt") {
+      entry.previousAttempts.push({
+        attempt: entry.attempt,
+        status: entry.status,
+        total: entry.total,
+        success: entry.success,
+        failed: entry.failed,
+        manifestHash: entry.manifestHash,
+        throughput: entry.throughput,
+        startedAt: entry.startedAt,
+        endedAt: entry.updatedAt,
+      });
+      entry.throughput = undefined;
+      entry.attempt += 1;
+      entry.status = "copying";
+      entry.success = rec.success;
+      entry.failed = rec.failed;
+      entry.errors = [];
+      entry.failures = [];
+      entry.startedAt = rec.at;
+    }
+    entry.updatedAt = rec.at;
+    return entry;
+  }
+
+  private flush() {
+    this.writeChain = this.writeChain.then(async () => {
+      if (!this.pending.length) return;
+      const lines = this.pending;
+      this.pending = [];
+      try {
+        await appendFile(this.fileUrl, lines.join("\n") + "\n", "utf-8");
+      } catch (e) {
+        console.error("copy-events: write failed", e);
+      }
+    });
+  }
+
+  private async compact() {
+    const target = fileURLToPath(this.fileUrl);
+    const lines = Array.from(this.events.values()).map((event) => JSON.stringify({ op: "snapshot", event }));
+    await writeFile(`${target}.tmp`, lines.length ? lines.join("\n") + "\n" : "", "utf-8");
+    await rename(`${target}.tmp`, target);
+  }
+}
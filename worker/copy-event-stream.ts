@@ -0,0 +1,74 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { copyEventInTenant, matchesCopyEventQuery } from "./copy-event-store.js";
+import type { CopyEventChange, CopyEventQuery, CopyEventStore } from "./copy-event-store.js";
+import { ALL_TENANTS } from "./tenancy.js";
+import type { TenantScope } from "./tenancy.js";
+
+export type CopyEventStreamOptions = {
+  /** Interval of the keep-alive comment; proxies tend to drop idle connections after 30-60s. */
+  heartbeatMs?: number;
+  /** Reconnect delay suggested to EventSource-style clients. */
+  retryMs?: number;
+  /** Clinics whose events the subscriber may see, in the snapshot and live. */
+  scope?: TenantScope;
+};
+
+const DEFAULT_HEARTBEAT_MS = 15000;
+const DEFAULT_RETRY_MS = 3000;
+
+function frame(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function payload(change: CopyEventChange) {
+  if (change.type === "failure") {
+    return { requestId: change.requestId, attempt: change.attempt, failure: change.failure };
+  }
+  if (change.type === "status") {
+    return { requestId: change.requestId, from: change.from ?? null, event: change.event };
+  }
+  return { requestId: change.requestId, event: change.event };
+}
+
+/**
+ * Serves copy progress as Server-Sent Events. The first frame is a `snapshot` with the same page that
+ * `GET /copy-events` returns for the query, followed by one `progress`, `failure` or `status` frame per
+ * change. Live changes are filtered by requestId, providerId and patient only: a `status` or time range
+ * filter would hide the very transitions that move a request in or out of it.
+ *
+ * A reconnecting client gets a fresh snapshot, so nothing has to be replayed from event ids.
+ */
+export function streamCopyEvents(
+  req: IncomingMessage,
+  res: ServerResponse,
+  store: CopyEventStore,
+  query: CopyEventQuery,
+  options: CopyEventStreamOptions = {}
+): void {
+  const liveQuery: CopyEventQuery = { requestId: query.requestId, providerId: query.providerId, patient: query.patient };
+  const scope = options.scope ?? ALL_TENANTS;
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // nginx buffers proxied responses unless told otherwise
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  res.write(`retry: ${options.retryMs ?? DEFAULT_RETRY_MS}\n\n`);
+  res.write(frame("snapshot", store.list(query, scope)));
+
+  const unsubscribe = store.subscribe((change) => {
+    if (!copyEventInTenant(change.event, scope) || !matchesCopyEventQuery(change.event, liveQuery)) return;
+    res.write(frame(change.type, payload(change)));
+  });
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+  req.on("close", close);
+  res.on("error", close);
+}
@@ -0,0 +1,218 @@
+import type { CopyEventStatus, CopyEventStore } from "./copy-event-store.js";
+import type { CopyJob, CopyJobInstance, JobQueue } from "./job-queue.js";
+import { buildManifest } from "./manifest.js";
+import type { ManifestStore } from "./manifest.js";
+import { TransferMeter } from "./transfer.js";
+import type { TransferPool, TransferResult } from "./transfer.js";
+
+export type CopyRetryResult = {
+  status: number;
+  body?: Record<string, unknown>;
+  error?: string;
+};
+
+/** The fields of `PatientAccess.reqs()` a retry looks at. */
+export type RetryAccessRequest = { status?: unknown; requesterClinicKey?: string };
+
+export type CopyRetryDeps = {
+  contract: { reqs(requestId: number): Promise<RetryAccessRequest | undefined> };
+  jobQueue: JobQueue;
+  copyEvents: CopyEventStore;
+  manifests: ManifestStore;
+  transferPool: Pick<TransferPool, "run">;
+  /** Requests being copied right now; shared with the poller so that a request is never copied twice at once. */
+  activeCopies: Set<number>;
+  /** True while the provider agent is expected to push the request instead. */
+  isPushPending: (requestId: number) => boolean;
+  /** Copies one instance of the provider to the requester, retries included; undefined when not configured. */
+  transferFor: (providerId: string) => ((instance: CopyJobInstance) => Promise<TransferResult>) | undefined;
+  /** Clinic ID of the requester of an on-chain request, for the copy event of a job that has none yet. */
+  requesterClinicId: (reqData: RetryAccessRequest | undefined) => string | undefined;
+  markFulfilled: (
+    providerId: string,
+    payload: {
+      requestId: number;
+      manifestHash: string;
+      patientAddress: string;
+      patientId: string;
+      success: number;
+      failed: number;
+    }
+  ) => Promise<unknown>;
+  log?: (...args: unknown[]) => void;
+  warn?: (...args: unknown[]) => void;
+};
+
+// PatientAccess.Status の並び順
+const STATUS_LABELS = ["REQUESTED", "PATIENT_APPROVED", "FULFILLED", "EXPIRED", "CANCELED"];
+
+function errorMessage(e: unknown): string {
+  const reason = (e as { reason?: unknown } | null)?.reason;
+  if (typeof reason === "string" && reason) return reason;
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Copies the failed instances of a job again (`POST /copy-events/:requestId/retry`). A request that is still
+ * approved is fulfilled with a manifest of everything copied so far; one that is already fulfilled keeps the
+ * manifest committed on-chain, and the retry only fills in the missing instances.
+ */
+export class CopyRetryService {
+  private readonly inflight = new Map<number, Promise<void>>();
+  private readonly log: (...args: unknown[]) => void;
+  private readonly warn: (...args: unknown[]) => void;
+
+  constructor(private readonly deps: CopyRetryDeps) {
+    this.log = deps.log ?? console.log;
+    this.warn = deps.warn ?? console.warn;
+  }
+
+  /** Starts a retry in the background; progress is visible through /copy-events. */
+  async retry(requestId: number): Promise<CopyRetryResult> {
+    const { jobQueue, copyEvents, contract, activeCopies } = this.deps;
+    const job = jobQueue.get(requestId);
+    if (!job) return { status: 404, error: "no copy job for this request" };
+    if (activeCopies.has(requestId) || this.deps.isPushPending(requestId) || job.state === "copying") {
+      return { status: 409, error: "copy is already in progress" };
+    }
+    if (job.state === "pending") {
+      return { status: 409, error: "copy has not run yet" };
+    }
+
+    let chainStatus: number;
+    let requesterClinicId: string | undefined;
+    try {
+      const reqData = await contract.reqs(requestId);
+      chainStatus = Number(reqData?.status ?? 0);
+      requesterClinicId = this.deps.requesterClinicId(reqData);
+    } catch (e) {
+      return { status: 502, error: `failed to load access request: ${errorMessage(e)}` };
+    }
+    if (chainStatus === 3 || chainStatus === 4) {
+      return { status: 409, error: `request is ${STATUS_LABELS[chainStatus]} on-chain` };
+    }
+    if (chainStatus < 1) {
+      return { status: 409, error: "request is not approved" };
+    }
+
+    if (!job.failed.length) {
+      if (chainStatus === 1 && job.state === "failed") {
+        // Nothing was recorded per instance (e.g. QIDO failed): run the whole job again
+        await jobQueue.transition(requestId, "pending", { lastError: undefined, fulfillTxHash: undefined });
+        copyEvents.beginAttempt(requestId, { success: job.uploaded.length, failed: 0 });
+        return { status: 202, body: { requestId, requeued: true } };
+      }
+      return { status: 409, error: "no failed instances to retry" };
+    }
+
+    if (!job.providerId) return { status: 409, error: "provider of the request is unknown" };
+    const transfer = this.deps.transferFor(job.providerId);
+    if (!transfer) {
+      return { status: 500, error: "provider/requester DICOM endpoints are not configured" };
+    }
+
+    activeCopies.add(requestId);
+    if (!copyEvents.get(requestId)) {
+      copyEvents.start({
+        requestId,
+        providerId: job.providerId,
+        requesterClinicId,
+        patientAddress: job.patientAddress ?? "",
+        patientId: job.patientId ?? "",
+      });
+    }
+    const event = copyEvents.beginAttempt(requestId, { success: job.uploaded.length, failed: job.failed.length });
+    await jobQueue.update(requestId, { attempts: job.attempts + 1, lastError: undefined });
+    this.log(`retrying ${job.failed.length} failed instance(s) for id=${requestId}`);
+
+    const running = this.copyFailedInstances(job, transfer, chainStatus).finally(() => this.inflight.delete(requestId));
+    this.inflight.set(requestId, running);
+
+    return {
+      status: 202,
+      body: { requestId, attempt: event?.attempt, retrying: job.failed.length },
+    };
+  }
+
+  /** Resolves once the background retry of the request, if any, has finished. */
+  settled(requestId: number): Promise<void> {
+    return this.inflight.get(requestId) ?? Promise.resolve();
+  }
+
+  private async copyFailedInstances(
+    job: CopyJob,
+    transfer: (instance: CopyJobInstance) => Promise<TransferResult>,
+    chainStatus: number
+  ) {
+    const { jobQueue, copyEvents, manifests } = this.deps;
+    const id = job.requestId;
+    const success = job.uploaded.map((u) => u.sop);
+    const stillFailed: CopyJobInstance[] = [];
+    const meter = new TransferMeter();
+
+    try {
+      await Promise.all(
+        job.failed.map((u) =>
+          this.deps.transferPool.run(job.providerId!, async () => {
+            try {
+              const result = await transfer(u);
+              meter.add(result.bytes);
+              success.push(u.sop);
+              await jobQueue.recordUploaded(id, [{ ...u, sha256: result.sha256 }]);
+            } catch (copyErr) {
+              stillFailed.push(u);
+              const msg = errorMessage(copyErr);
+              this.warn(`retry failed for ${u.sop}:`, msg);
+              copyEvents.recordFailure(id, { sop: u.sop, message: msg });
+            }
+            copyEvents.update(id, {
+              success: success.length,
+              failed: job.failed.length - (success.length - job.uploaded.length),
+              throughput: meter.snapshot(),
+            });
+          })
+        )
+      );
+
+      const outcomeStatus: CopyEventStatus = stillFailed.length ? "partial" : "completed";
+      this.log(`retry id=${id}: recovered ${job.failed.length - stillFailed.length}/${job.failed.length} instances`);
+
+      if (chainStatus === 1) {
+        const manifest = buildManifest({
+          requestId: id,
+          providerId: job.providerId!,
+          instances: jobQueue.get(id)?.uploaded ?? [],
+          failed: stillFailed,
+          startedAt: copyEvents.get(id)?.startedAt,
+        });
+        const manifestHash = manifest.manifestHash;
+        await jobQueue.update(id, { failed: stillFailed, manifestHash });
+        await manifests.save(manifest);
+        await this.deps.markFulfilled(job.providerId!, {
+          requestId: id,
+          manifestHash,
+          patientAddress: job.patientAddress ?? "",
+          patientId: job.patientId ?? "",
+          success: success.length,
+          failed: stillFailed.length,
+        });
+        await jobQueue.transition(id, "fulfilled");
+        copyEvents.update(id, { status: outcomeStatus, success: success.length, failed: stillFailed.length, manifestHash });
+      } else {
+        // Already fulfilled: the manifestHash committed on-chain and its stored document stay what the job
+        // and the copy event report, so that verification keeps matching the chain
+        await jobQueue.update(id, { failed: stillFailed });
+        copyEvents.update(id, { status: outcomeStatus, success: success.length, failed: stillFailed.length });
+      }
+    } catch (e) {
+      const message = errorMessage(e);
+      this.warn(`retry failed for id=${id}:`, message);
+      copyEvents.fail(id, message);
+      if (chainStatus === 1) {
+        await jobQueue.transition(id, "failed", { lastError: message }).catch(() => undefined);
+      }
+    } finally {
+      this.deps.activeCopies.delete(id);
+    }
+  }
+}
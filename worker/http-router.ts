@@ -0,0 +1,397 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AuditLogEntry } from "./audit-logger.js";
+import type { Principal } from "./auth.js";
+import { ALL_TENANTS } from "./tenancy.js";
+import type { TenantScope } from "./tenancy.js";
+
+/**
+ * An error the API answers with its own status and the `{ error, code }` envelope. Anything else a handler
+ * throws is a bug or an outage and becomes a 500 whose details stay in the worker log.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const STATUS_CODES: Record<number, string> = {
+  400: "bad_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  405: "method_not_allowed",
+  409: "conflict",
+  413: "payload_too_large",
+  500: "internal_error",
+  501: "not_configured",
+  502: "upstream_error",
+  503: "unavailable",
+};
+
+/** The envelope `code` of a status, for results that only carry a status and a message. */
+export function errorCode(status: number): string {
+  return STATUS_CODES[status] ?? (status >= 500 ? "internal_error" : "bad_request");
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+export function sendError(res: ServerResponse, error: HttpError): void {
+  for (const [name, value] of Object.entries(error.headers ?? {})) res.setHeader(name, value);
+  sendJson(res, error.status, { error: error.message, code: error.code });
+}
+
+// ========= JSON bodies =========
+// Middleware may read the body (e.g. for policy conditions) before the handler does
+const jsonBodies = new WeakMap<IncomingMessage, Promise<unknown>>();
+
+export function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  let body = jsonBodies.get(req);
+  if (!body) {
+    body = parseJsonBody(req);
+    jsonBodies.set(req, body);
+  }
+  return body;
+}
+
+async function parseJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    throw new HttpError(400, "invalid_json", `invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+// ========= JSON Schema =========
+type JsonType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+/** The subset of JSON Schema the API bodies need; unknown keywords are not accepted by the type. */
+export type JsonSchema = {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+};
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonType;
+}
+
+/** Problems of `value` against `schema`, each prefixed with the path of the offending value. */
+export function validateJson(schema: JsonSchema, value: unknown, at = "body"): string[] {
+  const errors: string[] = [];
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    // an integer is also a number
+    if (!allowed.includes(actual) && !(actual === "integer" && allowed.includes("number"))) {
+      return [`${at} must be ${allowed.join(" or ")}`];
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${at} must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(schema.minLength === 1 ? `${at} must not be empty` : `${at} must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at} must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${at} must match ${schema.pattern}`);
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at} must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at} must be <= ${schema.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at} must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${at} must have at most ${schema.maxItems} items`);
+    if (schema.items) value.forEach((item, i) => errors.push(...validateJson(schema.items!, item, `${at}[${i}]`)));
+  }
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (record[name] === undefined) errors.push(`${at}.${name} is required`);
+    }
+    for (const [name, child] of Object.entries(record)) {
+      const property = schema.properties?.[name];
+      if (property) {
+        errors.push(...validateJson(property, child, `${at}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${name} is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateJson(schema.additionalProperties, child, `${at}.${name}`));
+      }
+    }
+  }
+  return errors;
+}
+
+// ========= Paths =========
+export type CompiledPath = { pattern: RegExp; paramNames: string[] };
+
+/**
+ * Compiles `/copy-events/:requestId(\d+)/retry`-style paths. `:name` matches one segment, optionally
+ * constrained by a regular expression without capture groups, and a trailing `/*` matches the rest of the
+ * path, which becomes the `*` param (absent when nothing follows).
+ */
+export function compilePath(path: string): CompiledPath {
+  const paramNames: string[] = [];
+  const segments = path.split("/").slice(1);
+  let source = "";
+  segments.forEach((segment, i) => {
+    const param = segment.match(/^:(\w+)(?:\((.+)\))?$/);
+    if (segment === "*" && i === segments.length - 1) {
+      paramNames.push("*");
+      source += "(?:/(.*))?";
+    } else if (param) {
+      paramNames.push(param[1]);
+      source += `/(${param[2] ?? "[^/]+"})`;
+    } else {
+      source += `/${segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`;
+    }
+  });
+  return { pattern: new RegExp(`^${source || "/"}$`), paramNames };
+}
+
+/** Decoded params of `path`, or null when it does not match. */
+export function matchPath(compiled: CompiledPath, path: string): Record<string, string> | null {
+  const match = compiled.pattern.exec(path);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  compiled.paramNames.forEach((name, i) => {
+    const value = match[i + 1];
+    if (value === undefined) return;
+    try {
+      params[name] = decodeURIComponent(value);
+    } catch {
+      // a malformed escape is kept as sent; the handler rejects it like any other bad value
+      params[name] = value;
+    }
+  });
+  return params;
+}
+
+// ========= Router =========
+export type RouteContext<B = unknown> = {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  method: string;
+  params: Record<string, string>;
+  /** The matched route; absent for preflights and for paths or methods no route serves. */
+  route?: Route;
+  /** Methods the routes of this path answer, which is what CORS preflights advertise. */
+  allowedMethods: string[];
+  /** Set by the policy middleware; without auth every request runs unauthenticated and unscoped. */
+  principal?: Principal;
+  scope: TenantScope;
+  /** Fields a handler adds to the entry the audit middleware writes; the entry is only written once set. */
+  audit?: Partial<AuditLogEntry>;
+  /** The parsed JSON body, validated against the route's schema by the time the handler runs. */
+  body(): Promise<B>;
+  json(body: unknown, status?: number): void;
+};
+
+export type Middleware = (ctx: RouteContext, next: () => Promise<void>) => Promise<void>;
+
+export type RouteHandler<B = unknown> = (ctx: RouteContext<B>) => Promise<void> | void;
+
+export type RouteOptions = {
+  /** Schema of the JSON body; requests that do not satisfy it are answered 400 before the handler runs. */
+  schema?: JsonSchema;
+  /** Middleware of this route only, run after the router-wide middleware. */
+  use?: Middleware[];
+};
+
+export type Route = RouteOptions & {
+  method: string;
+  path: string;
+  compiled: CompiledPath;
+  handler: RouteHandler;
+};
+
+export type RouterOptions = {
+  /** Base of the URLs built from `req.url`. */
+  origin: string;
+  /** Maps errors of other layers (e.g. tenancy) to their HTTP answer. */
+  mapError?: (error: unknown) => HttpError | undefined;
+  log?: (...args: unknown[]) => void;
+};
+
+/**
+ * The API's request dispatcher. Routes are tried in registration order; router-wide middleware (`use`) sees
+ * every request, including preflights and unknown paths, while a route's own middleware only wraps its handler.
+ */
+export class Router {
+  private readonly routes: Route[] = [];
+  private readonly middleware: Middleware[] = [];
+
+  constructor(private readonly options: RouterOptions) { }
+
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  route<B = unknown>(method: string, path: string, handler: RouteHandler<B>, options: RouteOptions = {}): this {
+    if (!path.startsWith("/")) throw new Error(`route path must start with /: ${path}`);
+    // B is what the route's schema vouches for; the route list keeps handlers of every body type
+    const stored = handler as RouteHandler;
+    this.routes.push({ ...options, method: method.toUpperCase(), path, compiled: compilePath(path), handler: stored });
+    return this;
+  }
+
+  get<B = unknown>(path: string, handler: RouteHandler<B>, options?: RouteOptions): this {
+    return this.route("GET", path, handler, options);
+  }
+
+  post<B = unknown>(path: string, handler: RouteHandler<B>, options?: RouteOptions): this {
+    return this.route("POST", path, handler, options);
+  }
+
+  put<B = unknown>(path: string, handler: RouteHandler<B>, options?: RouteOptions): this {
+    return this.route("PUT", path, handler, options);
+  }
+
+  delete<B = unknown>(path: string, handler: RouteHandler<B>, options?: RouteOptions): this {
+    return this.route("DELETE", path, handler, options);
+  }
+
+  /** The answer for `error`: its own for an `HttpError`, the mapped one for known foreign errors, else a 500. */
+  toHttpError(error: unknown): HttpError {
+    if (error instanceof HttpError) return error;
+    return this.options.mapError?.(error) ?? new HttpError(500, "internal_error", "internal server error");
+  }
+
+  readonly handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (!req.url || !req.method) {
+      sendError(res, new HttpError(400, "bad_request", "Bad Request"));
+      return;
+    }
+    const method = req.method.toUpperCase();
+    const url = new URL(req.url, this.options.origin);
+
+    let matched: { route: Route; params: Record<string, string> } | undefined;
+    const allowedMethods = new Set<string>();
+    for (const route of this.routes) {
+      const params = matchPath(route.compiled, url.pathname);
+      if (!params) continue;
+      allowedMethods.add(route.method);
+      if (!matched && route.method === method) matched = { route, params };
+    }
+
+    const ctx: RouteContext = {
+      req,
+      res,
+      url,
+      method,
+      params: matched?.params ?? {},
+      route: matched?.route,
+      allowedMethods: Array.from(allowedMethods),
+      scope: ALL_TENANTS,
+      body: () => readJsonBody(req),
+      json: (body, status = 200) => sendJson(res, status, body),
+    };
+
+    try {
+      await this.run(this.middleware, ctx, () => this.dispatch(ctx));
+    } catch (e) {
+      const error = this.toHttpError(e);
+      if (!(e instanceof HttpError) && error.status >= 500) this.options.log?.(`api: ${method} ${url.pathname} failed:`, e);
+      if (res.headersSent) {
+        // a streaming response that failed half way can only be cut off
+        res.end();
+        return;
+      }
+      sendError(res, error);
+    }
+  };
+
+  private async dispatch(ctx: RouteContext): Promise<void> {
+    const { route } = ctx;
+    if (!route) {
+      if (ctx.method === "OPTIONS" && ctx.allowedMethods.length) {
+        ctx.res.statusCode = 204;
+        ctx.res.end();
+        return;
+      }
+      if (ctx.allowedMethods.length) {
+        throw new HttpError(405, "method_not_allowed", "method not allowed", {
+          Allow: ctx.allowedMethods.join(","),
+        });
+      }
+      throw new HttpError(404, "not_found", "not found");
+    }
+    await this.run(route.use ?? [], ctx, async () => {
+      if (route.schema) {
+        const errors = validateJson(route.schema, await ctx.body());
+        if (errors.length) throw new HttpError(400, "invalid_body", errors.join("; "));
+      }
+      await route.handler(ctx);
+    });
+  }
+
+  private async run(chain: Middleware[], ctx: RouteContext, last: () => Promise<void>): Promise<void> {
+    const step = async (i: number): Promise<void> => (i < chain.length ? chain[i](ctx, () => step(i + 1)) : last());
+    await step(0);
+  }
+}
+
+export type CorsOptions = {
+  /** Allowed origins; `*` allows every origin. */
+  origins: string[];
+  exposeHeaders?: string;
+};
+
+/**
+ * Answers CORS for every response. Preflights advertise the methods the path's routes actually serve;
+ * a disallowed origin is answered with the first allowed one, which browsers then reject.
+ */
+export function cors(options: CorsOptions): Middleware {
+  const allowAll = options.origins.includes("*");
+  return async (ctx, next) => {
+    const { res } = ctx;
+    const origin = ctx.req.headers.origin;
+    if (allowAll) {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+    } else if (options.origins.length) {
+      res.setHeader("Access-Control-Allow-Origin", origin && options.origins.includes(origin) ? origin : options.origins[0]);
+      res.setHeader("Vary", "Origin");
+    }
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization,Accept,X-Content-SHA256");
+    if (ctx.allowedMethods.length) {
+      res.setHeader("Access-Control-Allow-Methods", [...ctx.allowedMethods, "OPTIONS"].join(","));
+    }
+    if (options.exposeHeaders) res.setHeader("Access-Control-Expose-Headers", options.exposeHeaders);
+    await next();
+  };
+}
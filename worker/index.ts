@@ -1,22 +1,30 @@
 // worker/index.ts
 import { readFile, writeFile, appendFile, mkdir, stat, rename, unlink } from "node:fs/promises";
-import { readFileSync } from "node:fs";
-import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { createReadStream, readFileSync } from "node:fs";
+import { createServer, IncomingMessage } from "node:http";
 import { createServer as createHttpsServer } from "node:https";
 import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
 import axios, { AxiosInstance } from "axios";
-import { JsonRpcProvider, Contract, keccak256, toUtf8Bytes, getAddress, verifyMessage } from "ethers";
+import { JsonRpcProvider, Contract, keccak256, toUtf8Bytes, getAddress } from "ethers";
 import abi from "./abi/PatientAccess.json" with { type: "json" };
 import { dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-import {
-  ProviderPushEnvelope,
-  ProviderPushInstance,
-  computeInstancesHash,
-  buildPushMessage,
-} from "./push-utils.js";
-import { JwtAuth, requireAuth } from "./auth.js";
-import type { AuthConfig, Principal } from "./auth.js";
+import type { ProviderPushEnvelope, ProviderPushInstance } from "./push-utils.js";
+import { PushSessionStore } from "./push-session.js";
+import type { PushSessionStoreCfg } from "./push-session.js";
+import { PUSH_NONCE_RE, PushNonceLedger } from "./push-nonce-ledger.js";
+import type { PushNonceLedgerCfg } from "./push-nonce-ledger.js";
+import { ProviderPushService } from "./provider-push.js";
+import type { ProviderPushResult, PushSessionFinalizeRequest, PushSessionOpenRequest } from "./provider-push.js";
+import { AuthChain, JwtAuth } from "./auth.js";
+import type { AuthConfig, Authenticator, Principal } from "./auth.js";
+import { cors, errorCode, HttpError, Router } from "./http-router.js";
+import type { CorsOptions, JsonSchema, Middleware, RouteContext, RouteHandler } from "./http-router.js";
+import { enforcePolicy, RoutePolicy } from "./route-policy.js";
+import { ALL_TENANTS, inTenant, TenantAccessError } from "./tenancy.js";
+import type { TenantScope } from "./tenancy.js";
+import { PATIENT_ROLE, SiweAuth } from "./siwe-auth.js";
+import type { SiweCfg } from "./siwe-auth.js";
 import { SignerClient } from "./signer-client.js";
 import type { SignerConfig, MarkFulfilledResult } from "./signer-client.js";
 import { AlertService } from "./alert-service.js";
@@ -26,6 +34,24 @@ import { AuditLogger } from "./audit-logger.js";
 import type { AuditCfg, AuditLogEntry } from "./audit-logger.js";
 import { ClinicStore } from "./clinic-store.js";
 import type { DicomNodeConfig } from "./clinic-store.js";
+import { CopyEventStore, copyEventInTenant } from "./copy-event-store.js";
+import type { CopyEventStatus, CopyEventStoreCfg, CopyEventQuery } from "./copy-event-store.js";
+import { streamCopyEvents } from "./copy-event-stream.js";
+import { JobQueue } from "./job-queue.js";
+import { buildPatientReceipts } from "./patient-receipts.js";
+import type { CopyJob, CopyJobInstance, JobQueueCfg } from "./job-queue.js";
+import { CopyRetryService } from "./copy-retry.js";
+import type { CopyRetryResult } from "./copy-retry.js";
+import { TransferPool, TransferMeter, openWadoInstance, openRestInstance, streamToOrthanc } from "./transfer.js";
+import type { TransferCfg, TransferResult } from "./transfer.js";
+import { ManifestStore, buildManifest, buildManifestProof } from "./manifest.js";
+import type { ManifestStoreCfg } from "./manifest.js";
+import { ScopeStore, matchesScope, normalizeScope, resolveRequestScope, scopeQueryParams, studyAttributesOf, SCOPE_INCLUDE_FIELDS } from "./scope.js";
+import type { AccessScope, ScopeStoreCfg } from "./scope.js";
+import { checkStudyBoundary, classifyGatewayPath, filterQidoResults, OrthancStudyResolver } from "./study-boundary.js";
+import { ChainIndex, contractEventSource, REQUEST_STATUS_LABELS } from "./chain-index.js";
+import { checkApproval, contractApprovalSource, findForkPoint } from "./reorg-guard.js";
+import type { BatchIndexQuery, ChainIndexCfg, ClinicIndexQuery, RequestIndexQuery } from "./chain-index.js";
 
 // ========= 型定義 =========
 type BasicAuth = { type: "basic"; username: string; password: string };
@@ -54,10 +80,14 @@ type AliasResolver =
 type CopyCfg = {
   mode?: "dryRun" | "orthanc" | "providerPush";
   batchSize?: number;
+  transfer?: TransferCfg;
   maxRetries?: number;
   backoffMs?: number;
   fulfillmentPollMs?: number;
   fulfillmentMaxAttempts?: number;
+  lookbackBlocks?: number;
+  /** Blocks a PatientApproved event must be buried under before it triggers a copy (0 = act at the head). */
+  confirmations?: number;
 };
 
 type ApiCfg = {
@@ -70,6 +100,12 @@ type ApiCfg = {
   };
 };
 
+type PatientPortalCfg = {
+  enabled?: boolean;
+  /** Gateway accesses listed per request; the total is always counted. */
+  accessLimit?: number;
+};
+
 type Config = {
   rpcUrl: string;
   chainId: number;
@@ -83,24 +119,20 @@ type Config = {
   api?: ApiCfg;
   audit?: AuditCfg;
   auth?: AuthConfig;
+  queue?: JobQueueCfg;
+  copyEvents?: CopyEventStoreCfg;
+  scopes?: ScopeStoreCfg;
+  manifests?: ManifestStoreCfg;
+  pushSessions?: PushSessionStoreCfg;
+  pushNonces?: PushNonceLedgerCfg;
+  index?: ChainIndexCfg;
+  patientPortal?: PatientPortalCfg;
+  siwe?: SiweCfg;
 
   signers?: Record<string, SignerConfig>;
   alerts?: AlertConfig;
 };
 
-type PendingPushEntry = {
-  requestId: number;
-  providerId: string;
-  patientAddress: string;
-  patientId: string;
-};
-
-type ProviderPushResult = {
-  status: number;
-  body?: any;
-  error?: string;
-};
-
 // ========= ユーティリティ =========
 async function loadConfig(): Promise<Config> {
   const json = await readFile(new URL("./config.json", import.meta.url), "utf-8");
@@ -143,6 +175,9 @@ function clinicKey(clinicId: string): string {
   return keccak256(toUtf8Bytes(clinicId));
 }
 
+// PatientAccess.Status の並び順
+const STATUS_LABELS = ["REQUESTED", "PATIENT_APPROVED", "FULFILLED", "EXPIRED", "CANCELED"];
+
 function sanitiseParams(params: URLSearchParams, opts?: { exclude?: string[] }): Record<string, string> | undefined {
   const entries = Array.from(params.entries()).filter(([key]) => !opts?.exclude?.includes(key));
   if (!entries.length) return undefined;
@@ -175,20 +210,38 @@ async function getRequestAndProviderId(contract: Contract, id: number, cfg: Conf
   return { req: r, providerId };
 }
 
+function clinicIdForKey(key: string | undefined, clinics: Config["clinics"] | undefined, clinicStore: ClinicStore) {
+  if (!key || /^0x0*$/.test(key)) return undefined;
+  const lower = key.toLowerCase();
+  return (
+    clinicStore.findByHash(lower)?.clinicId ??
+    Object.keys(clinics ?? {}).find((clinicId) => clinicKey(clinicId).toLowerCase() === lower)
+  );
+}
+
 // ========= Alias Store =========
+/** PatientID of a wallet and the clinic that maintains it; aliases from the config file have no clinic. */
+type AliasEntry = { patientId: string; clinicId?: string };
+// alias-map.json keeps plain strings for aliases without a clinic, so older files load unchanged
+type PersistedAlias = string | AliasEntry;
+
 class AliasStore {
-  private map: Record<string, string> = {};
-  private constructor(private readonly fileUrl: URL, initial: Record<string, string>) {
+  private map: Record<string, AliasEntry> = {};
+  private constructor(private readonly fileUrl: URL, initial: Record<string, PersistedAlias>) {
     this.map = {};
     for (const [addr, value] of Object.entries(initial || {})) {
       const key = this.canonical(addr);
-      if (key) this.map[key] = String(value);
+      if (!key) continue;
+      this.map[key] =
+        typeof value === "string"
+          ? { patientId: value }
+          : { patientId: String(value?.patientId ?? ""), clinicId: value?.clinicId || undefined };
     }
   }
 
   static async init(initial: Record<string, string>): Promise<AliasStore> {
     const fileUrl = new URL("./alias-map.json", import.meta.url);
-    let persisted: Record<string, string> = {};
+    let persisted: Record<string, PersistedAlias> = {};
     try {
       const raw = await readFile(fileUrl, "utf-8");
       persisted = JSON.parse(raw);
@@ -201,10 +254,11 @@ class AliasStore {
     return store;
   }
 
-  list(): Record<string, string> {
+  /** Aliases maintained by the clinics in `scope`; aliases without a clinic are listed to super-admins only. */
+  list(scope: TenantScope = ALL_TENANTS): Record<string, string> {
     const out: Record<string, string> = {};
-    for (const [key, value] of Object.entries(this.map)) {
-      out[this.checksum(key)] = value;
+    for (const [key, entry] of Object.entries(this.map)) {
+      if (inTenant(scope, entry.clinicId)) out[this.checksum(key)] = entry.patientId;
     }
     return out;
   }
@@ -212,23 +266,35 @@ class AliasStore {
   lookup(addr: string): string | undefined {
     const key = this.canonical(addr);
     if (!key) return undefined;
-    return this.map[key];
+    return this.map[key]?.patientId;
   }
 
-  async set(addr: string, value: string) {
+  /**
+   * Only callers that see every clinic write aliases. The copy resolves a patient's wallet to a PatientID the
+   * same way for every clinic, so a clinic that mapped a wallet it controls to another patient's PatientID would
+   * be sent that patient's studies. `clinicId` only decides which tenants list the alias.
+   */
+  async set(addr: string, value: string, options: { clinicId?: string; scope?: TenantScope } = {}) {
     const key = this.canonical(addr);
-    if (!key) throw new Error("invalid address");
-    this.map[key] = value;
+    if (!key) throw new HttpError(400, "invalid_address", "invalid address");
+    this.assertWritable(options.scope ?? ALL_TENANTS);
+    this.map[key] = { patientId: value, clinicId: options.clinicId || this.map[key]?.clinicId };
     await this.persist();
   }
 
-  async remove(addr: string) {
+  async remove(addr: string, scope: TenantScope = ALL_TENANTS) {
     const key = this.canonical(addr);
-    if (!key) throw new Error("invalid address");
+    if (!key) throw new HttpError(400, "invalid_address", "invalid address");
+    this.assertWritable(scope);
+    if (!this.map[key]) return;
     delete this.map[key];
     await this.persist();
   }
 
+  private assertWritable(scope: TenantScope) {
+    if (scope.clinics) throw new TenantAccessError("aliases can only be changed by a super-admin");
+  }
+
   private canonical(addr: string): string | null {
     if (typeof addr !== "string") return null;
     const trimmed = addr.trim();
@@ -249,154 +315,103 @@ class AliasStore {
   }
 
   private async persist() {
-    const serialisable: Record<string, string> = {};
-    for (const [key, value] of Object.entries(this.map)) {
-      serialisable[this.checksum(key)] = value;
+    const serialisable: Record<string, PersistedAlias> = {};
+    for (const [key, entry] of Object.entries(this.map)) {
+      serialisable[this.checksum(key)] = entry.clinicId ? entry : entry.patientId;
     }
     await writeFile(this.fileUrl, JSON.stringify(serialisable, null, 2) + "\n", "utf-8");
   }
 }
 
-type CopyEventStatus = "pending" | "copying" | "completed" | "partial" | "error";
-
-type CopyEventFailure = {
-  sop: string;
-  message: string;
-};
-
-type CopyEvent = {
-  requestId: number;
-  providerId?: string;
-  patientAddress: string;
-  patientId: string;
-  total: number;
-  success: number;
-  failed: number;
-  status: CopyEventStatus;
-  errors: string[];
-  failures: CopyEventFailure[];
-  manifestHash?: string;
-  startedAt: string;
-  updatedAt: string;
-};
-
-type CopyEventUpdate = {
-  total?: number;
-  success?: number;
-  failed?: number;
-  status?: CopyEventStatus;
-  manifestHash?: string;
-  error?: string;
-};
+// ========= HTTP API =========
+const COPY_EVENT_STATUSES: CopyEventStatus[] = ["pending", "copying", "completed", "partial", "error"];
 
-class CopyEventStore {
-  private readonly events = new Map<number, CopyEvent>();
-  private readonly order: number[] = [];
-  private readonly alertService?: AlertService;
-  private readonly limit: number;
+function parseTimeParam(value: string | null, name: string): string | undefined {
+  if (!value) return undefined;
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  if (Number.isNaN(date.getTime())) throw new HttpError(400, "invalid_query", `${name} must be an ISO timestamp or epoch milliseconds`);
+  return date.toISOString();
+}
 
-  constructor(limit = 50, alertService?: AlertService) {
-    this.limit = limit;
-    this.alertService = alertService;
+function parseCopyEventQuery(params: URLSearchParams): CopyEventQuery {
+  const query: CopyEventQuery = {};
+  const requestId = params.get("requestId");
+  if (requestId) {
+    query.requestId = Number(requestId);
+    if (!Number.isFinite(query.requestId)) throw new HttpError(400, "invalid_query", "requestId must be numeric");
   }
-
-  start(payload: { requestId: number; providerId?: string; patientAddress: string; patientId: string }): CopyEvent {
-    const now = new Date().toISOString();
-    const existingIdx = this.order.indexOf(payload.requestId);
-    if (existingIdx >= 0) {
-      this.order.splice(existingIdx, 1);
-    }
-    const entry: CopyEvent = {
-      requestId: payload.requestId,
-      providerId: payload.providerId,
-      patientAddress: payload.patientAddress,
-      patientId: payload.patientId,
-      total: 0,
-      success: 0,
-      failed: 0,
-      status: "pending",
-      errors: [],
-      failures: [],
-      startedAt: now,
-      updatedAt: now,
-    };
-    this.events.set(payload.requestId, entry);
-    this.order.push(payload.requestId);
-    this.trim();
-    return entry;
-  }
-
-  update(id: number, patch: CopyEventUpdate): CopyEvent | undefined {
-    const entry = this.events.get(id);
-    if (!entry) return undefined;
-    if (typeof patch.total === "number") entry.total = patch.total;
-    if (typeof patch.success === "number") entry.success = patch.success;
-    if (typeof patch.failed === "number") entry.failed = patch.failed;
-    if (patch.status) entry.status = patch.status;
-    if (patch.manifestHash !== undefined) entry.manifestHash = patch.manifestHash;
-    if (patch.error) {
-      entry.errors = [...entry.errors, patch.error].slice(-5);
-    }
-    entry.updatedAt = new Date().toISOString();
-    return entry;
+  query.providerId = params.get("providerId") || undefined;
+  query.patient = params.get("patient") || undefined;
+  const status = params.getAll("status").flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+  if (status.length) {
+    const unknown = status.filter((v) => !COPY_EVENT_STATUSES.includes(v as CopyEventStatus));
+    if (unknown.length) throw new HttpError(400, "invalid_query", `unknown status: ${unknown.join(",")}`);
+    query.status = status as CopyEventStatus[];
   }
+  query.from = parseTimeParam(params.get("from"), "from");
+  query.to = parseTimeParam(params.get("to"), "to");
+  const limit = params.get("limit");
+  const offset = params.get("offset");
+  if (limit) query.limit = Number(limit) || undefined;
+  if (offset) query.offset = Number(offset) || 0;
+  return query;
+}
 
-  recordFailure(id: number, failure: CopyEventFailure) {
-    const entry = this.events.get(id);
-    if (!entry) return;
-    entry.failures = [...entry.failures, failure].slice(-20);
-    entry.updatedAt = new Date().toISOString();
-  }
+function parseIntParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (!value) return undefined;
+  if (!/^\d+$/.test(value)) throw new HttpError(400, "invalid_query", `${name} must be a non-negative integer`);
+  return Number(value);
+}
 
-  fail(id: number, message: string) {
-    const entry = this.events.get(id);
-    if (!entry) return;
-    entry.status = "error";
-    entry.errors = [...entry.errors, message].slice(-5);
-    entry.updatedAt = new Date().toISOString();
-
-    if (this.alertService) {
-      this.alertService.send(`Copy failed for Request #${id}: ${message}`, {
-        requestId: id,
-        patientId: entry.patientId,
-        errors: entry.errors,
-      });
-    }
-  }
+function parsePageParams(params: URLSearchParams): { limit?: number; offset?: number } {
+  const limit = params.get("limit");
+  const offset = params.get("offset");
+  return {
+    limit: limit ? Number(limit) || undefined : undefined,
+    offset: offset ? Number(offset) || 0 : undefined,
+  };
+}
 
-  list(): CopyEvent[] {
-    return Array.from(this.events.values())
-      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
-      .map((event) => ({
-        ...event,
-        errors: [...event.errors],
-        failures: event.failures.map((f) => ({ ...f })),
-      }));
+function parseRequestIndexQuery(params: URLSearchParams): RequestIndexQuery {
+  const query: RequestIndexQuery = {
+    id: parseIntParam(params, "id"),
+    patient: params.get("patient") || undefined,
+    provider: params.get("provider") || undefined,
+    requester: params.get("requester") || undefined,
+    mode: parseIntParam(params, "mode"),
+    batchId: parseIntParam(params, "batchId"),
+    ...parsePageParams(params),
+  };
+  // status accepts the enum index or its label, e.g. status=REQUESTED,PATIENT_APPROVED
+  const status = params.getAll("status").flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+  if (status.length) {
+    query.status = status.map((v) => {
+      const index = /^\d+$/.test(v) ? Number(v) : REQUEST_STATUS_LABELS.indexOf(v.toUpperCase());
+      if (index < 0 || index >= REQUEST_STATUS_LABELS.length) throw new HttpError(400, "invalid_query", `unknown status: ${v}`);
+      return index;
+    });
   }
+  return query;
+}
 
-  private trim() {
-    while (this.order.length > this.limit) {
-      const oldest = this.order.shift();
-      if (oldest !== undefined) {
-        this.events.delete(oldest);
-      }
-    }
-  }
+function parseBatchIndexQuery(params: URLSearchParams): BatchIndexQuery {
+  return {
+    patient: params.get("patient") || undefined,
+    requester: params.get("requester") || undefined,
+    ...parsePageParams(params),
+  };
 }
 
-// ========= HTTP API (Alias 管理) =========
-async function readJsonBody(req: IncomingMessage): Promise<any> {
-  const chunks: Buffer[] = [];
-  for await (const chunk of req) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-  }
-  const raw = Buffer.concat(chunks).toString("utf-8");
-  if (!raw) return {};
-  try {
-    return JSON.parse(raw);
-  } catch (e: any) {
-    throw new Error(`invalid JSON: ${e?.message || e}`);
-  }
+function parseClinicIndexQuery(params: URLSearchParams): ClinicIndexQuery {
+  const priced = params.get("priced");
+  if (priced && priced !== "true" && priced !== "false") throw new HttpError(400, "invalid_query", "priced must be true or false");
+  return {
+    clinic: params.get("clinic") || undefined,
+    operator: params.get("operator") || undefined,
+    payout: params.get("payout") || undefined,
+    priced: priced ? priced === "true" : undefined,
+  };
 }
 
 type GatewayDeps = {
@@ -407,520 +422,744 @@ type GatewayDeps = {
   audit?: AuditLogger | null;
   copyEvents: CopyEventStore;
   requesterAuth?: BasicAuth | null;
-  handleProviderPush?: (payload: ProviderPushEnvelope) => Promise<ProviderPushResult>;
-  auth?: JwtAuth | null;
+  providerPush?: ProviderPushService;
+  retryCopy?: (requestId: number) => Promise<CopyRetryResult>;
+  scopes: ScopeStore;
+  jobQueue: JobQueue;
+  manifests: ManifestStore;
+  chainIndex?: ChainIndex | null;
+  patientPortal?: PatientPortalCfg;
+  siwe?: SiweAuth | null;
+  auth?: Authenticator | null;
+  routePolicy?: RoutePolicy | null;
   clinicStore: ClinicStore;
 };
 
-function startApiServer(store: AliasStore, deps: GatewayDeps) {
-  const host = deps.api?.host ?? "127.0.0.1";
-  const port = deps.api?.port ?? 8787;
-  const rawCors = (deps.api?.corsOrigin ?? "*").split(",").map((s) => s.trim()).filter(Boolean);
-  const allowAllCors = rawCors.includes("*");
-  const corsAllowList = allowAllCors ? [] : rawCors;
-  const requester = deps.requesterAxios ?? null;
-  const audit = deps.audit ?? null;
-  const requesterAuth = deps.requesterAuth ?? null;
-  const auth = deps.auth ?? null;
 
-  function getClientIp(req: IncomingMessage): string | undefined {
-    const forwarded = req.headers["x-forwarded-for"];
-    if (typeof forwarded === "string" && forwarded.trim()) {
-      return forwarded.split(",").map((p) => p.trim())[0];
-    }
-    return req.socket?.remoteAddress ?? undefined;
-  }
+type AccessRequestResolution =
+  | { ok: false; status: number; message: string }
+  | { ok: true; reqData: any; patientAddress: string; patientId: string };
+
+/** What the route modules share: the stores, the audit trail and the on-chain request checks. */
+type ApiServices = {
+  store: AliasStore;
+  deps: GatewayDeps;
+  /**
+   * Writes an audit entry for each request of the route once its handler has set `ctx.audit`; with
+   * `failuresOnly` only for answers of 400 and above.
+   */
+  audited: (forwardPath: string, options?: { failuresOnly?: boolean }) => Middleware;
+  resolveAccessRequest: (requestId: number) => Promise<AccessRequestResolution>;
+  /** Clinic IDs of the provider and requester of a request, from the index or the contract. */
+  requestClinics: (requestId: number) => Promise<string[]>;
+};
 
-  function applyCors(res: ServerResponse, originHeader?: string) {
-    if (allowAllCors) {
-      res.setHeader("Access-Control-Allow-Origin", "*");
-      return;
-    }
-    if (originHeader && corsAllowList.includes(originHeader)) {
-      res.setHeader("Access-Control-Allow-Origin", originHeader);
-      res.setHeader("Vary", "Origin");
-      return;
-    }
-    if (corsAllowList.length > 0) {
-      res.setHeader("Access-Control-Allow-Origin", corsAllowList[0]);
-      res.setHeader("Vary", "Origin");
-    }
+function getClientIp(req: IncomingMessage): string | undefined {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (typeof forwarded === "string" && forwarded.trim()) {
+    return forwarded.split(",").map((p) => p.trim())[0];
   }
+  return req.socket?.remoteAddress ?? undefined;
+}
 
-  async function resolveAccessRequest(requestId: number) {
-    const reqData = await deps.contract.reqs(requestId);
-    if (!reqData || Number(reqData.id ?? 0) === 0) {
-      return {
-        ok: false as const,
-        status: 404,
-        message: "request not found",
-      };
-    }
+/** Answers 501/503 for the routes of a subsystem this worker runs without. */
+function requires(available: () => unknown, status: 501 | 503, message: string): Middleware {
+  return async (_ctx, next) => {
+    if (!available()) throw new HttpError(status, errorCode(status), message);
+    await next();
+  };
+}
 
-    const status = Number(reqData.status ?? 0);
-    if (status < 1) {
-      return {
-        ok: false as const,
-        status: 403,
-        message: "request is not approved",
-      };
+function registerAliasRoutes(router: Router, { store }: ApiServices) {
+  router.get("/aliases", (ctx) => ctx.json({ aliases: store.list(ctx.scope) }));
+
+  router.put<{ address: string; patientId: string; clinicId?: string }>(
+    "/aliases",
+    async (ctx) => {
+      const body = await ctx.body();
+      await store.set(body.address, body.patientId, { clinicId: body.clinicId, scope: ctx.scope });
+      ctx.json({ aliases: store.list(ctx.scope) });
+    },
+    {
+      schema: {
+        type: "object",
+        required: ["address", "patientId"],
+        properties: {
+          address: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" },
+          patientId: { type: "string", minLength: 1 },
+          clinicId: { type: "string", minLength: 1 },
+        },
+      },
     }
+  );
 
-    const requesterKey = (reqData.requesterClinicKey ?? "").toLowerCase();
-    const allowedRequester = Object.entries(deps.clinics ?? {}).some(([clinicId, info]) => {
-      if (!info || info.role !== "requester") return false;
-      return clinicKey(clinicId).toLowerCase() === requesterKey;
-    });
-    if (!allowedRequester) {
-      return {
-        ok: false as const,
-        status: 403,
-        message: "requester clinic is not managed by this worker",
-      };
-    }
+  router.delete("/aliases/:address", async (ctx) => {
+    await store.remove(ctx.params.address, ctx.scope);
+    ctx.json({ aliases: store.list(ctx.scope) });
+  });
+}
 
-    const patientAddress = String(reqData.patient ?? "");
-    const patientId = resolvePatientId(store, patientAddress);
+function registerCopyEventRoutes(router: Router, { deps, audited }: ApiServices) {
+  router.get("/copy-events", (ctx) => ctx.json(deps.copyEvents.list(parseCopyEventQuery(ctx.url.searchParams), ctx.scope)));
 
-    return {
-      ok: true as const,
-      reqData,
-      patientAddress,
-      patientId,
-    };
-  }
+  router.get("/copy-events/stream", (ctx) => {
+    streamCopyEvents(ctx.req, ctx.res, deps.copyEvents, parseCopyEventQuery(ctx.url.searchParams), { scope: ctx.scope });
+  });
 
-  const handler = async (req: IncomingMessage, res: ServerResponse) => {
-    try {
-      if (!req.url || !req.method) {
-        res.statusCode = 400;
-        res.end("Bad Request");
-        return;
+  router.get("/copy-events/:requestId(\\d+)", (ctx) => {
+    const event = deps.copyEvents.get(Number(ctx.params.requestId));
+    // another clinic's request is reported as missing rather than forbidden
+    if (!event || !copyEventInTenant(event, ctx.scope)) throw new HttpError(404, "not_found", "copy event not found");
+    ctx.json({ event });
+  });
+
+  router.post(
+    "/copy-events/:requestId(\\d+)/retry",
+    async (ctx) => {
+      const requestId = Number(ctx.params.requestId);
+      const current = deps.copyEvents.get(requestId);
+      if (ctx.scope.clinics && (!current || !copyEventInTenant(current, ctx.scope))) {
+        throw new HttpError(404, "not_found", "copy event not found");
       }
-      const url = new URL(req.url, `http://${host}:${port}`);
+      ctx.audit = { requestId };
+      const result: CopyRetryResult = deps.retryCopy
+        ? await deps.retryCopy(requestId)
+        : { status: 501, error: "copy retry is not configured" };
+      ctx.audit.error = result.error;
+      ctx.json(
+        result.error ? { error: result.error, code: errorCode(result.status) } : result.body ?? { ok: true },
+        result.status
+      );
+    },
+    { use: [audited("/copy-events/retry")] }
+  );
+}
 
-      applyCors(res, req.headers.origin as string | undefined);
-      res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization,Accept");
-      res.setHeader("Access-Control-Allow-Methods", "GET,PUT,DELETE,OPTIONS");
+function registerIndexRoutes(router: Router, { deps }: ApiServices) {
+  router.get(
+    "/index/:list(requests|batches|clinics)",
+    (ctx) => {
+      const index = deps.chainIndex!;
+      const params = ctx.url.searchParams;
+      const list = ctx.params.list;
+      ctx.json(
+        list === "requests"
+          ? index.listRequests(parseRequestIndexQuery(params))
+          : list === "batches"
+            ? index.listBatches(parseBatchIndexQuery(params))
+            : index.listClinics(parseClinicIndexQuery(params))
+      );
+    },
+    { use: [requires(() => deps.chainIndex, 503, "chain index is disabled")] }
+  );
+}
 
-      if (req.method === "OPTIONS") {
-        res.statusCode = 204;
-        res.end();
-        return;
+function registerScopeRoutes(router: Router, { deps }: ApiServices) {
+  router.post<{ scope?: unknown }>(
+    "/scopes",
+    async (ctx) => {
+      const body = await ctx.body();
+      const raw = body.scope ?? body;
+      try {
+        normalizeScope(raw);
+      } catch (e) {
+        throw new HttpError(400, "invalid_scope", e instanceof Error ? e.message : String(e));
       }
+      ctx.json(await deps.scopes.put(raw), 201);
+    },
+    { schema: { type: "object" } }
+  );
 
-      if (req.method === "GET" && url.pathname === "/health") {
-        res.statusCode = 200;
-        res.end("OK");
-        return;
-      }
+  router.get("/scopes/:scopeHash(0x[0-9a-fA-F]{64})", (ctx) => {
+    const scope = deps.scopes.get(ctx.params.scopeHash);
+    if (!scope) throw new HttpError(404, "not_found", "scope not found");
+    ctx.json({ scopeHash: ctx.params.scopeHash.toLowerCase(), scope });
+  });
+}
 
-      if (req.method === "GET" && url.pathname === "/aliases") {
-        const authResult = await requireAuth(req, res, auth, ["worker.admin"]);
-        if (!authResult.ok) return;
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ aliases: store.list() }));
-        return;
-      }
+function registerManifestRoutes(router: Router, { deps, requestClinics }: ApiServices) {
+  /**
+   * The manifest of a request is read by the clinics on either side of it and by its patient's wallet session;
+   * anyone else is told it does not exist, as for copy events.
+   */
+  async function readableManifest(ctx: RouteContext, requestId: number) {
+    let allowed = !ctx.scope.clinics || inTenant(ctx.scope, ...(await requestClinics(requestId)));
+    const wallet = ctx.principal?.claims.wallet;
+    if (!allowed && typeof wallet === "string" && ctx.principal?.roles.includes(PATIENT_ROLE)) {
+      const reqData = await deps.contract.reqs(requestId);
+      allowed = String(reqData?.patient ?? "").toLowerCase() === wallet.toLowerCase();
+    }
+    const manifest = allowed ? await deps.manifests.get(requestId) : null;
+    if (!manifest) throw new HttpError(404, "not_found", "manifest not found");
+    return manifest;
+  }
 
-      if (req.method === "GET" && url.pathname === "/copy-events") {
-        const authResult = await requireAuth(req, res, auth, ["worker.read"]);
-        if (!authResult.ok) return;
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ events: deps.copyEvents.list() }));
-        return;
-      }
+  router.get("/manifests/:requestId(\\d+)", async (ctx) => {
+    const manifest = await readableManifest(ctx, Number(ctx.params.requestId));
+    ctx.json({ manifest });
+  });
 
-      if (req.method === "PUT" && url.pathname === "/aliases") {
-        const authResult = await requireAuth(req, res, auth, ["worker.admin"]);
-        if (!authResult.ok) return;
-        const body = await readJsonBody(req);
-        await store.set(body.address, String(body.patientId ?? ""));
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ aliases: store.list() }));
-        return;
-      }
+  router.get("/manifests/:requestId(\\d+)/proof/:sop", async (ctx) => {
+    const manifest = await readableManifest(ctx, Number(ctx.params.requestId));
+    const proof = buildManifestProof(manifest, ctx.params.sop);
+    if (!proof) throw new HttpError(404, "not_found", "instance not in manifest");
+    ctx.json({ ...proof, manifestHash: manifest.manifestHash });
+  });
+}
 
-      if (req.method === "GET" && url.pathname === "/audit-logs") {
-        const authResult = await requireAuth(req, res, auth, ["worker.admin"]);
-        if (!authResult.ok) return;
-        const limit = Number(url.searchParams.get("limit") || "100");
-        const logs = audit ? await audit.read(limit) : [];
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ logs }));
-        return;
-      }
+function registerSiweRoutes(router: Router, { deps }: ApiServices) {
+  const enabled = requires(() => deps.siwe, 503, "wallet sign-in is disabled");
 
-      // Clinic Config API
-      if (req.method === "GET" && url.pathname === "/clinics/config") {
-        const authResult = await requireAuth(req, res, auth, ["worker.admin"]);
-        if (!authResult.ok) return;
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ configs: deps.clinicStore.list() }));
-        return;
+  router.get(
+    "/auth/nonce",
+    (ctx) => {
+      let nonce;
+      try {
+        nonce = deps.siwe!.issueNonce();
+      } catch (e) {
+        throw new HttpError(503, "unavailable", e instanceof Error ? e.message : String(e));
       }
+      ctx.res.setHeader("Cache-Control", "no-store");
+      ctx.json(nonce);
+    },
+    { use: [enabled] }
+  );
 
-      if (req.method === "PUT" && url.pathname === "/clinics/config") {
-        const authResult = await requireAuth(req, res, auth, ["worker.admin"]);
-        if (!authResult.ok) return;
-        const body = await readJsonBody(req);
-        // Basic validation
-        if (!body.clinicId || !body.qido || !body.wado) {
-          res.statusCode = 400;
-          res.end(JSON.stringify({ error: "missing required fields (clinicId, qido, wado)" }));
-          return;
-        }
-
-        // Access Control: Admin can edit anyone. Others can only edit their own clinicId.
-        const isAdmin = authResult.principal?.roles.includes("worker.admin");
-        if (!isAdmin && authResult.principal?.clinicId !== body.clinicId) {
-          // If auth is disabled (principal is minimal or null checking might be needed if requireAuth returns ok without auth),
-          // but requireAuth ensures we have a principal if auth is enabled.
-          // If auth is disabled globally, requireAuth returns ok=true immediately.
-          // Here we assume if 'auth' object exists, we enforce checks.
-          res.statusCode = 403;
-          res.end(JSON.stringify({ error: "forbidden: you can only edit your own clinic" }));
-          return;
-        }
+  router.post<{ message: string; signature: string }>(
+    "/auth/siwe",
+    async (ctx) => {
+      const body = await ctx.body();
+      const result = await deps.siwe!.signIn(body.message, body.signature);
+      if (!result.ok) throw new HttpError(result.status, errorCode(result.status), result.message);
+      ctx.json({
+        token: result.token,
+        address: result.address,
+        roles: result.roles,
+        clinics: result.clinics,
+        expiresAt: result.expiresAt,
+      });
+    },
+    {
+      use: [enabled],
+      schema: {
+        type: "object",
+        required: ["message", "signature"],
+        properties: { message: { type: "string" }, signature: { type: "string" } },
+      },
+    }
+  );
+}
 
-        await deps.clinicStore.set(body);
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ configs: deps.clinicStore.list() }));
-        return;
+function registerPatientRoutes(router: Router, { deps }: ApiServices) {
+  router.get(
+    "/patient/receipts",
+    async (ctx) => {
+      // Only wallet sessions name a patient; without auth or with an IdP token there is nobody to scope to
+      const wallet = ctx.principal?.claims.wallet;
+      if (typeof wallet !== "string") {
+        throw new HttpError(401, "unauthorized", "wallet session required", { "WWW-Authenticate": "Bearer" });
       }
+      const requests = await buildPatientReceipts(
+        wallet,
+        { copyEvents: deps.copyEvents, audit: deps.audit ?? null, chainIndex: deps.chainIndex },
+        { accessLimit: deps.patientPortal?.accessLimit }
+      );
+      ctx.json({ address: wallet, requests });
+    },
+    { use: [requires(() => deps.patientPortal?.enabled !== false, 503, "patient portal is disabled")] }
+  );
+}
 
-      if (req.method === "DELETE" && url.pathname.startsWith("/clinics/config/")) {
-        const authResult = await requireAuth(req, res, auth, ["worker.admin"]);
-        if (!authResult.ok) return;
-        const target = decodeURIComponent(url.pathname.replace("/clinics/config/", ""));
+function registerAuditRoutes(router: Router, { deps }: ApiServices) {
+  router.get("/audit-logs", async (ctx) => {
+    const limit = Number(ctx.url.searchParams.get("limit") || "100");
+    const logs = deps.audit ? await deps.audit.read(limit, undefined, ctx.scope) : [];
+    ctx.json({ logs });
+  });
+}
 
-        // Access Control
-        const isAdmin = authResult.principal?.roles.includes("worker.admin");
-        if (!isAdmin && authResult.principal?.clinicId !== target) {
-          res.statusCode = 403;
-          res.end(JSON.stringify({ error: "forbidden: you can only delete your own clinic" }));
-          return;
-        }
+function registerClinicRoutes(router: Router, { deps }: ApiServices) {
+  const { clinicStore } = deps;
+  const endpoint: JsonSchema = {
+    type: "object",
+    required: ["baseUrl"],
+    properties: {
+      baseUrl: { type: "string", pattern: "^https?://" },
+      auth: {
+        type: "object",
+        required: ["type", "username", "password"],
+        properties: { type: { enum: ["basic"] }, username: { type: "string" }, password: { type: "string" } },
+      },
+    },
+  };
 
-        await deps.clinicStore.remove(target);
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ configs: deps.clinicStore.list() }));
-        return;
-      }
+  router.get("/clinics/config", (ctx) => ctx.json({ configs: clinicStore.list(ctx.scope) }));
+
+  router.put<DicomNodeConfig>(
+    "/clinics/config",
+    async (ctx) => {
+      await clinicStore.set(await ctx.body(), ctx.scope);
+      ctx.json({ configs: clinicStore.list(ctx.scope) });
+    },
+    {
+      schema: {
+        type: "object",
+        required: ["clinicId", "qido", "wado"],
+        properties: {
+          clinicId: { type: "string", minLength: 1 },
+          aeTitle: { type: "string" },
+          host: { type: "string" },
+          port: { type: "integer", minimum: 1, maximum: 65535 },
+          qido: endpoint,
+          wado: endpoint,
+        },
+      },
+    }
+  );
 
-      if (req.method === "DELETE" && url.pathname.startsWith("/aliases/")) {
-        const authResult = await requireAuth(req, res, auth, ["worker.admin"]);
-        if (!authResult.ok) return;
-        const target = decodeURIComponent(url.pathname.replace("/aliases/", ""));
-        await store.remove(target);
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ aliases: store.list() }));
-        return;
-      }
+  router.delete("/clinics/config/:clinicId", async (ctx) => {
+    await clinicStore.remove(ctx.params.clinicId, ctx.scope);
+    ctx.json({ configs: clinicStore.list(ctx.scope) });
+  });
+}
 
-      if (req.method === "GET" && url.pathname.startsWith("/dicom-web-config")) {
-        const authResult = await requireAuth(req, res, auth, ["requester.viewer"]);
-        if (!authResult.ok) return;
-        let requestIdParam = url.searchParams.get("requestId");
-        const configMatch = url.pathname.match(/^\/dicom-web-config\/(\d+)(?:\.json)?$/);
-        if (!requestIdParam && configMatch) {
-          requestIdParam = configMatch[1];
-        }
+/** The request a gateway call is about, from `?requestId=` or else the id in its path. */
+function gatewayRequestId(query: URLSearchParams, fromPath: string | undefined): number {
+  const raw = query.get("requestId") || fromPath;
+  if (!raw) throw new HttpError(400, "bad_request", "requestId is required");
+  const requestId = Number(raw);
+  if (!Number.isFinite(requestId)) throw new HttpError(400, "bad_request", "requestId must be numeric");
+  return requestId;
+}
 
-        if (!requestIdParam) {
-          res.statusCode = 400;
-          res.end("requestId is required");
-          return;
-        }
+function registerGatewayRoutes(router: Router, { deps, audited, resolveAccessRequest }: ApiServices, corsOptions: CorsOptions) {
+  const requester = deps.requesterAxios ?? null;
+  const requesterAuth = deps.requesterAuth ?? null;
+  const studyResolver = requester ? new OrthancStudyResolver(requester) : null;
+
+  async function resolveOrThrow(ctx: RouteContext, requestId: number, what: string) {
+    const access = await resolveAccessRequest(requestId);
+    if (!access.ok) {
+      warn(`gateway: ${what} ${requestId} blocked (${access.message})`);
+      ctx.audit!.error = access.message;
+      throw new HttpError(access.status, errorCode(access.status), access.message);
+    }
+    return access;
+  }
 
-        const requestId = Number(requestIdParam);
-        if (!Number.isFinite(requestId)) {
-          res.statusCode = 400;
-          res.end("requestId must be numeric");
-          return;
-        }
+  const dicomWebConfig: RouteHandler = async (ctx) => {
+    const requestId = gatewayRequestId(ctx.url.searchParams, ctx.params.file?.replace(/\.json$/, ""));
+    ctx.audit = { requestId, query: sanitiseParams(ctx.url.searchParams) };
+    const access = await resolveOrThrow(ctx, requestId, "config");
+
+    const dicomRoot = `${ctx.url.protocol}//${ctx.url.host}/secure/${requestId}/dicom-web`;
+    const server: Record<string, unknown> = {
+      name: "Requester Orthanc",
+      wadoUriRoot: dicomRoot,
+      qidoRoot: dicomRoot,
+      wadoRoot: dicomRoot,
+      qidoSupportsIncludeField: true,
+      supportsReject: true,
+      supportsFuzzyMatching: true,
+      supportsWildcard: true,
+      enableStudyLazyLoad: true,
+      imageRendering: "wadors",
+      thumbnailRendering: "wadors",
+    };
+    if (requesterAuth?.type === "basic") {
+      server.requestOptions = { auth: { username: requesterAuth.username, password: requesterAuth.password } };
+    }
 
-        const ctx = await resolveAccessRequest(requestId);
-        if (!ctx.ok) {
-          res.statusCode = ctx.status;
-          res.end(ctx.message);
-          warn(`gateway: config ${requestId} blocked (${ctx.message})`);
-          await audit?.log({
-            timestamp: new Date().toISOString(),
-            method: req.method,
-            path: url.pathname,
-            forwardPath: "/dicom-web-config",
-            requestId,
-            patientAddress: "",
-            patientId: "",
-            query: sanitiseParams(url.searchParams),
-            status: ctx.status,
-            error: ctx.message,
-            subject: authResult.principal?.subject,
-            roles: authResult.principal?.roles,
-            clientIp: getClientIp(req),
-          });
-          return;
-        }
+    ctx.json({ servers: { dicomWeb: [server] } });
+    ctx.audit.patientAddress = String(access.patientAddress ?? "");
+    ctx.audit.patientId = String(access.patientId ?? "");
+  };
+  const configAudit = { use: [audited("/dicom-web-config")] };
+  router.get("/dicom-web-config", dicomWebConfig, configAudit);
+  router.get("/dicom-web-config/:file(\\d+(?:\\.json)?)", dicomWebConfig, configAudit);
+
+  if (!requester) return;
+
+  router.get(
+    "/secure/*",
+    async (ctx) => {
+      const { url, req, res } = ctx;
+      let forwardPathRaw = url.pathname.replace(/^\/secure/, "");
+      const pathMatch = forwardPathRaw.match(/^\/(\d+)(\/.*)?$/);
+      if (!url.searchParams.get("requestId") && pathMatch) forwardPathRaw = pathMatch[2] ?? "/";
+      const requestId = gatewayRequestId(url.searchParams, pathMatch?.[1]);
+      ctx.audit = {
+        forwardPath: url.pathname,
+        requestId,
+        query: sanitiseParams(new URLSearchParams(url.searchParams), { exclude: ["requestId"] }),
+      };
+      const { patientAddress, patientId } = await resolveOrThrow(ctx, requestId, "request");
 
-        const clientIp = getClientIp(req);
-        const origin = `${url.protocol}//${url.host}`;
-        const dicomRoot = `${origin}/secure/${requestId}/dicom-web`;
-        const requestOptions =
-          requesterAuth?.type === "basic"
-            ? {
-              auth: {
-                username: requesterAuth.username,
-                password: requesterAuth.password,
-              },
-            }
-            : undefined;
-
-        const payload: any = {
-          servers: {
-            dicomWeb: [
-              {
-                name: "Requester Orthanc",
-                wadoUriRoot: dicomRoot,
-                qidoRoot: dicomRoot,
-                wadoRoot: dicomRoot,
-                qidoSupportsIncludeField: true,
-                supportsReject: true,
-                supportsFuzzyMatching: true,
-                supportsWildcard: true,
-                enableStudyLazyLoad: true,
-                imageRendering: "wadors",
-                thumbnailRendering: "wadors",
-              },
-            ],
-          },
-        };
+      let forwardPath = forwardPathRaw;
+      if (!forwardPath || forwardPath === "/") {
+        forwardPath = "/";
+      } else if (!forwardPath.startsWith("/")) {
+        forwardPath = `/${forwardPath}`;
+      }
 
-        if (requestOptions) {
-          payload.servers.dicomWeb[0].requestOptions = requestOptions;
-        }
+      const search = new URLSearchParams(url.searchParams);
+      search.delete("requestId");
+      const forwardUrl = `${forwardPath}${search.toString() ? `?${search.toString()}` : ""}`;
+      Object.assign(ctx.audit, { forwardPath, patientAddress, patientId });
+
+      // Only studies that were copied for this request may be viewed through it
+      const manifestStudies = new Set(deps.jobQueue.get(requestId)?.studies ?? []);
+      const target = classifyGatewayPath(forwardPath, search);
+      const boundary = await checkStudyBoundary(target, manifestStudies, studyResolver);
+      ctx.audit.boundary = boundary;
+      if (boundary.decision === "deny") {
+        warn(`gateway: request ${requestId} blocked (${boundary.reason}) path=${forwardPath}`);
+        ctx.audit.error = boundary.reason;
+        throw new HttpError(403, "outside_manifest", `forbidden: ${boundary.reason}`);
+      }
 
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify(payload));
-        await audit?.log({
-          timestamp: new Date().toISOString(),
-          method: req.method,
-          path: url.pathname,
-          forwardPath: "/dicom-web-config",
-          requestId,
-          patientAddress: String(ctx.patientAddress ?? ""),
-          patientId: String(ctx.patientId ?? ""),
-          query: sanitiseParams(url.searchParams),
-          status: 200,
-          subject: authResult.principal?.subject,
-          roles: authResult.principal?.roles,
-          clientIp,
+      const accept = req.headers["accept"] as string | undefined;
+      const wantsBinary = accept ? /application\/dicom|image\//i.test(accept) : forwardPath.includes("/instances/");
+      const responseType: any = wantsBinary ? "arraybuffer" : "json";
+
+      let axiosRes;
+      try {
+        axiosRes = await requester.request({
+          method: "GET",
+          url: forwardUrl,
+          responseType,
+          headers: {
+            Accept: accept ?? (wantsBinary ? "application/dicom" : "application/json"),
+          },
         });
-        return;
+      } catch (proxyErr) {
+        const message = formatAxiosError(proxyErr);
+        warn(`gateway: upstream error for request ${requestId}:`, message);
+        const upstreamStatus = (proxyErr as any)?.response?.status;
+        ctx.audit.upstreamStatus = typeof upstreamStatus === "number" ? upstreamStatus : undefined;
+        ctx.audit.error = message;
+        throw new HttpError(502, "upstream_error", `upstream error: ${message}`);
+      }
+      ctx.audit.upstreamStatus = axiosRes.status;
+
+      res.statusCode = axiosRes.status;
+      for (const [key, value] of Object.entries(axiosRes.headers ?? {})) {
+        if (!value) continue;
+        const lower = key.toLowerCase();
+        if (lower === "content-length" || lower === "transfer-encoding") continue;
+        // the worker's own CORS headers win over whatever the upstream sent
+        if (lower.startsWith("access-control-") || res.hasHeader(key)) continue;
+        res.setHeader(key, value as any);
       }
 
-      if (req.method === "POST" && url.pathname === "/provider-push") {
-        const authResult = await requireAuth(req, res, auth, ["provider.push"]);
-        if (!authResult.ok) return;
-        if (!deps.handleProviderPush) {
-          res.statusCode = 501;
-          res.end("provider push handler not configured");
-          return;
-        }
-
-        const body = (await readJsonBody(req)) as ProviderPushEnvelope;
-        const result = await deps.handleProviderPush(body);
-        res.statusCode = result.status;
-        res.setHeader("Content-Type", "application/json");
-        if (result.error) {
-          res.end(JSON.stringify({ error: result.error }));
-        } else if (result.body !== undefined) {
-          res.end(JSON.stringify(result.body));
-        } else {
-          res.end(JSON.stringify({ ok: true }));
+      if (responseType === "arraybuffer") {
+        const buf = Buffer.isBuffer(axiosRes.data)
+          ? axiosRes.data
+          : Buffer.from(axiosRes.data as ArrayBuffer);
+        res.end(buf);
+      } else if (typeof axiosRes.data === "string" && boundary.decision !== "filter") {
+        res.end(axiosRes.data);
+      } else {
+        let data = axiosRes.data;
+        if (typeof data === "string") {
+          try {
+            data = JSON.parse(data);
+          } catch {
+            // an unparsable search result cannot be filtered, so nothing is returned
+            data = [];
+          }
         }
-        if (result.status >= 400) {
-          await audit?.log({
-            timestamp: new Date().toISOString(),
-            method: req.method,
-            path: url.pathname,
-            forwardPath: "/provider-push",
-            requestId: Number((body?.requestId ?? 0) || 0),
-            patientAddress: "0x",
-            patientId: "",
-            query: undefined,
-            status: result.status,
-            error: result.error,
-            subject: authResult.principal?.subject,
-            roles: authResult.principal?.roles,
-            clientIp: getClientIp(req),
-          });
+        if (boundary.decision === "filter") {
+          const filtered = filterQidoResults(data, manifestStudies);
+          data = filtered.data;
+          boundary.filtered = filtered.removed;
         }
-        return;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(data));
       }
+    },
+    { use: [cors({ ...corsOptions, exposeHeaders: "*" }), audited("/secure")] }
+  );
+}
 
-      if (requester && req.method === "GET" && url.pathname.startsWith("/secure/")) {
-        const authResult = await requireAuth(req, res, auth, ["requester.viewer"]);
-        if (!authResult.ok) return;
-        const clientIp = getClientIp(req);
-        let requestIdParam = url.searchParams.get("requestId");
-        let forwardPathRaw = url.pathname.replace(/^\/secure/, "");
-
-        const pathMatch = forwardPathRaw.match(/^\/(\d+)(\/.*)?$/);
-        if (!requestIdParam && pathMatch) {
-          requestIdParam = pathMatch[1];
-          forwardPathRaw = pathMatch[2] ?? "/";
-        }
-
-        if (!requestIdParam) {
-          res.statusCode = 400;
-          res.end("requestId is required");
-          return;
-        }
+function registerPushRoutes(router: Router, { deps, audited }: ApiServices) {
+  const push = () => deps.providerPush!;
+  const configured = requires(() => deps.providerPush, 501, "provider push handler not configured");
+  const sessionRoute = { use: [configured, audited("/provider-push/sessions", { failuresOnly: true })] };
+  const session = "/provider-push/sessions/:sessionId([0-9a-f]{32})";
+
+  // Shapes only; the service checks the values (expiry, signature, scope) and answers with its own errors
+  const signedRequest: Record<string, JsonSchema> = {
+    clinicId: { type: "string", minLength: 1 },
+    requestId: { type: "integer", minimum: 0 },
+    expiresAt: { type: "integer" },
+    nonce: { type: "string", pattern: PUSH_NONCE_RE.source },
+    signature: { type: "string", minLength: 1 },
+  };
+  const instanceRef: Record<string, JsonSchema> = {
+    sop: { type: "string" },
+    study: { type: "string" },
+    series: { type: "string" },
+  };
 
-        const requestId = Number(requestIdParam);
-        if (!Number.isFinite(requestId)) {
-          res.statusCode = 400;
-          res.end("requestId must be numeric");
-          return;
-        }
+  // Failed results keep their body next to the envelope, e.g. the missing instances of a finalize
+  function answer(ctx: RouteContext, result: ProviderPushResult, requestId = 0) {
+    ctx.audit = {
+      requestId: requestId || Number(result.body?.requestId ?? 0) || 0,
+      patientAddress: "0x",
+      error: result.error,
+    };
+    ctx.json(
+      result.error ? { ...(result.body ?? {}), error: result.error, code: errorCode(result.status) } : result.body ?? { ok: true },
+      result.status
+    );
+  }
 
-        const ctx = await resolveAccessRequest(requestId);
-        if (!ctx.ok) {
-          res.statusCode = ctx.status;
-          res.end(ctx.message);
-          warn(`gateway: request ${requestId} blocked (${ctx.message})`);
-          await audit?.log({
-            timestamp: new Date().toISOString(),
-            method: req.method,
-            path: url.pathname,
-            forwardPath: url.pathname,
-            requestId,
-            patientAddress: "",
-            patientId: "",
-            query: sanitiseParams(new URLSearchParams(url.searchParams), { exclude: ["requestId"] }),
-            status: ctx.status,
-            error: ctx.message,
-            subject: authResult.principal?.subject,
-            roles: authResult.principal?.roles,
-            clientIp,
-          });
-          return;
-        }
+  router.post<PushSessionOpenRequest>(
+    "/provider-push/sessions",
+    async (ctx) => {
+      const body = await ctx.body();
+      answer(ctx, await push().openSession(ctx.scope, body), body.requestId);
+    },
+    {
+      ...sessionRoute,
+      schema: {
+        type: "object",
+        required: ["clinicId", "requestId", "expiresAt", "nonce", "signature"],
+        properties: { ...signedRequest, total: { type: "integer", minimum: 0 } },
+      },
+    }
+  );
 
-        const { patientAddress, patientId } = ctx;
+  router.get(session, async (ctx) => answer(ctx, await push().getSession(ctx.scope, ctx.params.sessionId)), sessionRoute);
+
+  router.post<PushSessionFinalizeRequest>(
+    `${session}/finalize`,
+    async (ctx) => answer(ctx, await push().finalizeSession(ctx.scope, ctx.params.sessionId, await ctx.body())),
+    {
+      ...sessionRoute,
+      schema: {
+        type: "object",
+        required: ["instances", "signature"],
+        properties: {
+          instances: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              required: ["sop"],
+              properties: { ...instanceRef, sop: { type: "string", minLength: 1 }, sha256: { type: "string" } },
+            },
+          },
+          signature: { type: "string", minLength: 1 },
+        },
+      },
+    }
+  );
 
-        let forwardPath = forwardPathRaw;
-        if (!forwardPath || forwardPath === "/") {
-          forwardPath = "/";
-        } else if (!forwardPath.startsWith("/")) {
-          forwardPath = `/${forwardPath}`;
-        }
+  router.put(
+    `${session}/instances/:sop`,
+    async (ctx) => {
+      const result = await push().uploadInstance(
+        ctx.scope,
+        ctx.params.sessionId,
+        {
+          sop: ctx.params.sop,
+          study: ctx.url.searchParams.get("study") ?? undefined,
+          series: ctx.url.searchParams.get("series") ?? undefined,
+          sha256: String(ctx.req.headers["x-content-sha256"] ?? ""),
+        },
+        ctx.req
+      );
+      // an upload rejected before its body was read still has to be drained
+      if (!ctx.req.readableEnded) ctx.req.resume();
+      answer(ctx, result);
+    },
+    sessionRoute
+  );
 
-        const snapshot = new URLSearchParams(url.searchParams);
-        const auditQuery = sanitiseParams(snapshot, { exclude: ["requestId"] });
-        const search = new URLSearchParams(snapshot);
-        search.delete("requestId");
-        const forwardUrl = `${forwardPath}${search.toString() ? `?${search.toString()}` : ""}`;
+  // Agents in watch mode poll this for the requests an operator asked them to push
+  router.get(
+    "/provider-push/triggers",
+    (ctx) => {
+      const clinicId = ctx.url.searchParams.get("clinicId");
+      if (!clinicId) throw new HttpError(400, "invalid_query", "clinicId is required");
+      ctx.json({ triggers: push().claimTriggers(ctx.scope, clinicId) });
+    },
+    { use: [configured] }
+  );
 
-        const auditCommon: Omit<AuditLogEntry, "status"> = {
-          timestamp: new Date().toISOString(),
-          method: req.method,
-          path: url.pathname,
-          forwardPath,
-          requestId,
-          patientAddress,
-          patientId,
-          query: auditQuery,
-          subject: authResult.principal?.subject,
-          roles: authResult.principal?.roles,
-          clientIp,
-        };
+  router.get("/push-triggers", (ctx) => ctx.json({ pending: push().listPending(ctx.scope) }), { use: [configured] });
+
+  router.post(
+    "/push-triggers/:requestId(\\d+)",
+    (ctx) => {
+      const requestId = Number(ctx.params.requestId);
+      const pending = push().listPending(ctx.scope).find((entry) => entry.requestId === requestId);
+      // another clinic's request is reported like one the worker is not waiting on
+      if (!pending) throw new HttpError(404, "not_found", "no pending push for this request");
+      ctx.audit = { requestId };
+      ctx.json({ trigger: push().trigger(requestId, ctx.principal?.subject ?? "anonymous") }, 202);
+    },
+    { use: [configured, audited("/push-triggers")] }
+  );
 
-        const accept = req.headers["accept"] as string | undefined;
-        const wantsBinary = accept ? /application\/dicom|image\//i.test(accept) : forwardPath.includes("/instances/");
-        const responseType: any = wantsBinary ? "arraybuffer" : "json";
+  router.post<ProviderPushEnvelope>(
+    "/provider-push",
+    async (ctx) => {
+      const body = await ctx.body();
+      answer(ctx, await push().handleProviderPush(body), body.requestId);
+    },
+    {
+      use: [configured, audited("/provider-push", { failuresOnly: true })],
+      schema: {
+        type: "object",
+        required: ["clinicId", "requestId", "expiresAt", "nonce", "instances", "signature"],
+        properties: {
+          ...signedRequest,
+          // an instance without sop or data is recorded as failed rather than rejecting the envelope
+          instances: { type: "array", minItems: 1, items: { type: "object", properties: { ...instanceRef, data: { type: "string" } } } },
+        },
+      },
+    }
+  );
+}
 
-        try {
-          const axiosRes = await requester.request({
-            method: "GET",
-            url: forwardUrl,
-            responseType,
-            headers: {
-              Accept: accept ?? (wantsBinary ? "application/dicom" : "application/json"),
-            },
-          });
+function startApiServer(store: AliasStore, deps: GatewayDeps) {
+  const host = deps.api?.host ?? "127.0.0.1";
+  const port = deps.api?.port ?? 8787;
+  const corsOptions: CorsOptions = {
+    origins: (deps.api?.corsOrigin ?? "*").split(",").map((s) => s.trim()).filter(Boolean),
+  };
+  const audit = deps.audit ?? null;
+  const routePolicy = deps.routePolicy ?? new RoutePolicy(undefined);
 
-          await audit?.log({
-            ...auditCommon,
-            status: axiosRes.status,
-            upstreamStatus: axiosRes.status,
-          });
+  const router = new Router({
+    origin: `http://${host}:${port}`,
+    mapError: (e) => (e instanceof TenantAccessError ? new HttpError(403, "forbidden", e.message) : undefined),
+    log: err,
+  });
 
-          res.statusCode = axiosRes.status;
-          for (const [key, value] of Object.entries(axiosRes.headers ?? {})) {
-            if (!value) continue;
-            const lower = key.toLowerCase();
-            if (lower === "content-length" || lower === "transfer-encoding") continue;
-            if (lower.startsWith("access-control-")) continue;
-            res.setHeader(key, value as any);
-          }
-          applyCors(res, req.headers.origin as string | undefined);
-          res.setHeader("Access-Control-Expose-Headers", "*");
-
-          if (responseType === "arraybuffer") {
-            const buf = Buffer.isBuffer(axiosRes.data)
-              ? axiosRes.data
-              : Buffer.from(axiosRes.data as ArrayBuffer);
-            res.end(buf);
-          } else if (typeof axiosRes.data === "string") {
-            res.end(axiosRes.data);
-          } else {
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify(axiosRes.data));
-          }
-        } catch (proxyErr) {
-          const message = formatAxiosError(proxyErr);
-          const upstreamStatus =
-            typeof (proxyErr as any)?.response?.status === "number" ? (proxyErr as any).response.status : undefined;
-          res.statusCode = 502;
-          res.end(`upstream error: ${message}`);
-          warn(`gateway: upstream error for request ${requestId}:`, message);
-          await audit?.log({
-            ...auditCommon,
-            status: 502,
-            upstreamStatus,
-            error: message,
-          });
-        }
-        return;
+  // The clinics of a request never change, so each request id is resolved once
+  const requestClinicCache = new Map<number, string[]>();
+  async function requestClinics(requestId: number): Promise<string[]> {
+    if (!requestId) return [];
+    const cached = requestClinicCache.get(requestId);
+    if (cached) return cached;
+    let clinics: (string | undefined)[] = [];
+    const indexed = deps.chainIndex?.getRequest(requestId);
+    if (indexed) {
+      clinics = [indexed.providerClinicId, indexed.requesterClinicId];
+    } else {
+      try {
+        const reqData = await deps.contract.reqs(requestId);
+        clinics = [
+          clinicIdForKey(reqData?.providerClinicKey, deps.clinics, deps.clinicStore),
+          clinicIdForKey(reqData?.requesterClinicKey, deps.clinics, deps.clinicStore),
+        ];
+      } catch (e) {
+        warn(`audit: clinics of request ${requestId} unavailable (${e instanceof Error ? e.message : String(e)})`);
       }
+    }
+    const found = Array.from(new Set(clinics.filter((clinicId): clinicId is string => !!clinicId)));
+    if (found.length) requestClinicCache.set(requestId, found);
+    return found;
+  }
 
-      res.statusCode = 404;
-      res.end("Not Found");
-    } catch (e: any) {
-      res.statusCode = 400;
-      res.setHeader("Content-Type", "text/plain");
-      res.end(e?.message || String(e));
+  /** Tags each entry with the clinics of its request, which is what `AuditLogger.read` scopes tenants by. */
+  async function logAudit(entry: AuditLogEntry) {
+    if (!audit) return;
+    await audit.log({ ...entry, clinics: entry.clinics ?? (await requestClinics(entry.requestId)) });
+  }
+
+  const audited: ApiServices["audited"] = (forwardPath, options = {}) => async (ctx, next) => {
+    let failure: HttpError | undefined;
+    try {
+      await next();
+    } catch (e) {
+      failure = router.toHttpError(e);
+      throw e;
+    } finally {
+      const status = failure?.status ?? ctx.res.statusCode;
+      if (ctx.audit && (!options.failuresOnly || status >= 400)) {
+        await logAudit({
+          timestamp: new Date().toISOString(),
+          method: ctx.method,
+          path: ctx.url.pathname,
+          forwardPath,
+          requestId: 0,
+          patientAddress: "",
+          patientId: "",
+          subject: ctx.principal?.subject,
+          roles: ctx.principal?.roles,
+          clientIp: getClientIp(ctx.req),
+          ...ctx.audit,
+          error: ctx.audit.error ?? failure?.message,
+          status,
+        });
+      }
     }
   };
 
+  async function resolveAccessRequest(requestId: number): Promise<AccessRequestResolution> {
+    const reqData = await deps.contract.reqs(requestId);
+    if (!reqData || Number(reqData.id ?? 0) === 0) {
+      return { ok: false, status: 404, message: "request not found" };
+    }
+
+    const status = Number(reqData.status ?? 0);
+    if (status < 1) {
+      return { ok: false, status: 403, message: "request is not approved" };
+    }
+
+    const requesterKey = (reqData.requesterClinicKey ?? "").toLowerCase();
+    const allowedRequester = Object.entries(deps.clinics ?? {}).some(([clinicId, info]) => {
+      if (!info || info.role !== "requester") return false;
+      return clinicKey(clinicId).toLowerCase() === requesterKey;
+    });
+    if (!allowedRequester) {
+      return { ok: false, status: 403, message: "requester clinic is not managed by this worker" };
+    }
+
+    const patientAddress = String(reqData.patient ?? "");
+    const patientId = resolvePatientId(store, patientAddress);
+    return { ok: true, reqData, patientAddress, patientId };
+  }
+
+  const api: ApiServices = { store, deps, audited, resolveAccessRequest, requestClinics };
+  router.use(cors(corsOptions)).use(enforcePolicy(routePolicy, deps.auth ?? null));
+  router.get("/health", (ctx) => {
+    ctx.res.end("OK");
+  });
+  registerSiweRoutes(router, api);
+  registerAliasRoutes(router, api);
+  registerClinicRoutes(router, api);
+  registerCopyEventRoutes(router, api);
+  registerIndexRoutes(router, api);
+  registerScopeRoutes(router, api);
+  registerManifestRoutes(router, api);
+  registerPatientRoutes(router, api);
+  registerAuditRoutes(router, api);
+  registerGatewayRoutes(router, api, corsOptions);
+  registerPushRoutes(router, api);
+
+
   let server: any; // http.Server or https.Server
   if (deps.api?.ssl && deps.api.ssl.cert && deps.api.ssl.key) {
     const options = {
       key: readFileSync(deps.api.ssl.key),
       cert: readFileSync(deps.api.ssl.cert),
     };
-    server = createHttpsServer(options, handler);
+    server = createHttpsServer(options, router.handle);
     log(`API enabled HTTPS`);
   } else {
-    server = createServer(handler);
+    server = createServer(router.handle);
   }
 
   server.listen(port, host, () => {
     const protocol = deps.api?.ssl ? "https" : "http";
     log(`API listening on ${protocol}://${host}:${port}`);
-    if (allowAllCors) {
+    if (corsOptions.origins.includes("*")) {
       warn("CORS is set to allow all origins (*). This is not recommended for production.");
     }
   });
@@ -933,68 +1172,59 @@ function resolvePatientId(store: AliasStore | null, patientAddress: string): str
   return store.lookup(patientAddress) ?? patientAddress;
 }
 
-async function qidoFindInstances(qido: HttpEndpoint, patientId: string): Promise<
+async function qidoFindInstances(qido: HttpEndpoint, patientId: string, scope?: AccessScope | null): Promise<
   { sop: string; study: string; series: string }[]
 > {
   const http = makeAxios(qido);
   const url = `/dicom-web/instances`;
-  const params = {
-    PatientID: patientId,
-    includefield: "00080018,0020000D,0020000E",
-    limit: 5000,
-  };
-  const res = await http.get(url, { params, headers: { Accept: "application/json" } });
-  const arr = Array.isArray(res.data) ? res.data : [];
   const out: { sop: string; study: string; series: string }[] = [];
-  for (const d of arr) {
-    const sop = d?.["00080018"]?.Value?.[0];
-    const study = d?.["0020000D"]?.Value?.[0];
-    const series = d?.["0020000E"]?.Value?.[0];
-    if (sop && study && series) out.push({ sop, study, series });
+  const seen = new Set<string>();
+  for (const extra of scope ? scopeQueryParams(scope) : [{}]) {
+    const params = {
+      ...extra,
+      PatientID: patientId,
+      includefield: scope ? `00080018,0020000D,0020000E,${SCOPE_INCLUDE_FIELDS}` : "00080018,0020000D,0020000E",
+      limit: 5000,
+    };
+    const res = await http.get(url, { params, headers: { Accept: "application/json" } });
+    const arr = Array.isArray(res.data) ? res.data : [];
+    for (const d of arr) {
+      const sop = d?.["00080018"]?.Value?.[0];
+      const study = d?.["0020000D"]?.Value?.[0];
+      const series = d?.["0020000E"]?.Value?.[0];
+      if (!sop || !study || !series || seen.has(sop)) continue;
+      // the PACS may ignore some matching keys, so the scope is checked again on every result
+      if (scope && !matchesScope(scope, studyAttributesOf(d) ?? { study })) continue;
+      seen.add(sop);
+      out.push({ sop, study, series });
+    }
   }
   return out;
 }
 
-async function wadoFetchInstance(wado: HttpEndpoint, uids: { sop: string; study: string; series: string }) {
-  const http = makeAxios(wado);
-  const url = `/dicom-web/studies/${encodeURIComponent(uids.study)}/series/${encodeURIComponent(
-    uids.series
-  )}/instances/${encodeURIComponent(uids.sop)}`;
-  const res = await http.get<ArrayBuffer>(url, {
-    responseType: "arraybuffer",
-    headers: { Accept: "application/dicom" },
-  });
-  return res.data;
-}
-
-async function restFetchInstance(rest: HttpEndpoint, sopUid: string) {
-  const http = makeAxios(rest);
-  const lookupRes = await http.post(`/tools/lookup`, sopUid, {
-    headers: { "Content-Type": "text/plain" },
-  });
-  const payload = Array.isArray(lookupRes.data) ? lookupRes.data : [];
-  const first = payload.find((item) => typeof item === "string" || typeof item?.ID === "string");
-  const instanceId = typeof first === "string" ? first : first?.ID;
-  if (!instanceId) {
-    throw new Error(`REST lookup did not return Orthanc ID for SOP=${sopUid}`);
+/**
+ * Streams one instance from the provider into the requester Orthanc. WADO-RS is tried first and the Orthanc
+ * REST API (lookup by SOPInstanceUID) serves as fallback. Resolves with the number of bytes transferred.
+ */
+async function transferInstance(
+  pCfg: { wado: HttpEndpoint; rest?: HttpEndpoint },
+  target: HttpEndpoint,
+  uids: { sop: string; study?: string; series?: string }
+): Promise<TransferResult> {
+  const restEndpoint = pCfg.rest ?? pCfg.wado;
+  if (!uids.study || !uids.series) {
+    // WADO-RS needs the full UID path; the REST lookup only needs the SOP UID
+    return streamToOrthanc(target, await openRestInstance(restEndpoint, uids.sop));
   }
-  const fileRes = await http.get<ArrayBuffer>(`/instances/${encodeURIComponent(instanceId)}/file`, {
-    responseType: "arraybuffer",
-    headers: { Accept: "application/dicom" },
-  });
-  return fileRes.data;
-}
-
-async function fetchInstanceWithFallback(pCfg: ProviderCfg, uids: { sop: string; study: string; series: string }) {
+  let source;
   try {
-    return await wadoFetchInstance(pCfg.wado, uids);
+    source = await openWadoInstance(pCfg.wado, { sop: uids.sop, study: uids.study, series: uids.series });
   } catch (wadoErr) {
     warn(`WADO failed for ${uids.sop}. trying REST fallback...`, formatAxiosError(wadoErr));
-    const restEndpoint = pCfg.rest ?? pCfg.wado;
-    const data = await restFetchInstance(restEndpoint, uids.sop);
+    source = await openRestInstance(restEndpoint, uids.sop);
     log(`REST fallback succeeded for ${uids.sop}`);
-    return data;
   }
+  return streamToOrthanc(target, source);
 }
 
 async function uploadToOrthanc(orthanc: HttpEndpoint, dicomBin: ArrayBuffer | Uint8Array) {
@@ -1006,14 +1236,6 @@ async function uploadToOrthanc(orthanc: HttpEndpoint, dicomBin: ArrayBuffer | Ui
   });
 }
 
-function buildManifestHash(success: string[], failed: string[]): string {
-  const payload = JSON.stringify({
-    success: [...success].sort(),
-    failed: [...failed].sort(),
-  });
-  return keccak256(toUtf8Bytes(payload));
-}
-
 async function sleep(ms: number) {
   await new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -1065,11 +1287,21 @@ async function main() {
   }
 
   const alertService = cfg.alerts ? new AlertService(cfg.alerts) : undefined;
-  const copyEvents = new CopyEventStore(50, alertService);
+  const copyEvents = await CopyEventStore.init(cfg.copyEvents, alertService);
+  const jobQueue = await JobQueue.init(cfg.queue);
+  const scopeStore = await ScopeStore.init(cfg.scopes);
+  const manifestStore = await ManifestStore.init(cfg.manifests);
+  const pushSessions = await PushSessionStore.init(cfg.pushSessions);
+  const pushNonces = await PushNonceLedger.init(cfg.pushNonces);
 
   const rpcProvider = new JsonRpcProvider(cfg.rpcUrl, cfg.chainId);
   const contract = new Contract(normalizedContract, (abi as any).abi, rpcProvider) as Contract;
 
+  const chainIndex = cfg.index?.enabled === false
+    ? null
+    : await ChainIndex.init(cfg.index, { chainId: cfg.chainId, contract: normalizedContract });
+  chainIndex?.start(contractEventSource(contract, rpcProvider), { pollMs: cfg.index?.pollMs, log, warn });
+
   const providerSignerAddresses: Record<string, string> = {};
 
   for (const [clinicId, clinicCfg] of Object.entries(cfg.clinics ?? {})) {
@@ -1102,10 +1334,28 @@ async function main() {
   }
   const clinicStore = await ClinicStore.init(initialClinicConfigs);
 
-  const authInstance = cfg.auth?.enabled
+  const jwtAuth = cfg.auth?.enabled
     ? new JwtAuth(cfg.auth)
     : null;
 
+  // A wallet operates a clinic only when the config names it as that clinic's operatorAddress; the on-chain
+  // operator is whatever the last registerClinic call set and proves nothing about the caller
+  async function operatorClinics(address: string): Promise<string[]> {
+    return Object.entries(cfg.clinics ?? {})
+      .filter(([, clinicCfg]) => clinicCfg?.operatorAddress?.toLowerCase() === address.toLowerCase())
+      .map(([clinicId]) => clinicId);
+  }
+
+  const siwe = cfg.siwe?.enabled ? new SiweAuth(cfg.siwe, cfg.chainId, operatorClinics) : null;
+  const authInstance: Authenticator | null = siwe ? new AuthChain(jwtAuth, [siwe]) : jwtAuth;
+  const routePolicy = new RoutePolicy(cfg.auth?.routes, { mode: cfg.auth?.policyMode, log });
+  if (cfg.auth?.policyMode === "dryRun" && cfg.auth.routes?.length) {
+    warn("auth.policyMode is dryRun: auth.routes decisions are only logged, the built-in route rules are enforced");
+  }
+  if (siwe && !jwtAuth) {
+    warn("siwe is enabled without auth: every guarded route now requires a token, and wallet sessions only carry the patient / clinic.operator roles");
+  }
+
   const signerClient = cfg.signers ? new SignerClient(cfg.signers, rpcProvider, normalizedContract) : null;
   const fulfillmentPollMs = cfg.copy?.fulfillmentPollMs ?? 1_500;
   const fulfillmentMaxAttempts = cfg.copy?.fulfillmentMaxAttempts ?? 20;
@@ -1160,188 +1410,43 @@ async function main() {
       `markFulfilled request dispatched via external signer for id=${payload.requestId}`,
       result.txHash ? `txHash=${result.txHash}` : ""
     );
+    if (jobQueue.has(payload.requestId)) {
+      // Remember the dispatch so a restart waits for this tx instead of signing a second one
+      await jobQueue.update(payload.requestId, { fulfillTxHash: result.txHash ?? "dispatched" });
+    }
     await waitForFulfilledStatus(payload.requestId);
     return result;
   }
 
-  const pendingPush = new Map<number, PendingPushEntry>();
-
-  const handleProviderPush = async (envelope: ProviderPushEnvelope): Promise<ProviderPushResult> => {
-    if (copyMode !== "providerPush") {
-      return { status: 400, error: "copy mode is not providerPush" };
-    }
-
-    if (!envelope || typeof envelope !== "object") {
-      return { status: 400, error: "invalid payload" };
-    }
-
-    const clinicId = String(envelope.clinicId ?? "").trim();
-    const requestId = Number(envelope.requestId);
-    const expiresAt = Number(envelope.expiresAt);
-
-    if (!clinicId) return { status: 400, error: "clinicId is required" };
-    if (!Number.isFinite(requestId)) return { status: 400, error: "requestId must be numeric" };
-    if (!Number.isFinite(expiresAt)) return { status: 400, error: "expiresAt must be numeric" };
-    if (!envelope.signature) return { status: 400, error: "signature is required" };
-
-    if (!Array.isArray(envelope.instances) || envelope.instances.length === 0) {
-      return { status: 400, error: "instances must be a non-empty array" };
-    }
-
-    const pending = pendingPush.get(requestId);
-    if (!pending) {
-      warn(`provider-push: request ${requestId} has no pending state`);
-      return { status: 409, error: "no pending access request" };
-    }
-
-    if (pending.providerId !== clinicId) {
-      return { status: 403, error: "clinicId mismatch" };
-    }
-
-    const expectedSigner = providerSignerAddresses[clinicId];
-    if (!expectedSigner) {
-      return { status: 403, error: "unknown provider clinic" };
-    }
-
-    const payloadHash = computeInstancesHash(envelope.instances);
-    let recovered: string;
-    try {
-      const message = buildPushMessage(clinicId, requestId, expiresAt, payloadHash);
-      recovered = verifyMessage(message, envelope.signature);
-    } catch (e: any) {
-      const message = e?.message || String(e);
-      return { status: 400, error: `signature verification failed: ${message}` };
-    }
-
-    if (recovered.toLowerCase() !== expectedSigner.toLowerCase()) {
-      return { status: 403, error: "signature mismatch" };
-    }
-
-    const nowSec = Math.floor(Date.now() / 1000);
-    if (expiresAt < nowSec) {
-      return { status: 410, error: "envelope expired" };
-    }
-
-    let reqData: any;
-    try {
-      reqData = await contract.reqs(requestId);
-    } catch (e: any) {
-      const message = e?.message || String(e);
-      return { status: 500, error: `failed to load access request: ${message}` };
-    }
-
-    const status = Number(reqData?.status ?? 0);
-    if (status >= 2) {
-      pendingPush.delete(requestId);
-      return { status: 409, error: "access request already fulfilled" };
-    }
-
-    const requesterCfg = cfg.requester?.orthanc;
-    if (!requesterCfg) {
-      return { status: 500, error: "requester orthanc config missing" };
-    }
-
-    const total = envelope.instances.length;
-    copyEvents.update(requestId, { status: "copying", total });
-
-    const success: string[] = [];
-    const failed: string[] = [];
-    const attempts = cfg.copy?.maxRetries ?? 3;
-    const backoffMs = cfg.copy?.backoffMs ?? 1000;
-
-    for (const instance of envelope.instances) {
-      const sop = instance?.sop ?? "";
-      if (!sop) {
-        const message = "missing SOPInstanceUID";
-        failed.push("(unknown)");
-        copyEvents.recordFailure(requestId, { sop: "(unknown)", message });
-        copyEvents.update(requestId, {
-          failed: failed.length,
-          success: success.length,
-          status: "partial",
-        });
-        continue;
-      }
-
-      try {
-        if (!instance.data) {
-          throw new Error("instance payload missing base64 data");
-        }
-        const buffer = Buffer.from(instance.data, "base64");
-        if (!buffer.length) {
-          throw new Error("decoded payload empty");
-        }
-
+  const requesterOrthanc = cfg.requester?.orthanc;
+  const pushAttempts = cfg.copy?.maxRetries ?? 3;
+  const pushBackoffMs = cfg.copy?.backoffMs ?? 1000;
+  const providerPush = new ProviderPushService({
+    contract: { reqs: (requestId) => contract.reqs(requestId) },
+    jobQueue,
+    copyEvents,
+    manifests: manifestStore,
+    scopes: scopeStore,
+    sessions: pushSessions,
+    nonces: pushNonces,
+    signers: providerSignerAddresses,
+    storeInstance: requesterOrthanc
+      ? async (source, sop) => {
         await performWithRetry(
-          () => uploadToOrthanc(requesterCfg, buffer),
-          { attempts, backoffMs, label: `upload ${sop}` }
+          async () => {
+            if ("buffer" in source) {
+              await uploadToOrthanc(requesterOrthanc, source.buffer);
+            } else {
+              await streamToOrthanc(requesterOrthanc, { stream: createReadStream(source.file), length: source.bytes });
+            }
+          },
+          { attempts: pushAttempts, backoffMs: pushBackoffMs, label: `upload ${sop}` }
         );
-        success.push(sop);
-      } catch (pushErr) {
-        const message = (pushErr as any)?.message || formatAxiosError(pushErr);
-        failed.push(sop);
-        warn(`provider-push upload failed for ${sop}:`, message);
-        copyEvents.recordFailure(requestId, { sop, message });
       }
-
-      const interimStatus: CopyEventStatus = failed.length ? "partial" : "copying";
-      copyEvents.update(requestId, {
-        failed: failed.length,
-        success: success.length,
-        status: interimStatus,
-      });
-    }
-
-    const manifestHash = buildManifestHash(success, failed);
-    const outcomeStatus: CopyEventStatus = failed.length ? "partial" : "completed";
-
-    try {
-      await requestMarkFulfilled(clinicId, {
-        requestId,
-        manifestHash,
-        patientAddress: pending.patientAddress,
-        patientId: pending.patientId,
-        success: success.length,
-        failed: failed.length,
-      });
-    } catch (signErr: any) {
-      const message = signErr?.message || String(signErr);
-      copyEvents.fail(requestId, message);
-      return { status: 502, error: message };
-    } finally {
-      pendingPush.delete(requestId);
-    }
-
-    copyEvents.update(requestId, {
-      status: outcomeStatus,
-      success: success.length,
-      failed: failed.length,
-      manifestHash,
-    });
-
-    return {
-      status: 200,
-      body: {
-        manifestHash,
-        success: success.length,
-        failed: failed.length,
-        status: outcomeStatus,
-      },
-    };
-  };
-
-  const requesterAxios = cfg.requester?.orthanc ? makeAxios(cfg.requester.orthanc) : null;
-  startApiServer(aliasStore, {
-    api: cfg.api,
-    contract,
-    requesterAxios,
-    clinics: cfg.clinics ?? {},
-    audit: auditLogger,
-    copyEvents,
-    requesterAuth: cfg.requester?.orthanc?.auth?.type === "basic" ? cfg.requester.orthanc.auth : null,
-    handleProviderPush: copyMode === "providerPush" ? handleProviderPush : undefined,
-    auth: authInstance,
-    clinicStore,
+      : undefined,
+    markFulfilled: requestMarkFulfilled,
+    log,
+    warn,
   });
 
   log("worker up:");
@@ -1352,174 +1457,446 @@ async function main() {
     .join(", ");
   log(" - providers:", providerSummary || "none");
 
-  // Look back 1000 blocks to catch events missed while worker was down
-  let currentBlock = await rpcProvider.getBlockNumber();
-  let fromBlock = Math.max(0, currentBlock - 1000);
-  log(`listening (polling) PatientApproved from block ${fromBlock} (current: ${currentBlock})`);
+  const lookbackBlocks = cfg.copy?.lookbackBlocks ?? 1000;
+  const currentBlock = await rpcProvider.getBlockNumber();
+  const cursor = jobQueue.getCursor();
+  // Without a persisted cursor, look back a fixed window to catch events missed before the first start
+  let fromBlock = cursor ?? Math.max(0, currentBlock - lookbackBlocks);
+  const confirmations = Math.max(0, Math.floor(cfg.copy?.confirmations ?? 0));
+  log(
+    `${cursor === null ? "listening" : "resuming"} (polling) PatientApproved after block ${fromBlock} (current: ${currentBlock}, confirmations: ${confirmations})`
+  );
+  const unfinished = jobQueue.list(["pending", "copying"]);
+  if (unfinished.length) {
+    log(`resuming ${unfinished.length} unfinished job(s):`, unfinished.map((job) => job.requestId).join(", "));
+  }
+
+  // requestIds currently being copied by the poller or by a retry
+  const activeCopies = new Set<number>();
+  // Aborted when a reorg removes the approval of an in-flight copy
+  const copyAborts = new Map<number, AbortController>();
+  const approvalSource = contractApprovalSource(contract, rpcProvider);
+
+  async function orphanJob(requestId: number, message: string) {
+    copyAborts.get(requestId)?.abort();
+    providerPush.forget(requestId);
+    warn(`${message}; id=`, requestId);
+    await jobQueue.transition(requestId, "orphaned", { lastError: message });
+    copyEvents.fail(requestId, message);
+  }
 
-  const processed = new Set<number>();
-  const pollMs = 5000;
+  /**
+   * Re-checks the PatientApproved event behind a job. Returns false (and orphans the job) when a reorg
+   * removed it; an approval that was re-mined in another block just gets its new position recorded.
+   */
+  async function verifyApproval(requestId: number): Promise<boolean> {
+    const job = jobQueue.get(requestId);
+    if (!job || job.state === "orphaned") return false;
+    const check = await checkApproval(approvalSource, job, jobQueue.reorgWindow);
+    if (check.state === "canonical") return true;
+    if (check.state === "moved") {
+      warn(`PatientApproved for id=${requestId} moved from block ${job.blockNumber} to ${check.approval.number} (reorg)`);
+      await jobQueue.update(requestId, {
+        blockNumber: check.approval.number,
+        blockHash: check.approval.hash,
+        txHash: check.approval.txHash,
+      });
+      return true;
+    }
+    await orphanJob(requestId, `PatientApproved in block ${job.blockNumber} was removed by a chain reorganization`);
+    return false;
+  }
 
-  setInterval(async () => {
+  /** Moves the scan cursor back to the fork point when the last scanned block is no longer canonical. */
+  async function rewindOnReorg() {
+    const known = jobQueue.recentBlocks();
+    const tip = known[known.length - 1];
+    // nothing has been scanned yet
+    if (!tip) return;
+    if ((await approvalSource.getBlockHash(tip.number)) === tip.hash) return;
+    const fork = await findForkPoint(approvalSource, known);
+    const rewindTo = fork ?? Math.max(0, fromBlock - jobQueue.reorgWindow);
+    warn(`chain reorganization at or below block ${fromBlock}; rescanning PatientApproved after block ${rewindTo}`);
+    await jobQueue.rewindCursor(rewindTo);
+    fromBlock = rewindTo;
+  }
+  // Shared by every job so concurrent copies respect the same global/per-provider limits
+  const transferPool = new TransferPool(cfg.copy?.transfer);
+
+  async function runCopyJob(job: CopyJob) {
+    const id = job.requestId;
+    const abort = new AbortController();
+    activeCopies.add(id);
+    copyAborts.set(id, abort);
     try {
-      const toBlock = await rpcProvider.getBlockNumber();
-      if (toBlock <= fromBlock) return;
+      const { req, providerId } = await getRequestAndProviderId(contract, id, cfg, clinicStore);
+      const patientAddr = req.patient as string;
+      const patientId = resolvePatientId(aliasStore, patientAddr);
+      const chainStatus = Number(req.status ?? 0);
+
+      if (!copyEvents.get(id)) {
+        copyEvents.start({
+          requestId: id,
+          providerId,
+          requesterClinicId: clinicIdForKey(req.requesterClinicKey, cfg.clinics, clinicStore),
+          patientAddress: patientAddr,
+          patientId,
+        });
+      }
 
-      const events = await contract.queryFilter(contract.filters.PatientApproved(), fromBlock + 1, toBlock);
+      if (chainStatus === 0) {
+        // No approval on-chain: either it was reorganized away, or the RPC node lags behind the event
+        if (await verifyApproval(id)) warn(`request ${id} is not approved on-chain yet; retry on the next poll`);
+        return;
+      }
 
-      for (const ev of events) {
-        const args = (typeof ev === "object" && ev !== null && "args" in ev) ? (ev as any).args : null;
-        const idBig = args?.id ?? args?.[0];
-        const id = Number(idBig);
-        if (!Number.isFinite(id)) continue;
-        if (processed.has(id)) continue;
+      if (chainStatus >= 2) {
+        // Fulfilled by an earlier run (or by another worker), or no longer fulfillable
+        if (chainStatus === 2) {
+          const manifestHash = String(req.manifestHash ?? "");
+          log(`request ${id} is already fulfilled on-chain; skip copy`);
+          await jobQueue.transition(id, "fulfilled", { providerId, patientAddress: patientAddr, patientId, manifestHash });
+          copyEvents.update(id, {
+            status: job.failed.length ? "partial" : "completed",
+            success: job.uploaded.length,
+            failed: job.failed.length,
+            manifestHash,
+          });
+        } else {
+          const message = `request is ${STATUS_LABELS[chainStatus] ?? chainStatus} on-chain`;
+          warn(`${message}; skip id=`, id);
+          await jobQueue.transition(id, "failed", { lastError: message });
+          copyEvents.fail(id, message);
+        }
+        return;
+      }
 
-        log("PatientApproved", id, "at block", ev.blockNumber);
-        processed.add(id);
+      if (!providerId) {
+        const message = "providerId not found in config";
+        warn(`${message}; skip id=`, id);
+        await jobQueue.transition(id, "failed", { lastError: message });
+        copyEvents.fail(id, message);
+        return;
+      }
 
+      // Never fall back to the whole patient when the committed scope cannot be resolved
+      const scopeResolution = resolveRequestScope(scopeStore, req);
+      if (!scopeResolution.ok) {
+        warn(`${scopeResolution.message}; skip id=`, id);
+        await jobQueue.transition(id, "failed", { providerId, patientAddress: patientAddr, patientId, lastError: scopeResolution.message });
+        copyEvents.fail(id, scopeResolution.message);
+        return;
+      }
+      const scope = scopeResolution.scope;
+
+      if (job.fulfillTxHash) {
+        // A previous run dispatched markFulfilled before stopping; wait for it rather than signing again
         try {
-          const { req, providerId } = await getRequestAndProviderId(contract, id, cfg, clinicStore);
-          const patientAddr = req.patient as string;
-          const patientId = resolvePatientId(aliasStore, patientAddr);
+          await waitForFulfilledStatus(id);
+          await jobQueue.transition(id, "fulfilled", { providerId, patientAddress: patientAddr, patientId });
+          copyEvents.update(id, {
+            status: job.failed.length ? "partial" : "completed",
+            success: job.uploaded.length,
+            failed: job.failed.length,
+            manifestHash: job.manifestHash,
+          });
+          return;
+        } catch (waitErr: any) {
+          warn(`previous markFulfilled for id=${id} was not observed; copying again:`, waitErr?.message || waitErr);
+        }
+      }
 
-          copyEvents.start({ requestId: id, providerId, patientAddress: patientAddr, patientId });
+      let manifestHash: string;
+      let outcomeStatus: CopyEventStatus = "completed";
+      let outcomeSuccess = 0;
+      let outcomeFailed = 0;
+      const failedRefs: CopyJobInstance[] = [];
+
+      if (copyMode === "providerPush") {
+        providerPush.expect({
+          requestId: id,
+          providerId,
+          patientAddress: patientAddr,
+          patientId,
+        });
+        await jobQueue.update(id, { providerId, patientAddress: patientAddr, patientId });
+        copyEvents.update(id, { status: "pending", total: 0, success: 0, failed: 0 });
+        log(`waiting for provider push id=${id} (clinic=${providerId})`);
+        return;
+      }
 
-          if (!providerId) {
-            const message = "providerId not found in config";
-            warn(`${message}; skip id=`, id);
-            copyEvents.fail(id, message);
-            continue;
-          }
+      await jobQueue.transition(id, "copying", { providerId, patientAddress: patientAddr, patientId, failed: [] });
 
-          let manifestHash: string;
-          let outcomeStatus: CopyEventStatus = "completed";
-          let outcomeSuccess = 0;
-          let outcomeFailed = 0;
-
-          if (copyMode === "providerPush") {
-            pendingPush.set(id, {
-              requestId: id,
-              providerId,
-              patientAddress: patientAddr,
-              patientId,
-            });
-            copyEvents.update(id, { status: "pending", total: 0, success: 0, failed: 0 });
-            log(`waiting for provider push id=${id} (clinic=${providerId})`);
-            continue;
-          }
+      if (copyMode === "orthanc") {
+        // Priority: Dynamic Store -> Static Config
+        let pCfg: { qido: HttpEndpoint; wado: HttpEndpoint } | undefined = clinicStore.get(providerId);
+        if (!pCfg) {
+          pCfg = cfg.providers?.[providerId];
+        }
 
-          if (copyMode === "orthanc") {
-            // Priority: Dynamic Store -> Static Config
-            let pCfg: { qido: HttpEndpoint; wado: HttpEndpoint } | undefined = clinicStore.get(providerId);
-            if (!pCfg) {
-              pCfg = cfg.providers?.[providerId];
-            }
+        const rCfg = cfg.requester?.orthanc;
+        if (!pCfg || !rCfg) {
+          const message = "providers/requester config missing; fallback to dryRun";
+          warn(`${message} for id=`, id);
+          copyEvents.update(id, { status: "error", error: message });
+          manifestHash = keccak256(toUtf8Bytes("dummy-manifest"));
+          outcomeStatus = "error";
+        } else {
+          copyEvents.update(id, { status: "copying" });
+          const instances = await qidoFindInstances(pCfg.qido, patientId, scope);
+          copyEvents.update(id, { total: instances.length });
+          log(
+            `QIDO ${providerId}: found ${instances.length} instances for PatientID=${patientId}${scope ? " (scoped)" : ""}`
+          );
+
+          const alreadyUploaded = new Set(job.uploaded.map((u) => u.sop));
+          const success: string[] = instances.filter((u) => alreadyUploaded.has(u.sop)).map((u) => u.sop);
+          const remaining = instances.filter((u) => !alreadyUploaded.has(u.sop));
+          const failed: string[] = [];
+          const batchSize = cfg.copy?.batchSize ?? 32;
+          const attempts = cfg.copy?.maxRetries ?? 3;
+          const backoffMs = cfg.copy?.backoffMs ?? 1000;
+          if (success.length) {
+            log(`resume id=${id}: ${success.length}/${instances.length} instances already uploaded`);
+          }
 
-            const rCfg = cfg.requester?.orthanc;
-            if (!pCfg || !rCfg) {
-              const message = "providers/requester config missing; fallback to dryRun";
-              warn(`${message} for id=`, id);
-              copyEvents.update(id, { status: "error", error: message });
-              manifestHash = keccak256(toUtf8Bytes("dummy-manifest"));
-              outcomeStatus = "error";
-            } else {
-              copyEvents.update(id, { status: "copying" });
-              const instances = await qidoFindInstances(pCfg.qido, patientId);
-              copyEvents.update(id, { total: instances.length });
-              log(`QIDO ${providerId}: found ${instances.length} instances for PatientID=${patientId}`);
-
-              const success: string[] = [];
-              const failed: string[] = [];
-              const batchSize = cfg.copy?.batchSize ?? 32;
-              const attempts = cfg.copy?.maxRetries ?? 3;
-              const backoffMs = cfg.copy?.backoffMs ?? 1000;
-
-              for (let i = 0; i < instances.length; i++) {
-                const u = instances[i];
+          const meter = new TransferMeter();
+          let checkpoint: CopyJobInstance[] = [];
+          let processedCount = 0;
+          await Promise.all(
+            remaining.map((u) =>
+              transferPool.run(providerId, async () => {
+                if (abort.signal.aborted) return;
                 try {
-                  const bin = await performWithRetry(
-                    () => fetchInstanceWithFallback(pCfg, u),
-                    { attempts, backoffMs, label: `fetch ${u.sop}` }
-                  );
-                  await performWithRetry(
-                    () => uploadToOrthanc(rCfg, bin),
-                    { attempts, backoffMs, label: `upload ${u.sop}` }
+                  const result = await performWithRetry(
+                    () => transferInstance(pCfg, rCfg, u),
+                    { attempts, backoffMs, label: `transfer ${u.sop}` }
                   );
+                  meter.add(result.bytes);
                   success.push(u.sop);
+                  checkpoint.push({ ...u, sha256: result.sha256 });
                 } catch (copyErr) {
                   failed.push(u.sop);
+                  failedRefs.push({ sop: u.sop, study: u.study, series: u.series });
                   const msg = (copyErr as any)?.message || formatAxiosError(copyErr);
                   warn(`copy failed for ${u.sop}:`, msg);
                   copyEvents.recordFailure(id, { sop: u.sop, message: msg });
                 }
 
-                const processedCount = i + 1;
+                processedCount++;
                 const interimStatus: CopyEventStatus = failed.length ? "partial" : "copying";
                 copyEvents.update(id, {
                   success: success.length,
                   failed: failed.length,
                   status: interimStatus,
+                  throughput: meter.snapshot(),
                 });
-                if (processedCount % batchSize === 0 || processedCount === instances.length) {
+                if (processedCount % batchSize === 0 || processedCount === remaining.length) {
+                  // Orthanc ignores re-stored instances, so checkpointing per batch loses at most one batch of work
+                  const batch = checkpoint;
+                  checkpoint = [];
+                  await jobQueue.recordUploaded(id, batch);
+                  const rate = meter.snapshot();
                   log(
-                    `progress id=${id}: processed ${processedCount}/${instances.length} (success=${success.length}, failed=${failed.length})`
+                    `progress id=${id}: processed ${success.length + failed.length}/${instances.length} (success=${success.length}, failed=${failed.length}, ${rate.instancesPerSec} inst/s, ${rate.bytesPerSec} B/s)`
                   );
+                  // a long copy re-checks its approval once per batch and stops if a reorg removed it
+                  if (processedCount < remaining.length && !abort.signal.aborted) await verifyApproval(id);
                 }
-              }
-
-              if (failed.length) {
-                warn(`partial success for id=${id}; failed SOPs=${failed.length}`);
-              }
-
-              manifestHash = buildManifestHash(success, failed);
-              outcomeStatus = failed.length ? "partial" : "completed";
-              outcomeSuccess = success.length;
-              outcomeFailed = failed.length;
-              copyEvents.update(id, {
-                success: outcomeSuccess,
-                failed: outcomeFailed,
-                status: outcomeStatus,
-                manifestHash,
-              });
-            }
-          } else {
-            manifestHash = keccak256(toUtf8Bytes("dry-run"));
-            outcomeStatus = "completed";
-            copyEvents.update(id, { status: outcomeStatus, manifestHash });
+              })
+            )
+          );
+
+          if (abort.signal.aborted) {
+            log(`copy of id=${id} stopped after ${success.length}/${instances.length} instances: approval was reorganized away`);
+            return;
           }
 
-          try {
-            await requestMarkFulfilled(providerId, {
-              requestId: id,
-              manifestHash,
-              patientAddress: patientAddr,
-              patientId,
-              success: outcomeSuccess,
-              failed: outcomeFailed,
-            });
-            copyEvents.update(id, {
-              status: outcomeStatus,
-              success: outcomeSuccess,
-              failed: outcomeFailed,
-              manifestHash,
-            });
-          } catch (signErr: any) {
-            const message = signErr?.message || String(signErr);
-            err("markFulfilled via signer failed for id=", id, message);
-            copyEvents.fail(id, message);
+          if (failed.length) {
+            warn(`partial success for id=${id}; failed SOPs=${failed.length}`);
           }
-        } catch (e: any) {
-          const message = e?.reason || e?.message || String(e);
-          err("fulfill failed for id=", id, ":", message);
+
+          // job.uploaded also carries the content hashes of instances copied before a restart
+          const successSet = new Set(success);
+          const manifest = buildManifest({
+            requestId: id,
+            providerId,
+            instances: (jobQueue.get(id)?.uploaded ?? []).filter((u) => successSet.has(u.sop)),
+            failed: failedRefs,
+            startedAt: copyEvents.get(id)?.startedAt,
+          });
+          await manifestStore.save(manifest);
+          manifestHash = manifest.manifestHash;
+          outcomeStatus = failed.length ? "partial" : "completed";
+          outcomeSuccess = success.length;
+          outcomeFailed = failed.length;
+          copyEvents.update(id, {
+            success: outcomeSuccess,
+            failed: outcomeFailed,
+            status: outcomeStatus,
+            manifestHash,
+          });
+        }
+      } else {
+        manifestHash = keccak256(toUtf8Bytes("dry-run"));
+        outcomeStatus = "completed";
+        copyEvents.update(id, { status: outcomeStatus, manifestHash });
+      }
+
+      await jobQueue.update(id, { failed: failedRefs, manifestHash });
+
+      // markFulfilled pays the provider; never sign it for an approval that is no longer on the chain
+      if (!(await verifyApproval(id))) return;
+
+      // The request may have been fulfilled, canceled or expired while copying
+      const latest = await contract.reqs(id);
+      const latestStatus = Number(latest?.status ?? 0);
+      if (latestStatus !== 1) {
+        const message = `request is ${STATUS_LABELS[latestStatus] ?? latestStatus} on-chain; markFulfilled skipped`;
+        warn(`${message} id=`, id);
+        if (latestStatus === 2) {
+          await jobQueue.transition(id, "fulfilled");
+        } else {
+          await jobQueue.transition(id, "failed", { lastError: message });
           copyEvents.fail(id, message);
         }
+        return;
+      }
+
+      try {
+        await requestMarkFulfilled(providerId, {
+          requestId: id,
+          manifestHash,
+          patientAddress: patientAddr,
+          patientId,
+          success: outcomeSuccess,
+          failed: outcomeFailed,
+        });
+        await jobQueue.transition(id, "fulfilled");
+        copyEvents.update(id, {
+          status: outcomeStatus,
+          success: outcomeSuccess,
+          failed: outcomeFailed,
+          manifestHash,
+        });
+      } catch (signErr: any) {
+        const message = signErr?.message || String(signErr);
+        err("markFulfilled via signer failed for id=", id, message);
+        await jobQueue.transition(id, "failed", { lastError: message });
+        copyEvents.fail(id, message);
+      }
+    } catch (e: any) {
+      const message = e?.reason || e?.message || String(e);
+      err("fulfill failed for id=", id, ":", message);
+      copyEvents.fail(id, message);
+      try {
+        await jobQueue.transition(id, "failed", { lastError: message });
+      } catch (queueErr) {
+        err("job queue update failed for id=", id, queueErr);
+      }
+    } finally {
+      activeCopies.delete(id);
+      copyAborts.delete(id);
+    }
+  }
+
+  const copyRetry = new CopyRetryService({
+    contract: { reqs: (requestId) => contract.reqs(requestId) },
+    jobQueue,
+    copyEvents,
+    manifests: manifestStore,
+    transferPool,
+    activeCopies,
+    isPushPending: (requestId) => providerPush.isPending(requestId),
+    transferFor: (providerId) => {
+      const pCfg = clinicStore.get(providerId) ?? cfg.providers?.[providerId];
+      const rCfg = cfg.requester?.orthanc;
+      if (!pCfg || !rCfg) return undefined;
+      const source = { wado: pCfg.wado, rest: cfg.providers?.[providerId]?.rest };
+      return (instance) =>
+        performWithRetry(() => transferInstance(source, rCfg, instance), {
+          attempts: cfg.copy?.maxRetries ?? 3,
+          backoffMs: cfg.copy?.backoffMs ?? 1000,
+          label: `retry transfer ${instance.sop}`,
+        });
+    },
+    requesterClinicId: (reqData) => clinicIdForKey(reqData?.requesterClinicKey, cfg.clinics, clinicStore),
+    markFulfilled: requestMarkFulfilled,
+    log,
+    warn,
+  });
+
+  const requesterAxios = cfg.requester?.orthanc ? makeAxios(cfg.requester.orthanc) : null;
+  startApiServer(aliasStore, {
+    api: cfg.api,
+    contract,
+    requesterAxios,
+    clinics: cfg.clinics ?? {},
+    audit: auditLogger,
+    copyEvents,
+    requesterAuth: cfg.requester?.orthanc?.auth?.type === "basic" ? cfg.requester.orthanc.auth : null,
+    providerPush: copyMode === "providerPush" ? providerPush : undefined,
+    retryCopy: (requestId) => copyRetry.retry(requestId),
+    scopes: scopeStore,
+    jobQueue,
+    manifests: manifestStore,
+    chainIndex,
+    patientPortal: cfg.patientPortal,
+    siwe,
+    auth: authInstance,
+    routePolicy,
+    clinicStore,
+  });
+
+  const pollMs = 5000;
+  let polling = false;
+
+  async function poll() {
+    // A tick can outlast pollMs while scanning; never run two ticks side by side
+    if (polling) return;
+    polling = true;
+    try {
+      await rewindOnReorg();
+      // Only blocks with enough confirmations are scanned, so a shallow reorg never reaches the queue
+      const toBlock = (await rpcProvider.getBlockNumber()) - confirmations;
+      if (toBlock > fromBlock) {
+        const events = await contract.queryFilter(contract.filters.PatientApproved(), fromBlock + 1, toBlock);
+
+        for (const ev of events) {
+          const args = (typeof ev === "object" && ev !== null && "args" in ev) ? (ev as any).args : null;
+          const idBig = args?.id ?? args?.[0];
+          const id = Number(idBig);
+          if (!Number.isFinite(id)) continue;
+          if (await jobQueue.enqueue(id, ev.blockNumber, { hash: ev.blockHash, txHash: ev.transactionHash })) {
+            log("PatientApproved", id, "at block", ev.blockNumber);
+          }
+        }
+
+        // Jobs are on disk before the cursor moves, so a crash here never drops an approval
+        await jobQueue.setCursor(toBlock, await approvalSource.getBlockHash(toBlock));
+        fromBlock = toBlock;
       }
 
-      fromBlock = toBlock;
+      for (const queued of jobQueue.list(["pending", "copying"])) {
+        if (activeCopies.has(queued.requestId)) continue;
+        // Waiting pushes are checked too, so a push for a vanished approval is no longer accepted
+        if (!(await verifyApproval(queued.requestId))) continue;
+        const job = jobQueue.get(queued.requestId)!;
+        // a re-mined approval can land in a block that is not deep enough yet
+        if (job.blockNumber > fromBlock || providerPush.isPending(job.requestId)) continue;
+        // Not awaited: jobs copy side by side and transferPool arbitrates their instances, so one large study
+        // holds neither the other providers nor the next tick. runCopyJob marks the job active before it awaits.
+        runCopyJob(job).catch((e) => err("copy job crashed for id=", job.requestId, e));
+      }
     } catch (e) {
       err("poll error:", e);
+    } finally {
+      polling = false;
     }
-  }, pollMs);
+  }
+
+  poll();
+  setInterval(poll, pollMs);
 }
 
 main().catch((e) => {
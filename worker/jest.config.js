@@ -5,6 +5,10 @@ export default {
     testMatch: ['**/*.test.ts'],
     moduleFileExtensions: ['ts', 'js', 'json'],
     extensionsToTreatAsEsm: ['.ts'],
+    // sources import each other with NodeNext-style `.js` suffixes
+    moduleNameMapper: {
+        '^(\\.{1,2}/.*)\\.js$': '$1',
+    },
     transform: {
         '^.+\\.ts$': ['ts-jest', { useESM: true }],
     },
@@ -0,0 +1,274 @@
+import { mkdir, readdir } from "node:fs/promises";
+import { basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { JsonFile } from "./json-file.js";
+import type { ApprovalRef, BlockRef } from "./reorg-guard.js";
+
+/** "orphaned": the PatientApproved event that created the job was removed by a chain reorganization. */
+export type CopyJobState = "pending" | "copying" | "fulfilled" | "failed" | "orphaned";
+
+export type CopyJobInstance = {
+  sop: string;
+  study?: string;
+  series?: string;
+  /** sha256 of the transferred file, recorded for the manifest. */
+  sha256?: string;
+};
+
+export type CopyJob = {
+  requestId: number;
+  blockNumber: number;
+  /** Block and transaction of the PatientApproved event, re-checked after a chain reorganization. */
+  blockHash: string;
+  txHash: string;
+  state: CopyJobState;
+  providerId?: string;
+  patientAddress?: string;
+  patientId?: string;
+  /** Instances already stored on the requester Orthanc (resume point and manifest source). */
+  uploaded: CopyJobInstance[];
+  /** StudyInstanceUIDs of the uploaded instances; the /secure gateway only serves these studies. */
+  studies: string[];
+  failed: CopyJobInstance[];
+  manifestHash?: string;
+  fulfillTxHash?: string;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CopyJobPatch = Partial<
+  Pick<
+    CopyJob,
+    | "blockNumber"
+    | "blockHash"
+    | "txHash"
+    | "providerId"
+    | "patientAddress"
+    | "patientId"
+    | "failed"
+    | "manifestHash"
+    | "fulfillTxHash"
+    | "attempts"
+    | "lastError"
+  >
+>;
+
+export type JobQueueCfg = {
+  /** The scan cursor and recent block hashes. */
+  file?: string;
+  /** One JSON file per job; defaults to a directory named after `file`, next to it. */
+  jobsDir?: string;
+  /** How many scanned block hashes are kept to find the fork point after a reorg. */
+  reorgWindow?: number;
+};
+
+type QueueFile = {
+  version: 1;
+  cursor: number | null;
+  /** Hashes of recently scanned tips, ascending; the last one is the cursor block. */
+  blocks?: BlockRef[];
+};
+
+const DEFAULT_REORG_WINDOW = 64;
+
+/**
+ * Durable state of the PatientApproved poller: the last fully scanned block and one job per requestId.
+ * Every mutation is written through to disk (tmp file + rename) so a restart resumes where it stopped. Each
+ * job has a file of its own, so a checkpoint rewrites that job only, however many jobs have finished before.
+ */
+export class JobQueue {
+  private cursor: number | null;
+  private blocks: BlockRef[];
+  private readonly jobs = new Map<number, CopyJob>();
+  private readonly jobFiles = new Map<number, JsonFile<CopyJob>>();
+
+  private constructor(
+    private readonly file: JsonFile<QueueFile>,
+    private readonly jobsDirUrl: URL,
+    readonly reorgWindow: number,
+    initial: QueueFile
+  ) {
+    this.cursor = typeof initial.cursor === "number" ? initial.cursor : null;
+    this.blocks = Array.isArray(initial.blocks) ? initial.blocks : [];
+  }
+
+  static async init(cfg?: JobQueueCfg): Promise<JobQueue> {
+    const fileUrl = cfg?.file ? new URL(cfg.file, import.meta.url) : new URL("./data/copy-jobs.json", import.meta.url);
+    const jobsDirUrl = cfg?.jobsDir
+      ? new URL(cfg.jobsDir.endsWith("/") ? cfg.jobsDir : `${cfg.jobsDir}/`, import.meta.url)
+      : new URL(`./${basename(fileURLToPath(fileUrl), ".json")}/`, fileUrl);
+    const file = new JsonFile<QueueFile>(fileUrl, { label: "copy job queue" });
+    const persisted = (await file.load()) ?? { version: 1, cursor: null };
+    const queue = new JobQueue(file, jobsDirUrl, Math.max(1, cfg?.reorgWindow ?? DEFAULT_REORG_WINDOW), persisted);
+    await queue.loadJobs();
+    return queue;
+  }
+
+  getCursor(): number | null {
+    return this.cursor;
+  }
+
+  /** Recently scanned tips with their hashes, newest last. */
+  recentBlocks(): BlockRef[] {
+    return this.blocks.map((block) => ({ ...block }));
+  }
+
+  async setCursor(blockNumber: number, blockHash?: string | null) {
+    if (this.cursor !== null && blockNumber <= this.cursor) return;
+    this.cursor = blockNumber;
+    if (blockHash) {
+      this.blocks.push({ number: blockNumber, hash: blockHash.toLowerCase() });
+      this.blocks = this.blocks.slice(-this.reorgWindow);
+    }
+    await this.persistCursor();
+  }
+
+  /** Moves the cursor back to the fork point of a reorg so the replaced range is scanned again. */
+  async rewindCursor(blockNumber: number) {
+    if (this.cursor !== null && blockNumber >= this.cursor) return;
+    this.cursor = blockNumber;
+    this.blocks = this.blocks.filter((block) => block.number <= blockNumber);
+    await this.persistCursor();
+  }
+
+  has(requestId: number): boolean {
+    return this.jobs.has(requestId);
+  }
+
+  get(requestId: number): CopyJob | undefined {
+    const job = this.jobs.get(requestId);
+    return job ? this.clone(job) : undefined;
+  }
+
+  list(states?: CopyJobState[]): CopyJob[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => !states?.length || states.includes(job.state))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.requestId - b.requestId)
+      .map((job) => this.clone(job));
+  }
+
+  /**
+   * Adds a job for a newly observed approval. Returns false when the request is already known, unless its
+   * job was orphaned by a reorg and the approval has now been mined again.
+   */
+  async enqueue(requestId: number, blockNumber: number, approval: Omit<ApprovalRef, "number">): Promise<boolean> {
+    const existing = this.jobs.get(requestId);
+    if (existing && existing.state !== "orphaned") return false;
+    const now = new Date().toISOString();
+    if (existing) {
+      Object.assign(existing, { blockNumber, blockHash: approval.hash.toLowerCase(), txHash: approval.txHash, state: "pending", updatedAt: now });
+      delete existing.lastError;
+      await this.persistJob(existing);
+      return true;
+    }
+    const job: CopyJob = {
+      requestId,
+      blockNumber,
+      blockHash: approval.hash.toLowerCase(),
+      txHash: approval.txHash,
+      state: "pending",
+      uploaded: [],
+      studies: [],
+      failed: [],
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(requestId, job);
+    await this.persistJob(job);
+    return true;
+  }
+
+  async transition(requestId: number, state: CopyJobState, patch: CopyJobPatch = {}): Promise<CopyJob> {
+    const job = this.require(requestId);
+    if (job.state === "fulfilled" && state !== "fulfilled") {
+      throw new Error(`job ${requestId} is already fulfilled`);
+    }
+    Object.assign(job, patch);
+    if (state === "copying" && job.state !== "copying") {
+      job.attempts += 1;
+    }
+    job.state = state;
+    job.updatedAt = new Date().toISOString();
+    await this.persistJob(job);
+    return this.clone(job);
+  }
+
+  async update(requestId: number, patch: CopyJobPatch): Promise<CopyJob> {
+    const job = this.require(requestId);
+    Object.assign(job, patch);
+    job.updatedAt = new Date().toISOString();
+    await this.persistJob(job);
+    return this.clone(job);
+  }
+
+  /** Records a checkpoint of instances that reached the requester Orthanc. */
+  async recordUploaded(requestId: number, instances: CopyJobInstance[]) {
+    if (!instances.length) return;
+    const job = this.require(requestId);
+    const known = new Map(job.uploaded.map((u) => [u.sop, u]));
+    const studies = new Set(job.studies);
+    for (const instance of instances) {
+      const { sop, study } = instance;
+      const existing = known.get(sop);
+      if (!existing) {
+        const entry = { ...instance };
+        known.set(sop, entry);
+        job.uploaded.push(entry);
+      } else if (instance.sha256) {
+        existing.sha256 = instance.sha256;
+      }
+      if (study && !studies.has(study)) {
+        studies.add(study);
+        job.studies.push(study);
+      }
+    }
+    job.updatedAt = new Date().toISOString();
+    await this.persistJob(job);
+  }
+
+  private require(requestId: number): CopyJob {
+    const job = this.jobs.get(requestId);
+    if (!job) throw new Error(`job ${requestId} not found`);
+    return job;
+  }
+
+  private clone(job: CopyJob): CopyJob {
+    return {
+      ...job,
+      uploaded: job.uploaded.map((u) => ({ ...u })),
+      studies: [...job.studies],
+      failed: job.failed.map((f) => ({ ...f })),
+    };
+  }
+
+  private async loadJobs() {
+    const dir = fileURLToPath(this.jobsDirUrl);
+    await mkdir(dir, { recursive: true });
+    for (const name of await readdir(dir)) {
+      const match = /^(\d+)\.json$/.exec(name);
+      if (!match) continue;
+      const job = await this.jobFile(Number(match[1])).load();
+      if (job) this.jobs.set(job.requestId, job);
+    }
+  }
+
+  private jobFile(requestId: number): JsonFile<CopyJob> {
+    let file = this.jobFiles.get(requestId);
+    if (!file) {
+      file = new JsonFile<CopyJob>(new URL(`${requestId}.json`, this.jobsDirUrl), { label: `copy job ${requestId}` });
+      this.jobFiles.set(requestId, file);
+    }
+    return file;
+  }
+
+  private persistJob(job: CopyJob): Promise<void> {
+    return this.jobFile(job.requestId).write(job);
+  }
+
+  private persistCursor(): Promise<void> {
+    return this.file.write({ version: 1, cursor: this.cursor, blocks: this.blocks });
+  }
+}
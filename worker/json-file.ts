@@ -0,0 +1,45 @@
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+export type JsonFileOptions = {
+  /** Names the store in load errors, e.g. "copy job queue". */
+  label: string;
+  /** Indentation of the written JSON; 0 writes it on one line. Defaults to 2. */
+  indent?: number;
+};
+
+/**
+ * A JSON document that a store rewrites as a whole. Each write goes to a tmp file that is renamed over the
+ * target, and writes run in call order, so a crash leaves either the previous or the new document on disk.
+ */
+export class JsonFile<T> {
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(readonly url: URL, private readonly options: JsonFileOptions) { }
+
+  /** Creates the parent directory and reads the document; undefined when the file does not exist yet. */
+  async load(): Promise<T | undefined> {
+    const path = fileURLToPath(this.url);
+    await mkdir(dirname(path), { recursive: true });
+    try {
+      return JSON.parse(await readFile(path, "utf-8")) as T;
+    } catch (e) {
+      if ((e as { code?: unknown } | null)?.code === "ENOENT") return undefined;
+      const message = e instanceof Error ? e.message : String(e);
+      throw new Error(`${this.options.label} の読み込みに失敗しました (${path}): ${message}`);
+    }
+  }
+
+  /** Serialises `data` right away and writes it once the writes queued before it have finished. */
+  write(data: T): Promise<void> {
+    const json = JSON.stringify(data, null, this.options.indent ?? 2) + "\n";
+    const target = fileURLToPath(this.url);
+    const run = async () => {
+      await writeFile(`${target}.tmp`, json, "utf-8");
+      await rename(`${target}.tmp`, target);
+    };
+    this.writeChain = this.writeChain.then(run, run);
+    return this.writeChain;
+  }
+}
@@ -1,7 +1,197 @@
-import { keccak256, toUtf8Bytes } from "ethers";
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { AbiCoder, ZeroHash, concat, keccak256 } from "ethers";
 
-export function calcManifestHash(uids: string[]): string {
-  const sorted = [...uids].sort();
-  const joined = sorted.join("\n");
-  return keccak256(toUtf8Bytes(joined));
+export type ManifestInstance = {
+  sop: string;
+  series?: string;
+  study?: string;
+  /** sha256 of the DICOM file as stored on the requester Orthanc (0x-prefixed hex). */
+  sha256?: string;
+};
+
+export type ManifestFailure = {
+  sop: string;
+  series?: string;
+  study?: string;
+};
+
+/**
+ * What was transferred for one access request. `manifestHash` is committed on-chain by markFulfilled;
+ * timestamps are informational and not part of the hash.
+ */
+export type ManifestDocument = {
+  /** Merkle root over per-instance leaves. */
+  version: 2;
+  requestId: number;
+  providerId: string;
+  instances: ManifestInstance[];
+  failed: ManifestFailure[];
+  manifestHash: string;
+  startedAt?: string;
+  completedAt: string;
+};
+
+export type ManifestStoreCfg = {
+  dir?: string;
+};
+
+/** Inclusion proof of one manifest entry against the committed root. */
+export type ManifestProof = {
+  requestId: number;
+  sop: string;
+  copied: boolean;
+  entry: ManifestInstance | ManifestFailure;
+  leaf: string;
+  /** Sibling hashes from the leaf up to the root. */
+  proof: string[];
+  root: string;
+};
+
+const bySop = (a: { sop: string }, b: { sop: string }) => (a.sop < b.sop ? -1 : a.sop > b.sop ? 1 : 0);
+
+const LEAF_TYPES = ["uint256", "string", "string", "string", "string", "bytes32", "bool"];
+
+/**
+ * Leaf of one entry: keccak256(keccak256(abi.encode(requestId, providerId, sop, study, series, sha256, copied))).
+ * Failed instances are leaves too (copied = false, sha256 = 0), so the root also commits to what was missing.
+ * The double hash and the sorted-pair tree are the layout OpenZeppelin's MerkleProof.verify expects.
+ */
+export function manifestLeaf(
+  requestId: number,
+  providerId: string,
+  entry: ManifestInstance | ManifestFailure,
+  copied: boolean
+): string {
+  const sha256 = copied ? (entry as ManifestInstance).sha256 ?? ZeroHash : ZeroHash;
+  const encoded = AbiCoder.defaultAbiCoder().encode(LEAF_TYPES, [
+    requestId,
+    providerId,
+    entry.sop,
+    entry.study ?? "",
+    entry.series ?? "",
+    sha256,
+    copied,
+  ]);
+  return keccak256(keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase() ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/** Tree levels from the sorted leaves up to the root; an odd node is carried to the next level unchanged. */
+function merkleLevels(leaves: string[]): string[][] {
+  const levels = [[...leaves].sort()];
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+function manifestLeaves(doc: Pick<ManifestDocument, "requestId" | "providerId" | "instances" | "failed">): string[] {
+  return [
+    ...doc.instances.map((i) => manifestLeaf(doc.requestId, doc.providerId, i, true)),
+    ...doc.failed.map((f) => manifestLeaf(doc.requestId, doc.providerId, f, false)),
+  ];
+}
+
+/** Merkle root over all entries; bytes32(0) when the manifest is empty. */
+export function manifestRoot(doc: Pick<ManifestDocument, "requestId" | "providerId" | "instances" | "failed">): string {
+  const leaves = manifestLeaves(doc);
+  if (!leaves.length) return ZeroHash;
+  const levels = merkleLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+export function verifyManifestProof(leaf: string, proof: string[], root: string): boolean {
+  const computed = proof.reduce((acc, sibling) => hashPair(acc, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
+
+/** Proof for the instance (or failed instance) with the given SOPInstanceUID, or null if it is not listed. */
+export function buildManifestProof(doc: ManifestDocument, sop: string): ManifestProof | null {
+  const instance = doc.instances.find((i) => i.sop === sop);
+  const failure = instance ? undefined : doc.failed.find((f) => f.sop === sop);
+  const entry = instance ?? failure;
+  if (!entry) return null;
+
+  const leaf = manifestLeaf(doc.requestId, doc.providerId, entry, !!instance);
+  const levels = merkleLevels(manifestLeaves(doc));
+  const proof: string[] = [];
+  let index = levels[0].indexOf(leaf);
+  for (const level of levels.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < level.length) proof.push(level[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return { requestId: doc.requestId, sop, copied: !!instance, entry, leaf, proof, root: levels[levels.length - 1][0] };
+}
+
+/**
+ * The value committed on-chain for a document, recomputed from its entries. webapp/src/lib/manifest.ts
+ * implements the same rules; test/manifest.test.ts pins both to the same vectors.
+ */
+export function calcManifestHash(doc: Pick<ManifestDocument, "requestId" | "providerId" | "instances" | "failed">): string {
+  return manifestRoot(doc);
+}
+
+export function buildManifest(input: {
+  requestId: number;
+  providerId: string;
+  instances: ManifestInstance[];
+  failed: ManifestFailure[];
+  startedAt?: string;
+}): ManifestDocument {
+  const instances = input.instances.map((i) => ({ sop: i.sop, series: i.series, study: i.study, sha256: i.sha256 })).sort(bySop);
+  const failed = input.failed.map((f) => ({ sop: f.sop, series: f.series, study: f.study })).sort(bySop);
+  return {
+    version: 2,
+    requestId: input.requestId,
+    providerId: input.providerId,
+    instances,
+    failed,
+    manifestHash: manifestRoot({ requestId: input.requestId, providerId: input.providerId, instances, failed }),
+    startedAt: input.startedAt,
+    completedAt: new Date().toISOString(),
+  };
+}
+
+/** One JSON file per request under `dir`, written before the hash is sent for markFulfilled. */
+export class ManifestStore {
+  private constructor(private readonly dirUrl: URL) { }
+
+  static async init(cfg?: ManifestStoreCfg): Promise<ManifestStore> {
+    const raw = cfg?.dir ?? "./data/manifests/";
+    const dirUrl = new URL(raw.endsWith("/") ? raw : `${raw}/`, import.meta.url);
+    await mkdir(fileURLToPath(dirUrl), { recursive: true });
+    return new ManifestStore(dirUrl);
+  }
+
+  async get(requestId: number): Promise<ManifestDocument | null> {
+    try {
+      return JSON.parse(await readFile(this.fileUrl(requestId), "utf-8"));
+    } catch (e) {
+      if ((e as { code?: unknown } | null)?.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async save(doc: ManifestDocument): Promise<void> {
+    const target = fileURLToPath(this.fileUrl(doc.requestId));
+    await writeFile(`${target}.tmp`, JSON.stringify(doc, null, 2) + "\n", "utf-8");
+    await rename(`${target}.tmp`, target);
+  }
+
+  private fileUrl(requestId: number): URL {
+    if (!Number.isSafeInteger(requestId) || requestId < 0) {
+      throw new Error(`invalid requestId: ${requestId}`);
+    }
+    return new URL(`${requestId}.json`, this.dirUrl);
+  }
 }
@@ -0,0 +1,120 @@
+import type { AuditLogEntry, AuditLogger } from "./audit-logger.js";
+import type { ChainIndex, IndexedRequest } from "./chain-index.js";
+import type { CopyEventStatus, CopyEventStore } from "./copy-event-store.js";
+
+/** Copy outcome as shown to the patient: counts and timing, no SOP lists or error texts. */
+export type PatientCopyReceipt = {
+  status: CopyEventStatus;
+  attempt: number;
+  total: number;
+  success: number;
+  failed: number;
+  manifestHash?: string;
+  startedAt: string;
+  updatedAt: string;
+};
+
+/** One gateway access. Clinic-side identifiers of the patient, client IPs and query strings are left out. */
+export type PatientAccessReceipt = {
+  timestamp: string;
+  /** Token subject of the viewer at the requester clinic. */
+  subject?: string;
+  study?: string;
+  /** "allow", "filter" or "deny" as decided by the gateway; "error" when the request failed before that. */
+  decision: "allow" | "filter" | "deny" | "error";
+  status: number;
+};
+
+export type PatientRequestReceipt = {
+  requestId: number;
+  providerId?: string;
+  consent?: Pick<IndexedRequest, "status" | "statusLabel" | "providerClinicId" | "requesterClinicId" | "mode" | "history">;
+  copy?: PatientCopyReceipt;
+  accessCount: number;
+  /** Newest first, at most `accessLimit` per request. */
+  accesses: PatientAccessReceipt[];
+  lastAccessAt?: string;
+};
+
+export type PatientReceiptSources = {
+  copyEvents: CopyEventStore;
+  audit?: AuditLogger | null;
+  chainIndex?: ChainIndex | null;
+};
+
+const DEFAULT_ACCESS_LIMIT = 50;
+// Matching audit entries read per call, newest first
+const AUDIT_READ_LIMIT = 5000;
+
+function accessReceipt(entry: AuditLogEntry): PatientAccessReceipt {
+  return {
+    timestamp: entry.timestamp,
+    subject: entry.subject,
+    study: entry.boundary?.study,
+    decision: entry.boundary?.decision ?? "error",
+    status: entry.status,
+  };
+}
+
+/**
+ * Per-request receipts for one patient wallet: on-chain consent (when the event index runs), the copy
+ * outcome and the gateway accesses recorded by the audit log. Every source is matched on the wallet address,
+ * so nothing of other patients is read into the result.
+ */
+export async function buildPatientReceipts(
+  address: string,
+  sources: PatientReceiptSources,
+  options: { accessLimit?: number } = {}
+): Promise<PatientRequestReceipt[]> {
+  const wallet = address.toLowerCase();
+  const accessLimit = options.accessLimit ?? DEFAULT_ACCESS_LIMIT;
+  const receipts = new Map<number, PatientRequestReceipt>();
+  const receiptFor = (requestId: number) => {
+    let receipt = receipts.get(requestId);
+    if (!receipt) {
+      receipt = { requestId, accessCount: 0, accesses: [] };
+      receipts.set(requestId, receipt);
+    }
+    return receipt;
+  };
+
+  for (const request of sources.chainIndex?.listRequests({ patient: wallet, limit: 500 }).requests ?? []) {
+    receiptFor(request.id).consent = {
+      status: request.status,
+      statusLabel: request.statusLabel,
+      providerClinicId: request.providerClinicId,
+      requesterClinicId: request.requesterClinicId,
+      mode: request.mode,
+      history: request.history,
+    };
+  }
+
+  for (const event of sources.copyEvents.list({ patient: wallet, limit: 500 }).events) {
+    // `patient` also matches the clinic PatientID; receipts are keyed on the wallet only
+    if (event.patientAddress.toLowerCase() !== wallet) continue;
+    const receipt = receiptFor(event.requestId);
+    receipt.providerId = event.providerId;
+    receipt.copy = {
+      status: event.status,
+      attempt: event.attempt,
+      total: event.total,
+      success: event.success,
+      failed: event.failed,
+      manifestHash: event.manifestHash,
+      startedAt: event.startedAt,
+      updatedAt: event.updatedAt,
+    };
+  }
+
+  const accesses = sources.audit
+    ? await sources.audit.read(AUDIT_READ_LIMIT, (entry) => (entry.patientAddress ?? "").toLowerCase() === wallet)
+    : [];
+  for (const entry of accesses) {
+    const receipt = receiptFor(entry.requestId);
+    receipt.accessCount++;
+    receipt.lastAccessAt ??= entry.timestamp;
+    if (receipt.accesses.length < accessLimit) receipt.accesses.push(accessReceipt(entry));
+  }
+
+  return Array.from(receipts.values()).sort((a, b) => b.requestId - a.requestId);
+}
@@ -1,12 +1,16 @@
+import { createHash, randomBytes } from "node:crypto";
 import { readFile } from "node:fs/promises";
-import axios, { AxiosInstance } from "axios";
-import { Contract, JsonRpcProvider, Wallet, getAddress, keccak256, toUtf8Bytes } from "ethers";
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import { Contract, JsonRpcProvider, Wallet, ZeroHash, getAddress, keccak256, toUtf8Bytes } from "ethers";
 import abi from "./abi/PatientAccess.json" with { type: "json" };
 import {
-  ProviderPushInstance,
+  PushInstanceDigest,
   computeInstancesHash,
-  buildPushMessage,
+  buildPushSessionMessage,
+  buildPushFinalizeMessage,
 } from "./push-utils.js";
+import { computeScopeHash, matchesScope, scopeQueryParams, studyAttributesOf, SCOPE_INCLUDE_FIELDS } from "./scope.js";
+import type { AccessScope } from "./scope.js";
 
 // ===== Types =====
 type BasicAuth = { type: "basic"; username: string; password: string };
@@ -35,12 +39,24 @@ type ProviderAgentConfig = {
   };
   aliasMap?: Record<string, string>;
   ttlSeconds?: number;
+  /** --watch でトリガーを問い合わせる間隔 (既定 15 秒) */
+  watchIntervalSeconds?: number;
+};
+
+/** Headers stay a plain record so that callers can set their own on top of the auth header. */
+type WorkerRequestConfig = AxiosRequestConfig & { headers: Record<string, string> };
+
+/** What the worker answers when a push session is opened or resumed. */
+type PushSessionOpened = {
+  sessionId?: string;
+  received?: { sop: string; sha256: string }[];
 };
 
 type CliArgs = {
   requestId: number;
   patientIdOverride?: string;
   workerUrlOverride?: string;
+  watch?: boolean;
 };
 
 // ===== Helpers =====
@@ -79,6 +95,9 @@ function parseArgs(argv: string[]): CliArgs {
         args.workerUrlOverride = next;
         i++;
         break;
+      case "--watch":
+        args.watch = true;
+        break;
       default:
         if (!token.startsWith("-")) {
           if (!Number.isFinite(args.requestId)) {
@@ -89,8 +108,8 @@ function parseArgs(argv: string[]): CliArgs {
     }
   }
 
-  if (!Number.isFinite(args.requestId)) {
-    throw new Error("--requestId が指定されていません");
+  if (!args.watch && !Number.isFinite(args.requestId)) {
+    throw new Error("--requestId か --watch を指定してください");
   }
 
   return args;
@@ -105,29 +124,72 @@ function makeOrthancClient(endpoint: HttpEndpoint) {
   return makeAxios(endpoint);
 }
 
-async function qidoFindInstances(endpoint: HttpEndpoint & { issuer?: string }, patientId: string) {
+async function qidoFindInstances(
+  endpoint: HttpEndpoint & { issuer?: string },
+  patientId: string,
+  scope: AccessScope | null
+) {
   const client = makeOrthancClient(endpoint);
-  const params: Record<string, string> = {
-    PatientID: patientId,
-    includefield: "00080018,0020000D,0020000E",
-    limit: "5000",
+  const out: { sop: string; study: string; series: string }[] = [];
+  const seen = new Set<string>();
+  for (const extra of scope ? scopeQueryParams(scope) : [{}]) {
+    const params: Record<string, string> = {
+      ...extra,
+      PatientID: patientId,
+      includefield: scope ? `00080018,0020000D,0020000E,${SCOPE_INCLUDE_FIELDS}` : "00080018,0020000D,0020000E",
+      limit: "5000",
+    };
+    if (endpoint.issuer) {
+      params.IssuerOfPatientID = endpoint.issuer;
+    }
+    const res = await client.get("/dicom-web/instances", {
+      params,
+      headers: { Accept: "application/json" },
+    });
+    const arr = Array.isArray(res.data) ? res.data : [];
+    for (const entry of arr) {
+      const sop = entry?.["00080018"]?.Value?.[0];
+      const study = entry?.["0020000D"]?.Value?.[0];
+      const series = entry?.["0020000E"]?.Value?.[0];
+      if (!sop || !study || !series || seen.has(sop)) continue;
+      if (scope && !matchesScope(scope, studyAttributesOf(entry) ?? { study })) continue;
+      seen.add(sop);
+      out.push({ sop, study, series });
+    }
+  }
+  return out;
+}
+
+function workerRequestConfig(config: ProviderAgentConfig, url: string): WorkerRequestConfig {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const requestConfig: WorkerRequestConfig = {
+    url,
+    timeout: 60_000,
+    headers,
   };
-  if (endpoint.issuer) {
-    params.IssuerOfPatientID = endpoint.issuer;
+  if (config.workerAuth?.type === "bearer") {
+    headers.Authorization = `Bearer ${config.workerAuth.token}`;
+  } else if (config.workerAuth?.type === "basic") {
+    requestConfig.auth = {
+      username: config.workerAuth.username,
+      password: config.workerAuth.password,
+    };
   }
-  const res = await client.get("/dicom-web/instances", {
-    params,
-    headers: { Accept: "application/json" },
+  return requestConfig;
+}
+
+/** Fetches the scope document from the worker and checks it against the hash committed on-chain. */
+async function loadScope(config: ProviderAgentConfig, workerUrl: string, scopeHash: string): Promise<AccessScope | null> {
+  if (!scopeHash || scopeHash === ZeroHash) return null;
+  const res = await axios.request({
+    ...workerRequestConfig(config, new URL(`/scopes/${scopeHash}`, workerUrl).toString()),
+    method: "GET",
   });
-  const arr = Array.isArray(res.data) ? res.data : [];
-  const out: { sop: string; study: string; series: string }[] = [];
-  for (const entry of arr) {
-    const sop = entry?.["00080018"]?.Value?.[0];
-    const study = entry?.["0020000D"]?.Value?.[0];
-    const series = entry?.["0020000E"]?.Value?.[0];
-    if (sop && study && series) out.push({ sop, study, series });
+  const scope = res.data?.scope as AccessScope | undefined;
+  if (!scope || computeScopeHash(scope).toLowerCase() !== scopeHash.toLowerCase()) {
+    throw new Error(`scope ${scopeHash} の内容がオンチェーンのハッシュと一致しません`);
   }
-  return out;
+  return scope;
 }
 
 async function wadoFetch(endpoint: HttpEndpoint, study: string, series: string, sop: string) {
@@ -209,16 +271,14 @@ async function performWithRetry<T>(fn: () => Promise<T>, label: string, attempts
 }
 
 // ===== Main =====
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const config = await loadConfig();
-
-  const contractAddress = getAddress(config.contractAddress);
-  const rpcProvider = new JsonRpcProvider(config.rpcUrl, config.chainId);
-  const wallet = new Wallet(config.operatorPrivateKey, rpcProvider);
-  const contract = new Contract(contractAddress, (abi as any).abi, rpcProvider);
+type AgentContext = {
+  config: ProviderAgentConfig;
+  args: CliArgs;
+  wallet: Wallet;
+  contract: Contract;
+};
 
-  const requestId = args.requestId;
+async function pushRequest({ config, args, wallet, contract }: AgentContext, requestId: number) {
   const accessRequest = await contract.reqs(requestId);
   if (!accessRequest || Number(accessRequest.id ?? 0) === 0) {
     throw new Error(`requestId ${requestId} が見つかりません`);
@@ -241,7 +301,8 @@ async function main() {
     throw new Error("access request に patient が含まれていません");
   }
 
-  const patientId = resolvePatientId(patientAddress, config.aliasMap, args.patientIdOverride);
+  // --patientId names the patient of a single run; in watch mode every request resolves its own
+  const patientId = resolvePatientId(patientAddress, config.aliasMap, args.watch ? undefined : args.patientIdOverride);
   if (!patientId) {
     throw new Error("患者IDを特定できませんでした (--patientId で明示してください)");
   }
@@ -249,74 +310,140 @@ async function main() {
   console.log(`[push-agent] requestId=${requestId}`);
   console.log(`[push-agent] patientId=${patientId}`);
 
-  const instances = await qidoFindInstances(config.provider.qido, patientId);
+  const workerUrl = args.workerUrlOverride ?? config.workerUrl;
+  const scope = await loadScope(config, workerUrl, String(accessRequest.scopeHash ?? ZeroHash));
+  if (scope) {
+    console.log(`[push-agent] scope=${JSON.stringify(scope)}`);
+  }
+
+  const instances = await qidoFindInstances(config.provider.qido, patientId, scope);
   console.log(`[push-agent] QIDO found ${instances.length} instances`);
 
-  const pushInstances: ProviderPushInstance[] = [];
+  // 1) open (or resume) a push session
+  const sessionsUrl = new URL("/provider-push/sessions", workerUrl).toString();
+  const expiresAt = Math.floor(Date.now() / 1000) + (config.ttlSeconds ?? 300);
+  // the worker accepts each nonce once, so every run signs a fresh one
+  const nonce = randomBytes(16).toString("hex");
+  const openSignature = await wallet.signMessage(buildPushSessionMessage(config.clinicId, requestId, expiresAt, nonce));
+  const opened = await axios.request<PushSessionOpened>({
+    ...workerRequestConfig(config, sessionsUrl),
+    method: "POST",
+    data: { clinicId: config.clinicId, requestId, expiresAt, nonce, total: instances.length, signature: openSignature },
+  });
+  const sessionId = String(opened.data?.sessionId ?? "");
+  if (!sessionId) {
+    throw new Error(`worker did not return a sessionId: ${JSON.stringify(opened.data)}`);
+  }
+  const alreadyReceived = new Map<string, string>(
+    (Array.isArray(opened.data?.received) ? opened.data.received : []).map((r) => [String(r.sop), String(r.sha256)])
+  );
+  console.log(
+    `[push-agent] session=${sessionId} (${opened.status === 200 ? `resumed, ${alreadyReceived.size} already received` : "new"})`
+  );
+
+  // 2) upload instances one by one; each request carries a single DICOM file
+  const sessionUrl = `${sessionsUrl}/${sessionId}`;
+  const digests: PushInstanceDigest[] = [];
   let successCount = 0;
   let failureCount = 0;
 
   for (const entry of instances) {
-    let base64 = "";
+    const received = alreadyReceived.get(entry.sop);
+    if (received) {
+      digests.push({ sop: entry.sop, study: entry.study, series: entry.series, sha256: received });
+      successCount += 1;
+      continue;
+    }
+
+    let buffer: Buffer;
     try {
-      const buffer = await performWithRetry(
+      buffer = await performWithRetry(
         () => fetchWithFallback(config.provider, entry),
         `fetch ${entry.sop}`
       );
-      base64 = Buffer.from(buffer).toString("base64");
-      successCount += 1;
-    } catch (e: any) {
-      const message = e?.message || String(e);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
       console.warn(`[push-agent] fetch failed for ${entry.sop}: ${message}`);
+      digests.push({ sop: entry.sop, study: entry.study, series: entry.series });
       failureCount += 1;
+      continue;
     }
-    pushInstances.push({
-      sop: entry.sop,
-      study: entry.study,
-      series: entry.series,
-      data: base64,
-    });
+
+    const sha256 = `0x${createHash("sha256").update(buffer).digest("hex")}`;
+    const query = new URLSearchParams({ study: entry.study, series: entry.series });
+    const uploadUrl = `${sessionUrl}/instances/${encodeURIComponent(entry.sop)}?${query}`;
+    const uploadConfig = workerRequestConfig(config, uploadUrl);
+    uploadConfig.headers["Content-Type"] = "application/dicom";
+    uploadConfig.headers["X-Content-SHA256"] = sha256;
+    // an upload that keeps failing aborts the run; rerunning the agent resumes the session
+    await performWithRetry(
+      () => axios.request({ ...uploadConfig, method: "PUT", data: buffer, maxBodyLength: Infinity }),
+      `upload ${entry.sop}`
+    );
+    digests.push({ sop: entry.sop, study: entry.study, series: entry.series, sha256 });
+    successCount += 1;
   }
 
-  const expiresAt = Math.floor(Date.now() / 1000) + (config.ttlSeconds ?? 300);
-  const payloadHash = computeInstancesHash(pushInstances);
-  const message = buildPushMessage(config.clinicId, requestId, expiresAt, payloadHash);
-  const signature = await wallet.signMessage(message);
+  // 3) finalize with a signature over the complete instance list
+  const payloadHash = computeInstancesHash(digests);
+  const finalizeSignature = await wallet.signMessage(
+    buildPushFinalizeMessage(config.clinicId, requestId, sessionId, payloadHash)
+  );
+  console.log(`[push-agent] finalizing session ${sessionId}`);
+  const res = await axios.request({
+    ...workerRequestConfig(config, `${sessionUrl}/finalize`),
+    method: "POST",
+    data: { instances: digests, signature: finalizeSignature },
+  });
 
-  const workerUrl = args.workerUrlOverride ?? config.workerUrl;
-  const endpoint = new URL("/provider-push", workerUrl).toString();
-
-  const payload = {
-    clinicId: config.clinicId,
-    requestId,
-    expiresAt,
-    instances: pushInstances,
-    signature,
-  };
+  console.log(`[push-agent] worker response:`, res.data);
+  console.log(`[push-agent] success=${successCount}, failed=${failureCount}`);
+}
 
-  console.log(`[push-agent] uploading to ${endpoint}`);
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  const requestConfig: any = {
-    url: endpoint,
-    method: "POST",
-    data: payload,
-    timeout: 60_000,
-    headers,
-  };
+/** Worker に溜まった、Web 画面から依頼された push を順に処理し続ける */
+async function watchTriggers(ctx: AgentContext) {
+  const { config, args } = ctx;
+  const workerUrl = args.workerUrlOverride ?? config.workerUrl;
+  const triggersUrl = new URL(`/provider-push/triggers?clinicId=${encodeURIComponent(config.clinicId)}`, workerUrl).toString();
+  const intervalMs = (config.watchIntervalSeconds ?? 15) * 1000;
+  console.log(`[push-agent] watching ${triggersUrl} every ${intervalMs / 1000}s`);
 
-  if (config.workerAuth?.type === "bearer") {
-    headers.Authorization = `Bearer ${config.workerAuth.token}`;
-  } else if (config.workerAuth?.type === "basic") {
-    requestConfig.auth = {
-      username: config.workerAuth.username,
-      password: config.workerAuth.password,
-    };
+  for (;;) {
+    try {
+      const res = await axios.request({ ...workerRequestConfig(config, triggersUrl), method: "GET" });
+      const triggers: { requestId: number; requestedBy?: string }[] = Array.isArray(res.data?.triggers) ? res.data.triggers : [];
+      for (const trigger of triggers) {
+        console.log(`[push-agent] trigger requestId=${trigger.requestId} by ${trigger.requestedBy ?? "-"}`);
+        // one failed request must not stop the agent; the operator can trigger it again
+        await pushRequest(ctx, Number(trigger.requestId)).catch((err) =>
+          console.error(`[push-agent] requestId=${trigger.requestId} failed:`, err?.message || err)
+        );
+      }
+    } catch (err) {
+      console.warn(`[push-agent] trigger poll failed:`, err instanceof Error ? err.message : err);
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
   }
+}
 
-  const res = await axios.request(requestConfig);
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const config = await loadConfig();
 
-  console.log(`[push-agent] worker response:`, res.data);
-  console.log(`[push-agent] success=${successCount}, failed=${failureCount}`);
+  const contractAddress = getAddress(config.contractAddress);
+  const rpcProvider = new JsonRpcProvider(config.rpcUrl, config.chainId);
+  const ctx: AgentContext = {
+    config,
+    args,
+    wallet: new Wallet(config.operatorPrivateKey, rpcProvider),
+    contract: new Contract(contractAddress, (abi as any).abi, rpcProvider),
+  };
+
+  if (args.watch) {
+    await watchTriggers(ctx);
+    return;
+  }
+  await pushRequest(ctx, args.requestId);
 }
 
 main().catch((err) => {
@@ -0,0 +1,826 @@
+import { createHash } from "node:crypto";
+import type { Readable } from "node:stream";
+import { hashMessage, verifyMessage } from "ethers";
+import type { CopyEventStatus, CopyEventStore } from "./copy-event-store.js";
+import type { CopyJobInstance, JobQueue } from "./job-queue.js";
+import { buildManifest } from "./manifest.js";
+import type { ManifestStore } from "./manifest.js";
+import { PUSH_NONCE_RE } from "./push-nonce-ledger.js";
+import type { PushNonceLedger } from "./push-nonce-ledger.js";
+import { PayloadTooLargeError, PushSessionClosedError } from "./push-session.js";
+import type { PushSession, PushSessionStore } from "./push-session.js";
+import {
+  buildPushFinalizeMessage,
+  buildPushMessage,
+  buildPushSessionMessage,
+  computeInstancesHash,
+} from "./push-utils.js";
+import type { ProviderPushEnvelope, PushInstanceDigest } from "./push-utils.js";
+import { resolveRequestScope } from "./scope.js";
+import type { ScopeStore } from "./scope.js";
+import { assertInTenant, inTenant } from "./tenancy.js";
+import type { TenantScope } from "./tenancy.js";
+
+export type PendingPushEntry = {
+  requestId: number;
+  providerId: string;
+  patientAddress: string;
+  patientId: string;
+};
+
+/** An operator's request that the provider agent of the clinic push an approved request now. */
+export type PushTrigger = {
+  requestId: number;
+  providerId: string;
+  requestedAt: string;
+  requestedBy: string;
+  /** Set when an agent picked the trigger up; a new trigger for the request clears it. */
+  claimedAt?: string;
+};
+
+export type PendingPushSummary = {
+  requestId: number;
+  providerId: string;
+  trigger?: PushTrigger;
+};
+
+export type ProviderPushResult = {
+  status: number;
+  body?: Record<string, unknown>;
+  error?: string;
+};
+
+/** Body of `POST /provider-push/sessions`; the route validates its shape, the service the values. */
+export type PushSessionOpenRequest = {
+  clinicId: string;
+  requestId: number;
+  expiresAt: number;
+  nonce: string;
+  total?: number;
+  signature: string;
+};
+
+/** Body of `POST /provider-push/sessions/:sessionId/finalize`. */
+export type PushSessionFinalizeRequest = {
+  instances: PushInstanceDigest[];
+  signature: string;
+};
+
+export type PushInstanceUpload = {
+  sop: string;
+  study?: string;
+  series?: string;
+  sha256: string;
+};
+
+/** A DICOM file to be stored on the requester Orthanc: decoded in memory, or staged on disk. */
+export type PushInstanceSource = { buffer: Buffer } | { file: string; bytes: number };
+
+/** The fields of `PatientAccess.reqs()` a push looks at. */
+export type PushAccessRequest = { status?: unknown; manifestHash?: unknown; scopeHash?: unknown };
+
+export type ProviderPushDeps = {
+  contract: { reqs(requestId: number): Promise<PushAccessRequest | undefined> };
+  jobQueue: JobQueue;
+  copyEvents: CopyEventStore;
+  manifests: ManifestStore;
+  scopes: ScopeStore;
+  sessions: PushSessionStore;
+  nonces: PushNonceLedger;
+  /** Operator address of every provider clinic this worker accepts pushes from. */
+  signers: Record<string, string>;
+  /** Stores one instance on the requester Orthanc, retries included; absent when no requester is configured. */
+  storeInstance?: (source: PushInstanceSource, sop: string) => Promise<void>;
+  markFulfilled: (
+    providerId: string,
+    payload: {
+      requestId: number;
+      manifestHash: string;
+      patientAddress: string;
+      patientId: string;
+      success: number;
+      failed: number;
+    }
+  ) => Promise<unknown>;
+  log?: (...args: unknown[]) => void;
+  warn?: (...args: unknown[]) => void;
+};
+
+// PatientAccess.Status の並び順
+const STATUS_LABELS = ["REQUESTED", "PATIENT_APPROVED", "FULFILLED", "EXPIRED", "CANCELED"];
+
+type PushTarget =
+  | { ok: true; pending: PendingPushEntry; scopedStudies?: string[]; envelopeHash: string }
+  | { ok: false; result: ProviderPushResult };
+
+type SignedPushRequest = {
+  clinicId: string;
+  requestId: number;
+  expiresAt: number;
+  nonce: string;
+  message: string;
+  signature: string;
+};
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Receives instances pushed by provider agents (`copy.mode = "providerPush"`), either as one signed envelope
+ * or through a chunked session, and fulfils the request once they are on the requester Orthanc.
+ */
+export class ProviderPushService {
+  private readonly pending = new Map<number, PendingPushEntry>();
+  private readonly triggers = new Map<number, PushTrigger>();
+  /** Requests an envelope push, a session open or a finalize is working on right now. */
+  private readonly inFlight = new Set<number>();
+  private readonly log: (...args: unknown[]) => void;
+  private readonly warn: (...args: unknown[]) => void;
+
+  constructor(private readonly deps: ProviderPushDeps) {
+    this.log = deps.log ?? console.log;
+    this.warn = deps.warn ?? console.warn;
+  }
+
+  /** Registers an approved request whose instances the provider is expected to push. */
+  expect(entry: PendingPushEntry) {
+    this.pending.set(entry.requestId, { ...entry });
+  }
+
+  isPending(requestId: number): boolean {
+    return this.pending.has(requestId);
+  }
+
+  /**
+   * Stops expecting a push, e.g. when the approval was reorganized away. An open session of the request
+   * stays until it expires; finalizing it fails because the request is no longer approved on-chain.
+   */
+  forget(requestId: number) {
+    this.pending.delete(requestId);
+  }
+
+  /** The requests the worker is waiting on a push for, limited to the providers in the tenant. */
+  listPending(scope: TenantScope): PendingPushSummary[] {
+    return Array.from(this.pending.values())
+      .filter((entry) => inTenant(scope, entry.providerId))
+      .sort((a, b) => b.requestId - a.requestId)
+      .map((entry) => ({ requestId: entry.requestId, providerId: entry.providerId, trigger: this.liveTrigger(entry.requestId) }));
+  }
+
+  /**
+   * Queues a request for the provider agent running in watch mode. Returns undefined when the worker is not
+   * waiting on a push for it, so that a fulfilled or canceled request cannot be pushed again.
+   */
+  trigger(requestId: number, requestedBy: string): PushTrigger | undefined {
+    const entry = this.pending.get(requestId);
+    if (!entry) return undefined;
+    const trigger: PushTrigger = {
+      requestId,
+      providerId: entry.providerId,
+      requestedAt: new Date().toISOString(),
+      requestedBy,
+    };
+    this.triggers.set(requestId, trigger);
+    return trigger;
+  }
+
+  /**
+   * Hands the unclaimed triggers of a clinic to its agent; each trigger is handed out once. The agent's token
+   * must carry the clinic, or one agent could swallow the triggers meant for another clinic.
+   */
+  claimTriggers(scope: TenantScope, clinicId: string): PushTrigger[] {
+    assertInTenant(scope, clinicId, `push triggers of clinic ${clinicId}`);
+    const claimed: PushTrigger[] = [];
+    for (const requestId of Array.from(this.triggers.keys())) {
+      if (!this.liveTrigger(requestId)) continue;
+      const trigger = this.triggers.get(requestId)!;
+      if (trigger.providerId !== clinicId || trigger.claimedAt) continue;
+      trigger.claimedAt = new Date().toISOString();
+      claimed.push({ ...trigger });
+    }
+    return claimed;
+  }
+
+  /** Triggers of requests that are no longer pending are dropped here rather than on every completion path. */
+  private liveTrigger(requestId: number): PushTrigger | undefined {
+    const trigger = this.triggers.get(requestId);
+    if (trigger && !this.pending.has(requestId)) {
+      this.triggers.delete(requestId);
+      return undefined;
+    }
+    return trigger && { ...trigger };
+  }
+
+  async handleProviderPush(envelope: ProviderPushEnvelope): Promise<ProviderPushResult> {
+    if (!envelope || typeof envelope !== "object") {
+      return { status: 400, error: "invalid payload" };
+    }
+
+    const clinicId = String(envelope.clinicId ?? "").trim();
+    const requestId = Number(envelope.requestId);
+    const expiresAt = Number(envelope.expiresAt);
+    const nonce = String(envelope.nonce ?? "");
+
+    if (!clinicId) return { status: 400, error: "clinicId is required" };
+    if (!Number.isSafeInteger(requestId)) return { status: 400, error: "requestId must be numeric" };
+    if (!Number.isFinite(expiresAt)) return { status: 400, error: "expiresAt must be numeric" };
+    if (!PUSH_NONCE_RE.test(nonce)) return { status: 400, error: "nonce must be 16-128 URL-safe characters" };
+    if (!envelope.signature) return { status: 400, error: "signature is required" };
+
+    if (!Array.isArray(envelope.instances) || envelope.instances.length === 0) {
+      return { status: 400, error: "instances must be a non-empty array" };
+    }
+
+    return this.exclusively(requestId, () => this.pushEnvelope(envelope, clinicId, requestId, expiresAt, nonce));
+  }
+
+  private async pushEnvelope(
+    envelope: ProviderPushEnvelope,
+    clinicId: string,
+    requestId: number,
+    expiresAt: number,
+    nonce: string
+  ): Promise<ProviderPushResult> {
+    const payloadHash = computeInstancesHash(envelope.instances);
+    const signed: SignedPushRequest = {
+      clinicId,
+      requestId,
+      expiresAt,
+      nonce,
+      message: buildPushMessage(clinicId, requestId, expiresAt, nonce, payloadHash),
+      signature: String(envelope.signature),
+    };
+    const target = await this.checkPushTarget(signed);
+    if (!target.ok) return target.result;
+    const { pending, scopedStudies } = target;
+
+    if (this.deps.sessions.findActive(requestId, clinicId)) {
+      return { status: 409, error: "a push session is open for this request" };
+    }
+
+    if (scopedStudies) {
+      const outside = envelope.instances.filter((instance) => !instance?.study || !scopedStudies.includes(instance.study));
+      if (outside.length) {
+        return { status: 422, error: `${outside.length} instance(s) are outside the request scope` };
+      }
+    }
+
+    const storeInstance = this.deps.storeInstance;
+    if (!storeInstance) {
+      return { status: 500, error: "requester orthanc config missing" };
+    }
+
+    // only now that nothing can reject the envelope any more is its nonce used up
+    const replay = await this.claimNonce(signed, target.envelopeHash);
+    if (replay) return replay;
+
+    const { copyEvents, jobQueue } = this.deps;
+    const total = envelope.instances.length;
+    copyEvents.update(requestId, { status: "copying", total });
+    await jobQueue.transition(requestId, "copying");
+
+    const uploadedRefs: CopyJobInstance[] = [];
+    const failedRefs: CopyJobInstance[] = [];
+
+    for (const instance of envelope.instances) {
+      const sop = instance?.sop ?? "";
+      if (!sop) {
+        const message = "missing SOPInstanceUID";
+        failedRefs.push({ sop: "(unknown)", study: instance?.study, series: instance?.series });
+        copyEvents.recordFailure(requestId, { sop: "(unknown)", message });
+        copyEvents.update(requestId, {
+          failed: failedRefs.length,
+          success: uploadedRefs.length,
+          status: "partial",
+        });
+        continue;
+      }
+
+      try {
+        if (!instance.data) {
+          throw new Error("instance payload missing base64 data");
+        }
+        const buffer = Buffer.from(instance.data, "base64");
+        if (!buffer.length) {
+          throw new Error("decoded payload empty");
+        }
+
+        await storeInstance({ buffer }, sop);
+        uploadedRefs.push({
+          sop,
+          study: instance.study,
+          series: instance.series,
+          sha256: `0x${createHash("sha256").update(buffer).digest("hex")}`,
+        });
+      } catch (pushErr) {
+        const message = errorMessage(pushErr);
+        failedRefs.push({ sop, study: instance.study, series: instance.series });
+        this.warn(`provider-push upload failed for ${sop}:`, message);
+        copyEvents.recordFailure(requestId, { sop, message });
+      }
+
+      const interimStatus: CopyEventStatus = failedRefs.length ? "partial" : "copying";
+      copyEvents.update(requestId, {
+        failed: failedRefs.length,
+        success: uploadedRefs.length,
+        status: interimStatus,
+      });
+    }
+
+    return this.completePush(pending, uploadedRefs, failedRefs);
+  }
+
+  // ----- chunked push sessions -----
+
+  /** The agent's token must carry the clinic it opens a session for, like for claiming triggers. */
+  async openSession(scope: TenantScope, body: PushSessionOpenRequest): Promise<ProviderPushResult> {
+    const clinicId = String(body?.clinicId ?? "").trim();
+    const requestId = Number(body?.requestId);
+    const expiresAt = Number(body?.expiresAt);
+    const nonce = String(body?.nonce ?? "");
+    const total = body?.total === undefined ? undefined : Number(body.total);
+
+    if (!clinicId) return { status: 400, error: "clinicId is required" };
+    if (!Number.isSafeInteger(requestId)) return { status: 400, error: "requestId must be numeric" };
+    if (!Number.isFinite(expiresAt)) return { status: 400, error: "expiresAt must be numeric" };
+    if (!PUSH_NONCE_RE.test(nonce)) return { status: 400, error: "nonce must be 16-128 URL-safe characters" };
+    if (total !== undefined && (!Number.isSafeInteger(total) || total < 0)) {
+      return { status: 400, error: "total must be a non-negative integer" };
+    }
+    if (!body?.signature) return { status: 400, error: "signature is required" };
+    assertInTenant(scope, clinicId, `push sessions of clinic ${clinicId}`);
+
+    return this.exclusively(requestId, () => this.openClaimedSession(clinicId, requestId, expiresAt, nonce, total, String(body.signature)));
+  }
+
+  private async openClaimedSession(
+    clinicId: string,
+    requestId: number,
+    expiresAt: number,
+    nonce: string,
+    total: number | undefined,
+    signature: string
+  ): Promise<ProviderPushResult> {
+    const { sessions, copyEvents, jobQueue } = this.deps;
+    if (sessions.findFinalized(requestId)) {
+      return { status: 409, error: "a push session was already finalized for this request" };
+    }
+
+    const signed: SignedPushRequest = {
+      clinicId,
+      requestId,
+      expiresAt,
+      nonce,
+      message: buildPushSessionMessage(clinicId, requestId, expiresAt, nonce),
+      signature,
+    };
+    const target = await this.checkPushTarget(signed);
+    if (!target.ok) return target.result;
+
+    const existing = sessions.findActive(requestId, clinicId);
+    if (existing?.state === "finalizing") return { status: 409, error: "push session is being finalized" };
+    const replay = await this.claimNonce(signed, target.envelopeHash);
+    if (replay) return replay;
+    if (existing) {
+      this.log(
+        `provider-push: resuming session ${existing.sessionId} for id=${requestId} (${Object.keys(existing.received).length} received)`
+      );
+      return { status: 200, body: describeSession(existing) };
+    }
+
+    const { pending, scopedStudies } = target;
+    const session = await sessions.create({
+      requestId,
+      clinicId,
+      patientAddress: pending.patientAddress,
+      patientId: pending.patientId,
+      total,
+      scopedStudies,
+    });
+    copyEvents.update(requestId, { status: "copying", total: total ?? 0, success: 0, failed: 0 });
+    await jobQueue.transition(requestId, "copying");
+    this.log(`provider-push: opened session ${session.sessionId} for id=${requestId} (clinic=${clinicId})`);
+    return { status: 201, body: describeSession(session) };
+  }
+
+  async getSession(scope: TenantScope, sessionId: string): Promise<ProviderPushResult> {
+    const session = this.deps.sessions.get(sessionId);
+    if (!session || !inTenant(scope, session.clinicId)) return { status: 404, error: "push session not found" };
+    return { status: 200, body: describeSession(session) };
+  }
+
+  /**
+   * Stages one instance in the session's spool directory. Nothing reaches the requester Orthanc before the
+   * signed finalize has matched the upload, so an upload alone cannot put data there.
+   */
+  async uploadInstance(
+    scope: TenantScope,
+    sessionId: string,
+    instance: PushInstanceUpload,
+    body: Readable
+  ): Promise<ProviderPushResult> {
+    const active = this.activeSession(scope, sessionId);
+    if ("result" in active) return active.result;
+    const { session } = active;
+    const { sessions, copyEvents } = this.deps;
+
+    const sop = instance.sop.trim();
+    const declared = instance.sha256.trim().toLowerCase();
+    if (!sop) return { status: 400, error: "SOPInstanceUID is required" };
+    if (!/^0x[0-9a-f]{64}$/.test(declared)) return { status: 400, error: "X-Content-SHA256 must be a 0x-prefixed sha256" };
+    if (session.scopedStudies && (!instance.study || !session.scopedStudies.includes(instance.study))) {
+      return { status: 422, error: "instance is outside the request scope" };
+    }
+
+    const previous = session.received[sop];
+    if (previous) {
+      // resumed agents may resend an instance whose response was lost
+      if (previous.sha256 === declared) return { status: 200, body: { sop, sha256: declared, duplicate: true } };
+      return { status: 409, error: `instance ${sop} was already received with a different hash` };
+    }
+
+    if (!this.deps.storeInstance) {
+      return { status: 500, error: "requester orthanc config missing" };
+    }
+
+    let staged: { file: string; bytes: number; sha256: string };
+    try {
+      staged = await sessions.spool(sessionId, body);
+    } catch (e) {
+      if (e instanceof PayloadTooLargeError) return { status: 413, error: e.message };
+      if (e instanceof PushSessionClosedError) return { status: 409, error: e.message };
+      throw e;
+    }
+
+    let updated: PushSession | undefined;
+    try {
+      if (!staged.bytes) return { status: 400, error: "empty payload" };
+      if (staged.sha256 !== declared) {
+        return { status: 422, error: `sha256 mismatch for ${sop}: received ${staged.sha256}` };
+      }
+      updated = await sessions.recordInstance(sessionId, {
+        sop,
+        study: instance.study,
+        series: instance.series,
+        sha256: declared,
+        bytes: staged.bytes,
+        file: staged.file,
+        receivedAt: new Date().toISOString(),
+      });
+    } catch (e) {
+      // a finalize claimed the session while this instance was being staged
+      if (e instanceof PushSessionClosedError) return { status: 409, error: e.message };
+      throw e;
+    } finally {
+      // only a recorded instance keeps its staged file, for the finalize to forward
+      if (!updated) await sessions.discard(staged.file);
+    }
+    const received = Object.keys(updated.received).length;
+    copyEvents.update(session.requestId, {
+      status: "copying",
+      success: received,
+      total: Math.max(updated.total ?? 0, received),
+    });
+    return { status: 201, body: { sop, sha256: declared, bytes: staged.bytes, received } };
+  }
+
+  async finalizeSession(scope: TenantScope, sessionId: string, body: PushSessionFinalizeRequest): Promise<ProviderPushResult> {
+    const active = this.activeSession(scope, sessionId);
+    if ("result" in active) return active.result;
+
+    const listed: PushInstanceDigest[] = Array.isArray(body?.instances) ? body.instances : [];
+    if (!listed.length) return { status: 400, error: "instances must be a non-empty array" };
+    if (!body?.signature) return { status: 400, error: "signature is required" };
+    if (listed.some((instance) => !instance || typeof instance.sop !== "string" || !instance.sop)) {
+      return { status: 400, error: "every instance needs a sop" };
+    }
+
+    const signature = String(body.signature);
+    return this.exclusively(active.session.requestId, () => this.finalizeOpenSession(active.session, listed, signature));
+  }
+
+  private async finalizeOpenSession(
+    session: PushSession,
+    listed: PushInstanceDigest[],
+    signature: string
+  ): Promise<ProviderPushResult> {
+    const { sessions } = this.deps;
+    const { sessionId } = session;
+    // Claimed before anything is awaited: a concurrent finalize of the same session now gets a 409 from
+    // activeSession instead of sending markFulfilled a second time.
+    if (!(await sessions.compareAndSetState(sessionId, "open", "finalizing"))) {
+      return { status: 409, error: "push session is being finalized" };
+    }
+
+    let result: ProviderPushResult;
+    try {
+      result = await this.finalizeClaimedSession(session, listed, signature);
+    } catch (e) {
+      await sessions.compareAndSetState(sessionId, "finalizing", "open");
+      throw e;
+    }
+    if (result.status !== 200) {
+      // nothing was fulfilled (or markFulfilled failed): the uploads stay in place and the agent can finalize again
+      await sessions.compareAndSetState(sessionId, "finalizing", "open");
+      return result;
+    }
+    await sessions.setState(sessionId, "finalized", { manifestHash: String(result.body?.manifestHash) });
+    this.log(`provider-push: session ${sessionId} finalized for id=${session.requestId}`);
+    return { status: 200, body: { ...result.body, sessionId } };
+  }
+
+  private async finalizeClaimedSession(
+    session: PushSession,
+    listed: PushInstanceDigest[],
+    signature: string
+  ): Promise<ProviderPushResult> {
+    const { sessionId } = session;
+    const { copyEvents, contract, sessions, storeInstance } = this.deps;
+
+    const expectedSigner = this.deps.signers[session.clinicId];
+    if (!expectedSigner) return { status: 403, error: "unknown provider clinic" };
+    const payloadHash = computeInstancesHash(listed);
+    let recovered: string;
+    try {
+      recovered = verifyMessage(
+        buildPushFinalizeMessage(session.clinicId, session.requestId, sessionId, payloadHash),
+        signature
+      );
+    } catch (e) {
+      return { status: 400, error: `signature verification failed: ${errorMessage(e)}` };
+    }
+    if (recovered.toLowerCase() !== expectedSigner.toLowerCase()) {
+      return { status: 403, error: "signature mismatch" };
+    }
+
+    // The signed list must describe exactly what was uploaded into this session
+    const uploadedRefs: CopyJobInstance[] = [];
+    const failedRefs: CopyJobInstance[] = [];
+    const missing: string[] = [];
+    const listedSops = new Set<string>();
+    for (const instance of listed) {
+      listedSops.add(instance.sop);
+      if (!instance.sha256) {
+        failedRefs.push({ sop: instance.sop, study: instance.study, series: instance.series });
+        continue;
+      }
+      const received = session.received[instance.sop];
+      if (!received || received.sha256 !== instance.sha256.toLowerCase()) {
+        missing.push(instance.sop);
+        continue;
+      }
+      uploadedRefs.push({ sop: received.sop, study: received.study, series: received.series, sha256: received.sha256 });
+    }
+    const unlisted = Object.keys(session.received).filter((sop) => !listedSops.has(sop));
+    if (missing.length || unlisted.length) {
+      return {
+        status: 409,
+        error: "instance list does not match the uploaded instances",
+        body: { missing, unlisted },
+      };
+    }
+
+    let reqData: PushAccessRequest | undefined;
+    try {
+      reqData = await contract.reqs(session.requestId);
+    } catch (e) {
+      return { status: 500, error: `failed to load access request: ${errorMessage(e)}` };
+    }
+    if (Number(reqData?.status ?? 0) !== 1) {
+      return { status: 409, error: "access request is no longer awaiting fulfillment" };
+    }
+
+    // The signed list vouches for the staged uploads; only now do they go to the requester Orthanc. A failed
+    // forward leaves the session open, and finalizing again forwards every instance once more.
+    if (!storeInstance) return { status: 500, error: "requester orthanc config missing" };
+    for (const instance of uploadedRefs) {
+      const source = { file: sessions.stagedFile(sessionId, instance.sop), bytes: session.received[instance.sop].bytes };
+      try {
+        await storeInstance(source, instance.sop);
+      } catch (e) {
+        const message = errorMessage(e);
+        this.warn(`provider-push upload failed for ${instance.sop}:`, message);
+        copyEvents.recordFailure(session.requestId, { sop: instance.sop, message });
+        return { status: 502, error: `requester orthanc upload failed: ${message}` };
+      }
+    }
+
+    for (const failure of failedRefs) {
+      copyEvents.recordFailure(session.requestId, { sop: failure.sop, message: "provider could not read the instance" });
+    }
+    const pending: PendingPushEntry = this.pending.get(session.requestId) ?? {
+      requestId: session.requestId,
+      providerId: session.clinicId,
+      patientAddress: session.patientAddress,
+      patientId: session.patientId,
+    };
+    return this.completePush(pending, uploadedRefs, failedRefs);
+  }
+
+  /**
+   * Checks a signed push message: the provider's operator key, expiry, nonce replay, the pending request
+   * and the on-chain state. It does not record the nonce; callers claim it with `claimNonce` once their own
+   * checks have passed, so that a rejected message can be retried as it is.
+   */
+  private async checkPushTarget(req: SignedPushRequest): Promise<PushTarget> {
+    const { clinicId, requestId, expiresAt, nonce, message, signature } = req;
+    const { nonces, jobQueue, contract } = this.deps;
+
+    const expectedSigner = this.deps.signers[clinicId];
+    if (!expectedSigner) {
+      return { ok: false, result: { status: 403, error: "unknown provider clinic" } };
+    }
+
+    let recovered: string;
+    try {
+      recovered = verifyMessage(message, signature);
+    } catch (e) {
+      return { ok: false, result: { status: 400, error: `signature verification failed: ${errorMessage(e)}` } };
+    }
+
+    if (recovered.toLowerCase() !== expectedSigner.toLowerCase()) {
+      return { ok: false, result: { status: 403, error: "signature mismatch" } };
+    }
+
+    const nowSec = Math.floor(Date.now() / 1000);
+    if (expiresAt < nowSec) {
+      return { ok: false, result: { status: 410, error: "envelope expired" } };
+    }
+
+    const envelopeHash = hashMessage(message);
+    const seen = nonces.check(clinicId, nonce, envelopeHash);
+    if (!seen.ok) return { ok: false, result: replayResult(seen.reason) };
+
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      this.warn(`provider-push: request ${requestId} has no pending state`);
+      return { ok: false, result: { status: 409, error: "no pending access request" } };
+    }
+
+    if (pending.providerId !== clinicId) {
+      return { ok: false, result: { status: 403, error: "clinicId mismatch" } };
+    }
+
+    let reqData: PushAccessRequest | undefined;
+    try {
+      reqData = await contract.reqs(requestId);
+    } catch (e) {
+      return { ok: false, result: { status: 500, error: `failed to load access request: ${errorMessage(e)}` } };
+    }
+
+    const status = Number(reqData?.status ?? 0);
+    if (status >= 2) {
+      this.pending.delete(requestId);
+      if (status === 2) {
+        await jobQueue.transition(requestId, "fulfilled", { manifestHash: String(reqData?.manifestHash ?? "") });
+      } else {
+        await jobQueue.transition(requestId, "failed", { lastError: `request is ${STATUS_LABELS[status] ?? status} on-chain` });
+      }
+      return { ok: false, result: { status: 409, error: "access request already fulfilled" } };
+    }
+
+    const scopeResolution = resolveRequestScope(this.deps.scopes, reqData);
+    if (!scopeResolution.ok) {
+      return { ok: false, result: { status: 409, error: scopeResolution.message } };
+    }
+
+    // Pushed instances only carry UIDs, so only a StudyInstanceUID list can be checked here
+    return { ok: true, pending, scopedStudies: scopeResolution.scope?.studyInstanceUids, envelopeHash };
+  }
+
+  /** Records the nonce of an accepted message; returns the 409 when a concurrent delivery claimed it first. */
+  private async claimNonce(req: SignedPushRequest, envelopeHash: string): Promise<ProviderPushResult | undefined> {
+    const { clinicId, nonce, requestId, expiresAt } = req;
+    const claim = await this.deps.nonces.claim({ clinicId, nonce, requestId, envelopeHash, expiresAt });
+    return claim.ok ? undefined : replayResult(claim.reason);
+  }
+
+  /** Writes the manifest of a completed push and commits it on-chain. */
+  private async completePush(
+    pending: PendingPushEntry,
+    uploadedRefs: CopyJobInstance[],
+    failedRefs: CopyJobInstance[]
+  ): Promise<ProviderPushResult> {
+    const { copyEvents, jobQueue, manifests } = this.deps;
+    const { requestId, providerId: clinicId } = pending;
+    const manifest = buildManifest({
+      requestId,
+      providerId: clinicId,
+      instances: uploadedRefs,
+      failed: failedRefs,
+      startedAt: copyEvents.get(requestId)?.startedAt,
+    });
+    const manifestHash = manifest.manifestHash;
+    const outcomeStatus: CopyEventStatus = failedRefs.length ? "partial" : "completed";
+    await jobQueue.recordUploaded(requestId, uploadedRefs);
+    await manifests.save(manifest);
+
+    let fulfilError: string | undefined;
+    try {
+      await this.deps.markFulfilled(clinicId, {
+        requestId,
+        manifestHash,
+        patientAddress: pending.patientAddress,
+        patientId: pending.patientId,
+        success: uploadedRefs.length,
+        failed: failedRefs.length,
+      });
+    } catch (signErr) {
+      fulfilError = errorMessage(signErr);
+    } finally {
+      this.pending.delete(requestId);
+    }
+
+    if (fulfilError !== undefined) {
+      // The transaction may have reverted because the request was fulfilled by someone else, or landed despite
+      // the error: a request that is fulfilled on-chain must not be recorded as failed
+      const committed = await this.committedManifestHash(requestId);
+      if (committed === undefined) {
+        copyEvents.fail(requestId, fulfilError);
+        await jobQueue.transition(requestId, "failed", { failed: failedRefs, manifestHash, lastError: fulfilError });
+        return { status: 502, error: fulfilError };
+      }
+      if (committed.toLowerCase() !== manifestHash.toLowerCase()) {
+        await jobQueue.transition(requestId, "fulfilled", { manifestHash: committed });
+        return { status: 409, error: "access request already fulfilled" };
+      }
+      this.warn(`provider-push: markFulfilled failed but id=${requestId} is fulfilled with this manifest:`, fulfilError);
+    }
+
+    await jobQueue.transition(requestId, "fulfilled", { failed: failedRefs, manifestHash });
+
+    copyEvents.update(requestId, {
+      status: outcomeStatus,
+      success: uploadedRefs.length,
+      failed: failedRefs.length,
+      manifestHash,
+    });
+
+    return {
+      status: 200,
+      body: {
+        manifestHash,
+        success: uploadedRefs.length,
+        failed: failedRefs.length,
+        status: outcomeStatus,
+      },
+    };
+  }
+
+  /** The manifestHash of a request that is fulfilled on-chain; undefined when it is not or cannot be read. */
+  private async committedManifestHash(requestId: number): Promise<string | undefined> {
+    try {
+      const reqData = await this.deps.contract.reqs(requestId);
+      return Number(reqData?.status ?? 0) === 2 ? String(reqData?.manifestHash ?? "") : undefined;
+    } catch (e) {
+      this.warn(`provider-push: could not re-read request ${requestId}:`, errorMessage(e));
+      return undefined;
+    }
+  }
+
+  /**
+   * Runs one push of a request at a time. The claim is taken before anything is awaited, so an envelope push,
+   * a session open and a finalize of the same request cannot interleave and both reach markFulfilled.
+   */
+  private async exclusively(requestId: number, run: () => Promise<ProviderPushResult>): Promise<ProviderPushResult> {
+    if (this.inFlight.has(requestId)) {
+      return { status: 409, error: "a push for this request is in progress" };
+    }
+    this.inFlight.add(requestId);
+    try {
+      return await run();
+    } finally {
+      this.inFlight.delete(requestId);
+    }
+  }
+
+  /** Sessions of clinics outside the caller's tenant are reported as missing. */
+  private activeSession(scope: TenantScope, sessionId: string): { session: PushSession } | { result: ProviderPushResult } {
+    const { sessions } = this.deps;
+    const session = sessions.get(sessionId);
+    if (!session || !inTenant(scope, session.clinicId)) return { result: { status: 404, error: "push session not found" } };
+    if (session.state === "finalized") return { result: { status: 409, error: "push session already finalized" } };
+    if (session.state === "finalizing") return { result: { status: 409, error: "push session is being finalized" } };
+    if (sessions.isExpired(session)) return { result: { status: 410, error: "push session expired" } };
+    return { session };
+  }
+}
+
+function replayResult(reason: "duplicate-envelope" | "nonce-reused"): ProviderPushResult {
+  return reason === "duplicate-envelope"
+    ? { status: 409, error: "envelope was already accepted (replay)" }
+    : { status: 409, error: "nonce was already used for another message" };
+}
+
+function describeSession(session: PushSession) {
+  return {
+    sessionId: session.sessionId,
+    requestId: session.requestId,
+    clinicId: session.clinicId,
+    state: session.state,
+    expiresAt: session.expiresAt,
+    received: Object.values(session.received).map(({ sop, sha256 }) => ({ sop, sha256 })),
+    manifestHash: session.manifestHash,
+  };
+}
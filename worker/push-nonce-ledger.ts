@@ -0,0 +1,98 @@
+import { JsonFile } from "./json-file.js";
+
+export type PushNonceEntry = {
+  clinicId: string;
+  nonce: string;
+  requestId: number;
+  /** EIP-191 digest of the signed message, i.e. what the signature actually covers. */
+  envelopeHash: string;
+  /** Expiry of the signed message (epoch seconds). */
+  expiresAt: number;
+  acceptedAt: string;
+};
+
+export type PushNonceLedgerCfg = {
+  file?: string;
+  /** How long an entry is kept after its message expired. Expired messages are rejected anyway. */
+  retentionSeconds?: number;
+};
+
+export type NonceClaim =
+  | { ok: true }
+  | { ok: false; reason: "duplicate-envelope" | "nonce-reused"; entry: PushNonceEntry };
+
+type LedgerFile = {
+  version: 1;
+  entries: PushNonceEntry[];
+};
+
+const DEFAULT_RETENTION_SECONDS = 24 * 60 * 60;
+
+export const PUSH_NONCE_RE = /^[0-9A-Za-z_-]{16,128}$/;
+
+/**
+ * Nonces of accepted provider-push messages, per clinic. Persisted so that a message captured before a
+ * restart cannot be replayed afterwards while it is still within its TTL.
+ */
+export class PushNonceLedger {
+  private readonly entries = new Map<string, PushNonceEntry>();
+
+  private constructor(private readonly file: JsonFile<LedgerFile>, private readonly retentionSeconds: number, initial: LedgerFile) {
+    for (const entry of initial.entries ?? []) {
+      if (!entry?.clinicId || !entry?.nonce) continue;
+      this.entries.set(this.key(entry.clinicId, entry.nonce), entry);
+    }
+  }
+
+  static async init(cfg?: PushNonceLedgerCfg): Promise<PushNonceLedger> {
+    const fileUrl = cfg?.file ? new URL(cfg.file, import.meta.url) : new URL("./data/push-nonces.json", import.meta.url);
+    const file = new JsonFile<LedgerFile>(fileUrl, { label: "push nonce ledger" });
+    const persisted = (await file.load()) ?? { version: 1, entries: [] };
+    return new PushNonceLedger(file, cfg?.retentionSeconds ?? DEFAULT_RETENTION_SECONDS, persisted);
+  }
+
+  get(clinicId: string, nonce: string): PushNonceEntry | undefined {
+    const entry = this.entries.get(this.key(clinicId, nonce));
+    return entry ? { ...entry } : undefined;
+  }
+
+  /** Non-recording variant of `claim`, for rejecting a replay before any other check. */
+  check(clinicId: string, nonce: string, envelopeHash: string): NonceClaim {
+    const entry = this.entries.get(this.key(clinicId, nonce));
+    if (!entry) return { ok: true };
+    const reason = entry.envelopeHash === envelopeHash.toLowerCase() ? "duplicate-envelope" : "nonce-reused";
+    return { ok: false, reason, entry: { ...entry } };
+  }
+
+  /**
+   * Records a nonce unless it was seen before. Check and insert happen synchronously, so two concurrent
+   * deliveries of the same message cannot both be accepted.
+   */
+  async claim(input: Omit<PushNonceEntry, "acceptedAt">): Promise<NonceClaim> {
+    const seen = this.check(input.clinicId, input.nonce, input.envelopeHash);
+    if (!seen.ok) return seen;
+    this.entries.set(this.key(input.clinicId, input.nonce), {
+      ...input,
+      envelopeHash: input.envelopeHash.toLowerCase(),
+      acceptedAt: new Date().toISOString(),
+    });
+    this.prune();
+    await this.persist();
+    return { ok: true };
+  }
+
+  private prune() {
+    const cutoff = Math.floor(Date.now() / 1000) - this.retentionSeconds;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt < cutoff) this.entries.delete(key);
+    }
+  }
+
+  private key(clinicId: string, nonce: string): string {
+    return `${clinicId}|${nonce}`;
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write({ version: 1, entries: Array.from(this.entries.values()) });
+  }
+}
@@ -0,0 +1,287 @@
+import { createHash, randomBytes } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { mkdir, rm, unlink } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { Transform } from "node:stream";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { fileURLToPath } from "node:url";
+import { JsonFile } from "./json-file.js";
+
+export type PushSessionState = "open" | "finalizing" | "finalized";
+
+export type PushSessionInstance = {
+  sop: string;
+  study?: string;
+  series?: string;
+  /** 0x-prefixed sha256 of the uploaded DICOM file, verified against the declared hash. */
+  sha256: string;
+  bytes: number;
+  /** Name of the staged upload in the session's spool directory; the finalize forwards it. */
+  file: string;
+  receivedAt: string;
+};
+
+/**
+ * One chunked provider push: opened with a signed request, filled with individually uploaded instances
+ * and closed by a finalize call signed over the full instance list.
+ */
+export type PushSession = {
+  sessionId: string;
+  requestId: number;
+  clinicId: string;
+  patientAddress: string;
+  patientId: string;
+  state: PushSessionState;
+  /** Instance count announced by the agent; only used for progress. */
+  total?: number;
+  /** StudyInstanceUIDs of the request scope, when the scope lists them. */
+  scopedStudies?: string[];
+  received: Record<string, PushSessionInstance>;
+  manifestHash?: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+  finalizedAt?: string;
+};
+
+export type PushSessionStoreCfg = {
+  file?: string;
+  /** Where uploads are staged until a signed finalize forwards them to the requester Orthanc. */
+  spoolDir?: string;
+  /** How long an unfinished session can be resumed. */
+  ttlSeconds?: number;
+  maxInstanceBytes?: number;
+};
+
+type SessionFile = {
+  version: 1;
+  sessions: Record<string, PushSession>;
+};
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_INSTANCE_BYTES = 2 * 1024 * 1024 * 1024;
+const SESSION_ID_RE = /^[0-9a-f]{32}$/;
+
+export class PayloadTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`instance exceeds ${limit} bytes`);
+  }
+}
+
+/** Thrown when an upload lands in a session that a finalize has claimed or closed in the meantime. */
+export class PushSessionClosedError extends Error {
+  constructor(readonly sessionId: string, readonly state: PushSessionState) {
+    super(`push session ${sessionId} is ${state}`);
+  }
+}
+
+/**
+ * Durable push sessions, so an agent can resume an interrupted upload and a finalized session cannot be
+ * finalized again. Finalized sessions are kept; open ones are dropped with their spool files once expired.
+ */
+export class PushSessionStore {
+  private readonly sessions = new Map<string, PushSession>();
+
+  private constructor(
+    private readonly file: JsonFile<SessionFile>,
+    private readonly spoolDir: string,
+    readonly ttlSeconds: number,
+    readonly maxInstanceBytes: number,
+    initial: SessionFile
+  ) {
+    for (const session of Object.values(initial.sessions ?? {})) {
+      if (!session || !SESSION_ID_RE.test(String(session.sessionId))) continue;
+      // a crash during finalize leaves the session resumable; the fulfillment itself is checked on-chain
+      const state = session.state === "finalizing" ? "open" : session.state;
+      this.sessions.set(session.sessionId, { ...session, state, received: session.received ?? {} });
+    }
+  }
+
+  static async init(cfg?: PushSessionStoreCfg): Promise<PushSessionStore> {
+    const fileUrl = cfg?.file ? new URL(cfg.file, import.meta.url) : new URL("./data/push-sessions.json", import.meta.url);
+    const spoolUrl = new URL(cfg?.spoolDir ?? "./data/push-spool/", import.meta.url);
+    const file = new JsonFile<SessionFile>(fileUrl, { label: "push session store" });
+    const persisted = (await file.load()) ?? { version: 1, sessions: {} };
+    await mkdir(fileURLToPath(spoolUrl), { recursive: true });
+    const store = new PushSessionStore(
+      file,
+      fileURLToPath(spoolUrl),
+      cfg?.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+      cfg?.maxInstanceBytes ?? DEFAULT_MAX_INSTANCE_BYTES,
+      persisted
+    );
+    await store.sweep();
+    return store;
+  }
+
+  get(sessionId: string): PushSession | undefined {
+    const session = this.sessions.get(sessionId);
+    return session ? this.clone(session) : undefined;
+  }
+
+  /** The unfinished session of a request, if any; reopening returns it so uploads can resume. */
+  findActive(requestId: number, clinicId: string): PushSession | undefined {
+    for (const session of this.sessions.values()) {
+      if (session.requestId === requestId && session.clinicId === clinicId && session.state !== "finalized") {
+        return this.isExpired(session) ? undefined : this.clone(session);
+      }
+    }
+    return undefined;
+  }
+
+  findFinalized(requestId: number): PushSession | undefined {
+    for (const session of this.sessions.values()) {
+      if (session.requestId === requestId && session.state === "finalized") return this.clone(session);
+    }
+    return undefined;
+  }
+
+  isExpired(session: PushSession): boolean {
+    return session.state !== "finalized" && Date.parse(session.expiresAt) <= Date.now();
+  }
+
+  async create(input: Pick<PushSession, "requestId" | "clinicId" | "patientAddress" | "patientId" | "total" | "scopedStudies">): Promise<PushSession> {
+    await this.sweep();
+    const now = new Date();
+    const session: PushSession = {
+      ...input,
+      sessionId: randomBytes(16).toString("hex"),
+      state: "open",
+      received: {},
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlSeconds * 1000).toISOString(),
+    };
+    this.sessions.set(session.sessionId, session);
+    await this.persist();
+    return this.clone(session);
+  }
+
+  /**
+   * Only an open session takes instances; once a finalize claimed it, the signed list is what counts.
+   * `file` is the path `spool` returned; the session keeps the staged upload until it is finalized.
+   */
+  async recordInstance(sessionId: string, instance: PushSessionInstance): Promise<PushSession> {
+    const session = this.require(sessionId);
+    if (session.state !== "open") throw new PushSessionClosedError(sessionId, session.state);
+    session.received[instance.sop] = { ...instance, file: basename(instance.file) };
+    session.updatedAt = new Date().toISOString();
+    await this.persist();
+    return this.clone(session);
+  }
+
+  async setState(sessionId: string, state: PushSessionState, patch: Pick<PushSession, "manifestHash"> = {}): Promise<PushSession> {
+    const session = this.require(sessionId);
+    session.state = state;
+    if (patch.manifestHash !== undefined) session.manifestHash = patch.manifestHash;
+    session.updatedAt = new Date().toISOString();
+    if (state === "finalized") {
+      session.finalizedAt = session.updatedAt;
+      await rm(this.sessionSpoolDir(sessionId), { recursive: true, force: true });
+    }
+    await this.persist();
+    return this.clone(session);
+  }
+
+  /**
+   * Moves the session to `to` only while it is in `from`. The state is checked and changed before the first
+   * await, so of two concurrent callers exactly one gets true.
+   */
+  async compareAndSetState(
+    sessionId: string,
+    from: PushSessionState,
+    to: PushSessionState,
+    patch: Pick<PushSession, "manifestHash"> = {}
+  ): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.state !== from) return false;
+    await this.setState(sessionId, to, patch);
+    return true;
+  }
+
+  /**
+   * Streams an upload into the session's spool directory while hashing it. The caller verifies the hash and
+   * either records the instance with the file or removes it with `discard`.
+   */
+  async spool(sessionId: string, body: Readable): Promise<{ file: string; bytes: number; sha256: string }> {
+    this.require(sessionId);
+    const dir = this.sessionSpoolDir(sessionId);
+    await mkdir(dir, { recursive: true });
+    const file = join(dir, `${randomBytes(8).toString("hex")}.dcm`);
+
+    const limit = this.maxInstanceBytes;
+    const digest = createHash("sha256");
+    let bytes = 0;
+    const meter = new Transform({
+      transform(chunk: Buffer, _enc, done) {
+        bytes += chunk.length;
+        if (bytes > limit) {
+          done(new PayloadTooLargeError(limit));
+          return;
+        }
+        digest.update(chunk);
+        done(null, chunk);
+      },
+    });
+    try {
+      await pipeline(body, meter, createWriteStream(file));
+    } catch (e) {
+      await this.discard(file);
+      // finalizing removes the spool directory under an upload that is still streaming
+      const session = this.sessions.get(sessionId);
+      if (session && session.state !== "open") throw new PushSessionClosedError(sessionId, session.state);
+      throw e;
+    }
+    return { file, bytes, sha256: `0x${digest.digest("hex")}` };
+  }
+
+  /** Path of the staged upload of a received instance. */
+  stagedFile(sessionId: string, sop: string): string {
+    const instance = this.require(sessionId).received[sop];
+    if (!instance) throw new Error(`instance ${sop} was not received in push session ${sessionId}`);
+    return join(this.sessionSpoolDir(sessionId), instance.file);
+  }
+
+  async discard(file: string) {
+    try {
+      await unlink(file);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+    }
+  }
+
+  /** Drops expired unfinished sessions together with their staged uploads. */
+  async sweep() {
+    const expired = Array.from(this.sessions.values()).filter((session) => this.isExpired(session));
+    if (!expired.length) return;
+    for (const session of expired) {
+      this.sessions.delete(session.sessionId);
+      await rm(this.sessionSpoolDir(session.sessionId), { recursive: true, force: true });
+    }
+    await this.persist();
+  }
+
+  private sessionSpoolDir(sessionId: string): string {
+    if (!SESSION_ID_RE.test(sessionId)) throw new Error(`invalid sessionId: ${sessionId}`);
+    return join(this.spoolDir, sessionId);
+  }
+
+  private require(sessionId: string): PushSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`unknown push session ${sessionId}`);
+    return session;
+  }
+
+  private clone(session: PushSession): PushSession {
+    return {
+      ...session,
+      scopedStudies: session.scopedStudies ? [...session.scopedStudies] : undefined,
+      received: Object.fromEntries(Object.entries(session.received).map(([sop, inst]) => [sop, { ...inst }])),
+    };
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write({ version: 1, sessions: Object.fromEntries(this.sessions) });
+  }
+}
@@ -7,26 +7,43 @@ export type ProviderPushInstance = {
   data: string; // base64 encoded DICOM payload
 };
 
+/**
+ * An instance as listed when finalizing a push session: the payload travels separately, so the entry
+ * carries the sha256 of the DICOM file instead. Entries without `sha256` are instances the provider failed
+ * to read.
+ */
+export type PushInstanceDigest = {
+  sop: string;
+  study?: string;
+  series?: string;
+  sha256?: string;
+};
+
 export type ProviderPushEnvelope = {
   clinicId: string;
   requestId: number;
   expiresAt: number;
+  /** Random per-message value; the worker accepts each nonce of a clinic only once. */
+  nonce: string;
   instances: ProviderPushInstance[];
   signature: string;
 };
 
-function canonicalise(instances: ProviderPushInstance[]) {
+function canonicalise(instances: (ProviderPushInstance | PushInstanceDigest)[]) {
   const entries = instances.map((instance) => ({
     sop: instance.sop,
     study: instance.study ?? null,
     series: instance.series ?? null,
-    dataHash: keccak256(toUtf8Bytes(instance.data ?? "")),
+    dataHash:
+      "sha256" in instance && instance.sha256
+        ? instance.sha256.toLowerCase()
+        : keccak256(toUtf8Bytes(("data" in instance ? instance.data : "") ?? "")),
   }));
   entries.sort((a, b) => a.sop.localeCompare(b.sop));
   return entries;
 }
 
-export function computeInstancesHash(instances: ProviderPushInstance[]): string {
+export function computeInstancesHash(instances: (ProviderPushInstance | PushInstanceDigest)[]): string {
   const canonical = canonicalise(instances);
   return keccak256(toUtf8Bytes(JSON.stringify(canonical)));
 }
@@ -35,9 +52,25 @@ export function buildPushMessage(
   clinicId: string,
   requestId: number,
   expiresAt: number,
+  nonce: string,
   payloadHash: string
 ): string {
   const normalizedClinic = clinicId.trim();
-  return `ProviderPush|${normalizedClinic}|${requestId}|${expiresAt}|${payloadHash}`;
+  return `ProviderPush|${normalizedClinic}|${requestId}|${expiresAt}|${nonce}|${payloadHash}`;
 }
 
+
+/** Signed by the provider to open (or resume) a chunked push session for a request. */
+export function buildPushSessionMessage(clinicId: string, requestId: number, expiresAt: number, nonce: string): string {
+  return `ProviderPushSession|${clinicId.trim()}|${requestId}|${expiresAt}|${nonce}`;
+}
+
+/** Signed to close a session; binds the instance list to the session id issued by the worker. */
+export function buildPushFinalizeMessage(
+  clinicId: string,
+  requestId: number,
+  sessionId: string,
+  payloadHash: string
+): string {
+  return `ProviderPushFinalize|${clinicId.trim()}|${requestId}|${sessionId}|${payloadHash}`;
+}
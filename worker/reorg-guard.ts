@@ -0,0 +1,65 @@
+import type { Contract, Provider } from "ethers";
+
+export type BlockRef = { number: number; hash: string };
+
+export type ApprovalRef = BlockRef & { txHash: string };
+
+/** Chain reads needed to tell whether a processed PatientApproved event is still canonical. */
+export type ApprovalSource = {
+  getBlockNumber(): Promise<number>;
+  /** Lower-cased hash of the canonical block at that height, null above the head. */
+  getBlockHash(blockNumber: number): Promise<string | null>;
+  /** The canonical PatientApproved log of one request within the range, if any. */
+  findApproval(requestId: number, fromBlock: number, toBlock: number): Promise<ApprovalRef | null>;
+};
+
+export type ApprovalCheck =
+  | { state: "canonical" }
+  | { state: "moved"; approval: ApprovalRef }
+  | { state: "removed" };
+
+export function contractApprovalSource(contract: Contract, provider: Provider): ApprovalSource {
+  return {
+    getBlockNumber: () => provider.getBlockNumber(),
+    async getBlockHash(blockNumber) {
+      const block = await provider.getBlock(blockNumber);
+      return block?.hash ? block.hash.toLowerCase() : null;
+    },
+    async findApproval(requestId, fromBlock, toBlock) {
+      const logs = await contract.queryFilter(contract.filters.PatientApproved(requestId), fromBlock, toBlock);
+      const canonical = logs.filter((entry) => !entry.removed);
+      const log = canonical[canonical.length - 1];
+      return log ? { number: log.blockNumber, hash: log.blockHash.toLowerCase(), txHash: log.transactionHash } : null;
+    },
+  };
+}
+
+/**
+ * Re-checks the event that triggered a copy job. A job whose block was replaced is looked up again in
+ * the `lookback` blocks before it: the approval may have been re-mined in another block ("moved"), or it
+ * may be gone from the chain altogether ("removed").
+ */
+export async function checkApproval(
+  source: ApprovalSource,
+  trigger: { requestId: number; blockNumber: number; blockHash: string },
+  lookback: number
+): Promise<ApprovalCheck> {
+  if ((await source.getBlockHash(trigger.blockNumber)) === trigger.blockHash.toLowerCase()) {
+    return { state: "canonical" };
+  }
+  const head = await source.getBlockNumber();
+  const approval = await source.findApproval(trigger.requestId, Math.max(0, trigger.blockNumber - lookback), head);
+  if (!approval) return { state: "removed" };
+  return { state: "moved", approval };
+}
+
+/**
+ * Newest of the `known` blocks whose hash is still canonical, i.e. where a rescan after a reorg has to
+ * start from. Null when none matches (the reorg is deeper than the tracked window).
+ */
+export async function findForkPoint(source: ApprovalSource, known: BlockRef[]): Promise<number | null> {
+  for (const block of [...known].sort((a, b) => b.number - a.number)) {
+    if ((await source.getBlockHash(block.number)) === block.hash.toLowerCase()) return block.number;
+  }
+  return null;
+}
@@ -0,0 +1,268 @@
+import type { IncomingMessage } from "node:http";
+import { getClaim } from "./auth.js";
+import type { AuthRouteRule, Authenticator, Principal } from "./auth.js";
+import { compilePath, HttpError, matchPath } from "./http-router.js";
+import type { CompiledPath, Middleware } from "./http-router.js";
+import { CLINIC_OPERATOR_ROLE, PATIENT_ROLE } from "./siwe-auth.js";
+import { SUPER_ADMIN_ROLE, tenantScope } from "./tenancy.js";
+
+export type PolicyMode = "enforce" | "dryRun";
+
+// Admin routes need IdP roles; the stores behind them limit `worker.admin` to its own clinics
+const CLINIC_ADMINS = [SUPER_ADMIN_ROLE, "worker.admin"];
+
+/**
+ * Rules applied when `auth.routes` is not configured, and the rules that stay in force while configured rules
+ * run in dry-run mode. They mirror the roles the handlers used to check themselves.
+ */
+export const DEFAULT_ROUTE_RULES: AuthRouteRule[] = [
+  { path: "/health", methods: ["GET"], allowUnauthenticated: true },
+  { path: "/auth/*", methods: ["GET", "POST"], allowUnauthenticated: true },
+  { path: "/aliases/*", methods: ["GET", "PUT", "DELETE"], requiredRoles: CLINIC_ADMINS },
+  { path: "/copy-events/:requestId/retry", methods: ["POST"], requiredRoles: CLINIC_ADMINS },
+  { path: "/copy-events/*", methods: ["GET"], requiredRoles: ["worker.read", ...CLINIC_ADMINS] },
+  // chain events are public; clinic operators read them for the provider dashboard
+  { path: "/index/*", methods: ["GET"], requiredRoles: ["requester.viewer", "worker.read", ...CLINIC_ADMINS, CLINIC_OPERATOR_ROLE] },
+  { path: "/scopes", methods: ["POST"], requiredRoles: ["requester.viewer", "worker.admin", SUPER_ADMIN_ROLE] },
+  { path: "/scopes/:scopeHash", methods: ["GET"], requiredRoles: ["requester.viewer", "provider.push", "worker.read"] },
+  // patients verify their own requests; the handler limits every caller to the requests it is part of
+  { path: "/manifests/*", methods: ["GET"], requiredRoles: ["requester.viewer", "worker.read", PATIENT_ROLE] },
+  { path: "/patient/*", methods: ["GET"], requiredRoles: [PATIENT_ROLE] },
+  { path: "/audit-logs", methods: ["GET"], requiredRoles: CLINIC_ADMINS },
+  { path: "/clinics/config/*", methods: ["GET", "PUT", "DELETE"], requiredRoles: CLINIC_ADMINS },
+  { path: "/dicom-web-config/*", methods: ["GET"], requiredRoles: ["requester.viewer"] },
+  { path: "/provider-push/*", methods: ["GET", "PUT", "POST"], requiredRoles: ["provider.push"] },
+  // operators ask their own agent to push; the service limits them to requests their clinic provides
+  { path: "/push-triggers/*", methods: ["GET", "POST"], requiredRoles: [...CLINIC_ADMINS, CLINIC_OPERATOR_ROLE] },
+  { path: "/secure/*", methods: ["GET"], requiredRoles: ["requester.viewer"] },
+];
+
+type Operand =
+  | { kind: "literal"; value: string }
+  | { kind: "claims" | "body" | "params" | "query"; path: string };
+
+type Condition = { source: string; left: Operand; op: "==" | "!=" | "in"; right: Operand };
+
+type CompiledRule = {
+  rule: AuthRouteRule;
+  path: CompiledPath;
+  methods: string[];
+  conditions: Condition[];
+};
+
+export type PolicyRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  /** Parsed JSON body; only read when a matching rule has a `body.*` condition. */
+  body: () => Promise<unknown>;
+};
+
+export type PolicyDecision = {
+  allow: boolean;
+  status: number;
+  reason: string;
+  /** `path` of the rule that decided, absent when no rule was satisfied */
+  rule?: string;
+  principal?: Principal;
+};
+
+const CONDITION_PATTERN = /^\s*(\S+)\s+(==|!=|in)\s+(\S+)\s*$/;
+
+function compileOperand(raw: string): Operand {
+  const quoted = raw.match(/^(['"])(.*)\1$/);
+  if (quoted) return { kind: "literal", value: quoted[2] };
+  const [head, ...rest] = raw.split(".");
+  if ((head === "body" || head === "params" || head === "query" || head === "claims") && rest.length) {
+    return { kind: head, path: rest.join(".") };
+  }
+  // a bare name is a claim, so `clinic_id == body.clinicId` reads the way it is written
+  return { kind: "claims", path: raw };
+}
+
+function compileRule(rule: AuthRouteRule, index: number): CompiledRule {
+  if (typeof rule?.path !== "string" || !rule.path.startsWith("/")) {
+    throw new Error(`auth.routes[${index}].path は / で始まる必要があります`);
+  }
+  const conditions = (rule.conditions ?? []).map((expr) => {
+    const match = typeof expr === "string" ? expr.match(CONDITION_PATTERN) : null;
+    if (!match) {
+      throw new Error(`auth.routes[${index}].conditions を解釈できません: ${expr}`);
+    }
+    return { source: expr, left: compileOperand(match[1]), op: match[2] as Condition["op"], right: compileOperand(match[3]) };
+  });
+  return {
+    rule,
+    path: compilePath(rule.path),
+    methods: (rule.methods ?? []).map((m) => m.toUpperCase()),
+    conditions,
+  };
+}
+
+type Evaluation = {
+  request: PolicyRequest;
+  authenticate: () => Promise<{ principal?: Principal; status?: number; message?: string }>;
+  body?: Promise<unknown>;
+};
+
+/**
+ * Route-level authorization evaluated before a request reaches its handler.
+ *
+ * The rules whose method and path match are tried in order and the first one whose roles and conditions
+ * hold decides (`effect`, default allow). A request no rule accepts is denied: 401 when its token was
+ * missing or invalid, otherwise 403 — including paths no rule mentions.
+ */
+export class RoutePolicy {
+  private readonly enforced: CompiledRule[];
+  private readonly shadow: CompiledRule[] | null;
+
+  constructor(
+    rules: AuthRouteRule[] | undefined,
+    private readonly options: { mode?: PolicyMode; log?: (line: string) => void } = {}
+  ) {
+    if (options.mode && options.mode !== "enforce" && options.mode !== "dryRun") {
+      throw new Error(`auth.policyMode は enforce か dryRun を指定してください: ${options.mode}`);
+    }
+    const defaults = DEFAULT_ROUTE_RULES.map(compileRule);
+    const configured = rules?.length ? rules.map(compileRule) : null;
+    if (configured && options.mode === "dryRun") {
+      this.enforced = defaults;
+      this.shadow = configured;
+    } else {
+      this.enforced = configured ?? defaults;
+      this.shadow = null;
+    }
+  }
+
+  async evaluate(request: PolicyRequest, auth: Authenticator, req: IncomingMessage): Promise<PolicyDecision> {
+    let authentication: ReturnType<Evaluation["authenticate"]> | undefined;
+    const ctx: Evaluation = {
+      request,
+      authenticate: () => {
+        if (!authentication) {
+          authentication = (async () => {
+            const header = auth.verifyHeader(req);
+            if (!header.ok) return { status: header.status, message: header.message };
+            const verification = await auth.verifyToken(header.token);
+            if (!verification.ok) return { status: verification.status, message: verification.message };
+            if (!verification.principal.subject) return { status: 401, message: "JWT subject missing" };
+            return { principal: verification.principal };
+          })();
+        }
+        return authentication;
+      },
+    };
+
+    const decision = await this.decide(this.enforced, ctx);
+    if (this.shadow) {
+      const dryRun = await this.decide(this.shadow, ctx);
+      const subject = dryRun.principal?.subject ?? decision.principal?.subject ?? "-";
+      this.options.log?.(
+        `policy dry-run: ${request.method} ${request.path} subject=${subject} -> ${dryRun.allow ? "allow" : "deny"} ` +
+          `(${dryRun.reason}${dryRun.rule ? `, rule ${dryRun.rule}` : ""}); enforced ${decision.allow ? "allow" : "deny"}`
+      );
+    }
+    return decision;
+  }
+
+  private async decide(rules: CompiledRule[], ctx: Evaluation): Promise<PolicyDecision> {
+    const method = ctx.request.method.toUpperCase();
+    let denial: { status: number; reason: string } | null = null;
+
+    for (const compiled of rules) {
+      if (compiled.methods.length && !compiled.methods.includes(method)) continue;
+      const params = matchPath(compiled.path, ctx.request.path);
+      if (!params) continue;
+      const { rule } = compiled;
+      const allow = rule.effect !== "deny";
+
+      if (rule.allowUnauthenticated && !rule.requiredRoles?.length && !compiled.conditions.length) {
+        return { allow, status: allow ? 200 : 403, reason: allow ? "public route" : "denied by rule", rule: rule.path };
+      }
+
+      const authn = await ctx.authenticate();
+      if (!authn.principal) {
+        denial ??= { status: authn.status ?? 401, reason: authn.message ?? "unauthenticated" };
+        continue;
+      }
+      const principal = authn.principal;
+      if (rule.requiredRoles?.length && !rule.requiredRoles.some((role) => principal.roles.includes(role))) {
+        if (!denial || denial.status === 401) denial = { status: 403, reason: "forbidden: insufficient role" };
+        continue;
+      }
+
+      const failed = await this.firstFailedCondition(compiled.conditions, principal, params, ctx);
+      if (failed) {
+        denial = { status: 403, reason: `forbidden: condition ${failed} not met` };
+        continue;
+      }
+
+      return { allow, status: allow ? 200 : 403, reason: allow ? "allowed" : "denied by rule", rule: rule.path, principal };
+    }
+
+    if (!denial) return { allow: false, status: 403, reason: "forbidden: no policy rule for this route" };
+    return { allow: false, ...denial };
+  }
+
+  private async firstFailedCondition(
+    conditions: Condition[],
+    principal: Principal,
+    params: Record<string, string>,
+    ctx: Evaluation
+  ): Promise<string | undefined> {
+    const resolve = async (operand: Operand): Promise<unknown> => {
+      switch (operand.kind) {
+        case "literal":
+          return operand.value;
+        case "claims":
+          return getClaim(principal.claims, operand.path);
+        case "params":
+          return params[operand.path];
+        case "query":
+          return ctx.request.query.get(operand.path) ?? undefined;
+        case "body": {
+          if (!ctx.body) ctx.body = ctx.request.body().catch(() => undefined);
+          const body = await ctx.body;
+          return body && typeof body === "object" ? getClaim(body as Record<string, unknown>, operand.path) : undefined;
+        }
+      }
+    };
+
+    for (const condition of conditions) {
+      const left = await resolve(condition.left);
+      const right = await resolve(condition.right);
+      // a missing value never satisfies a condition, whichever operator it uses
+      let holds = left != null && right != null;
+      if (holds && condition.op === "in") {
+        holds = Array.isArray(right) && right.map(String).includes(String(left));
+      } else if (holds) {
+        holds = (String(left) === String(right)) === (condition.op === "==");
+      }
+      if (!holds) return condition.source;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Router middleware that lets a request reach its route only when the policy allows it, and records the
+ * principal and its tenant on the context. Without an authenticator every route is open and unscoped.
+ */
+export function enforcePolicy(policy: RoutePolicy, auth: Authenticator | null): Middleware {
+  return async (ctx, next) => {
+    if (!auth || !ctx.route) return next();
+    const decision = await policy.evaluate(
+      { method: ctx.method, path: ctx.url.pathname, query: ctx.url.searchParams, body: () => ctx.body() },
+      auth,
+      ctx.req
+    );
+    if (!decision.allow) {
+      throw decision.status === 401
+        ? new HttpError(401, "unauthorized", decision.reason, { "WWW-Authenticate": "Bearer" })
+        : new HttpError(decision.status, "forbidden", decision.reason);
+    }
+    ctx.principal = decision.principal;
+    ctx.scope = tenantScope(decision.principal);
+    await next();
+  };
+}
@@ -0,0 +1,204 @@
+import { ZeroHash, keccak256, toUtf8Bytes } from "ethers";
+import { JsonFile } from "./json-file.js";
+
+/**
+ * Limits an access request to part of the patient's imaging history. Every present criterion must match;
+ * an empty scope means "all studies of the patient" and is committed on-chain as bytes32(0).
+ */
+export type AccessScope = {
+  studyInstanceUids?: string[];
+  /** Inclusive StudyDate bounds, YYYYMMDD. */
+  studyDateFrom?: string;
+  studyDateTo?: string;
+  /** Modality codes (CT, MR, ...); a study matches when any of its modalities is listed. */
+  modalities?: string[];
+};
+
+export type StudyAttributes = {
+  study: string;
+  studyDate?: string;
+  modalities?: string[];
+};
+
+export type ScopeStoreCfg = {
+  file?: string;
+};
+
+const UID_RE = /^[0-9]+(\.[0-9]+)*$/;
+const MODALITY_RE = /^[A-Z0-9_]{1,16}$/;
+
+function normalizeDate(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const digits = String(value).trim().replace(/-/g, "");
+  if (!/^\d{8}$/.test(digits)) {
+    throw new Error(`${field} must be YYYYMMDD or YYYY-MM-DD`);
+  }
+  return digits;
+}
+
+/** Validates a scope from user input and brings it into the canonical form that is hashed. */
+export function normalizeScope(input: unknown): AccessScope {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("scope must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+
+  const scope: AccessScope = {};
+  if (raw.studyInstanceUids !== undefined) {
+    if (!Array.isArray(raw.studyInstanceUids)) throw new Error("studyInstanceUids must be an array");
+    const uids = new Set<string>();
+    for (const value of raw.studyInstanceUids) {
+      const uid = String(value ?? "").trim();
+      if (!uid) continue;
+      if (!UID_RE.test(uid) || uid.length > 64) throw new Error(`invalid StudyInstanceUID: ${uid}`);
+      uids.add(uid);
+    }
+    if (uids.size) scope.studyInstanceUids = Array.from(uids).sort();
+  }
+
+  const from = normalizeDate(raw.studyDateFrom, "studyDateFrom");
+  const to = normalizeDate(raw.studyDateTo, "studyDateTo");
+  if (from && to && from > to) throw new Error("studyDateFrom must not be after studyDateTo");
+  if (from) scope.studyDateFrom = from;
+  if (to) scope.studyDateTo = to;
+
+  if (raw.modalities !== undefined) {
+    if (!Array.isArray(raw.modalities)) throw new Error("modalities must be an array");
+    const modalities = new Set<string>();
+    for (const value of raw.modalities) {
+      const modality = String(value ?? "").trim().toUpperCase();
+      if (!modality) continue;
+      if (!MODALITY_RE.test(modality)) throw new Error(`invalid modality: ${modality}`);
+      modalities.add(modality);
+    }
+    if (modalities.size) scope.modalities = Array.from(modalities).sort();
+  }
+  return scope;
+}
+
+export function isEmptyScope(scope: AccessScope): boolean {
+  return !scope.studyInstanceUids && !scope.studyDateFrom && !scope.studyDateTo && !scope.modalities;
+}
+
+/**
+ * keccak256 of the canonical JSON (fixed key order); must stay in sync with webapp/src/lib/scope.ts, and
+ * test/scope.test.ts pins both to the same vectors.
+ */
+export function computeScopeHash(scope: AccessScope): string {
+  const normalized = normalizeScope(scope);
+  if (isEmptyScope(normalized)) return ZeroHash;
+  const canonical = {
+    studyInstanceUids: normalized.studyInstanceUids ?? [],
+    studyDateFrom: normalized.studyDateFrom ?? "",
+    studyDateTo: normalized.studyDateTo ?? "",
+    modalities: normalized.modalities ?? [],
+  };
+  return keccak256(toUtf8Bytes(JSON.stringify(canonical)));
+}
+
+export function matchesScope(scope: AccessScope, attrs: StudyAttributes): boolean {
+  if (scope.studyInstanceUids && !scope.studyInstanceUids.includes(attrs.study)) return false;
+  if (scope.studyDateFrom || scope.studyDateTo) {
+    // a study without StudyDate cannot be shown to be in range
+    if (!attrs.studyDate) return false;
+    if (scope.studyDateFrom && attrs.studyDate < scope.studyDateFrom) return false;
+    if (scope.studyDateTo && attrs.studyDate > scope.studyDateTo) return false;
+  }
+  if (scope.modalities) {
+    const listed = (attrs.modalities ?? []).map((m) => m.toUpperCase());
+    if (!listed.some((m) => scope.modalities!.includes(m))) return false;
+  }
+  return true;
+}
+
+/**
+ * QIDO-RS parameter sets that narrow a query server-side. Modality is not pushed down (it is a series
+ * attribute and list matching differs between PACS), so results still have to pass `matchesScope`.
+ */
+export function scopeQueryParams(scope: AccessScope): Record<string, string>[] {
+  const base: Record<string, string> = {};
+  if (scope.studyDateFrom || scope.studyDateTo) {
+    base.StudyDate = `${scope.studyDateFrom ?? ""}-${scope.studyDateTo ?? ""}`;
+  }
+  if (!scope.studyInstanceUids) return [base];
+  return scope.studyInstanceUids.map((uid) => ({ ...base, StudyInstanceUID: uid }));
+}
+
+/** StudyDate, Modality and ModalitiesInStudy, to be added to `includefield`. */
+export const SCOPE_INCLUDE_FIELDS = "00080020,00080060,00080061";
+
+/** The `Value` array of one attribute of a DICOM JSON dataset; empty when the attribute is missing. */
+export function dicomValues(dataset: unknown, tag: string): unknown[] {
+  const element = dataset && typeof dataset === "object" ? (dataset as Record<string, unknown>)[tag] : undefined;
+  const value = element && typeof element === "object" ? (element as { Value?: unknown }).Value : undefined;
+  return Array.isArray(value) ? value : [];
+}
+
+/** Reads the scope-relevant attributes from a DICOM JSON dataset (study, series or instance level). */
+export function studyAttributesOf(dataset: unknown): StudyAttributes | null {
+  const [study] = dicomValues(dataset, "0020000D");
+  if (typeof study !== "string" || !study) return null;
+  const modalities = [...dicomValues(dataset, "00080061"), ...dicomValues(dataset, "00080060")].filter(
+    (m): m is string => typeof m === "string"
+  );
+  const [studyDate] = dicomValues(dataset, "00080020");
+  return {
+    study,
+    studyDate: typeof studyDate === "string" ? studyDate : undefined,
+    modalities,
+  };
+}
+
+/**
+ * Scope documents keyed by their hash. Requesters register the document before committing the hash
+ * on-chain; because the key is the hash, a stored document cannot be swapped for another one.
+ */
+export class ScopeStore {
+  private readonly map = new Map<string, AccessScope>();
+
+  private constructor(private readonly file: JsonFile<Record<string, AccessScope>>, initial: Record<string, AccessScope>) {
+    for (const [hash, scope] of Object.entries(initial)) {
+      this.map.set(hash.toLowerCase(), scope);
+    }
+  }
+
+  static async init(cfg?: ScopeStoreCfg): Promise<ScopeStore> {
+    const fileUrl = cfg?.file ? new URL(cfg.file, import.meta.url) : new URL("./data/scopes.json", import.meta.url);
+    const file = new JsonFile<Record<string, AccessScope>>(fileUrl, { label: "scope store" });
+    return new ScopeStore(file, (await file.load()) ?? {});
+  }
+
+  get(scopeHash: string): AccessScope | undefined {
+    const scope = this.map.get(scopeHash.toLowerCase());
+    return scope ? normalizeScope(scope) : undefined;
+  }
+
+  /** Stores a scope and returns its hash. Empty scopes are not stored (their hash is bytes32(0)). */
+  async put(raw: unknown): Promise<{ scopeHash: string; scope: AccessScope }> {
+    const scope = normalizeScope(raw);
+    const scopeHash = computeScopeHash(scope);
+    if (scopeHash !== ZeroHash && !this.map.has(scopeHash)) {
+      this.map.set(scopeHash, scope);
+      await this.persist();
+    }
+    return { scopeHash, scope };
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write(Object.fromEntries(this.map));
+  }
+}
+
+export type ScopeResolution = { ok: true; scope: AccessScope | null } | { ok: false; message: string };
+
+/** Looks up the scope document committed by `reqs(id).scopeHash`; null means the whole patient. */
+export function resolveRequestScope(scopes: ScopeStore, reqData: { scopeHash?: unknown } | null | undefined): ScopeResolution {
+  const scopeHash = String(reqData?.scopeHash ?? ZeroHash);
+  if (!scopeHash || scopeHash === ZeroHash) return { ok: true, scope: null };
+  const scope = scopes.get(scopeHash);
+  if (!scope) {
+    return { ok: false, message: `scope document ${scopeHash} is not registered with this worker` };
+  }
+  return { ok: true, scope };
+}
@@ -0,0 +1,316 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { getAddress, verifyMessage } from "ethers";
+import type { TokenVerification } from "./auth.js";
+
+export type SiweCfg = {
+  enabled?: boolean;
+  /** Hosts (RFC 3986 authority, e.g. "portal.example.org" or "localhost:5173") allowed in the message. */
+  domains: string[];
+  /** HMAC key for session tokens, at least 32 characters. */
+  sessionSecret: string;
+  sessionTtlSeconds?: number;
+  nonceTtlSeconds?: number;
+  /** `iss` of issued session tokens. */
+  issuer?: string;
+  clockSkewSeconds?: number;
+};
+
+/** Fields of an EIP-4361 message. */
+export type SiweMessage = {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+};
+
+export type SiweSession = {
+  token: string;
+  address: string;
+  roles: string[];
+  clinics: string[];
+  /** epoch seconds */
+  expiresAt: number;
+};
+
+export type SiweResult = ({ ok: true } & SiweSession) | { ok: false; status: number; message: string };
+
+export const SESSION_KEY_ID = "worker-session";
+
+export const PATIENT_ROLE = "patient";
+export const CLINIC_OPERATOR_ROLE = "clinic.operator";
+
+const DEFAULT_SESSION_TTL_SECONDS = 60 * 60;
+const DEFAULT_NONCE_TTL_SECONDS = 5 * 60;
+const DEFAULT_ISSUER = "patient-access-worker";
+const MAX_OPEN_NONCES = 10000;
+const PREAMBLE = " wants you to sign in with your Ethereum account:";
+
+const FIELD_NAMES: Record<string, keyof SiweMessage> = {
+  "URI": "uri",
+  "Version": "version",
+  "Chain ID": "chainId",
+  "Nonce": "nonce",
+  "Issued At": "issuedAt",
+  "Expiration Time": "expirationTime",
+  "Not Before": "notBefore",
+  "Request ID": "requestId",
+};
+
+export function buildSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.scheme ? `${message.scheme}://` : ""}${message.domain}${PREAMBLE}`,
+    message.address,
+    "",
+    ...(message.statement ? [message.statement, ""] : [""]),
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+  ];
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources?.length) lines.push("Resources:", ...message.resources.map((r) => `- ${r}`));
+  return lines.join("\n");
+}
+
+/** Strict EIP-4361 parser; throws on anything that does not follow the message layout. */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split("\n");
+  const header = lines[0] ?? "";
+  if (!header.endsWith(PREAMBLE)) throw new Error("not a Sign-In with Ethereum message");
+  const origin = header.slice(0, -PREAMBLE.length);
+  const schemeMatch = origin.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\/(.+)$/);
+  const domain = schemeMatch ? schemeMatch[2] : origin;
+  if (!domain || /\s/.test(domain)) throw new Error("invalid domain");
+
+  const address = lines[1] ?? "";
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) throw new Error("invalid address");
+  if (lines[2] !== "") throw new Error("missing blank line after the address");
+
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] === "") {
+    index++;
+  } else {
+    statement = lines[index];
+    if (lines[index + 1] !== "") throw new Error("missing blank line after the statement");
+    index += 2;
+  }
+
+  const fields: Partial<Record<keyof SiweMessage, string>> = {};
+  let resources: string[] | undefined;
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line === "Resources:") {
+      resources = lines.slice(index + 1).map((entry) => {
+        if (!entry.startsWith("- ")) throw new Error("invalid resource line");
+        return entry.slice(2);
+      });
+      break;
+    }
+    const sep = line.indexOf(": ");
+    const key = sep > 0 ? FIELD_NAMES[line.slice(0, sep)] : undefined;
+    if (!key || fields[key] !== undefined) throw new Error(`unexpected line: ${line}`);
+    fields[key] = line.slice(sep + 2);
+  }
+
+  for (const required of ["uri", "version", "chainId", "nonce", "issuedAt"] as const) {
+    if (!fields[required]) throw new Error(`missing field: ${required}`);
+  }
+  if (fields.version !== "1") throw new Error("unsupported version");
+  if (!/^\d+$/.test(fields.chainId!)) throw new Error("invalid chain id");
+  if (!/^[a-zA-Z0-9]{8,}$/.test(fields.nonce!)) throw new Error("invalid nonce");
+  for (const key of ["issuedAt", "expirationTime", "notBefore"] as const) {
+    if (fields[key] !== undefined && Number.isNaN(Date.parse(fields[key]!))) throw new Error(`invalid ${key}`);
+  }
+
+  return {
+    scheme: schemeMatch?.[1],
+    domain,
+    address,
+    statement,
+    uri: fields.uri!,
+    version: fields.version!,
+    chainId: Number(fields.chainId),
+    nonce: fields.nonce!,
+    issuedAt: fields.issuedAt!,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources,
+  };
+}
+
+function base64Url(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+/** Header or payload of a session token; throws unless it is a JSON object. */
+function decodeSegment(segment: string): Record<string, unknown> {
+  const decoded: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf-8"));
+  if (!decoded || typeof decoded !== "object" || Array.isArray(decoded)) throw new Error("not a JSON object");
+  return decoded as Record<string, unknown>;
+}
+
+/**
+ * Sign-In with Ethereum for wallet holders (patients, clinic operators) who have no account at the IdP.
+ * The worker hands out single-use nonces, verifies the signed EIP-4361 message and issues an HS256 session
+ * token. Roles are derived once at sign-in: every wallet is a patient, and wallets the worker config names as
+ * the operator of a clinic also get the clinic operator role.
+ */
+export class SiweAuth {
+  private readonly secret: Buffer;
+  private readonly nonces = new Map<string, number>();
+  private readonly domains: Set<string>;
+  private readonly sessionTtl: number;
+  private readonly nonceTtl: number;
+  private readonly issuer: string;
+  private readonly skew: number;
+
+  constructor(
+    cfg: SiweCfg,
+    private readonly chainId: number,
+    private readonly operatorClinics: (address: string) => Promise<string[]> = async () => []
+  ) {
+    if (!cfg.domains?.length) throw new Error("siwe.domains が設定されていません");
+    if (!cfg.sessionSecret || cfg.sessionSecret.length < 32) {
+      throw new Error("siwe.sessionSecret は 32 文字以上にしてください");
+    }
+    this.secret = Buffer.from(cfg.sessionSecret, "utf-8");
+    this.domains = new Set(cfg.domains.map((d) => d.toLowerCase()));
+    this.sessionTtl = cfg.sessionTtlSeconds ?? DEFAULT_SESSION_TTL_SECONDS;
+    this.nonceTtl = cfg.nonceTtlSeconds ?? DEFAULT_NONCE_TTL_SECONDS;
+    this.issuer = cfg.issuer ?? DEFAULT_ISSUER;
+    this.skew = cfg.clockSkewSeconds ?? 60;
+  }
+
+  issueNonce(): { nonce: string; expiresAt: number; chainId: number } {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt < now) this.nonces.delete(nonce);
+    }
+    if (this.nonces.size >= MAX_OPEN_NONCES) throw new Error("too many pending sign-in nonces");
+    const nonce = randomBytes(16).toString("hex");
+    const expiresAt = now + this.nonceTtl;
+    this.nonces.set(nonce, expiresAt);
+    return { nonce, expiresAt, chainId: this.chainId };
+  }
+
+  /** The nonce is consumed by the first attempt that names it, whether or not the signature is valid. */
+  async signIn(text: string, signature: string): Promise<SiweResult> {
+    let message: SiweMessage;
+    try {
+      message = parseSiweMessage(text.replace(/\r\n/g, "\n"));
+    } catch (e) {
+      return { ok: false, status: 400, message: `invalid SIWE message: ${e instanceof Error ? e.message : String(e)}` };
+    }
+
+    const nonceExpiry = this.nonces.get(message.nonce);
+    this.nonces.delete(message.nonce);
+    const now = Math.floor(Date.now() / 1000);
+    if (nonceExpiry === undefined || nonceExpiry < now) return { ok: false, status: 401, message: "unknown or expired nonce" };
+    if (!this.domains.has(message.domain.toLowerCase())) return { ok: false, status: 401, message: "domain is not allowed" };
+    if (message.chainId !== this.chainId) return { ok: false, status: 401, message: "chain id mismatch" };
+    if (Date.parse(message.issuedAt) / 1000 > now + this.skew) return { ok: false, status: 401, message: "message issued in the future" };
+    if (message.expirationTime && Date.parse(message.expirationTime) / 1000 < now - this.skew) {
+      return { ok: false, status: 401, message: "message expired" };
+    }
+    if (message.notBefore && Date.parse(message.notBefore) / 1000 > now + this.skew) {
+      return { ok: false, status: 401, message: "message not yet valid" };
+    }
+
+    let signer: string;
+    try {
+      signer = verifyMessage(text, signature);
+    } catch {
+      return { ok: false, status: 400, message: "invalid signature" };
+    }
+    const address = getAddress(message.address);
+    if (signer !== address) return { ok: false, status: 401, message: "signature does not match the address" };
+
+    const clinics = await this.operatorClinics(address);
+    const roles = clinics.length ? [PATIENT_ROLE, CLINIC_OPERATOR_ROLE] : [PATIENT_ROLE];
+    const expiresAt = now + this.sessionTtl;
+    const claims = {
+      iss: this.issuer,
+      sub: address,
+      wallet: address,
+      chain_id: this.chainId,
+      roles,
+      clinics,
+      ...(clinics.length ? { clinic_id: clinics[0] } : {}),
+      iat: now,
+      exp: expiresAt,
+    };
+    return { ok: true, token: this.sign(claims), address, roles, clinics, expiresAt };
+  }
+
+  /** True for tokens this class issued (by header), so the auth chain does not hand them to JwtAuth. */
+  handles(token: string): boolean {
+    try {
+      const header = JSON.parse(Buffer.from(token.split(".")[0] ?? "", "base64url").toString("utf-8"));
+      return header?.kid === SESSION_KEY_ID;
+    } catch {
+      return false;
+    }
+  }
+
+  verifyToken(token: string): TokenVerification {
+    const parts = token.split(".");
+    if (parts.length !== 3) return { ok: false, status: 401, message: "invalid session token format" };
+    const [headerB64, payloadB64, signatureB64] = parts;
+
+    let header: Record<string, unknown>;
+    let payload: Record<string, unknown>;
+    try {
+      header = decodeSegment(headerB64);
+      payload = decodeSegment(payloadB64);
+    } catch {
+      return { ok: false, status: 401, message: "invalid session token encoding" };
+    }
+    if (header.alg !== "HS256" || header.kid !== SESSION_KEY_ID) {
+      return { ok: false, status: 401, message: "unexpected session token header" };
+    }
+    const expected = this.mac(`${headerB64}.${payloadB64}`);
+    const given = Buffer.from(signatureB64, "base64url");
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return { ok: false, status: 401, message: "session token signature verification failed" };
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp !== "number" || payload.exp <= now - this.skew) {
+      return { ok: false, status: 401, message: "session expired" };
+    }
+    if (payload.iss !== this.issuer) return { ok: false, status: 401, message: "session issuer mismatch" };
+
+    return {
+      ok: true,
+      principal: {
+        subject: String(payload.sub ?? ""),
+        roles: Array.isArray(payload.roles) ? payload.roles.map(String) : [],
+        claims: payload,
+        token,
+        clinicId: typeof payload.clinic_id === "string" ? payload.clinic_id : undefined,
+      },
+    };
+  }
+
+  private sign(claims: Record<string, unknown>): string {
+    const signed = `${base64Url(JSON.stringify({ alg: "HS256", typ: "JWT", kid: SESSION_KEY_ID }))}.${base64Url(JSON.stringify(claims))}`;
+    return `${signed}.${base64Url(this.mac(signed))}`;
+  }
+
+  private mac(signed: string): Buffer {
+    return createHmac("sha256", this.secret).update(signed).digest();
+  }
+}
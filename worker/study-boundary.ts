@@ -0,0 +1,125 @@
+import type { AxiosInstance } from "axios";
+import { dicomValues } from "./scope.js";
+
+/** What a `/secure/{requestId}/...` path refers to, as far as study boundaries are concerned. */
+export type GatewayTarget =
+  /** QIDO-RS search across studies (`/dicom-web/studies|series|instances`); results must be filtered. */
+  | { kind: "qido-list" }
+  /** Anything below one study: DICOMweb `/dicom-web/studies/{uid}/...` or WADO-URI `?studyUID=`. */
+  | { kind: "study"; study: string }
+  /** Orthanc REST resource addressed by its Orthanc ID; the study has to be looked up. */
+  | { kind: "orthanc-resource"; level: OrthancLevel; id: string }
+  | { kind: "unsupported"; reason: string };
+
+export type OrthancLevel = "studies" | "series" | "instances";
+
+export type BoundaryDecision = {
+  decision: "allow" | "filter" | "deny";
+  study?: string;
+  reason?: string;
+  /** Number of QIDO results removed by the filter. */
+  filtered?: number;
+};
+
+const QIDO_LIST = /^\/dicom-web\/(studies|series|instances)$/;
+const DICOMWEB_STUDY = /^\/dicom-web\/studies\/([^/]+)(?:\/.*)?$/;
+const ORTHANC_RESOURCE = /^\/(studies|series|instances)\/([0-9a-f]{8}(?:-[0-9a-f]{8}){4})(?:\/.*)?$/i;
+
+export function classifyGatewayPath(path: string, query: URLSearchParams): GatewayTarget {
+  const normalized = path.replace(/\/+$/, "") || "/";
+
+  if (QIDO_LIST.test(normalized)) return { kind: "qido-list" };
+
+  const dicomWeb = normalized.match(DICOMWEB_STUDY);
+  if (dicomWeb) {
+    let study: string;
+    try {
+      study = decodeURIComponent(dicomWeb[1]);
+    } catch {
+      return { kind: "unsupported", reason: "malformed StudyInstanceUID" };
+    }
+    return { kind: "study", study };
+  }
+
+  if (normalized === "/wado" || normalized === "/dicom-web/wado") {
+    const study = query.get("studyUID");
+    return study ? { kind: "study", study } : { kind: "unsupported", reason: "WADO-URI request without studyUID" };
+  }
+
+  const rest = normalized.match(ORTHANC_RESOURCE);
+  if (rest) {
+    return { kind: "orthanc-resource", level: rest[1].toLowerCase() as OrthancLevel, id: rest[2].toLowerCase() };
+  }
+
+  if (normalized.startsWith("/patients")) {
+    return { kind: "unsupported", reason: "patient-level resources span studies outside the request" };
+  }
+  return { kind: "unsupported", reason: `path is not a study-bounded resource: ${normalized}` };
+}
+
+/** Drops QIDO-RS datasets whose StudyInstanceUID is not allowed. Non-array payloads pass unchanged. */
+export function filterQidoResults(data: unknown, allowed: Set<string>): { data: unknown; removed: number } {
+  if (!Array.isArray(data)) return { data, removed: 0 };
+  const kept = data.filter((dataset: unknown) => {
+    const [study] = dicomValues(dataset, "0020000D");
+    return typeof study === "string" && allowed.has(study);
+  });
+  return { data: kept, removed: data.length - kept.length };
+}
+
+/**
+ * Decides whether a gateway request stays inside the studies copied for the access request. QIDO-RS searches
+ * are filtered afterwards; everything else must resolve to one of `allowed`.
+ */
+export async function checkStudyBoundary(
+  target: GatewayTarget,
+  allowed: Set<string>,
+  resolver?: Pick<OrthancStudyResolver, "studyOf"> | null
+): Promise<BoundaryDecision> {
+  if (!allowed.size) return { decision: "deny", reason: "no copied studies are recorded for this request" };
+  if (target.kind === "qido-list") return { decision: "filter" };
+  if (target.kind === "unsupported") return { decision: "deny", reason: target.reason };
+
+  const study = target.kind === "study" ? target.study : await resolver?.studyOf(target.level, target.id);
+  if (!study) return { decision: "deny", reason: "resource not found on requester orthanc" };
+  if (!allowed.has(study)) return { decision: "deny", study, reason: "study is outside the request manifest" };
+  return { decision: "allow", study };
+}
+
+const RESOLVER_CACHE_LIMIT = 5000;
+
+/**
+ * Maps Orthanc IDs (study, series or instance) to their StudyInstanceUID via the requester Orthanc.
+ * Orthanc IDs are immutable hashes of the DICOM UIDs, so results are cached without expiry.
+ */
+export class OrthancStudyResolver {
+  private readonly cache = new Map<string, string>();
+
+  constructor(private readonly http: AxiosInstance) { }
+
+  async studyOf(level: OrthancLevel, id: string): Promise<string | null> {
+    const key = `${level}/${id}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const url = level === "studies" ? `/studies/${id}` : `/${level}/${id}/study`;
+    let study: unknown;
+    try {
+      const res = await this.http.get<{ MainDicomTags?: { StudyInstanceUID?: unknown } }>(url, {
+        headers: { Accept: "application/json" },
+      });
+      study = res.data?.MainDicomTags?.StudyInstanceUID;
+    } catch (e) {
+      if ((e as { response?: { status?: number } } | null)?.response?.status === 404) return null;
+      throw e;
+    }
+    if (typeof study !== "string" || !study) return null;
+
+    if (this.cache.size >= RESOLVER_CACHE_LIMIT) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.set(key, study);
+    return study;
+  }
+}
@@ -0,0 +1,44 @@
+import type { Principal } from "./auth.js";
+
+/** Sees and edits the data of every clinic; all other principals are bound to the clinics in their token. */
+export const SUPER_ADMIN_ROLE = "worker.superadmin";
+
+/** Clinics a caller may see and change; `clinics: null` stands for all of them. */
+export type TenantScope = { clinics: ReadonlySet<string> | null };
+
+export const ALL_TENANTS: TenantScope = { clinics: null };
+
+/** Raised by the stores when a scoped caller touches another clinic's record; the API answers 403. */
+export class TenantAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TenantAccessError";
+  }
+}
+
+/**
+ * The tenant of a request. Without a principal (auth disabled) nothing is scoped, as before tenancy existed.
+ * Otherwise the clinics come from the `clinic_id` and `clinics` claims; a token with neither sees nothing.
+ */
+export function tenantScope(principal?: Principal): TenantScope {
+  if (!principal || principal.roles.includes(SUPER_ADMIN_ROLE)) return ALL_TENANTS;
+  const clinics = new Set<string>();
+  if (principal.clinicId) clinics.add(String(principal.clinicId));
+  const claimed = principal.claims?.clinics;
+  if (Array.isArray(claimed)) {
+    for (const clinicId of claimed) clinics.add(String(clinicId));
+  }
+  return { clinics };
+}
+
+/** True when any of `clinicIds` belongs to the tenant; records without a clinic belong to super-admins only. */
+export function inTenant(scope: TenantScope, ...clinicIds: (string | null | undefined)[]): boolean {
+  if (!scope.clinics) return true;
+  return clinicIds.some((clinicId) => !!clinicId && scope.clinics!.has(clinicId));
+}
+
+export function assertInTenant(scope: TenantScope, clinicId: string | null | undefined, what: string): void {
+  if (!inTenant(scope, clinicId)) {
+    throw new TenantAccessError(`${what} belongs to a clinic outside your tenant`);
+  }
+}
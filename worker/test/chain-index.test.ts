@@ -0,0 +1,174 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { id as keccakUtf8 } from "ethers";
+import { ChainIndex } from "../chain-index.js";
+import type { ChainBlock, ChainIndexSource, EventArg, IndexedEventName, RawChainEvent } from "../chain-index.js";
+
+const CONTRACT = "0xf5059a5D33d5853360D16C683c16e67980206f36";
+const PATIENT = "0x000000000000000000000000000000000000dEaD";
+const TOKEN = "0x851356ae760d987E095750cCeb3bC6014560891C";
+const PROVIDER = keccakUtf8("PROV-001").toLowerCase();
+const REQUESTER = keccakUtf8("REQ-001").toLowerCase();
+
+type FakeEvent = { name: IndexedEventName; args: Record<string, EventArg> };
+
+/** In-memory chain whose blocks can be replaced from any height, like a reorg or a Hardhat revert. */
+class FakeChain implements ChainIndexSource {
+    blocks: (ChainBlock & { events: FakeEvent[] })[] = [];
+    private fork = 0;
+
+    mine(...events: FakeEvent[]) {
+        const number = this.blocks.length;
+        this.blocks.push({ number, hash: keccakUtf8(`block-${number}-fork-${this.fork}`), timestamp: 1_700_000_000 + number, events });
+    }
+
+    /** Drops every block from `height` on; the next mined blocks get new hashes. */
+    revertTo(height: number) {
+        this.blocks = this.blocks.slice(0, height);
+        this.fork++;
+    }
+
+    async getBlockNumber() {
+        return this.blocks.length - 1;
+    }
+
+    async getBlock(blockNumber: number) {
+        const block = this.blocks[blockNumber];
+        return block ? { number: block.number, hash: block.hash, timestamp: block.timestamp } : null;
+    }
+
+    async queryEvents(fromBlock: number, toBlock: number): Promise<RawChainEvent[]> {
+        return this.blocks.slice(fromBlock, toBlock + 1).flatMap((block) =>
+            block.events.map((event, logIndex) => ({
+                ...event,
+                blockNumber: block.number,
+                blockHash: block.hash,
+                txHash: keccakUtf8(`${block.hash}-${logIndex}`),
+                logIndex,
+            }))
+        );
+    }
+}
+
+const registered = (clinicId: string): FakeEvent => ({
+    name: "ClinicRegistered",
+    args: { clinicKey: keccakUtf8(clinicId).toLowerCase(), clinicId, payout: PATIENT, operator: PATIENT },
+});
+
+const requested = (id: number): FakeEvent => ({
+    name: "AccessRequested",
+    args: { id: String(id), patient: PATIENT, providerClinicKey: PROVIDER, requesterClinicKey: REQUESTER, mode: "1", token: TOKEN, price: "100" },
+});
+
+describe("ChainIndex", () => {
+    let dir: string;
+    const file = () => pathToFileURL(join(dir, "chain-index.json")).href;
+    const open = () => ChainIndex.init({ file: file(), maxBlockRange: 2 }, { chainId: 31337, contract: CONTRACT });
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "chain-index-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("folds requests, batches and clinics from events", async () => {
+        const chain = new FakeChain();
+        chain.mine(registered("PROV-001"), registered("REQ-001"));
+        chain.mine({ name: "PriceSet", args: { providerClinicKey: PROVIDER, token: TOKEN, readPrice: "50", copyPrice: "100" } });
+        chain.mine(requested(1), requested(2), {
+            name: "AccessBatchCreated",
+            args: { batchId: "1", childIds: ["1", "2"], totalPrice: "200", token: TOKEN },
+        });
+        chain.mine({ name: "PatientApproved", args: { id: "1" } });
+        chain.mine({ name: "AccessFulfilled", args: { id: "1", manifestHash: keccakUtf8("manifest") } });
+
+        const index = await open();
+        const result = await index.sync(chain);
+
+        expect(result).toMatchObject({ fromBlock: 0, toBlock: 4, added: 8 });
+        const fulfilled = index.listRequests({ status: [2] });
+        expect(fulfilled.requests.map((r) => r.id)).toEqual([1]);
+        expect(fulfilled.requests[0]).toMatchObject({
+            statusLabel: "FULFILLED",
+            providerClinicId: "PROV-001",
+            requesterClinicId: "REQ-001",
+            batchId: 1,
+            requestedAt: { blockNumber: 2, timestamp: 1_700_000_002 },
+        });
+        expect(fulfilled.requests[0].history.map((h) => h.event)).toEqual(["AccessRequested", "PatientApproved", "AccessFulfilled"]);
+
+        const batches = index.listBatches({ requester: "REQ-001" });
+        expect(batches.total).toBe(1);
+        expect(batches.batches[0].children.map((c) => c.statusLabel)).toEqual(["FULFILLED", "REQUESTED"]);
+
+        expect(index.listClinics({ priced: true }).clinics.map((c) => c.clinicId)).toEqual(["PROV-001"]);
+        expect(index.listRequests({ provider: PROVIDER, patient: PATIENT.toLowerCase() }).total).toBe(2);
+    });
+
+    it("rolls back events of replaced blocks after a reorg", async () => {
+        const chain = new FakeChain();
+        chain.mine(registered("PROV-001"), registered("REQ-001"));
+        chain.mine(requested(1));
+        chain.mine({ name: "PatientApproved", args: { id: "1" } });
+
+        const index = await open();
+        await index.sync(chain);
+        expect(index.listRequests().requests[0].statusLabel).toBe("PATIENT_APPROVED");
+
+        // the approval is orphaned and the request is canceled on the new branch instead
+        chain.revertTo(2);
+        chain.mine({ name: "AccessCanceled", args: { id: "1" } });
+        chain.mine();
+
+        const result = await index.sync(chain);
+
+        expect(result.reorg).toEqual({ ancestor: 1, dropped: 1 });
+        expect(result).toMatchObject({ fromBlock: 2, toBlock: 3, added: 1 });
+        const [request] = index.listRequests().requests;
+        expect(request.statusLabel).toBe("CANCELED");
+        expect(request.history.map((h) => h.event)).toEqual(["AccessRequested", "AccessCanceled"]);
+        expect(index.status()).toMatchObject({ block: 3, blockHash: chain.blocks[3].hash });
+    });
+
+    it("resumes from the persisted cursor and detects a reorg that happened while stopped", async () => {
+        const chain = new FakeChain();
+        chain.mine(registered("PROV-001"), registered("REQ-001"));
+        chain.mine(requested(1));
+        await (await open()).sync(chain);
+
+        chain.revertTo(1);
+        chain.mine(requested(1), requested(2));
+
+        const restarted = await open();
+        expect(restarted.status().block).toBe(1);
+        const result = await restarted.sync(chain);
+
+        expect(result.reorg).toEqual({ ancestor: 0, dropped: 1 });
+        expect(restarted.listRequests().requests.map((r) => r.id)).toEqual([2, 1]);
+    });
+
+    it("writes the chunks of a catch-up once, including those indexed before an RPC failure", async () => {
+        const chain = new FakeChain();
+        chain.mine(registered("PROV-001"), registered("REQ-001"));
+        for (let id = 1; id <= 4; id++) chain.mine(requested(id));
+        const flaky: ChainIndexSource = {
+            getBlockNumber: () => chain.getBlockNumber(),
+            getBlock: (blockNumber) => chain.getBlock(blockNumber),
+            // the third chunk (block 4) fails
+            queryEvents: async (fromBlock, toBlock) => {
+                if (fromBlock >= 4) throw new Error("rpc timeout");
+                return chain.queryEvents(fromBlock, toBlock);
+            },
+        };
+
+        await expect((await open()).sync(flaky)).rejects.toThrow("rpc timeout");
+
+        const restarted = await open();
+        expect(restarted.status()).toMatchObject({ block: 3, events: 5 });
+        expect(await restarted.sync(chain)).toMatchObject({ fromBlock: 4, toBlock: 4, added: 1 });
+    });
+});
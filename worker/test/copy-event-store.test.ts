@@ -0,0 +1,170 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { jest } from "@jest/globals";
+import { CopyEventStore } from "../copy-event-store.js";
+import type { CopyEvent } from "../copy-event-store.js";
+
+/** A start record as the store writes it, with fixed timestamps so ordering and ranges are deterministic. */
+function startRecord(requestId: number, at: string, fields: Partial<CopyEvent> = {}) {
+    return {
+        op: "start",
+        event: {
+            requestId,
+            attempt: 1,
+            previousAttempts: [],
+            providerId: "PROV-001",
+            requesterClinicId: "REQ-001",
+            patientAddress: `0x${String(requestId).padStart(40, "a")}`,
+            patientId: `P-${requestId}`,
+            total: 0,
+            success: 0,
+            failed: 0,
+            status: "pending",
+            errors: [],
+            failures: [],
+            startedAt: at,
+            updatedAt: at,
+            ...fields,
+        },
+    };
+}
+
+describe("CopyEventStore", () => {
+    let dir: string;
+    let path: string;
+    let file: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "copy-event-store-"));
+        path = join(dir, "copy-events.jsonl");
+        file = pathToFileURL(path).href;
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    const logLines = async () => (await readFile(path, "utf-8").catch(() => "")).split("\n").filter(Boolean);
+
+    /** Appends are fire-and-forget; waits until `count` records have reached the log. */
+    async function waitForLog(count: number) {
+        for (let i = 0; i < 100 && (await logLines()).length < count; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        expect(await logLines()).toHaveLength(count);
+    }
+
+    it("appends one record per operation and replays them after a restart", async () => {
+        const store = await CopyEventStore.init({ file });
+        store.start({ requestId: 1, providerId: "PROV-001", requesterClinicId: "REQ-001", patientAddress: "0xA", patientId: "P-1" });
+        store.update(1, { status: "copying", total: 3, success: 1 });
+        store.recordFailure(1, { sop: "1.2", message: "timeout" });
+        store.update(1, { status: "partial", success: 2, failed: 1, manifestHash: "0xaa" });
+        store.beginAttempt(1, { success: 2, failed: 1 });
+        store.fail(1, "provider offline");
+        // unknown requests are not logged
+        store.update(9, { status: "completed" });
+        store.recordFailure(9, { sop: "1.9", message: "x" });
+        await waitForLog(6);
+
+        expect((await logLines()).map((line) => JSON.parse(line).op)).toEqual(["start", "update", "failure", "update", "attempt", "fail"]);
+        const reloaded = await CopyEventStore.init({ file });
+        expect(reloaded.get(1)).toEqual(store.get(1));
+        expect(reloaded.get(1)).toMatchObject({
+            attempt: 2,
+            status: "error",
+            success: 2,
+            failed: 1,
+            errors: ["provider offline"],
+            failures: [],
+            previousAttempts: [{ attempt: 1, status: "partial", total: 3, success: 2, failed: 1, manifestHash: "0xaa" }],
+        });
+        expect(reloaded.get(9)).toBeUndefined();
+    });
+
+    it("logs progress merged every 25 updates and in full before the next status change", async () => {
+        const store = await CopyEventStore.init({ file });
+        const progress: number[] = [];
+        store.subscribe((change) => change.type === "progress" && progress.push(change.event.success));
+        store.start({ requestId: 1, patientAddress: "0xA", patientId: "P-1" });
+        store.update(1, { status: "copying", total: 60 });
+        const rate = (instances: number) => ({ instances, bytes: instances, elapsedMs: 1000, instancesPerSec: instances, bytesPerSec: instances });
+        for (let success = 1; success <= 30; success++) store.update(1, { success, throughput: rate(success) });
+        await waitForLog(3);
+
+        // a restart here loses only the progress held since the last merged record
+        expect(progress).toHaveLength(30);
+        expect((await CopyEventStore.init({ file })).get(1)).toMatchObject({ status: "copying", success: 25 });
+
+        for (let success = 31; success <= 60; success++) store.update(1, { success });
+        store.update(1, { status: "completed", manifestHash: "0xaa" });
+        await waitForLog(6);
+
+        expect((await logLines()).map((line) => JSON.parse(line).op)).toEqual(["start", "update", "update", "update", "update", "update"]);
+        expect((await CopyEventStore.init({ file })).get(1)).toEqual(store.get(1));
+        expect(store.get(1)).toMatchObject({ status: "completed", success: 60, throughput: rate(30) });
+    });
+
+    it("skips unreadable lines and compacts a log that outgrew its requests", async () => {
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+        const at = "2026-01-01T00:00:00.000Z";
+        const lines = [JSON.stringify(startRecord(1, at)), "{ truncated"];
+        for (let i = 0; i < 1010; i++) {
+            lines.push(JSON.stringify({ op: "update", id: 1, at, patch: { success: i } }));
+        }
+        await writeFile(path, lines.join("\n") + "\n");
+
+        const store = await CopyEventStore.init({ file });
+        expect(warn).toHaveBeenCalledWith("copy-events: skipped unreadable log line");
+        expect(store.get(1)?.success).toBe(1009);
+
+        const compacted = await logLines();
+        expect(compacted).toHaveLength(1);
+        expect(JSON.parse(compacted[0])).toMatchObject({ op: "snapshot", event: { requestId: 1, success: 1009 } });
+        expect((await CopyEventStore.init({ file })).get(1)).toEqual(store.get(1));
+    });
+
+    it("filters by provider, patient, status and time range before paginating newest first", async () => {
+        const records = [
+            startRecord(1, "2026-01-01T00:00:00.000Z", { status: "completed", updatedAt: "2026-01-01T01:00:00.000Z" }),
+            startRecord(2, "2026-01-02T00:00:00.000Z", { status: "partial", updatedAt: "2026-01-02T01:00:00.000Z" }),
+            startRecord(3, "2026-01-03T00:00:00.000Z", { status: "completed", providerId: "PROV-002", updatedAt: "2026-01-03T01:00:00.000Z" }),
+            startRecord(4, "2026-01-04T00:00:00.000Z", { status: "error", updatedAt: "2026-01-04T01:00:00.000Z" }),
+            startRecord(5, "2026-01-05T00:00:00.000Z", { status: "completed", updatedAt: "2026-01-05T01:00:00.000Z" }),
+        ];
+        await writeFile(path, records.map((r) => JSON.stringify(r)).join("\n") + "\n");
+        const store = await CopyEventStore.init({ file });
+        const ids = (query: Parameters<CopyEventStore["list"]>[0]) => store.list(query).events.map((e) => e.requestId);
+
+        expect(ids({})).toEqual([5, 4, 3, 2, 1]);
+        expect(ids({ providerId: "PROV-001", status: ["completed", "partial"] })).toEqual([5, 2, 1]);
+        expect(ids({ patient: "p-4" })).toEqual([4]);
+        expect(ids({ patient: records[1].event.patientAddress.toUpperCase() })).toEqual([2]);
+        // an event overlapping either end of the range is included
+        expect(ids({ from: "2026-01-02T00:30:00.000Z", to: "2026-01-04T00:30:00.000Z" })).toEqual([4, 3, 2]);
+
+        const page = store.list({ providerId: "PROV-001", limit: 2, offset: 1 });
+        expect(page).toMatchObject({ total: 4, limit: 2, offset: 1 });
+        expect(page.events.map((e) => e.requestId)).toEqual([4, 2]);
+        expect(store.list({ providerId: "PROV-001", offset: 4 }).events).toEqual([]);
+        expect(store.list({ limit: 0, offset: -3 })).toMatchObject({ limit: 1, offset: 0, total: 5 });
+        expect(store.list({ limit: 10_000 }).limit).toBe(500);
+    });
+
+    it("trims the error and failure lists of summaries but not of the detail view", async () => {
+        const store = await CopyEventStore.init({ file });
+        store.start({ requestId: 1, patientAddress: "0xa", patientId: "P-1" });
+        for (let i = 0; i < 25; i++) store.recordFailure(1, { sop: `1.${i}`, message: "timeout" });
+        for (let i = 0; i < 7; i++) store.update(1, { error: `error ${i}` });
+
+        const [summary] = store.list().events;
+        expect(summary.failures.map((f) => f.sop)).toEqual(Array.from({ length: 20 }, (_, i) => `1.${i + 5}`));
+        expect(summary.errors).toEqual(["error 2", "error 3", "error 4", "error 5", "error 6"]);
+        expect(store.get(1)?.failures).toHaveLength(25);
+        expect(store.get(1)?.errors).toHaveLength(7);
+        await waitForLog(33);
+    });
+});
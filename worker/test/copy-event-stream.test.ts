@@ -0,0 +1,128 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { CopyEventStore } from "../copy-event-store.js";
+import type { CopyEventChange } from "../copy-event-store.js";
+import { streamCopyEvents } from "../copy-event-stream.js";
+
+type Frame = { event: string; data: unknown };
+
+/** Reads SSE frames off a fetch body until `count` named events have arrived. */
+async function readFrames(body: ReadableStream<Uint8Array>, count: number): Promise<Frame[]> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const frames: Frame[] = [];
+    let buffer = "";
+    while (frames.length < count) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) >= 0) {
+            const block = buffer.slice(0, end);
+            buffer = buffer.slice(end + 2);
+            const event = block.match(/^event: (.*)$/m)?.[1];
+            const data = block.match(/^data: (.*)$/m)?.[1];
+            if (event && data) frames.push({ event, data: JSON.parse(data) });
+        }
+    }
+    reader.releaseLock();
+    return frames;
+}
+
+describe("copy event stream", () => {
+    let dir: string;
+    let store: CopyEventStore;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "copy-event-stream-"));
+        store = await CopyEventStore.init({ file: pathToFileURL(join(dir, "copy-events.jsonl")).href });
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("tells progress, per-SOP failures and status transitions apart", () => {
+        const changes: CopyEventChange[] = [];
+        const unsubscribe = store.subscribe((change) => changes.push(change));
+
+        store.start({ requestId: 1, patientAddress: "0xabc", patientId: "P-1" });
+        store.update(1, { status: "copying", total: 3 });
+        store.update(1, { success: 1 });
+        store.recordFailure(1, { sop: "1.2.3", message: "HTTP 500" });
+        store.fail(1, "provider unreachable");
+        unsubscribe();
+        store.update(1, { success: 2 });
+
+        expect(changes.map((c) => (c.type === "status" ? `status:${c.from ?? "-"}>${c.event.status}` : c.type))).toEqual([
+            "status:->pending",
+            "status:pending>copying",
+            "progress",
+            "failure",
+            "status:copying>error",
+        ]);
+        expect(changes[3]).toMatchObject({ attempt: 1, failure: { sop: "1.2.3", message: "HTTP 500" } });
+    });
+
+    describe("over HTTP", () => {
+        let server: Server;
+        let base: string;
+
+        beforeEach(async () => {
+            server = createServer((req, res) => {
+                const url = new URL(req.url ?? "/", "http://localhost");
+                const requestId = url.searchParams.get("requestId");
+                streamCopyEvents(req, res, store, requestId ? { requestId: Number(requestId) } : {}, { heartbeatMs: 50 });
+            });
+            await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+            base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterEach(async () => {
+            server.closeAllConnections();
+            await new Promise((resolve) => server.close(resolve));
+        });
+
+        it("sends a snapshot, then only the changes of the requested copy", async () => {
+            store.start({ requestId: 1, patientAddress: "0xabc", patientId: "P-1" });
+            store.start({ requestId: 2, patientAddress: "0xdef", patientId: "P-2" });
+            const controller = new AbortController();
+            const res = await fetch(`${base}/copy-events/stream?requestId=1`, { signal: controller.signal });
+            expect(res.headers.get("content-type")).toMatch(/^text\/event-stream/);
+            const frames = readFrames(res.body!, 4);
+
+            // wait for the subscription to be in place before producing changes
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            store.update(2, { status: "copying" });
+            store.update(1, { status: "copying", total: 2 });
+            store.recordFailure(1, { sop: "1.2.3", message: "HTTP 500" });
+            store.update(1, { success: 1, failed: 1 });
+
+            const received = await frames;
+            controller.abort();
+
+            expect(received.map((f) => f.event)).toEqual(["snapshot", "status", "failure", "progress"]);
+            expect(received[0].data).toMatchObject({ events: [{ requestId: 1 }] });
+            expect(received[1].data).toMatchObject({ requestId: 1, from: "pending", event: { status: "copying", total: 2 } });
+            expect(received[2].data).toEqual({ requestId: 1, attempt: 1, failure: { sop: "1.2.3", message: "HTTP 500" } });
+            expect(received[3].data).toMatchObject({ event: { success: 1, failed: 1 } });
+        });
+
+        it("stops listening once the client goes away", async () => {
+            const listeners = () => (store as unknown as { listeners: Set<unknown> }).listeners.size;
+            const controller = new AbortController();
+            const res = await fetch(`${base}/copy-events/stream`, { signal: controller.signal });
+            await readFrames(res.body!, 1);
+            expect(listeners()).toBe(1);
+
+            controller.abort();
+            for (let i = 0; i < 50 && listeners() > 0; i++) await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(listeners()).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { CopyEventStore } from "../copy-event-store.js";
+import { CopyRetryService } from "../copy-retry.js";
+import { JobQueue } from "../job-queue.js";
+import type { CopyJobInstance } from "../job-queue.js";
+import { ManifestStore, buildManifest, calcManifestHash } from "../manifest.js";
+import { TransferPool } from "../transfer.js";
+
+const REQUEST_ID = 5;
+const PROVIDER = "PROV-001";
+const PATIENT = { patientAddress: "0x000000000000000000000000000000000000dEaD", patientId: "P-001" };
+const COPIED: CopyJobInstance = { sop: "1.2.3.1", study: "1.2.3", series: "1.2.3.9", sha256: `0x${"11".repeat(32)}` };
+const MISSED: CopyJobInstance = { sop: "1.2.3.2", study: "1.2.3", series: "1.2.3.9" };
+/** Where the PatientApproved event behind the queued job was mined. */
+const APPROVAL = { hash: `0x${"0a".repeat(32)}`, txHash: `0x${"0b".repeat(32)}` };
+
+describe("CopyRetryService", () => {
+    let dir: string;
+
+    const fileIn = (name: string) => pathToFileURL(join(dir, name)).href;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "copy-retry-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    /** A job whose first copy stored COPIED and lost MISSED, on a request with the given on-chain status. */
+    async function setup(chainStatus: number, opts: { transferFails?: boolean } = {}) {
+        const jobQueue = await JobQueue.init({ file: fileIn("copy-jobs.json") });
+        const copyEvents = await CopyEventStore.init({ file: fileIn("copy-events.jsonl") });
+        const manifests = await ManifestStore.init({ dir: fileIn("manifests/") });
+        const fulfilled: { requestId: number; manifestHash: string }[] = [];
+
+        await jobQueue.enqueue(REQUEST_ID, 10, APPROVAL);
+        await jobQueue.update(REQUEST_ID, { providerId: PROVIDER, ...PATIENT });
+        await jobQueue.recordUploaded(REQUEST_ID, [COPIED]);
+        copyEvents.start({ requestId: REQUEST_ID, providerId: PROVIDER, ...PATIENT });
+
+        const first = buildManifest({ requestId: REQUEST_ID, providerId: PROVIDER, instances: [COPIED], failed: [MISSED] });
+        if (chainStatus === 2) {
+            // the partial copy was committed on-chain with MISSED listed as failed
+            await manifests.save(first);
+            await jobQueue.transition(REQUEST_ID, "fulfilled", { failed: [MISSED], manifestHash: first.manifestHash });
+            copyEvents.update(REQUEST_ID, { status: "partial", success: 1, failed: 1, manifestHash: first.manifestHash });
+        } else {
+            await jobQueue.transition(REQUEST_ID, "failed", { failed: [MISSED], lastError: "markFulfilled failed" });
+            copyEvents.update(REQUEST_ID, { status: "partial", success: 1, failed: 1 });
+        }
+
+        const service = new CopyRetryService({
+            contract: { reqs: async () => ({ status: chainStatus }) },
+            jobQueue,
+            copyEvents,
+            manifests,
+            transferPool: new TransferPool(),
+            activeCopies: new Set(),
+            isPushPending: () => false,
+            transferFor: () => async () => {
+                if (opts.transferFails) throw new Error("provider offline");
+                return { bytes: 6, sha256: `0x${"22".repeat(32)}` };
+            },
+            requesterClinicId: () => "REQ-001",
+            markFulfilled: async (_providerId, payload) => {
+                fulfilled.push({ requestId: payload.requestId, manifestHash: payload.manifestHash });
+            },
+            log: () => undefined,
+            warn: () => undefined,
+        });
+        return { service, jobQueue, copyEvents, manifests, fulfilled, first };
+    }
+
+    it("fulfils an approved request with a manifest of every instance copied so far", async () => {
+        const { service, jobQueue, copyEvents, manifests, fulfilled } = await setup(1);
+
+        const started = await service.retry(REQUEST_ID);
+        expect(started).toMatchObject({ status: 202, body: { requestId: REQUEST_ID, attempt: 2, retrying: 1 } });
+        await service.settled(REQUEST_ID);
+
+        const job = jobQueue.get(REQUEST_ID)!;
+        const stored = await manifests.get(REQUEST_ID);
+        expect(job.state).toBe("fulfilled");
+        expect(job.failed).toEqual([]);
+        expect(stored?.instances.map((i) => i.sop)).toEqual([COPIED.sop, MISSED.sop]);
+        expect(calcManifestHash(stored!)).toBe(job.manifestHash);
+        expect(fulfilled).toEqual([{ requestId: REQUEST_ID, manifestHash: job.manifestHash }]);
+        expect(copyEvents.get(REQUEST_ID)).toMatchObject({ status: "completed", success: 2, failed: 0, manifestHash: job.manifestHash });
+    });
+
+    it("keeps the committed manifest hash when it fills in instances of a fulfilled request", async () => {
+        const { service, jobQueue, copyEvents, manifests, fulfilled, first } = await setup(2);
+
+        expect((await service.retry(REQUEST_ID)).status).toBe(202);
+        await service.settled(REQUEST_ID);
+
+        const job = jobQueue.get(REQUEST_ID)!;
+        expect(job.failed).toEqual([]);
+        expect(job.uploaded.map((i) => i.sop)).toEqual([COPIED.sop, MISSED.sop]);
+        // the chain, the stored document, the job and the copy event must keep agreeing on one hash
+        expect(job.manifestHash).toBe(first.manifestHash);
+        expect(copyEvents.get(REQUEST_ID)).toMatchObject({ status: "completed", manifestHash: first.manifestHash });
+        expect(calcManifestHash((await manifests.get(REQUEST_ID))!)).toBe(first.manifestHash);
+        expect(fulfilled).toEqual([]);
+    });
+
+    it("records instances that fail again and lists them as failed in the manifest", async () => {
+        const { service, jobQueue, copyEvents, manifests, fulfilled } = await setup(1, { transferFails: true });
+
+        await service.retry(REQUEST_ID);
+        await service.settled(REQUEST_ID);
+
+        expect(jobQueue.get(REQUEST_ID)?.failed.map((i) => i.sop)).toEqual([MISSED.sop]);
+        expect(copyEvents.get(REQUEST_ID)?.failures).toEqual([expect.objectContaining({ sop: MISSED.sop, message: "provider offline" })]);
+        expect(copyEvents.get(REQUEST_ID)?.status).toBe("partial");
+        // a partial copy is still fulfilled; the manifest lists what is missing
+        expect((await manifests.get(REQUEST_ID))?.failed.map((f) => f.sop)).toEqual([MISSED.sop]);
+        expect(fulfilled).toHaveLength(1);
+    });
+
+    it("refuses requests that are not approved, settled on-chain or already being copied", async () => {
+        for (const [status, error] of [
+            [0, "request is not approved"],
+            [3, "request is EXPIRED on-chain"],
+            [4, "request is CANCELED on-chain"],
+        ] as const) {
+            const { service } = await setup(status);
+            expect(await service.retry(REQUEST_ID)).toEqual({ status: 409, error });
+            await rm(dir, { recursive: true, force: true });
+            dir = await mkdtemp(join(tmpdir(), "copy-retry-"));
+        }
+
+        const { service } = await setup(1);
+        expect((await service.retry(REQUEST_ID)).status).toBe(202);
+        expect(await service.retry(REQUEST_ID)).toEqual({ status: 409, error: "copy is already in progress" });
+        await service.settled(REQUEST_ID);
+        expect(await service.retry(999)).toEqual({ status: 404, error: "no copy job for this request" });
+    });
+});
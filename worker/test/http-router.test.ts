@@ -0,0 +1,171 @@
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Authenticator } from "../auth.js";
+import { cors, HttpError, Router, validateJson } from "../http-router.js";
+import { enforcePolicy, RoutePolicy } from "../route-policy.js";
+import { TenantAccessError } from "../tenancy.js";
+
+// Tokens are role names, so `Bearer worker.admin` authenticates a worker admin
+const auth: Authenticator = {
+    verifyHeader(req) {
+        const header = req.headers.authorization;
+        return header ? { ok: true, token: header.replace(/^Bearer /, "") } : { ok: false, status: 401, message: "missing Authorization header" };
+    },
+    async verifyToken(token) {
+        return { ok: true, principal: { subject: token, roles: [token], claims: { clinic_id: "PROV-001" }, token, clinicId: "PROV-001" } };
+    },
+};
+
+describe("Router", () => {
+    let server: Server;
+    let base: string;
+    let logged: unknown[][];
+    let audited: string[];
+
+    beforeAll(async () => {
+        logged = [];
+        audited = [];
+        const router = new Router({
+            origin: "http://worker.test",
+            mapError: (e) => (e instanceof TenantAccessError ? new HttpError(403, "forbidden", e.message) : undefined),
+            log: (...args) => logged.push(args),
+        });
+        router
+            .use(cors({ origins: ["https://app.example.com"] }))
+            .use(enforcePolicy(new RoutePolicy([{ path: "/items/*", requiredRoles: ["worker.admin"] }]), auth));
+        router.get("/items", (ctx) => ctx.json({ items: [], clinics: Array.from(ctx.scope.clinics ?? []) }));
+        router.get("/items/:id(\\d+)", (ctx) => ctx.json({ id: ctx.params.id }));
+        router.put<{ name: string }>(
+            "/items/:id(\\d+)",
+            async (ctx) => ctx.json({ id: ctx.params.id, name: (await ctx.body()).name }),
+            {
+                schema: { type: "object", required: ["name"], properties: { name: { type: "string", minLength: 1 } } },
+                use: [
+                    async (ctx, next) => {
+                        let status = 200;
+                        try {
+                            await next();
+                        } catch (e) {
+                            status = router.toHttpError(e).status;
+                            throw e;
+                        } finally {
+                            audited.push(`${ctx.method} ${ctx.url.pathname} ${status}`);
+                        }
+                    },
+                ],
+            }
+        );
+        router.delete("/items/:id(\\d+)", () => {
+            throw new TenantAccessError("item 7 belongs to a clinic outside your tenant");
+        });
+        router.post("/items/:id(\\d+)/fail", () => {
+            throw new Error("disk full at /var/lib/worker");
+        });
+
+        server = createServer(router.handle);
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    const call = (path: string, init: RequestInit & { token?: string } = {}) =>
+        fetch(`${base}${path}`, {
+            ...init,
+            headers: {
+                Origin: "https://app.example.com",
+                ...(init.token ? { Authorization: `Bearer ${init.token}` } : {}),
+                ...(init.body ? { "Content-Type": "application/json" } : {}),
+            },
+        });
+
+    it("routes by method and constrained params behind the policy", async () => {
+        const list = await call("/items", { token: "worker.admin" });
+        expect(list.status).toBe(200);
+        expect(await list.json()).toEqual({ items: [], clinics: ["PROV-001"] });
+        expect(await (await call("/items/42", { token: "worker.admin" })).json()).toEqual({ id: "42" });
+
+        const anonymous = await call("/items");
+        expect(anonymous.status).toBe(401);
+        expect(anonymous.headers.get("www-authenticate")).toBe("Bearer");
+        expect(await anonymous.json()).toEqual({ error: "missing Authorization header", code: "unauthorized" });
+        expect(await (await call("/items", { token: "worker.read" })).json()).toEqual({
+            error: "forbidden: insufficient role",
+            code: "forbidden",
+        });
+    });
+
+    it("answers unknown paths 404 and unserved methods 405 with the envelope", async () => {
+        const missing = await call("/items/abc", { token: "worker.admin" });
+        expect(missing.status).toBe(404);
+        expect(await missing.json()).toEqual({ error: "not found", code: "not_found" });
+
+        const patch = await call("/items/42", { method: "PATCH", token: "worker.admin" });
+        expect(patch.status).toBe(405);
+        expect(patch.headers.get("allow")).toBe("GET,PUT,DELETE");
+        expect(await patch.json()).toMatchObject({ code: "method_not_allowed" });
+    });
+
+    it("advertises the methods of the path in CORS preflights", async () => {
+        const preflight = await call("/items/42/fail", { method: "OPTIONS" });
+        expect(preflight.status).toBe(204);
+        expect(preflight.headers.get("access-control-allow-methods")).toBe("POST,OPTIONS");
+        expect(preflight.headers.get("access-control-allow-origin")).toBe("https://app.example.com");
+        expect((await call("/items", { method: "OPTIONS" })).headers.get("access-control-allow-methods")).toBe("GET,OPTIONS");
+    });
+
+    it("validates bodies against the route schema before the handler runs", async () => {
+        const ok = await call("/items/7", { method: "PUT", token: "worker.admin", body: JSON.stringify({ name: "CT" }) });
+        expect(await ok.json()).toEqual({ id: "7", name: "CT" });
+
+        const empty = await call("/items/7", { method: "PUT", token: "worker.admin", body: JSON.stringify({ name: "" }) });
+        expect(empty.status).toBe(400);
+        expect(await empty.json()).toEqual({ error: "body.name must not be empty", code: "invalid_body" });
+
+        const broken = await call("/items/7", { method: "PUT", token: "worker.admin", body: "{" });
+        expect(broken.status).toBe(400);
+        expect(await broken.json()).toMatchObject({ code: "invalid_json" });
+        // route middleware wraps the validation, so it sees the rejected requests too
+        expect(audited).toEqual(["PUT /items/7 200", "PUT /items/7 400", "PUT /items/7 400"]);
+    });
+
+    it("answers mapped errors with their status and hides unexpected ones behind a logged 500", async () => {
+        const foreign = await call("/items/7", { method: "DELETE", token: "worker.admin" });
+        expect(foreign.status).toBe(403);
+        expect(await foreign.json()).toEqual({ error: "item 7 belongs to a clinic outside your tenant", code: "forbidden" });
+        expect(logged).toHaveLength(0);
+
+        const failed = await call("/items/7/fail", { method: "POST", token: "worker.admin" });
+        expect(failed.status).toBe(500);
+        expect(await failed.json()).toEqual({ error: "internal server error", code: "internal_error" });
+        expect(logged).toHaveLength(1);
+        expect(String(logged[0][1])).toContain("disk full");
+    });
+});
+
+describe("validateJson", () => {
+    it("reports every problem with the path of the offending value", () => {
+        const schema = {
+            type: "object" as const,
+            required: ["address", "port"],
+            additionalProperties: false,
+            properties: {
+                address: { type: "string" as const, pattern: "^0x[0-9a-fA-F]{40}$" },
+                port: { type: "integer" as const, minimum: 1, maximum: 65535 },
+                tags: { type: "array" as const, items: { enum: ["a", "b"] } },
+            },
+        };
+        expect(validateJson(schema, { address: `0x${"a".repeat(40)}`, port: 4242, tags: ["a"] })).toEqual([]);
+        expect(validateJson(schema, { address: "0x1", port: 1.5, tags: ["c"], extra: true })).toEqual([
+            "body.address must match ^0x[0-9a-fA-F]{40}$",
+            "body.port must be integer",
+            'body.tags[0] must be one of "a", "b"',
+            "body.extra is not allowed",
+        ]);
+        expect(validateJson(schema, [])).toEqual(["body must be object"]);
+        expect(validateJson(schema, {})).toEqual(["body.address is required", "body.port is required"]);
+    });
+});
@@ -0,0 +1,128 @@
+import { mkdtemp, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { JobQueue } from "../job-queue.js";
+
+/** Where the PatientApproved event behind the queued job was mined. */
+const APPROVAL = { hash: `0x${"0a".repeat(32)}`, txHash: `0x${"0b".repeat(32)}` };
+
+describe("JobQueue", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "job-queue-"));
+        file = pathToFileURL(join(dir, "copy-jobs.json")).href;
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("resumes the cursor and every job after a restart", async () => {
+        const queue = await JobQueue.init({ file });
+        expect(queue.getCursor()).toBeNull();
+
+        await queue.enqueue(2, 12, APPROVAL);
+        await queue.enqueue(1, 12, APPROVAL);
+        await queue.enqueue(3, 11, APPROVAL);
+        await queue.transition(1, "copying", { providerId: "PROV-001" });
+        await queue.transition(3, "failed", { lastError: "QIDO failed" });
+        await queue.setCursor(12, "0xAB");
+
+        const restarted = await JobQueue.init({ file });
+        expect(restarted.getCursor()).toBe(12);
+        expect(restarted.recentBlocks()).toEqual([{ number: 12, hash: "0xab" }]);
+        expect(restarted.list().map((job) => job.requestId)).toEqual([3, 1, 2]);
+        expect(restarted.list(["pending", "copying"]).map((job) => job.requestId)).toEqual([1, 2]);
+        expect(restarted.get(1)).toMatchObject({ state: "copying", providerId: "PROV-001", attempts: 1 });
+        expect(restarted.get(3)).toMatchObject({ state: "failed", lastError: "QIDO failed", attempts: 0 });
+        expect(await restarted.enqueue(2, 13, APPROVAL)).toBe(false);
+    });
+
+    it("only moves the cursor forward unless it is rewound", async () => {
+        const queue = await JobQueue.init({ file });
+        await queue.setCursor(10);
+        await queue.setCursor(8);
+        expect(queue.getCursor()).toBe(10);
+
+        await queue.rewindCursor(12);
+        expect(queue.getCursor()).toBe(10);
+        await queue.rewindCursor(7);
+        expect((await JobQueue.init({ file })).getCursor()).toBe(7);
+    });
+
+    it("checkpoints uploaded instances once each and keeps their studies", async () => {
+        const queue = await JobQueue.init({ file });
+        await queue.enqueue(5, 1, APPROVAL);
+        await queue.recordUploaded(5, [
+            { sop: "1.1", study: "9.1" },
+            { sop: "1.2", study: "9.1" },
+        ]);
+        await queue.recordUploaded(5, [
+            { sop: "1.1", study: "9.1", sha256: "0x11" },
+            { sop: "1.3", study: "9.2", sha256: "0x33" },
+        ]);
+
+        const job = (await JobQueue.init({ file })).get(5)!;
+        expect(job.uploaded).toEqual([
+            { sop: "1.1", study: "9.1", sha256: "0x11" },
+            { sop: "1.2", study: "9.1" },
+            { sop: "1.3", study: "9.2", sha256: "0x33" },
+        ]);
+        expect(job.studies).toEqual(["9.1", "9.2"]);
+    });
+
+    it("counts an attempt per copy run and refuses to leave the fulfilled state", async () => {
+        const queue = await JobQueue.init({ file });
+        await queue.enqueue(4, 1, APPROVAL);
+        await queue.transition(4, "copying");
+        await queue.transition(4, "copying");
+        await queue.transition(4, "failed", { lastError: "boom" });
+        await queue.transition(4, "copying");
+        expect(queue.get(4)?.attempts).toBe(2);
+
+        await queue.transition(4, "fulfilled", { manifestHash: "0xaa" });
+        await expect(queue.transition(4, "failed")).rejects.toThrow("job 4 is already fulfilled");
+        await expect(queue.update(99, {})).rejects.toThrow("job 99 not found");
+        expect(queue.get(4)).toMatchObject({ state: "fulfilled", manifestHash: "0xaa" });
+    });
+
+    it("hands out copies so that callers cannot change a job behind the queue", async () => {
+        const queue = await JobQueue.init({ file });
+        await queue.enqueue(6, 1, APPROVAL);
+        await queue.recordUploaded(6, [{ sop: "1.1", study: "9.1" }]);
+
+        const copy = queue.get(6)!;
+        copy.uploaded.push({ sop: "1.2" });
+        copy.studies.push("9.2");
+        expect(queue.get(6)?.uploaded).toEqual([{ sop: "1.1", study: "9.1" }]);
+        expect(queue.get(6)?.studies).toEqual(["9.1"]);
+    });
+
+    it("keeps each job in a file of its own so that a checkpoint leaves the other jobs alone", async () => {
+        const queue = await JobQueue.init({ file });
+        await queue.enqueue(1, 10, APPROVAL);
+        await queue.transition(1, "fulfilled");
+        await queue.enqueue(2, 11, APPROVAL);
+        await queue.setCursor(11, "0xAB");
+        const finished = await stat(join(dir, "copy-jobs", "1.json"));
+
+        await queue.recordUploaded(2, [{ sop: "1.1", study: "9.1" }]);
+
+        expect((await readdir(join(dir, "copy-jobs"))).sort()).toEqual(["1.json", "2.json"]);
+        expect((await stat(join(dir, "copy-jobs", "1.json"))).mtimeMs).toBe(finished.mtimeMs);
+        expect(JSON.parse(await readFile(join(dir, "copy-jobs.json"), "utf-8"))).toEqual({
+            version: 1,
+            cursor: 11,
+            blocks: [{ number: 11, hash: "0xab" }],
+        });
+        expect((await JobQueue.init({ file })).get(2)?.uploaded).toEqual([{ sop: "1.1", study: "9.1" }]);
+    });
+
+    it("refuses to start from a queue file it cannot parse", async () => {
+        await writeFile(join(dir, "copy-jobs.json"), "{ not json");
+        await expect(JobQueue.init({ file })).rejects.toThrow("copy job queue の読み込みに失敗しました");
+    });
+});
@@ -0,0 +1,46 @@
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { JsonFile } from "../json-file.js";
+
+describe("JsonFile", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "json-file-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("creates the parent directory and reports a missing file as undefined", async () => {
+        const file = new JsonFile<{ n: number }>(pathToFileURL(join(dir, "nested", "store.json")), { label: "test store" });
+        expect(await file.load()).toBeUndefined();
+        expect(await readdir(dir)).toEqual(["nested"]);
+    });
+
+    it("keeps the last of several writes issued without awaiting and leaves no tmp file", async () => {
+        const path = join(dir, "store.json");
+        const file = new JsonFile<{ n: number }>(pathToFileURL(path), { label: "test store" });
+        await Promise.all([file.write({ n: 1 }), file.write({ n: 2 }), file.write({ n: 3 })]);
+
+        expect(await file.load()).toEqual({ n: 3 });
+        expect(await readFile(path, "utf-8")).toBe('{\n  "n": 3\n}\n');
+        expect(await readdir(dir)).toEqual(["store.json"]);
+    });
+
+    it("writes compact JSON with indent 0", async () => {
+        const path = join(dir, "store.json");
+        await new JsonFile<{ n: number[] }>(pathToFileURL(path), { label: "test store", indent: 0 }).write({ n: [1, 2] });
+        expect(await readFile(path, "utf-8")).toBe('{"n":[1,2]}\n');
+    });
+
+    it("names the store in the error for a file it cannot parse", async () => {
+        const path = join(dir, "store.json");
+        await writeFile(path, "{ not json");
+        const file = new JsonFile(pathToFileURL(path), { label: "test store" });
+        await expect(file.load()).rejects.toThrow(`test store の読み込みに失敗しました (${path})`);
+    });
+});
@@ -0,0 +1,150 @@
+import { generateKeyPairSync, sign } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { JwtAuth } from "../auth.js";
+import type { Jwk } from "../auth.js";
+
+type TestKey = { kid: string; alg: string; privateKey: KeyObject; jwk: Jwk };
+
+function testKey(kid: string, alg: "RS256" | "ES256" | "ES384" | "EdDSA"): TestKey {
+    const pair =
+        alg === "RS256"
+            ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+            : alg === "EdDSA"
+                ? generateKeyPairSync("ed25519")
+                : generateKeyPairSync("ec", { namedCurve: alg === "ES256" ? "P-256" : "P-384" });
+    const jwk = { ...(pair.publicKey.export({ format: "jwk" }) as Jwk), kid, alg, use: "sig" };
+    return { kid, alg, privateKey: pair.privateKey, jwk };
+}
+
+const b64 = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function tokenFor(key: TestKey, claims: object = {}, header: object = {}): string {
+    const signed = `${b64({ alg: key.alg, kid: key.kid, ...header })}.${b64({ sub: "dr-a", ...claims })}`;
+    const hash = key.alg === "EdDSA" ? null : key.alg === "ES384" ? "sha384" : "sha256";
+    const signature =
+        key.alg.startsWith("ES")
+            ? sign(hash, Buffer.from(signed), { key: key.privateKey, dsaEncoding: "ieee-p1363" })
+            : sign(hash, Buffer.from(signed), key.privateKey);
+    return `${signed}.${signature.toString("base64url")}`;
+}
+
+describe("JwtAuth", () => {
+    it("verifies RS256, ES256, ES384 and EdDSA tokens against pinned keys", async () => {
+        const keys = [testKey("rsa", "RS256"), testKey("p256", "ES256"), testKey("p384", "ES384"), testKey("ed", "EdDSA")];
+        const auth = new JwtAuth({ jwks: { keys: keys.map((k) => k.jwk) } });
+
+        for (const key of keys) {
+            expect(await auth.verifyToken(tokenFor(key, { realm_access: { roles: ["worker.read"] } }))).toMatchObject({
+                ok: true,
+                principal: { subject: "dr-a", roles: ["worker.read"] },
+            });
+        }
+
+        // a DER-encoded ECDSA signature is not a JWS signature
+        const [p256] = keys.slice(1);
+        const signed = `${b64({ alg: "ES256", kid: "p256" })}.${b64({ sub: "dr-a" })}`;
+        const der = sign("sha256", Buffer.from(signed), p256.privateKey).toString("base64url");
+        expect((await auth.verifyToken(`${signed}.${der}`)).ok).toBe(false);
+    });
+
+    it("rejects alg none, unknown algorithms and keys of the wrong type", async () => {
+        const rsa = testKey("rsa", "RS256");
+        const p256 = testKey("p256", "ES256");
+        const auth = new JwtAuth({ jwks: { keys: [rsa.jwk, { ...p256.jwk, alg: undefined }] } });
+
+        const claims = b64({ sub: "admin", realm_access: { roles: ["worker.admin"] } });
+        for (const alg of ["none", "None", "NONE"]) {
+            expect(await auth.verifyToken(`${b64({ alg, kid: "rsa" })}.${claims}.`)).toMatchObject({
+                ok: false,
+                status: 401,
+                message: "unsigned JWT is not accepted",
+            });
+        }
+        expect(await auth.verifyToken(`${b64({ alg: "HS256" })}.${claims}.c2ln`)).toMatchObject({ ok: false, message: "unsupported JWT alg: HS256" });
+
+        // an ES384 header must not select the P-256 key that carries no alg
+        const downgraded = tokenFor({ ...p256, alg: "ES384" });
+        expect(await auth.verifyToken(downgraded)).toMatchObject({ ok: false, message: "no matching key for JWT" });
+        expect((await auth.verifyToken(tokenFor(p256))).ok).toBe(true);
+    });
+
+    describe("jwksUri", () => {
+        let server: Server;
+        let jwksUri: string;
+        let published: Jwk[];
+        let status: number;
+        let fetches: number;
+
+        beforeEach(async () => {
+            published = [];
+            status = 200;
+            fetches = 0;
+            server = createServer((_req, res) => {
+                fetches++;
+                res.statusCode = status;
+                res.setHeader("Content-Type", "application/json");
+                res.end(JSON.stringify({ keys: published }));
+            });
+            await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+            jwksUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/certs`;
+        });
+
+        afterEach(async () => {
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        });
+
+        it("caches the key set and refetches it when an unknown kid appears", async () => {
+            const first = testKey("2026-01", "ES256");
+            const second = testKey("2026-02", "EdDSA");
+            published = [first.jwk, { kty: "RSA", kid: "enc", use: "enc", n: "AQAB", e: "AQAB" }];
+            const auth = new JwtAuth({ jwksUri, jwksMinRefreshSeconds: 0 });
+
+            expect((await auth.verifyToken(tokenFor(first))).ok).toBe(true);
+            expect((await auth.verifyToken(tokenFor(first))).ok).toBe(true);
+            expect(fetches).toBe(1);
+
+            // the IdP rotates: the new key is fetched on first sight, the retired one stops working
+            published = [second.jwk];
+            expect((await auth.verifyToken(tokenFor(second))).ok).toBe(true);
+            expect(fetches).toBe(2);
+            expect(await auth.verifyToken(tokenFor(first))).toMatchObject({ ok: false, message: "no matching key for JWT" });
+        });
+
+        it("limits refetches for unknown kids and keeps the last good key set when the IdP fails", async () => {
+            const key = testKey("current", "ES384");
+            published = [key.jwk];
+            const auth = new JwtAuth({ jwksUri });
+
+            const concurrent = await Promise.all([auth.verifyToken(tokenFor(key)), auth.verifyToken(tokenFor(key))]);
+            expect(concurrent.every((result) => result.ok)).toBe(true);
+            expect(fetches).toBe(1);
+
+            const stranger = testKey("made-up", "ES384");
+            for (let i = 0; i < 5; i++) {
+                expect((await auth.verifyToken(tokenFor(stranger))).ok).toBe(false);
+            }
+            expect(fetches).toBe(1);
+
+            status = 500;
+            const expiring = new JwtAuth({ jwksUri, jwksCacheSeconds: 0, jwksMinRefreshSeconds: 0 });
+            expect(await expiring.verifyToken(tokenFor(key))).toMatchObject({ ok: false, status: 503 });
+            status = 200;
+            expect((await expiring.verifyToken(tokenFor(key))).ok).toBe(true);
+            status = 500;
+            expect((await expiring.verifyToken(tokenFor(key))).ok).toBe(true);
+        });
+
+        it("checks pinned keys next to fetched ones", async () => {
+            const pinned = testKey("pinned", "RS256");
+            const remote = testKey("remote", "ES256");
+            published = [remote.jwk];
+            const auth = new JwtAuth({ jwks: { keys: [pinned.jwk] }, jwksUri });
+
+            expect((await auth.verifyToken(tokenFor(pinned))).ok).toBe(true);
+            expect((await auth.verifyToken(tokenFor(remote))).ok).toBe(true);
+        });
+    });
+});
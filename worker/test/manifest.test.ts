@@ -0,0 +1,117 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { ZeroHash } from "ethers";
+import * as webapp from "../../webapp/src/lib/manifest.js";
+import {
+    ManifestStore,
+    buildManifest,
+    buildManifestProof,
+    calcManifestHash,
+    manifestLeaf,
+    manifestRoot,
+    verifyManifestProof,
+} from "../manifest.js";
+
+const sha = (byte: string) => `0x${byte.repeat(32)}`;
+
+/** Three copied instances and two failed ones: an odd leaf count, so the carried-up node is exercised. */
+const INPUT = {
+    requestId: 42,
+    providerId: "PROV-001",
+    instances: [
+        { sop: "1.2.3.3", study: "1.2.3", series: "1.2.3.9", sha256: sha("33") },
+        { sop: "1.2.3.1", study: "1.2.3", series: "1.2.3.9", sha256: sha("11") },
+        { sop: "1.2.4.1", study: "1.2.4", series: "1.2.4.9", sha256: sha("41") },
+    ],
+    failed: [{ sop: "1.2.3.2", study: "1.2.3", series: "1.2.3.9" }, { sop: "1.2.4.2" }],
+};
+
+/*
+ * The values committed on-chain for INPUT. The worker writes them and the webapp recomputes them to verify a
+ * download, so both implementations are pinned here: changing either one has to update these vectors.
+ */
+const VECTORS = {
+    leaf: "0x7acf0fdfc51c6fda4b26310eee4c6e53608d4e57d6b0ca86f0010a3c936775e1",
+    root: "0x99ef6054cceb25a2f2cc879a46583d860967b3ef710f7e952f31b6223ebd3e07",
+};
+
+describe("manifest", () => {
+    it("commits to every copied and failed instance regardless of input order", () => {
+        const doc = buildManifest(INPUT);
+        const shuffled = buildManifest({ ...INPUT, instances: [...INPUT.instances].reverse(), failed: [...INPUT.failed].reverse() });
+
+        expect(doc.version).toBe(2);
+        expect(doc.instances.map((i) => i.sop)).toEqual(["1.2.3.1", "1.2.3.3", "1.2.4.1"]);
+        expect(doc.failed.map((f) => f.sop)).toEqual(["1.2.3.2", "1.2.4.2"]);
+        expect(doc.manifestHash).toBe(VECTORS.root);
+        expect(shuffled.manifestHash).toBe(VECTORS.root);
+        expect(calcManifestHash(doc)).toBe(VECTORS.root);
+        expect(manifestLeaf(INPUT.requestId, INPUT.providerId, INPUT.instances[1], true)).toBe(VECTORS.leaf);
+
+        // a different hash, a failed copy or another request must all change the root
+        const changed = [
+            { ...INPUT, instances: [{ ...INPUT.instances[0], sha256: sha("ff") }, ...INPUT.instances.slice(1)] },
+            { ...INPUT, instances: INPUT.instances.slice(1), failed: [...INPUT.failed, INPUT.instances[0]] },
+            { ...INPUT, requestId: 43 },
+        ];
+        for (const input of changed) expect(manifestRoot(input)).not.toBe(VECTORS.root);
+        expect(manifestRoot({ ...INPUT, instances: [], failed: [] })).toBe(ZeroHash);
+    });
+
+    it("proves the inclusion of each entry against the root", () => {
+        const doc = buildManifest(INPUT);
+        for (const sop of [...INPUT.instances, ...INPUT.failed].map((entry) => entry.sop)) {
+            const proof = buildManifestProof(doc, sop)!;
+            expect(proof).toMatchObject({ requestId: 42, sop, root: VECTORS.root });
+            expect(proof.copied).toBe(!INPUT.failed.some((f) => f.sop === sop));
+            expect(verifyManifestProof(proof.leaf, proof.proof, doc.manifestHash)).toBe(true);
+        }
+
+        const proof = buildManifestProof(doc, "1.2.3.1")!;
+        const forged = manifestLeaf(42, "PROV-001", { ...proof.entry, sha256: sha("ff") }, true);
+        expect(verifyManifestProof(forged, proof.proof, doc.manifestHash)).toBe(false);
+        expect(verifyManifestProof(proof.leaf, proof.proof.slice(1), doc.manifestHash)).toBe(false);
+        expect(buildManifestProof(doc, "9.9.9")).toBeNull();
+
+        const single = buildManifest({ ...INPUT, instances: INPUT.instances.slice(0, 1), failed: [] });
+        expect(buildManifestProof(single, "1.2.3.3")).toMatchObject({ proof: [], leaf: single.manifestHash });
+    });
+
+    it("hashes and verifies exactly like the webapp", () => {
+        const doc = buildManifest(INPUT);
+        expect(webapp.manifestLeaf(INPUT.requestId, INPUT.providerId, INPUT.instances[1], true)).toBe(VECTORS.leaf);
+        expect(webapp.calcManifestHash(doc)).toBe(VECTORS.root);
+        expect(webapp.calcManifestHash({ ...doc, instances: [], failed: [] })).toBe(ZeroHash);
+
+        for (const sop of ["1.2.3.1", "1.2.4.2"]) {
+            const proof = buildManifestProof(doc, sop)!;
+            expect(webapp.verifyManifestProof({ ...proof, manifestHash: doc.manifestHash }, INPUT.providerId, VECTORS.root)).toBe(true);
+            expect(webapp.verifyManifestProof({ ...proof, manifestHash: doc.manifestHash }, "PROV-002", VECTORS.root)).toBe(false);
+        }
+    });
+
+    describe("ManifestStore", () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), "manifest-"));
+        });
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true });
+        });
+
+        it("stores one document per request", async () => {
+            const store = await ManifestStore.init({ dir: pathToFileURL(join(dir, "manifests")).href });
+            const doc = buildManifest(INPUT);
+            await store.save(doc);
+
+            const reopened = await ManifestStore.init({ dir: pathToFileURL(join(dir, "manifests")).href });
+            expect(await reopened.get(42)).toEqual(JSON.parse(JSON.stringify(doc)));
+            expect(await reopened.get(7)).toBeNull();
+            await expect(reopened.get(-1)).rejects.toThrow("invalid requestId: -1");
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { Wallet } from "ethers";
+import { AuditLogger } from "../audit-logger.js";
+import type { AuditLogEntry } from "../audit-logger.js";
+import { CopyEventStore } from "../copy-event-store.js";
+import { buildPatientReceipts } from "../patient-receipts.js";
+
+describe("patient portal", () => {
+    describe("buildPatientReceipts", () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), "patient-portal-"));
+        });
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true });
+        });
+
+        it("returns the copy outcome and gateway accesses of the patient only, without clinic identifiers", async () => {
+            const wallet = Wallet.createRandom().address;
+            const stranger = Wallet.createRandom().address;
+            const copyEvents = await CopyEventStore.init({ file: pathToFileURL(join(dir, "copy-events.jsonl")).href });
+            const audit = await AuditLogger.init({ file: pathToFileURL(join(dir, "audit.jsonl")).href, encryptionKey: "ab".repeat(32) });
+
+            copyEvents.start({ requestId: 1, providerId: "PROV-001", patientAddress: wallet, patientId: "PID-1" });
+            copyEvents.update(1, { status: "completed", total: 2, success: 2, manifestHash: "0xmanifest" });
+            copyEvents.start({ requestId: 2, providerId: "PROV-001", patientAddress: stranger, patientId: "PID-2" });
+
+            const access = (requestId: number, patientAddress: string, extra: Partial<AuditLogEntry>): AuditLogEntry => ({
+                timestamp: new Date().toISOString(),
+                method: "GET",
+                path: "/secure/dicom-web/studies",
+                forwardPath: "/dicom-web/studies",
+                requestId,
+                patientAddress,
+                patientId: patientAddress === wallet ? "PID-1" : "PID-2",
+                query: { PatientID: "PID-1" },
+                status: 200,
+                subject: "dr-a",
+                roles: ["requester.viewer"],
+                clientIp: "10.0.0.5",
+                ...extra,
+            });
+            await audit.log(access(1, wallet, { boundary: { decision: "allow", study: "1.2.3" } }));
+            await audit.log(access(1, wallet, { status: 403, boundary: { decision: "deny", study: "9.9.9", reason: "outside" } }));
+            await audit.log(access(2, stranger, { boundary: { decision: "allow", study: "4.5.6" } }));
+
+            const receipts = await buildPatientReceipts(wallet.toLowerCase(), { copyEvents, audit }, { accessLimit: 1 });
+
+            expect(receipts).toHaveLength(1);
+            expect(receipts[0]).toMatchObject({
+                requestId: 1,
+                providerId: "PROV-001",
+                copy: { status: "completed", total: 2, success: 2, manifestHash: "0xmanifest" },
+                accessCount: 2,
+                accesses: [{ subject: "dr-a", study: "9.9.9", decision: "deny", status: 403 }],
+            });
+            const serialised = JSON.stringify(receipts);
+            for (const leaked of ["PID-1", "10.0.0.5", "PatientID", stranger]) {
+                expect(serialised).not.toContain(leaked);
+            }
+        });
+    });
+});
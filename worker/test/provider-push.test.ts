@@ -0,0 +1,485 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { createHash, randomBytes } from "node:crypto";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { pathToFileURL } from "node:url";
+import { Wallet, ZeroHash } from "ethers";
+import { CopyEventStore } from "../copy-event-store.js";
+import { JobQueue } from "../job-queue.js";
+import { ManifestStore } from "../manifest.js";
+import { ProviderPushService } from "../provider-push.js";
+import type { ProviderPushDeps, PushInstanceUpload } from "../provider-push.js";
+import { PushNonceLedger } from "../push-nonce-ledger.js";
+import { PushSessionStore } from "../push-session.js";
+import { buildPushFinalizeMessage, buildPushMessage, buildPushSessionMessage, computeInstancesHash } from "../push-utils.js";
+import type { ProviderPushEnvelope, ProviderPushInstance, PushInstanceDigest } from "../push-utils.js";
+import { ScopeStore } from "../scope.js";
+import { ALL_TENANTS, TenantAccessError } from "../tenancy.js";
+
+const CLINIC = "clinic-a";
+const REQUEST_ID = 7;
+const PATIENT = { patientAddress: "0x000000000000000000000000000000000000dEaD", patientId: "P-001" };
+/** Where the PatientApproved event behind the queued job was mined. */
+const APPROVAL = { hash: `0x${"0a".repeat(32)}`, txHash: `0x${"0b".repeat(32)}` };
+
+type Harness = {
+    service: ProviderPushService;
+    nonces: PushNonceLedger;
+    sessions: PushSessionStore;
+    scopes: ScopeStore;
+    jobQueue: JobQueue;
+    copyEvents: CopyEventStore;
+    fulfilled: number[];
+    stored: string[];
+    chain: ChainState;
+};
+
+/** What `reqs()` returns for the request; tests flip it to simulate on-chain changes. */
+type ChainState = { status: number; scopeHash?: string; manifestHash?: string };
+
+const operator = Wallet.createRandom();
+let dir: string;
+
+const fileIn = (name: string) => pathToFileURL(join(dir, name)).href;
+
+/** A worker over the same data directory; calling it twice simulates a restart. */
+async function startWorker(
+    chain: ChainState = { status: 1 },
+    opts: { expectRequest?: boolean; requester?: boolean; markFulfilled?: ProviderPushDeps["markFulfilled"] } = {}
+): Promise<Harness> {
+    const jobQueue = await JobQueue.init({ file: fileIn("copy-jobs.json") });
+    const copyEvents = await CopyEventStore.init({ file: fileIn("copy-events.jsonl") });
+    const nonces = await PushNonceLedger.init({ file: fileIn("push-nonces.json") });
+    const sessions = await PushSessionStore.init({ file: fileIn("push-sessions.json"), spoolDir: fileIn("spool/") });
+    const scopes = await ScopeStore.init({ file: fileIn("scopes.json") });
+    const fulfilled: number[] = [];
+    const stored: string[] = [];
+    const deps: ProviderPushDeps = {
+        contract: { reqs: async () => ({
+            status: chain.status,
+            scopeHash: chain.scopeHash ?? ZeroHash,
+            manifestHash: chain.manifestHash ?? ZeroHash,
+        }) },
+        jobQueue,
+        copyEvents,
+        manifests: await ManifestStore.init({ dir: fileIn("manifests/") }),
+        scopes,
+        sessions,
+        nonces,
+        signers: { [CLINIC]: operator.address },
+        storeInstance:
+            opts.requester === false
+                ? undefined
+                : async (_source, sop) => {
+                      stored.push(sop);
+                  },
+        markFulfilled:
+            opts.markFulfilled ??
+            (async (_providerId, payload) => {
+                fulfilled.push(payload.requestId);
+                chain.status = 2;
+                chain.manifestHash = payload.manifestHash;
+            }),
+        log: () => undefined,
+        warn: () => undefined,
+    };
+
+    const service = new ProviderPushService(deps);
+    if (!jobQueue.has(REQUEST_ID)) {
+        await jobQueue.enqueue(REQUEST_ID, 1, APPROVAL);
+        copyEvents.start({ requestId: REQUEST_ID, providerId: CLINIC, ...PATIENT });
+    }
+    if (opts.expectRequest !== false) {
+        // what the PatientApproved poller does for every approval it (re)discovers
+        service.expect({ requestId: REQUEST_ID, providerId: CLINIC, ...PATIENT });
+    }
+    return { service, nonces, sessions, scopes, jobQueue, copyEvents, fulfilled, stored, chain };
+}
+
+async function signedEnvelope(
+    overrides: { nonce?: string; expiresAt?: number; instances?: ProviderPushInstance[]; signer?: Pick<Wallet, "signMessage"> } = {}
+): Promise<ProviderPushEnvelope> {
+    const instances = overrides.instances ?? [
+        { sop: "1.2.3.1", study: "1.2.3", series: "1.2.3.9", data: Buffer.from("DICM-1").toString("base64") },
+    ];
+    const nonce = overrides.nonce ?? randomBytes(16).toString("hex");
+    const expiresAt = overrides.expiresAt ?? Math.floor(Date.now() / 1000) + 300;
+    const message = buildPushMessage(CLINIC, REQUEST_ID, expiresAt, nonce, computeInstancesHash(instances));
+    const signature = await (overrides.signer ?? operator).signMessage(message);
+    return { clinicId: CLINIC, requestId: REQUEST_ID, expiresAt, nonce, instances, signature };
+}
+
+async function openSession(worker: Harness): Promise<string> {
+    const nonce = randomBytes(16).toString("hex");
+    const expiresAt = Math.floor(Date.now() / 1000) + 300;
+    const signature = await operator.signMessage(buildPushSessionMessage(CLINIC, REQUEST_ID, expiresAt, nonce));
+    const request = { clinicId: CLINIC, requestId: REQUEST_ID, expiresAt, nonce, total: 2, signature };
+    const opened = await worker.service.openSession(ALL_TENANTS, request);
+    expect([200, 201]).toContain(opened.status);
+    return String(opened.body?.sessionId);
+}
+
+/** Uploads one instance into a session and returns the digest the agent lists when finalizing. */
+async function uploadInstance(worker: Harness, sessionId: string, sop: string): Promise<PushInstanceUpload> {
+    const data = Buffer.from(`DICM-${sop}`);
+    const digest = { sop, study: "1.2.3", series: "1.2.3.9", sha256: `0x${createHash("sha256").update(data).digest("hex")}` };
+    const result = await worker.service.uploadInstance(ALL_TENANTS, sessionId, digest, Readable.from([data]));
+    expect([200, 201]).toContain(result.status);
+    return digest;
+}
+
+async function finalizeBody(sessionId: string, instances: PushInstanceDigest[]) {
+    const message = buildPushFinalizeMessage(CLINIC, REQUEST_ID, sessionId, computeInstancesHash(instances));
+    return { instances, signature: await operator.signMessage(message) };
+}
+
+async function withDataDir() {
+    dir = await mkdtemp(join(tmpdir(), "provider-push-"));
+}
+
+async function removeDataDir() {
+    await rm(dir, { recursive: true, force: true });
+}
+
+describe("ProviderPushService.handleProviderPush replay protection", () => {
+    beforeEach(withDataDir);
+    afterEach(removeDataDir);
+
+    it("accepts a signed envelope and records its nonce", async () => {
+        const worker = await startWorker();
+        const envelope = await signedEnvelope();
+
+        const result = await worker.service.handleProviderPush(envelope);
+
+        expect(result.status).toBe(200);
+        expect(result.body?.success).toBe(1);
+        expect(worker.stored).toEqual(["1.2.3.1"]);
+        expect(worker.fulfilled).toEqual([REQUEST_ID]);
+        expect(worker.nonces.get(CLINIC, envelope.nonce)?.requestId).toBe(REQUEST_ID);
+    });
+
+    it("rejects a replayed envelope after a restart with 409", async () => {
+        const chain = { status: 1 };
+        const first = await startWorker(chain);
+        const envelope = await signedEnvelope();
+        expect((await first.service.handleProviderPush(envelope)).status).toBe(200);
+
+        // restart: pending state is rebuilt from events and, in the worst case, the request looks open again
+        chain.status = 1;
+        const restarted = await startWorker(chain);
+        const replay = await restarted.service.handleProviderPush(envelope);
+
+        expect(replay.status).toBe(409);
+        expect(replay.error).toMatch(/already accepted/);
+        expect(restarted.stored).toEqual([]);
+        expect(restarted.fulfilled).toEqual([]);
+    });
+
+    it("rejects a nonce reused for a different payload with 409", async () => {
+        const worker = await startWorker();
+        const nonce = randomBytes(16).toString("hex");
+        expect((await worker.service.handleProviderPush(await signedEnvelope({ nonce }))).status).toBe(200);
+
+        worker.chain.status = 1;
+        worker.service.expect({ requestId: REQUEST_ID, providerId: CLINIC, ...PATIENT });
+        const other = await signedEnvelope({
+            nonce,
+            instances: [{ sop: "1.2.3.2", study: "1.2.3", series: "1.2.3.9", data: Buffer.from("DICM-2").toString("base64") }],
+        });
+        const result = await worker.service.handleProviderPush(other);
+
+        expect(result.status).toBe(409);
+        expect(result.error).toMatch(/nonce was already used/);
+        expect(worker.fulfilled).toEqual([REQUEST_ID]);
+    });
+
+    it("accepts only one of two concurrent deliveries of the same envelope", async () => {
+        const worker = await startWorker();
+        const envelope = await signedEnvelope();
+
+        const results = await Promise.all([
+            worker.service.handleProviderPush(envelope),
+            worker.service.handleProviderPush(envelope),
+        ]);
+
+        expect(results.map((r) => r.status).sort()).toEqual([200, 409]);
+        expect(worker.fulfilled).toEqual([REQUEST_ID]);
+    });
+
+    it("fulfils the request once when two envelopes with different nonces race", async () => {
+        const worker = await startWorker();
+        const [first, second] = await Promise.all([signedEnvelope(), signedEnvelope()]);
+
+        const results = await Promise.all([
+            worker.service.handleProviderPush(first),
+            worker.service.handleProviderPush(second),
+        ]);
+
+        expect(results.map((r) => r.status).sort()).toEqual([200, 409]);
+        expect(results.find((r) => r.status === 409)?.error).toMatch(/in progress/);
+        expect(worker.fulfilled).toEqual([REQUEST_ID]);
+        expect(worker.jobQueue.get(REQUEST_ID)?.state).toBe("fulfilled");
+        expect(worker.copyEvents.get(REQUEST_ID)?.status).toBe("completed");
+    });
+
+    it("keeps a request that is fulfilled on-chain fulfilled when markFulfilled reverts", async () => {
+        const committed = `0x${"ab".repeat(32)}`;
+        const chain: ChainState = { status: 1 };
+        const worker = await startWorker(chain, {
+            markFulfilled: async () => {
+                // another fulfilment landed first
+                chain.status = 2;
+                chain.manifestHash = committed;
+                throw new Error("execution reverted: not approved");
+            },
+        });
+
+        const result = await worker.service.handleProviderPush(await signedEnvelope());
+
+        expect(result.status).toBe(409);
+        expect(worker.jobQueue.get(REQUEST_ID)).toMatchObject({ state: "fulfilled", manifestHash: committed });
+        expect(worker.copyEvents.get(REQUEST_ID)?.status).not.toBe("failed");
+    });
+
+    it("does not consume the nonce of an envelope that was rejected", async () => {
+        const worker = await startWorker({ status: 1 }, { expectRequest: false });
+        const envelope = await signedEnvelope();
+
+        const early = await worker.service.handleProviderPush(envelope);
+        expect(early.status).toBe(409);
+        expect(early.error).toMatch(/no pending/);
+        expect(worker.nonces.get(CLINIC, envelope.nonce)).toBeUndefined();
+
+        worker.service.expect({ requestId: REQUEST_ID, providerId: CLINIC, ...PATIENT });
+        expect((await worker.service.handleProviderPush(envelope)).status).toBe(200);
+    });
+
+    it("does not consume the nonce when no requester is configured or a push session is open", async () => {
+        const envelope = await signedEnvelope();
+
+        const unconfigured = await startWorker({ status: 1 }, { requester: false });
+        expect((await unconfigured.service.handleProviderPush(envelope)).status).toBe(500);
+        expect(unconfigured.nonces.get(CLINIC, envelope.nonce)).toBeUndefined();
+
+        const worker = await startWorker();
+        await openSession(worker);
+        const busy = await worker.service.handleProviderPush(envelope);
+        expect(busy.status).toBe(409);
+        expect(busy.error).toMatch(/session is open/);
+        expect(worker.nonces.get(CLINIC, envelope.nonce)).toBeUndefined();
+    });
+
+    it("lets the agent retry an envelope that was rejected as outside the request scope", async () => {
+        const worker = await startWorker();
+        const { scopeHash } = await worker.scopes.put({ studyInstanceUids: ["9.9.9"] });
+        worker.chain.scopeHash = scopeHash;
+        const envelope = await signedEnvelope();
+
+        const outside = await worker.service.handleProviderPush(envelope);
+        expect(outside.status).toBe(422);
+        expect(worker.nonces.get(CLINIC, envelope.nonce)).toBeUndefined();
+
+        worker.chain.scopeHash = undefined;
+        expect((await worker.service.handleProviderPush(envelope)).status).toBe(200);
+    });
+
+    it("rejects envelopes without a nonce", async () => {
+        const worker = await startWorker();
+        const envelope = await signedEnvelope();
+
+        const result = await worker.service.handleProviderPush({ ...envelope, nonce: "" });
+
+        expect(result.status).toBe(400);
+        expect(worker.stored).toEqual([]);
+    });
+
+    it("rejects expired envelopes and foreign signatures before touching the ledger", async () => {
+        const worker = await startWorker();
+        const expired = await signedEnvelope({ expiresAt: Math.floor(Date.now() / 1000) - 1 });
+        const forged = await signedEnvelope({ signer: Wallet.createRandom() });
+
+        expect((await worker.service.handleProviderPush(expired)).status).toBe(410);
+        expect((await worker.service.handleProviderPush(forged)).status).toBe(403);
+        expect(worker.nonces.get(CLINIC, expired.nonce)).toBeUndefined();
+        expect(worker.nonces.get(CLINIC, forged.nonce)).toBeUndefined();
+    });
+});
+
+describe("ProviderPushService push sessions", () => {
+    beforeEach(withDataDir);
+    afterEach(removeDataDir);
+
+    it("fulfils the request once when two finalize calls race", async () => {
+        const worker = await startWorker();
+        const sessionId = await openSession(worker);
+        const body = await finalizeBody(sessionId, [await uploadInstance(worker, sessionId, "1.2.3.1")]);
+
+        const results = await Promise.all([
+            worker.service.finalizeSession(ALL_TENANTS, sessionId, body),
+            worker.service.finalizeSession(ALL_TENANTS, sessionId, body),
+        ]);
+
+        expect(results.map((r) => r.status).sort()).toEqual([200, 409]);
+        expect(worker.fulfilled).toEqual([REQUEST_ID]);
+        expect(worker.sessions.get(sessionId)?.state).toBe("finalized");
+    });
+
+    it("resumes an interrupted upload after a restart without storing an instance twice", async () => {
+        const first = await startWorker();
+        const sessionId = await openSession(first);
+        const uploaded = [await uploadInstance(first, sessionId, "1.2.3.1")];
+
+        const worker = await startWorker();
+        expect(await openSession(worker)).toBe(sessionId);
+        const session = await worker.service.getSession(ALL_TENANTS, sessionId);
+        expect(session.body).toMatchObject({ state: "open", received: [{ sop: "1.2.3.1", sha256: uploaded[0].sha256 }] });
+
+        // the agent did not see the response to its last upload and sends the instance again
+        const resent = await worker.service.uploadInstance(
+            ALL_TENANTS,
+            sessionId,
+            uploaded[0],
+            Readable.from([Buffer.from("DICM-1.2.3.1")])
+        );
+        expect(resent).toEqual({ status: 200, body: { sop: "1.2.3.1", sha256: uploaded[0].sha256, duplicate: true } });
+        uploaded.push(await uploadInstance(worker, sessionId, "1.2.3.2"));
+
+        const finalized = await worker.service.finalizeSession(ALL_TENANTS, sessionId, await finalizeBody(sessionId, uploaded));
+        expect(finalized.status).toBe(200);
+        expect(first.stored).toEqual([]);
+        expect(worker.stored).toEqual(["1.2.3.1", "1.2.3.2"]);
+        expect(worker.fulfilled).toEqual([REQUEST_ID]);
+        expect(worker.sessions.findFinalized(REQUEST_ID)?.sessionId).toBe(sessionId);
+    });
+
+    it("rejects chunks that do not match their declared hash or an earlier upload", async () => {
+        const worker = await startWorker();
+        const sessionId = await openSession(worker);
+        const digest = await uploadInstance(worker, sessionId, "1.2.3.1");
+
+        const corrupted = await worker.service.uploadInstance(
+            ALL_TENANTS,
+            sessionId,
+            { ...digest, sop: "1.2.3.2" },
+            Readable.from([Buffer.from("DICM-truncated")])
+        );
+        expect(corrupted).toMatchObject({ status: 422, error: expect.stringContaining("sha256 mismatch for 1.2.3.2") });
+        const changed = await worker.service.uploadInstance(
+            ALL_TENANTS,
+            sessionId,
+            { ...digest, sha256: `0x${"ab".repeat(32)}` },
+            Readable.from([Buffer.from("DICM-other")])
+        );
+        expect(changed).toEqual({ status: 409, error: "instance 1.2.3.1 was already received with a different hash" });
+        const empty = await worker.service.uploadInstance(ALL_TENANTS, sessionId, { ...digest, sop: "1.2.3.3" }, Readable.from([]));
+        expect(empty).toEqual({ status: 400, error: "empty payload" });
+
+        // even the accepted instance waits for the signed finalize before it reaches the requester
+        expect(worker.stored).toEqual([]);
+        const session = await worker.service.getSession(ALL_TENANTS, sessionId);
+        expect(session.body?.received).toEqual([{ sop: "1.2.3.1", sha256: digest.sha256 }]);
+    });
+
+    it("keeps the session open when the finalize list differs from the uploads", async () => {
+        const worker = await startWorker();
+        const sessionId = await openSession(worker);
+        const uploaded = [await uploadInstance(worker, sessionId, "1.2.3.1"), await uploadInstance(worker, sessionId, "1.2.3.2")];
+        const notUploaded = { sop: "1.2.3.3", study: "1.2.3", series: "1.2.3.9", sha256: `0x${"cd".repeat(32)}` };
+
+        const mismatchBody = await finalizeBody(sessionId, [uploaded[0], notUploaded]);
+        const mismatch = await worker.service.finalizeSession(ALL_TENANTS, sessionId, mismatchBody);
+        expect(mismatch).toMatchObject({ status: 409, body: { missing: ["1.2.3.3"], unlisted: ["1.2.3.2"] } });
+        expect(worker.sessions.get(sessionId)?.state).toBe("open");
+        expect(worker.fulfilled).toEqual([]);
+
+        // an instance the provider could not read is listed without a hash and ends up as failed
+        const unreadable = { sop: "1.2.3.3", study: "1.2.3", series: "1.2.3.9" };
+        const finalized = await worker.service.finalizeSession(ALL_TENANTS, sessionId, await finalizeBody(sessionId, [...uploaded, unreadable]));
+        expect(finalized).toMatchObject({ status: 200, body: { sessionId, success: 2, failed: 1 } });
+        expect(worker.sessions.get(sessionId)).toMatchObject({ state: "finalized", manifestHash: finalized.body?.manifestHash });
+    });
+
+    it("forwards staged uploads to the requester only after a finalize signed by the clinic", async () => {
+        const worker = await startWorker();
+        const sessionId = await openSession(worker);
+        const uploaded = [await uploadInstance(worker, sessionId, "1.2.3.1"), await uploadInstance(worker, sessionId, "1.2.3.2")];
+        expect(worker.stored).toEqual([]);
+
+        const message = buildPushFinalizeMessage(CLINIC, REQUEST_ID, sessionId, computeInstancesHash(uploaded));
+        const forged = { instances: uploaded, signature: await Wallet.createRandom().signMessage(message) };
+        expect((await worker.service.finalizeSession(ALL_TENANTS, sessionId, forged)).status).toBe(403);
+        expect(worker.stored).toEqual([]);
+        expect(worker.sessions.get(sessionId)?.state).toBe("open");
+
+        const finalized = await worker.service.finalizeSession(ALL_TENANTS, sessionId, await finalizeBody(sessionId, uploaded));
+        expect(finalized.status).toBe(200);
+        expect(worker.stored).toEqual(["1.2.3.1", "1.2.3.2"]);
+    });
+
+    it("reports the sessions of another clinic as missing", async () => {
+        const worker = await startWorker();
+        const sessionId = await openSession(worker);
+        const other = { clinics: new Set(["clinic-b"]) };
+        const missing = { status: 404, error: "push session not found" };
+
+        expect(await worker.service.getSession(other, sessionId)).toEqual(missing);
+        const digest = { sop: "1.2.3.1", study: "1.2.3", series: "1.2.3.9", sha256: `0x${"ab".repeat(32)}` };
+        expect(await worker.service.uploadInstance(other, sessionId, digest, Readable.from([Buffer.from("DICM")]))).toEqual(missing);
+        expect(await worker.service.finalizeSession(other, sessionId, await finalizeBody(sessionId, []))).toEqual(missing);
+        expect(worker.sessions.get(sessionId)).toMatchObject({ state: "open", received: {} });
+
+        const nonce = randomBytes(16).toString("hex");
+        const expiresAt = Math.floor(Date.now() / 1000) + 300;
+        const signature = await operator.signMessage(buildPushSessionMessage(CLINIC, REQUEST_ID, expiresAt, nonce));
+        const request = { clinicId: CLINIC, requestId: REQUEST_ID, expiresAt, nonce, total: 2, signature };
+        await expect(worker.service.openSession(other, request)).rejects.toThrow(TenantAccessError);
+    });
+});
+
+describe("ProviderPushService push triggers", () => {
+    // triggers only read the pending requests, none of the stores
+    const service = () =>
+        new ProviderPushService({ signers: {}, log: () => undefined, warn: () => undefined } as unknown as ProviderPushDeps);
+
+    it("queues triggers for pending requests and hands each one to its clinic's agent once", () => {
+        const push = service();
+        push.expect({ requestId: 1, providerId: CLINIC, ...PATIENT });
+        push.expect({ requestId: 2, providerId: "clinic-b", ...PATIENT });
+
+        expect(push.trigger(3, "operator")).toBeUndefined();
+        expect(push.trigger(1, "operator")).toMatchObject({ requestId: 1, providerId: CLINIC, requestedBy: "operator" });
+        push.trigger(2, "operator");
+
+        expect(push.claimTriggers(ALL_TENANTS, CLINIC).map((t) => t.requestId)).toEqual([1]);
+        expect(push.claimTriggers(ALL_TENANTS, CLINIC)).toEqual([]);
+        expect(push.listPending({ clinics: new Set([CLINIC]) })).toEqual([
+            { requestId: 1, providerId: CLINIC, trigger: expect.objectContaining({ claimedAt: expect.any(String) }) },
+        ]);
+
+        // triggering again after a failed run hands the request out again
+        push.trigger(1, "operator");
+        expect(push.claimTriggers(ALL_TENANTS, CLINIC).map((t) => t.requestId)).toEqual([1]);
+    });
+
+    it("refuses to hand a clinic's triggers to an agent of another clinic", () => {
+        const push = service();
+        push.expect({ requestId: 1, providerId: CLINIC, ...PATIENT });
+        push.trigger(1, "operator");
+
+        expect(() => push.claimTriggers({ clinics: new Set(["clinic-b"]) }, CLINIC)).toThrow(TenantAccessError);
+        // the refused call must not have marked the trigger as picked up
+        expect(push.claimTriggers({ clinics: new Set([CLINIC]) }, CLINIC).map((t) => t.requestId)).toEqual([1]);
+    });
+
+    it("drops the trigger once the request is no longer pending", () => {
+        const push = service();
+        push.expect({ requestId: 1, providerId: CLINIC, ...PATIENT });
+        push.trigger(1, "operator");
+        push.forget(1);
+
+        expect(push.claimTriggers(ALL_TENANTS, CLINIC)).toEqual([]);
+        push.expect({ requestId: 1, providerId: CLINIC, ...PATIENT });
+        expect(push.listPending({ clinics: null })).toEqual([{ requestId: 1, providerId: CLINIC, trigger: undefined }]);
+    });
+});
@@ -0,0 +1,99 @@
+import { createHash } from "node:crypto";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { pathToFileURL } from "node:url";
+import { PayloadTooLargeError, PushSessionStore } from "../push-session.js";
+import type { PushSessionStoreCfg } from "../push-session.js";
+
+const REQUEST = { requestId: 7, clinicId: "clinic-a", patientAddress: "0x000000000000000000000000000000000000dEaD", patientId: "P-001" };
+
+describe("PushSessionStore", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "push-session-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    const open = (cfg: Omit<PushSessionStoreCfg, "file" | "spoolDir"> = {}) =>
+        PushSessionStore.init({
+            file: pathToFileURL(join(dir, "push-sessions.json")).href,
+            spoolDir: pathToFileURL(join(dir, "spool")).href + "/",
+            ...cfg,
+        });
+    const spooled = async (sessionId: string) => readdir(join(dir, "spool", sessionId)).catch(() => null);
+    const instance = (sop: string, file = `${sop}.dcm`) => ({
+        sop,
+        study: "1.2.3",
+        sha256: `0x${"11".repeat(32)}`,
+        bytes: 6,
+        file,
+        receivedAt: new Date().toISOString(),
+    });
+
+    it("resumes the session of a request after a restart, also when it stopped while finalizing", async () => {
+        const store = await open();
+        const session = await store.create({ ...REQUEST, total: 2, scopedStudies: ["1.2.3"] });
+        const staged = await store.spool(session.sessionId, Readable.from([Buffer.from("DICM-1")]));
+        await store.recordInstance(session.sessionId, instance("1.2.3.1", staged.file));
+        await store.setState(session.sessionId, "finalizing");
+
+        const restarted = await open();
+        const resumed = restarted.findActive(REQUEST.requestId, REQUEST.clinicId);
+        expect(resumed).toMatchObject({ sessionId: session.sessionId, state: "open", total: 2, scopedStudies: ["1.2.3"] });
+        expect(Object.keys(resumed!.received)).toEqual(["1.2.3.1"]);
+        // the staged upload waits for the finalize across the restart
+        expect(await readFile(restarted.stagedFile(session.sessionId, "1.2.3.1"), "utf-8")).toBe("DICM-1");
+        expect(restarted.findActive(REQUEST.requestId, "clinic-b")).toBeUndefined();
+        expect(restarted.findFinalized(REQUEST.requestId)).toBeUndefined();
+    });
+
+    it("stages an upload while hashing it and refuses one over the size limit", async () => {
+        const store = await open({ maxInstanceBytes: 8 });
+        const { sessionId } = await store.create(REQUEST);
+
+        const data = Buffer.from("DICM-1");
+        const staged = await store.spool(sessionId, Readable.from([data]));
+        expect(staged).toMatchObject({ bytes: 6, sha256: `0x${createHash("sha256").update(data).digest("hex")}` });
+        expect(await spooled(sessionId)).toHaveLength(1);
+        await store.discard(staged.file);
+        await store.discard(staged.file);
+
+        await expect(store.spool(sessionId, Readable.from([Buffer.from("DICM-"), Buffer.from("too long")]))).rejects.toBeInstanceOf(
+            PayloadTooLargeError
+        );
+        expect(await spooled(sessionId)).toEqual([]);
+        await expect(store.spool("0".repeat(32), Readable.from([data]))).rejects.toThrow(`unknown push session ${"0".repeat(32)}`);
+    });
+
+    it("keeps a finalized session with its manifest hash and drops its staged uploads", async () => {
+        const store = await open();
+        const { sessionId } = await store.create(REQUEST);
+        await store.spool(sessionId, Readable.from([Buffer.from("DICM-1")]));
+        await store.setState(sessionId, "finalized", { manifestHash: "0xaa" });
+
+        expect(await spooled(sessionId)).toBeNull();
+        const restarted = await open();
+        expect(restarted.findActive(REQUEST.requestId, REQUEST.clinicId)).toBeUndefined();
+        expect(restarted.findFinalized(REQUEST.requestId)).toMatchObject({ sessionId, state: "finalized", manifestHash: "0xaa" });
+    });
+
+    it("drops expired unfinished sessions together with their uploads", async () => {
+        const store = await open({ ttlSeconds: -1 });
+        const finalized = await store.create(REQUEST);
+        await store.setState(finalized.sessionId, "finalized");
+        const { sessionId } = await store.create({ ...REQUEST, requestId: 8 });
+        await store.spool(sessionId, Readable.from([Buffer.from("DICM-1")]));
+
+        expect(store.findActive(8, REQUEST.clinicId)).toBeUndefined();
+        await store.sweep();
+        expect(store.get(sessionId)).toBeUndefined();
+        expect(await spooled(sessionId)).toBeNull();
+        expect(store.get(finalized.sessionId)?.state).toBe("finalized");
+    });
+});
@@ -0,0 +1,144 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { Contract, ContractFactory, JsonRpcProvider, id as keccakUtf8 } from "ethers";
+import { JobQueue } from "../job-queue.js";
+import { checkApproval, contractApprovalSource, findForkPoint } from "../reorg-guard.js";
+import type { ApprovalRef, ApprovalSource } from "../reorg-guard.js";
+
+const hash = (label: string) => keccakUtf8(label).toLowerCase();
+
+/** Chain stub: block hashes by height plus the heights where each request was approved. */
+function stubSource(blocks: string[], approvals: Record<number, number> = {}): ApprovalSource {
+    return {
+        getBlockNumber: async () => blocks.length - 1,
+        getBlockHash: async (n) => blocks[n] ?? null,
+        findApproval: async (requestId, from, to) => {
+            const at = approvals[requestId];
+            return at !== undefined && at >= from && at <= to ? { number: at, hash: blocks[at], txHash: hash(`tx-${at}`) } : null;
+        },
+    };
+}
+
+describe("reorg guard", () => {
+    const original = ["a0", "a1", "a2", "a3", "a4"].map(hash);
+
+    it("classifies the approval behind a job as canonical, moved or removed", async () => {
+        const job = { requestId: 1, blockNumber: 3, blockHash: original[3] };
+        const reorged = [...original.slice(0, 3), hash("b3"), hash("b4"), hash("b5")];
+
+        expect(await checkApproval(stubSource(original, { 1: 3 }), job, 8)).toEqual({ state: "canonical" });
+        expect(await checkApproval(stubSource(reorged, { 1: 5 }), job, 8)).toEqual({
+            state: "moved",
+            approval: { number: 5, hash: reorged[5], txHash: hash("tx-5") },
+        });
+        expect(await checkApproval(stubSource(reorged), job, 8)).toEqual({ state: "removed" });
+    });
+
+    it("finds the newest tracked block that is still canonical", async () => {
+        const known = [1, 2, 4].map((n) => ({ number: n, hash: original[n] }));
+        const reorged = [...original.slice(0, 3), hash("b3"), hash("b4")];
+
+        expect(await findForkPoint(stubSource(original), known)).toBe(4);
+        expect(await findForkPoint(stubSource(reorged), known)).toBe(2);
+        expect(await findForkPoint(stubSource(["x0", "x1", "x2", "x3", "x4"].map(hash)), known)).toBeNull();
+    });
+
+    describe("JobQueue", () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), "reorg-guard-"));
+        });
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true });
+        });
+
+        it("tracks scanned tips, rewinds the cursor and revives orphaned jobs", async () => {
+            const file = pathToFileURL(join(dir, "copy-jobs.json")).href;
+            const queue = await JobQueue.init({ file, reorgWindow: 2 });
+            for (const n of [1, 2, 3]) await queue.setCursor(n, original[n]);
+            expect(queue.recentBlocks().map((b) => b.number)).toEqual([2, 3]);
+
+            await queue.enqueue(7, 3, { hash: original[3], txHash: hash("tx-3") });
+            await queue.transition(7, "orphaned", { lastError: "removed" });
+            await queue.rewindCursor(2);
+            expect(queue.getCursor()).toBe(2);
+            expect(queue.recentBlocks()).toEqual([{ number: 2, hash: original[2] }]);
+
+            expect(await queue.enqueue(7, 4, { hash: original[4], txHash: hash("tx-4") })).toBe(true);
+            expect(await queue.enqueue(7, 4, { hash: original[4], txHash: hash("tx-4") })).toBe(false);
+            const reloaded = await JobQueue.init({ file });
+            expect(reloaded.get(7)).toMatchObject({ state: "pending", blockNumber: 4, blockHash: original[4] });
+            expect(reloaded.get(7)?.lastError).toBeUndefined();
+        });
+    });
+});
+
+/*
+ * Against a real node:
+ *   (cd ../smart-contracts && npx hardhat compile && npx hardhat node)
+ *   HARDHAT_RPC_URL=http://127.0.0.1:8545 npm test -- reorg-guard
+ */
+const rpcUrl = process.env.HARDHAT_RPC_URL;
+const artifactsDir = process.env.HARDHAT_ARTIFACTS ?? new URL("../../smart-contracts/artifacts/contracts/", import.meta.url).pathname;
+
+(rpcUrl ? describe : describe.skip)("reorg guard on a Hardhat node", () => {
+    let provider: JsonRpcProvider;
+    let contract: Contract;
+    let requestId: number;
+
+    const artifact = async (name: string) => JSON.parse(await readFile(join(artifactsDir, `${name}.sol`, `${name}.json`), "utf-8"));
+    const snapshot = (): Promise<string> => provider.send("evm_snapshot", []);
+    const revert = (snapshotId: string) => provider.send("evm_revert", [snapshotId]);
+    const mine = () => provider.send("evm_mine", []);
+
+    beforeAll(async () => {
+        // ethers caches identical calls for 250ms, which would hide a revert that happened in between
+        provider = new JsonRpcProvider(rpcUrl, undefined, { cacheTimeout: -1 });
+        const [admin, patient] = await Promise.all([provider.getSigner(0), provider.getSigner(1)]);
+        const adminAddress = await admin.getAddress();
+        const erc20 = await artifact("MockERC20");
+        const access = await artifact("PatientAccess");
+        const token = (await (await new ContractFactory(erc20.abi, erc20.bytecode, admin).deploy(10n ** 24n)).waitForDeployment()) as Contract;
+        contract = (await (await new ContractFactory(access.abi, access.bytecode, admin).deploy()).waitForDeployment()) as Contract;
+
+        await (await contract.registerClinic("PROV-REORG", adminAddress, adminAddress)).wait();
+        await (await contract.registerClinic("REQ-REORG", adminAddress, adminAddress)).wait();
+        await (await contract.setPrice("PROV-REORG", await token.getAddress(), 1, 2)).wait();
+        await (await token.approve(await contract.getAddress(), 100)).wait();
+        await (await contract.requestPatientAccess(await patient.getAddress(), "PROV-REORG", "REQ-REORG", 1)).wait();
+        requestId = Number(await contract.nextReqId());
+        contract = contract.connect(patient) as Contract;
+    });
+
+    afterAll(() => provider.destroy());
+
+    async function approve(): Promise<ApprovalRef> {
+        const receipt = await (await contract.approveByPatient(requestId)).wait();
+        return { number: receipt.blockNumber, hash: receipt.blockHash.toLowerCase(), txHash: receipt.hash };
+    }
+
+    it("reports an approval reverted away as removed, and a re-mined one as moved", async () => {
+        const source = contractApprovalSource(contract, provider);
+        const beforeApproval = await snapshot();
+        const approval = await approve();
+        const job = { requestId, blockNumber: approval.number, blockHash: approval.hash };
+        const tip = { number: approval.number, hash: approval.hash };
+        const parent = { number: approval.number - 1, hash: (await source.getBlockHash(approval.number - 1))! };
+
+        expect(await checkApproval(source, job, 16)).toEqual({ state: "canonical" });
+
+        await revert(beforeApproval);
+        await mine();
+        await mine();
+        expect(await checkApproval(source, job, 16)).toEqual({ state: "removed" });
+        expect(await findForkPoint(source, [parent, tip])).toBe(parent.number);
+
+        const remined = await approve();
+        expect(remined.number).toBeGreaterThan(approval.number);
+        expect(await checkApproval(source, job, 16)).toEqual({ state: "moved", approval: remined });
+    });
+});
@@ -0,0 +1,126 @@
+import type { IncomingMessage } from "node:http";
+import type { Authenticator, AuthRouteRule, Principal } from "../auth.js";
+import { RoutePolicy } from "../route-policy.js";
+import type { PolicyMode, PolicyRequest } from "../route-policy.js";
+import { PATIENT_ROLE } from "../siwe-auth.js";
+
+// Tokens are principal names; the policy only sees what the authenticator returns
+const PRINCIPALS: Record<string, Omit<Principal, "token">> = {
+    admin: { subject: "admin", roles: ["worker.admin"], claims: {} },
+    reader: { subject: "reader", roles: ["worker.read"], claims: {} },
+    patient: { subject: "0xpatient", roles: [PATIENT_ROLE], claims: { wallet: "0xpatient" } },
+    clinicA: { subject: "clinic-a", roles: ["clinic.admin"], claims: { clinic_id: "PROV-001", clinics: ["PROV-001", "PROV-009"] } },
+};
+
+const auth: Authenticator = {
+    verifyHeader(req) {
+        const header = req.headers.authorization;
+        return header ? { ok: true, token: header.replace(/^Bearer /, "") } : { ok: false, status: 401, message: "missing Authorization header" };
+    },
+    async verifyToken(token) {
+        const principal = PRINCIPALS[token];
+        return principal ? { ok: true, principal: { ...principal, token } } : { ok: false, status: 401, message: "invalid token" };
+    },
+};
+
+function call(method: string, path: string, token?: string, body?: unknown): [PolicyRequest, IncomingMessage] {
+    const url = new URL(path, "http://worker.test");
+    const req = { headers: token ? { authorization: `Bearer ${token}` } : {} } as IncomingMessage;
+    return [{ method, path: url.pathname, query: url.searchParams, body: async () => body }, req];
+}
+
+async function decide(policy: RoutePolicy, method: string, path: string, token?: string, body?: unknown) {
+    const [request, req] = call(method, path, token, body);
+    return policy.evaluate(request, auth, req);
+}
+
+describe("RoutePolicy", () => {
+    it("applies the built-in rules and denies routes no rule mentions", async () => {
+        const policy = new RoutePolicy(undefined);
+
+        expect(await decide(policy, "GET", "/health")).toMatchObject({ allow: true });
+        expect(await decide(policy, "GET", "/aliases", "admin")).toMatchObject({ allow: true, principal: { subject: "admin" } });
+        expect(await decide(policy, "DELETE", "/aliases/0xabc", "admin")).toMatchObject({ allow: true });
+        expect(await decide(policy, "GET", "/aliases")).toMatchObject({ allow: false, status: 401 });
+        expect(await decide(policy, "GET", "/aliases", "nobody")).toMatchObject({ allow: false, status: 401, reason: "invalid token" });
+        expect(await decide(policy, "GET", "/aliases", "reader")).toMatchObject({ allow: false, status: 403 });
+        expect(await decide(policy, "GET", "/copy-events/stream?requestId=1", "reader")).toMatchObject({ allow: true });
+        expect(await decide(policy, "POST", "/copy-events/1/retry", "reader")).toMatchObject({ allow: false, status: 403 });
+        // patients verify manifests; the route handler limits them to their own requests
+        expect(await decide(policy, "GET", "/manifests/1/proof/1.2.3", "patient")).toMatchObject({ allow: true });
+        expect(await decide(policy, "GET", "/copy-events/1", "patient")).toMatchObject({ allow: false, status: 403 });
+        // `/aliases/*` must not cover a sibling that merely shares the prefix
+        expect(await decide(policy, "GET", "/aliasesExport", "admin")).toMatchObject({
+            allow: false,
+            status: 403,
+            reason: "forbidden: no policy rule for this route",
+        });
+        expect(await decide(policy, "PATCH", "/aliases", "admin")).toMatchObject({ allow: false, status: 403 });
+    });
+
+    it("checks claim conditions against the JSON body and path params", async () => {
+        const policy = new RoutePolicy([
+            { path: "/clinics/config/*", methods: ["GET", "PUT", "DELETE"], requiredRoles: ["worker.admin"] },
+            { path: "/clinics/config", methods: ["PUT"], requiredRoles: ["clinic.admin"], conditions: ["clinic_id == body.clinicId"] },
+            { path: "/clinics/config/:clinicId", methods: ["DELETE"], requiredRoles: ["clinic.admin"], conditions: ["clinic_id == params.clinicId"] },
+        ]);
+
+        expect(await decide(policy, "PUT", "/clinics/config", "clinicA", { clinicId: "PROV-001" })).toMatchObject({ allow: true });
+        expect(await decide(policy, "PUT", "/clinics/config", "clinicA", { clinicId: "PROV-002" })).toMatchObject({
+            allow: false,
+            status: 403,
+            reason: "forbidden: condition clinic_id == body.clinicId not met",
+        });
+        expect(await decide(policy, "PUT", "/clinics/config", "clinicA", "not an object")).toMatchObject({ allow: false, status: 403 });
+        expect(await decide(policy, "DELETE", "/clinics/config/PROV-001", "clinicA")).toMatchObject({ allow: true });
+        expect(await decide(policy, "DELETE", "/clinics/config/PROV-002", "clinicA")).toMatchObject({ allow: false, status: 403 });
+        expect(await decide(policy, "GET", "/clinics/config", "clinicA")).toMatchObject({ allow: false, status: 403 });
+        expect(await decide(policy, "PUT", "/clinics/config", "admin", { clinicId: "PROV-002" })).toMatchObject({ allow: true });
+    });
+
+    it("evaluates configured rules in order with deny rules, params, query and `in`", async () => {
+        const rules: AuthRouteRule[] = [
+            { path: "/index/clinics", methods: ["GET"], requiredRoles: ["clinic.admin"], effect: "deny" },
+            { path: "/index/requests", methods: ["GET"], requiredRoles: ["clinic.admin"], conditions: ["query.providerClinicId in clinics"] },
+            { path: "/manifests/:requestId/proof/:sop", methods: ["GET"], conditions: ["params.requestId != '0'"] },
+            { path: "/index/*", methods: ["GET"], requiredRoles: ["clinic.admin", "worker.read"] },
+        ];
+        const policy = new RoutePolicy(rules);
+
+        expect(await decide(policy, "GET", "/index/clinics", "clinicA")).toMatchObject({ allow: false, status: 403, rule: "/index/clinics" });
+        expect(await decide(policy, "GET", "/index/clinics", "reader")).toMatchObject({ allow: true, rule: "/index/*" });
+        expect(await decide(policy, "GET", "/index/requests?providerClinicId=PROV-009", "clinicA")).toMatchObject({
+            allow: true,
+            rule: "/index/requests",
+        });
+        // a failed condition falls through to later rules, which clinic admins also satisfy here
+        expect(await decide(policy, "GET", "/index/requests?providerClinicId=PROV-002", "clinicA")).toMatchObject({ allow: true, rule: "/index/*" });
+        expect(await decide(policy, "GET", "/manifests/7/proof/1.2.3", "reader")).toMatchObject({ allow: true });
+        expect(await decide(policy, "GET", "/manifests/0/proof/1.2.3", "reader")).toMatchObject({ allow: false, status: 403 });
+        // configured rules replace the built-in ones entirely
+        expect(await decide(policy, "GET", "/health")).toMatchObject({ allow: false, status: 403 });
+    });
+
+    it("only logs configured decisions in dry-run mode", async () => {
+        const lines: string[] = [];
+        const policy = new RoutePolicy([{ path: "/aliases/*", requiredRoles: ["worker.read"] }], {
+            mode: "dryRun",
+            log: (line: string) => lines.push(line),
+        });
+
+        expect(await decide(policy, "GET", "/aliases", "reader")).toMatchObject({ allow: false, status: 403 });
+        expect(await decide(policy, "GET", "/aliases", "admin")).toMatchObject({ allow: true });
+        expect(lines).toEqual([
+            "policy dry-run: GET /aliases subject=reader -> allow (allowed, rule /aliases/*); enforced deny",
+            "policy dry-run: GET /aliases subject=admin -> deny (forbidden: insufficient role); enforced allow",
+        ]);
+    });
+
+    it("refuses rules it cannot interpret", () => {
+        expect(() => new RoutePolicy([{ path: "aliases" }])).toThrow("auth.routes[0].path");
+        expect(() => new RoutePolicy([{ path: "/aliases", conditions: ["clinic_id equals body.clinicId"] }])).toThrow(
+            "auth.routes[0].conditions"
+        );
+        expect(() => new RoutePolicy(undefined, { mode: "audit" as unknown as PolicyMode })).toThrow("auth.policyMode");
+    });
+});
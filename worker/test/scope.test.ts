@@ -0,0 +1,119 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { ZeroHash } from "ethers";
+import * as webapp from "../../webapp/src/lib/scope.js";
+import {
+    ScopeStore,
+    computeScopeHash,
+    matchesScope,
+    normalizeScope,
+    resolveRequestScope,
+    scopeQueryParams,
+    studyAttributesOf,
+} from "../scope.js";
+
+/*
+ * The scope hash is computed by the webapp before requestPatientAccessScoped and looked up by the worker when it
+ * copies, so both implementations are pinned to these vectors: changing either one has to update them.
+ */
+const VECTORS = [
+    {
+        form: { studyInstanceUids: "1.2.3, 1.2.2 1.2.3", studyDateFrom: "2024-01-01", studyDateTo: "", modalities: "mr ct" },
+        raw: { studyInstanceUids: [" 1.2.3", "1.2.2", "1.2.3", ""], studyDateFrom: "2024-01-01", modalities: ["mr", "CT"] },
+        scope: { studyInstanceUids: ["1.2.2", "1.2.3"], studyDateFrom: "20240101", modalities: ["CT", "MR"] },
+        hash: "0x793926b650e25d8120bddf3791ea192479d514c62c12f3a3187bd111f0214df9",
+    },
+    {
+        form: { studyInstanceUids: "", studyDateFrom: "20230101", studyDateTo: "2023-12-31", modalities: "" },
+        raw: { studyDateFrom: "20230101", studyDateTo: "2023-12-31" },
+        scope: { studyDateFrom: "20230101", studyDateTo: "20231231" },
+        hash: "0x6748ca5f8f9ef61ac78160f351beddc0c069e7f11f8d88f44a982d547bf40950",
+    },
+    {
+        form: { studyInstanceUids: "", studyDateFrom: "", studyDateTo: "", modalities: "" },
+        raw: {},
+        scope: {},
+        hash: ZeroHash,
+    },
+];
+
+const dataset = (study: string, studyDate?: string, modalities: string[] = []) => ({
+    "0020000D": { vr: "UI", Value: [study] },
+    ...(studyDate ? { "00080020": { vr: "DA", Value: [studyDate] } } : {}),
+    ...(modalities.length ? { "00080061": { vr: "CS", Value: modalities } } : {}),
+});
+
+describe("access scope", () => {
+    it("normalizes a scope into the canonical form that is hashed", () => {
+        for (const vector of VECTORS) {
+            expect(normalizeScope(vector.raw)).toEqual(vector.scope);
+            expect(computeScopeHash(vector.scope)).toBe(vector.hash);
+            // hashing normalizes as well, so an unsorted scope commits to the same value
+            expect(computeScopeHash(vector.raw)).toBe(vector.hash);
+        }
+        expect(normalizeScope(null)).toEqual({});
+        expect(() => normalizeScope([])).toThrow("scope must be an object");
+        expect(() => normalizeScope({ studyInstanceUids: ["1.2.x"] })).toThrow("invalid StudyInstanceUID: 1.2.x");
+        expect(() => normalizeScope({ studyDateFrom: "2024-02-01", studyDateTo: "2024-01-01" })).toThrow(
+            "studyDateFrom must not be after studyDateTo"
+        );
+        expect(() => normalizeScope({ modalities: "CT" })).toThrow("modalities must be an array");
+    });
+
+    it("hashes exactly like the webapp form", () => {
+        for (const vector of VECTORS) {
+            const scope = webapp.scopeFromForm(vector.form);
+            expect(scope).toEqual(vector.scope);
+            expect(webapp.computeScopeHash(scope)).toBe(vector.hash);
+        }
+    });
+
+    it("matches studies on every criterion and narrows QIDO queries by UID and date", () => {
+        const [byUidAndModality, byDate] = VECTORS.map((v) => v.scope);
+        expect(matchesScope(byUidAndModality, studyAttributesOf(dataset("1.2.3", "20240105", ["CT", "SR"]))!)).toBe(true);
+        expect(matchesScope(byUidAndModality, studyAttributesOf(dataset("1.2.3", "20240105", ["US"]))!)).toBe(false);
+        expect(matchesScope(byUidAndModality, studyAttributesOf(dataset("1.2.4", "20240105", ["CT"]))!)).toBe(false);
+        expect(matchesScope(byDate, studyAttributesOf(dataset("9.9", "20231231"))!)).toBe(true);
+        expect(matchesScope(byDate, studyAttributesOf(dataset("9.9", "20240101"))!)).toBe(false);
+        expect(matchesScope(byDate, studyAttributesOf(dataset("9.9"))!)).toBe(false);
+        expect(studyAttributesOf({})).toBeNull();
+
+        expect(scopeQueryParams(byUidAndModality)).toEqual([
+            { StudyDate: "20240101-", StudyInstanceUID: "1.2.2" },
+            { StudyDate: "20240101-", StudyInstanceUID: "1.2.3" },
+        ]);
+        expect(scopeQueryParams(byDate)).toEqual([{ StudyDate: "20230101-20231231" }]);
+        expect(scopeQueryParams({})).toEqual([{}]);
+    });
+
+    describe("ScopeStore", () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), "scope-"));
+        });
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true });
+        });
+
+        it("resolves the scope committed by a request from documents registered under their hash", async () => {
+            const file = pathToFileURL(join(dir, "scopes.json")).href;
+            const store = await ScopeStore.init({ file });
+            expect(await store.put(VECTORS[0].raw)).toEqual({ scopeHash: VECTORS[0].hash, scope: VECTORS[0].scope });
+            expect(await store.put({})).toEqual({ scopeHash: ZeroHash, scope: {} });
+
+            const reopened = await ScopeStore.init({ file });
+            expect(reopened.get(VECTORS[0].hash.toUpperCase().replace("0X", "0x"))).toEqual(VECTORS[0].scope);
+            expect(resolveRequestScope(reopened, { scopeHash: VECTORS[0].hash })).toEqual({ ok: true, scope: VECTORS[0].scope });
+            expect(resolveRequestScope(reopened, { scopeHash: ZeroHash })).toEqual({ ok: true, scope: null });
+            expect(resolveRequestScope(reopened, {})).toEqual({ ok: true, scope: null });
+            expect(resolveRequestScope(reopened, { scopeHash: VECTORS[1].hash })).toEqual({
+                ok: false,
+                message: `scope document ${VECTORS[1].hash} is not registered with this worker`,
+            });
+        });
+    });
+});
@@ -0,0 +1,145 @@
+import { createSign, generateKeyPairSync } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { Wallet } from "ethers";
+import { AuthChain, JwtAuth, requireAuth } from "../auth.js";
+import type { Jwk } from "../auth.js";
+import { buildSiweMessage, parseSiweMessage, SiweAuth } from "../siwe-auth.js";
+import type { SiweMessage } from "../siwe-auth.js";
+
+const SECRET = "x".repeat(32);
+const CHAIN_ID = 31337;
+const DOMAIN = "portal.example.org";
+
+function messageFor(address: string, nonce: string, overrides: Partial<SiweMessage> = {}): string {
+    return buildSiweMessage({
+        scheme: "https",
+        domain: DOMAIN,
+        address,
+        statement: "Sign in to the patient portal.",
+        uri: `https://${DOMAIN}/`,
+        version: "1",
+        chainId: CHAIN_ID,
+        nonce,
+        issuedAt: new Date().toISOString(),
+        ...overrides,
+    });
+}
+
+function request(token?: string): IncomingMessage {
+    return { headers: token ? { authorization: `Bearer ${token}` } : {} } as IncomingMessage;
+}
+
+function response() {
+    return { statusCode: 200, body: undefined as unknown, end(msg?: unknown) { this.body = msg; }, setHeader() { } };
+}
+
+describe("SIWE", () => {
+    const patient = Wallet.createRandom();
+    const operator = Wallet.createRandom();
+    const operatorClinics = async (address: string) => (address === operator.address ? ["PROV-001"] : []);
+    const newAuth = (overrides: Partial<ConstructorParameters<typeof SiweAuth>[0]> = {}) =>
+        new SiweAuth({ domains: [DOMAIN], sessionSecret: SECRET, ...overrides }, CHAIN_ID, operatorClinics);
+
+    it("parses what it builds and rejects other layouts", () => {
+        const text = messageFor(patient.address, "abcdef0123456789", { resources: ["ipfs://one", "https://two"] });
+        expect(parseSiweMessage(text)).toMatchObject({
+            scheme: "https",
+            domain: DOMAIN,
+            address: patient.address,
+            statement: "Sign in to the patient portal.",
+            chainId: CHAIN_ID,
+            resources: ["ipfs://one", "https://two"],
+        });
+        const bare = messageFor(patient.address, "abcdef0123456789", { scheme: undefined, statement: undefined });
+        expect(parseSiweMessage(bare)).toMatchObject({ domain: DOMAIN, statement: undefined });
+
+        expect(() => parseSiweMessage(text.replace("Version: 1", "Version: 2"))).toThrow("unsupported version");
+        expect(() => parseSiweMessage(text.replace("Chain ID:", "Chain:"))).toThrow("unexpected line");
+        expect(() => parseSiweMessage(`Please sign\n${text}`)).toThrow("not a Sign-In with Ethereum message");
+    });
+
+    it("derives patient and clinic operator roles and issues a session requireAuth accepts", async () => {
+        const siwe = newAuth();
+        const auth = new AuthChain(null, [siwe]);
+
+        const { nonce } = siwe.issueNonce();
+        const text = messageFor(operator.address, nonce);
+        const session = await siwe.signIn(text, await operator.signMessage(text));
+        expect(session).toMatchObject({ ok: true, address: operator.address, roles: ["patient", "clinic.operator"], clinics: ["PROV-001"] });
+        if (!session.ok) return;
+
+        const granted = await requireAuth(request(session.token), response(), auth, ["clinic.operator"]);
+        expect(granted.principal).toMatchObject({ subject: operator.address, clinicId: "PROV-001", claims: { wallet: operator.address } });
+
+        const res = response();
+        expect((await requireAuth(request(session.token), res, auth, ["worker.admin"])).ok).toBe(false);
+        expect(res.statusCode).toBe(403);
+
+        const patientNonce = siwe.issueNonce().nonce;
+        const patientText = messageFor(patient.address, patientNonce);
+        expect(await siwe.signIn(patientText, await patient.signMessage(patientText))).toMatchObject({ ok: true, roles: ["patient"], clinics: [] });
+    });
+
+    it("accepts each nonce once and only for the configured domain and chain", async () => {
+        const siwe = newAuth();
+        const signIn = async (nonce: string, overrides: Partial<SiweMessage> = {}, signer = patient) => {
+            const text = messageFor(patient.address, nonce, overrides);
+            return siwe.signIn(text, await signer.signMessage(text));
+        };
+
+        const nonce = siwe.issueNonce().nonce;
+        expect((await signIn(nonce)).ok).toBe(true);
+        expect(await signIn(nonce)).toMatchObject({ ok: false, message: "unknown or expired nonce" });
+        expect(await signIn("neverIssued123")).toMatchObject({ ok: false, status: 401 });
+
+        expect(await signIn(siwe.issueNonce().nonce, { domain: "evil.example" })).toMatchObject({ ok: false, message: "domain is not allowed" });
+        expect(await signIn(siwe.issueNonce().nonce, { chainId: 1 })).toMatchObject({ ok: false, message: "chain id mismatch" });
+        expect(await signIn(siwe.issueNonce().nonce, { expirationTime: new Date(Date.now() - 3600_000).toISOString() })).toMatchObject({
+            ok: false,
+            message: "message expired",
+        });
+
+        // a signature of another wallet burns the nonce as well
+        const forgedNonce = siwe.issueNonce().nonce;
+        expect(await signIn(forgedNonce, {}, Wallet.createRandom())).toMatchObject({ ok: false, message: "signature does not match the address" });
+        expect((await signIn(forgedNonce)).ok).toBe(false);
+    });
+
+    it("rejects expired, tampered and foreign session tokens", async () => {
+        const expiring = newAuth({ sessionTtlSeconds: -120 });
+        const nonce = expiring.issueNonce().nonce;
+        const text = messageFor(patient.address, nonce);
+        const session = await expiring.signIn(text, await patient.signMessage(text));
+        if (!session.ok) throw new Error(session.message);
+        expect(expiring.verifyToken(session.token)).toMatchObject({ ok: false, message: "session expired" });
+
+        const siwe = newAuth();
+        const fresh = await (async () => {
+            const n = siwe.issueNonce().nonce;
+            const t = messageFor(patient.address, n);
+            const result = await siwe.signIn(t, await patient.signMessage(t));
+            if (!result.ok) throw new Error(result.message);
+            return result.token;
+        })();
+        const [header, payload, mac] = fresh.split(".");
+        const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+        const escalated = Buffer.from(JSON.stringify({ ...claims, roles: ["worker.admin"] })).toString("base64url");
+        expect(siwe.verifyToken(`${header}.${escalated}.${mac}`)).toMatchObject({ ok: false, status: 401 });
+        expect(newAuth({ sessionSecret: "y".repeat(32) }).verifyToken(fresh).ok).toBe(false);
+    });
+
+    it("keeps accepting IdP tokens next to wallet sessions", async () => {
+        const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+        const jwk = { ...(publicKey.export({ format: "jwk" }) as Jwk), kid: "idp", alg: "RS256" };
+        const b64 = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+        const signed = `${b64({ alg: "RS256", kid: "idp" })}.${b64({ sub: "dr-a", realm_access: { roles: ["worker.read"] } })}`;
+        const signer = createSign("RSA-SHA256");
+        signer.update(signed);
+        const idpToken = `${signed}.${signer.sign(privateKey).toString("base64url")}`;
+
+        const auth = new AuthChain(new JwtAuth({ jwks: { keys: [jwk] } }), [newAuth()]);
+        const result = await requireAuth(request(idpToken), response(), auth, ["worker.read"]);
+        expect(result).toMatchObject({ ok: true, principal: { subject: "dr-a" } });
+        expect(await requireAuth(request(), response(), auth, ["worker.read"])).toMatchObject({ ok: false, status: 401 });
+    });
+});
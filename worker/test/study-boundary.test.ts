@@ -0,0 +1,80 @@
+import type { AxiosInstance } from "axios";
+import { checkStudyBoundary, classifyGatewayPath, filterQidoResults, OrthancStudyResolver } from "../study-boundary.js";
+
+const COPIED = "1.2.840.1";
+const OTHER = "1.2.840.2";
+const ORTHANC_ID = "6e2c0ec2-5d99c8ca-c1c21cee-79a09605-68391d12";
+
+const target = (path: string, query = "") => classifyGatewayPath(path, new URLSearchParams(query));
+const study = (uid?: string) => (uid === undefined ? {} : { "0020000D": { vr: "UI", Value: [uid] } });
+
+/** An Orthanc REST client that only knows the resources in `studies` (`level/id` -> StudyInstanceUID). */
+function orthanc(studies: Record<string, string>) {
+    const calls: string[] = [];
+    const http = {
+        get: async (url: string) => {
+            calls.push(url);
+            const key = url.replace(/^\//, "").replace(/\/study$/, "");
+            if (!(key in studies)) throw Object.assign(new Error("not found"), { response: { status: 404 } });
+            return { data: { MainDicomTags: { StudyInstanceUID: studies[key] } } };
+        },
+    };
+    return { resolver: new OrthancStudyResolver(http as unknown as AxiosInstance), calls };
+}
+
+describe("study boundary", () => {
+    const allowed = new Set([COPIED]);
+
+    it("classifies DICOMweb, WADO-URI and Orthanc REST paths", () => {
+        expect(target("/dicom-web/studies/")).toEqual({ kind: "qido-list" });
+        expect(target(`/dicom-web/studies/${encodeURIComponent(COPIED)}/series`)).toEqual({ kind: "study", study: COPIED });
+        expect(target("/wado", `requestType=WADO&studyUID=${OTHER}&objectUID=1.2.3`)).toEqual({ kind: "study", study: OTHER });
+        expect(target("/dicom-web/wado", "objectUID=1.2.3")).toMatchObject({ kind: "unsupported" });
+        expect(target(`/series/${ORTHANC_ID.toUpperCase()}/archive`)).toEqual({ kind: "orthanc-resource", level: "series", id: ORTHANC_ID });
+        expect(target("/patients/abc")).toMatchObject({ kind: "unsupported" });
+        expect(target("/dicom-web/studies/%E0%A4%A")).toEqual({ kind: "unsupported", reason: "malformed StudyInstanceUID" });
+    });
+
+    it("drops QIDO-RS results of studies outside the manifest", () => {
+        const results = [study(COPIED), study(OTHER), study(), null, study(COPIED)];
+        expect(filterQidoResults(results, allowed)).toEqual({ data: [study(COPIED), study(COPIED)], removed: 3 });
+        expect(filterQidoResults({ error: "x" }, allowed)).toEqual({ data: { error: "x" }, removed: 0 });
+    });
+
+    it("rejects WADO and DICOMweb requests for studies that were not copied", async () => {
+        expect(await checkStudyBoundary(target("/wado", `studyUID=${OTHER}`), allowed)).toEqual({
+            decision: "deny",
+            study: OTHER,
+            reason: "study is outside the request manifest",
+        });
+        expect(await checkStudyBoundary(target(`/dicom-web/studies/${OTHER}/series/1/instances/2`), allowed)).toMatchObject({
+            decision: "deny",
+            study: OTHER,
+        });
+        expect(await checkStudyBoundary(target("/wado", `studyUID=${COPIED}`), allowed)).toEqual({ decision: "allow", study: COPIED });
+        expect(await checkStudyBoundary(target("/dicom-web/series"), allowed)).toEqual({ decision: "filter" });
+        expect(await checkStudyBoundary(target("/dicom-web/series"), new Set())).toEqual({
+            decision: "deny",
+            reason: "no copied studies are recorded for this request",
+        });
+        expect(await checkStudyBoundary(target("/patients"), allowed)).toMatchObject({ decision: "deny" });
+    });
+
+    it("looks up the study of Orthanc resources once and denies unknown ones", async () => {
+        const instance = "0a1b2c3d-00000000-11111111-22222222-33333333";
+        const { resolver, calls } = orthanc({ [`studies/${ORTHANC_ID}`]: COPIED, [`instances/${instance}`]: OTHER });
+
+        expect(await checkStudyBoundary(target(`/studies/${ORTHANC_ID}`), allowed, resolver)).toEqual({ decision: "allow", study: COPIED });
+        expect(await checkStudyBoundary(target(`/instances/${instance}/file`), allowed, resolver)).toMatchObject({
+            decision: "deny",
+            study: OTHER,
+        });
+        expect(await checkStudyBoundary(target(`/instances/${instance}/file`), allowed, resolver)).toMatchObject({ decision: "deny" });
+        expect(await checkStudyBoundary(target(`/series/${ORTHANC_ID}`), allowed, resolver)).toEqual({
+            decision: "deny",
+            reason: "resource not found on requester orthanc",
+        });
+        expect(await checkStudyBoundary(target(`/series/${ORTHANC_ID}`), allowed)).toMatchObject({ decision: "deny" });
+        expect(calls).toEqual([`/studies/${ORTHANC_ID}`, `/instances/${instance}/study`, `/series/${ORTHANC_ID}/study`]);
+    });
+});
@@ -0,0 +1,96 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { AuditLogger } from "../audit-logger.js";
+import type { AuditLogEntry } from "../audit-logger.js";
+import type { Principal } from "../auth.js";
+import { CopyEventStore } from "../copy-event-store.js";
+import { DEFAULT_ROUTE_RULES } from "../route-policy.js";
+import { ALL_TENANTS, SUPER_ADMIN_ROLE, TenantAccessError, assertInTenant, tenantScope } from "../tenancy.js";
+
+function principal(roles: string[], claims: Record<string, unknown> = {}): Principal {
+    return { subject: "someone", roles, claims, token: "t", clinicId: claims.clinic_id as string | undefined };
+}
+
+describe("tenancy", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "tenancy-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("scopes principals to the clinics in their token unless they are super-admins", () => {
+        expect(tenantScope(undefined)).toBe(ALL_TENANTS);
+        expect(tenantScope(principal([SUPER_ADMIN_ROLE], { clinic_id: "PROV-001" }))).toBe(ALL_TENANTS);
+
+        const operator = tenantScope(principal(["clinic.operator"], { clinic_id: "PROV-001", clinics: ["PROV-001", "REQ-001"] }));
+        expect(Array.from(operator.clinics ?? [])).toEqual(["PROV-001", "REQ-001"]);
+        // a worker.admin token without clinic claims no longer sees everything
+        expect(tenantScope(principal(["worker.admin"])).clinics?.size).toBe(0);
+
+        expect(() => assertInTenant(operator, "PROV-002", "clinic PROV-002")).toThrow(TenantAccessError);
+        expect(() => assertInTenant(operator, undefined, "alias")).toThrow("belongs to a clinic outside your tenant");
+        expect(() => assertInTenant(ALL_TENANTS, undefined, "alias")).not.toThrow();
+    });
+
+    it("lists copy events of requests the tenant provides or requests", async () => {
+        const store = await CopyEventStore.init({ file: pathToFileURL(join(dir, "copy-events.jsonl")).href });
+        store.start({ requestId: 1, providerId: "PROV-001", requesterClinicId: "REQ-001", patientAddress: "0xa", patientId: "P-1" });
+        store.start({ requestId: 2, providerId: "PROV-002", requesterClinicId: "REQ-001", patientAddress: "0xb", patientId: "P-2" });
+        store.start({ requestId: 3, providerId: "PROV-002", requesterClinicId: "REQ-002", patientAddress: "0xc", patientId: "P-3" });
+        store.start({ requestId: 4, patientAddress: "0xd", patientId: "P-4" });
+
+        const ids = (clinics: string[] | null) =>
+            store
+                .list({}, { clinics: clinics && new Set(clinics) })
+                .events.map((event) => event.requestId)
+                .sort();
+        expect(ids(["PROV-001"])).toEqual([1]);
+        expect(ids(["REQ-001"])).toEqual([1, 2]);
+        expect(ids(["PROV-002", "REQ-002"])).toEqual([2, 3]);
+        expect(ids([])).toEqual([]);
+        expect(ids(null)).toEqual([1, 2, 3, 4]);
+        expect(store.list({ requestId: 3 }, { clinics: new Set(["REQ-001"]) }).total).toBe(0);
+    });
+
+    it("reads audit entries of the tenant's clinics and keeps untagged entries for super-admins", async () => {
+        const audit = await AuditLogger.init({ file: pathToFileURL(join(dir, "audit.jsonl")).href });
+        const entry = (requestId: number, clinics?: string[]): AuditLogEntry => ({
+            timestamp: new Date().toISOString(),
+            method: "GET",
+            path: "/secure/studies",
+            forwardPath: "/studies",
+            requestId,
+            patientAddress: "0xa",
+            patientId: "P-1",
+            status: 200,
+            clinics,
+        });
+        await audit.log(entry(1, ["PROV-001", "REQ-001"]));
+        await audit.log(entry(2, ["PROV-002", "REQ-001"]));
+        await audit.log(entry(3));
+
+        const ids = async (clinics: string[] | null, limit = 10) =>
+            (await audit.read(limit, undefined, { clinics: clinics && new Set(clinics) })).map((e) => e.requestId);
+        expect(await ids(["PROV-001"])).toEqual([1]);
+        expect(await ids(["REQ-001"])).toEqual([2, 1]);
+        expect(await ids(["REQ-001"], 1)).toEqual([2]);
+        expect(await ids(null)).toEqual([3, 2, 1]);
+    });
+
+    it("keeps the admin routes to IdP roles and opens only push triggers and the index to clinic operators", () => {
+        const roles = (path: string) => DEFAULT_ROUTE_RULES.find((r) => r.path === path)?.requiredRoles;
+        for (const path of ["/aliases/*", "/audit-logs", "/clinics/config/*", "/copy-events/*", "/copy-events/:requestId/retry"]) {
+            expect(roles(path)).toEqual(expect.arrayContaining([SUPER_ADMIN_ROLE, "worker.admin"]));
+            expect(roles(path)).not.toContain("clinic.operator");
+        }
+        for (const path of ["/push-triggers/*", "/index/*"]) {
+            expect(roles(path)).toEqual(expect.arrayContaining([SUPER_ADMIN_ROLE, "worker.admin", "clinic.operator"]));
+        }
+    });
+});
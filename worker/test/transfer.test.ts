@@ -0,0 +1,120 @@
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Readable } from "node:stream";
+import { ConcurrencyLimiter, TransferPool, openWadoInstance, streamToOrthanc } from "../transfer.js";
+
+/** A task that stays in flight until released, recording how many tasks ran at the same time. */
+function gauge() {
+    let active = 0;
+    let peak = 0;
+    const releases: (() => void)[] = [];
+    const task = (label: string, order: string[]) => async () => {
+        active++;
+        peak = Math.max(peak, active);
+        order.push(label);
+        await new Promise<void>((resolve) => releases.push(resolve));
+        active--;
+        return label;
+    };
+    return {
+        task,
+        peak: () => peak,
+        /** Lets every started task finish and waits for the queue to hand out the freed slots. */
+        drain: async () => {
+            for (const release of releases.splice(0)) release();
+            await new Promise((resolve) => setImmediate(resolve));
+        },
+    };
+}
+
+describe("TransferPool", () => {
+    it("keeps each provider under its own limit and all providers under the global one", async () => {
+        const pool = new TransferPool({ concurrency: 3, perProvider: 2, providers: { "PROV-B": 1 } });
+        const { task, peak, drain } = gauge();
+        const order: string[] = [];
+        const runs = [
+            ...["a1", "a2", "a3"].map((label) => pool.run("PROV-A", task(label, order))),
+            ...["b1", "b2"].map((label) => pool.run("PROV-B", task(label, order))),
+            pool.run("PROV-C", task("c1", order)),
+        ];
+
+        await new Promise((resolve) => setImmediate(resolve));
+        // a3 waits for PROV-A, b2 for PROV-B and c1 for a global slot
+        expect(order).toEqual(["a1", "a2", "b1"]);
+        for (let i = 0; i < 4 && order.length < 6; i++) await drain();
+        await drain();
+
+        expect(await Promise.all(runs)).toEqual(["a1", "a2", "a3", "b1", "b2", "c1"]);
+        expect(peak()).toBe(3);
+        expect(order.slice(3).sort()).toEqual(["a3", "b2", "c1"]);
+    });
+
+    it("frees the slot of a task that fails", async () => {
+        const pool = new TransferPool({ concurrency: 1 });
+        await expect(pool.run("PROV-A", async () => Promise.reject(new Error("provider offline")))).rejects.toThrow("provider offline");
+        await expect(pool.run("PROV-B", async () => "next")).resolves.toBe("next");
+    });
+
+    it("rejects limits that are not positive integers", () => {
+        expect(() => new ConcurrencyLimiter(0)).toThrow("concurrency limit must be a positive integer: 0");
+        expect(() => new TransferPool({ concurrency: 1.5 })).toThrow("concurrency limit must be a positive integer");
+    });
+});
+
+describe("instance streaming", () => {
+    let server: Server;
+    let baseUrl: string;
+    let received: Buffer[];
+
+    beforeEach(async () => {
+        received = [];
+        server = createServer((req, res) => {
+            if (req.method === "GET") {
+                res.writeHead(404, { "Content-Type": "text/plain" }).end("not found");
+                return;
+            }
+            const chunks: Buffer[] = [];
+            req.on("data", (chunk: Buffer) => chunks.push(chunk));
+            req.on("end", () => {
+                received.push(Buffer.concat(chunks));
+                res.writeHead(200, { "Content-Type": "application/json" }).end("{}");
+            });
+            // an aborted upload never ends
+            req.on("error", () => undefined);
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("posts the instance as it streams and reports its size and sha256", async () => {
+        const parts = [Buffer.from("DICM"), Buffer.alloc(1024, 7)];
+        const result = await streamToOrthanc({ baseUrl }, { stream: Readable.from(parts), length: 1028 });
+
+        const body = Buffer.concat(parts);
+        expect(received).toEqual([body]);
+        expect(result).toEqual({ bytes: 1028, sha256: `0x${createHash("sha256").update(body).digest("hex")}` });
+    });
+
+    it("fails the upload when the source stream breaks off", async () => {
+        const source = new Readable({ read() { } });
+        source.push(Buffer.from("DICM"));
+        setTimeout(() => source.destroy(new Error("provider connection reset")), 20);
+
+        await expect(streamToOrthanc({ baseUrl }, { stream: source })).rejects.toThrow("provider connection reset");
+        expect(received).toEqual([]);
+        expect(source.destroyed).toBe(true);
+    });
+
+    it("reports the status of an instance the provider cannot serve", async () => {
+        await expect(openWadoInstance({ baseUrl }, { study: "1.2", series: "1.2.3", sop: "1.2.3.4" })).rejects.toThrow(
+            "HTTP 404 Not Found GET /dicom-web/studies/1.2/series/1.2.3/instances/1.2.3.4"
+        );
+    });
+});
@@ -0,0 +1,219 @@
+import { createHash } from "node:crypto";
+import { Readable, Transform } from "node:stream";
+import axios from "axios";
+import type { AxiosInstance } from "axios";
+
+export type TransferEndpoint = {
+  baseUrl: string;
+  auth?: { type: "basic"; username: string; password: string };
+};
+
+export type TransferCfg = {
+  /** Instances in flight across all providers. */
+  concurrency?: number;
+  /** Default per-provider limit; `providers` overrides it for individual clinics. */
+  perProvider?: number;
+  providers?: Record<string, number>;
+};
+
+export type TransferThroughput = {
+  instances: number;
+  bytes: number;
+  elapsedMs: number;
+  instancesPerSec: number;
+  bytesPerSec: number;
+};
+
+type InstanceStream = {
+  stream: Readable;
+  length?: number;
+};
+
+export type TransferResult = {
+  bytes: number;
+  /** 0x-prefixed sha256 of the bytes sent to the target. */
+  sha256: string;
+};
+
+const DEFAULT_CONCURRENCY = 8;
+const DEFAULT_PER_PROVIDER = 4;
+
+/** FIFO semaphore: at most `limit` tasks run at once. */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`concurrency limit must be a positive integer: ${limit}`);
+    }
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      // the slot is handed over without decrementing
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Shared pool for instance transfers. A task takes a slot of its provider first and then a global slot,
+ * so one slow provider cannot occupy the whole pool.
+ */
+export class TransferPool {
+  private readonly global: ConcurrencyLimiter;
+  private readonly perProvider = new Map<string, ConcurrencyLimiter>();
+
+  constructor(private readonly cfg: TransferCfg = {}) {
+    this.global = new ConcurrencyLimiter(cfg.concurrency ?? DEFAULT_CONCURRENCY);
+  }
+
+  run<T>(providerId: string, task: () => Promise<T>): Promise<T> {
+    return this.providerLimiter(providerId).run(() => this.global.run(task));
+  }
+
+  private providerLimiter(providerId: string): ConcurrencyLimiter {
+    let limiter = this.perProvider.get(providerId);
+    if (!limiter) {
+      const limit = this.cfg.providers?.[providerId] ?? this.cfg.perProvider ?? DEFAULT_PER_PROVIDER;
+      limiter = new ConcurrencyLimiter(Math.min(limit, this.global.limit));
+      this.perProvider.set(providerId, limiter);
+    }
+    return limiter;
+  }
+}
+
+/** Counts completed instances and transferred bytes for one copy attempt. */
+export class TransferMeter {
+  private readonly startedAt = Date.now();
+  private instances = 0;
+  private bytes = 0;
+
+  add(bytes: number) {
+    this.instances++;
+    this.bytes += bytes;
+  }
+
+  snapshot(): TransferThroughput {
+    const elapsedMs = Math.max(1, Date.now() - this.startedAt);
+    return {
+      instances: this.instances,
+      bytes: this.bytes,
+      elapsedMs,
+      instancesPerSec: round2((this.instances * 1000) / elapsedMs),
+      bytesPerSec: Math.round((this.bytes * 1000) / elapsedMs),
+    };
+  }
+}
+
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
+}
+
+function makeClient(ep: TransferEndpoint): AxiosInstance {
+  const auth =
+    ep.auth?.type === "basic" ? { username: ep.auth.username, password: ep.auth.password } : undefined;
+  return axios.create({
+    baseURL: ep.baseUrl.replace(/\/+$/, ""),
+    auth,
+    timeout: 30_000,
+  });
+}
+
+function contentLength(headers: unknown): number | undefined {
+  const raw = headers && typeof headers === "object" ? (headers as Record<string, unknown>)["content-length"] : undefined;
+  const n = raw === undefined ? NaN : Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+async function openStream(http: AxiosInstance, url: string): Promise<InstanceStream> {
+  try {
+    const res = await http.get<Readable>(url, {
+      responseType: "stream",
+      headers: { Accept: "application/dicom" },
+    });
+    return { stream: res.data, length: contentLength(res.headers) };
+  } catch (e) {
+    if (!axios.isAxiosError(e) || !e.response) throw e;
+    // the error body is a stream as well; drop it so the socket is released
+    const body: unknown = e.response.data;
+    if (body instanceof Readable) body.destroy();
+    throw new Error(`HTTP ${e.response.status} ${e.response.statusText ?? ""} GET ${url}`.trim());
+  }
+}
+
+export function openWadoInstance(
+  wado: TransferEndpoint,
+  uids: { sop: string; study: string; series: string }
+): Promise<InstanceStream> {
+  const url = `/dicom-web/studies/${encodeURIComponent(uids.study)}/series/${encodeURIComponent(
+    uids.series
+  )}/instances/${encodeURIComponent(uids.sop)}`;
+  return openStream(makeClient(wado), url);
+}
+
+export async function openRestInstance(rest: TransferEndpoint, sopUid: string): Promise<InstanceStream> {
+  const http = makeClient(rest);
+  const lookupRes = await http.post(`/tools/lookup`, sopUid, {
+    headers: { "Content-Type": "text/plain" },
+  });
+  const payload = Array.isArray(lookupRes.data) ? lookupRes.data : [];
+  const first = payload.find((item) => typeof item === "string" || typeof item?.ID === "string");
+  const instanceId = typeof first === "string" ? first : first?.ID;
+  if (!instanceId) {
+    throw new Error(`REST lookup did not return Orthanc ID for SOP=${sopUid}`);
+  }
+  return openStream(http, `/instances/${encodeURIComponent(instanceId)}/file`);
+}
+
+/**
+ * Pipes an instance stream into `POST /instances` of the target Orthanc without buffering the file.
+ * Size and content hash are computed on the way through.
+ */
+export async function streamToOrthanc(target: TransferEndpoint, source: InstanceStream): Promise<TransferResult> {
+  let bytes = 0;
+  const digest = createHash("sha256");
+  const counter = new Transform({
+    transform(chunk: Buffer, _enc, done) {
+      bytes += chunk.length;
+      digest.update(chunk);
+      done(null, chunk);
+    },
+  });
+  source.stream.on("error", (e) => counter.destroy(e));
+  source.stream.pipe(counter);
+
+  const headers: Record<string, string> = { "Content-Type": "application/dicom" };
+  if (source.length !== undefined) headers["Content-Length"] = String(source.length);
+  try {
+    await makeClient(target).post(`/instances`, counter, {
+      headers,
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity,
+    });
+  } finally {
+    source.stream.destroy();
+  }
+  return { bytes, sha256: `0x${digest.digest("hex")}` };
+}